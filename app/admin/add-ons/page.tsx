@@ -0,0 +1,515 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeftIcon, PlusIcon, PencilIcon, TrashIcon, PackageIcon, TagIcon } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/app/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/app/components/ui/dialog";
+import { formatMoney, fromMinorUnits } from '@/app/lib/currency';
+
+interface Vehicle {
+  id: string;
+  model: string;
+}
+
+interface AddOn {
+  id: string;
+  name: string;
+  description: string | null;
+  priceType: 'per_day' | 'flat';
+  price: number;
+  inventory: number | null;
+  maxQuantity: number;
+  active: boolean;
+  applyToAll: boolean;
+  vehicles: { id: string; model: string }[];
+}
+
+// Values of the create/edit form, as the inputs hold them
+interface AddOnForm {
+  name: string;
+  description: string;
+  priceType: 'per_day' | 'flat';
+  price: string;
+  inventory: string;
+  maxQuantity: string;
+  active: boolean;
+  applyToAll: boolean;
+  vehicleIds: string[];
+}
+
+const EMPTY_FORM: AddOnForm = {
+  name: '',
+  description: '',
+  priceType: 'per_day',
+  price: '',
+  inventory: '',
+  maxQuantity: '1',
+  active: true,
+  applyToAll: true,
+  vehicleIds: []
+};
+
+// Fill the form from an existing add-on
+function toForm(addOn: AddOn): AddOnForm {
+  return {
+    name: addOn.name,
+    description: addOn.description || '',
+    priceType: addOn.priceType,
+    price: String(fromMinorUnits(addOn.price)),
+    inventory: addOn.inventory !== null ? String(addOn.inventory) : '',
+    maxQuantity: String(addOn.maxQuantity),
+    active: addOn.active,
+    applyToAll: addOn.applyToAll,
+    vehicleIds: addOn.vehicles.map(vehicle => vehicle.id)
+  };
+}
+
+// Describe the price, e.g. "$15/day" or "$60 per booking"
+function formatAddOnPrice(addOn: Pick<AddOn, 'priceType' | 'price'>) {
+  return addOn.priceType === 'flat' ? `${formatMoney(addOn.price)} per booking` : `${formatMoney(addOn.price)}/day`;
+}
+
+export default function AdminAddOnsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [isLoading, setIsLoading] = useState(true);
+  const [addOns, setAddOns] = useState<AddOn[]>([]);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Create/edit state
+  const [formDialogOpen, setFormDialogOpen] = useState(false);
+  const [editingAddOn, setEditingAddOn] = useState<AddOn | null>(null);
+  const [form, setForm] = useState<AddOnForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Deletion state
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [selectedAddOn, setSelectedAddOn] = useState<AddOn | null>(null);
+
+  const isAdmin = session?.user?.isAdmin === true;
+
+  // Redirect if user is not authenticated or not an admin
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login?callbackUrl=/admin/add-ons');
+      return;
+    }
+
+    if (status === 'authenticated' && !isAdmin) {
+      router.push('/');
+      return;
+    }
+
+    if (status === 'authenticated' && isAdmin) {
+      fetchAddOns();
+      fetchVehicles();
+    }
+  }, [status, isAdmin, router]);
+
+  const fetchAddOns = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/admin/add-ons');
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch add-ons');
+      }
+
+      const data = await response.json();
+      setAddOns(data.addOns || []);
+    } catch (err) {
+      console.error('Error fetching add-ons:', err);
+      setError('Failed to load add-ons. Please try again later.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const fetchVehicles = async () => {
+    try {
+      const response = await fetch('/api/admin/vehicles');
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch vehicles');
+      }
+
+      const data = await response.json();
+      setVehicles(data.vehicles || []);
+    } catch (err) {
+      console.error('Error fetching vehicles:', err);
+    }
+  };
+
+  const openForm = (addOn: AddOn | null) => {
+    setEditingAddOn(addOn);
+    setForm(addOn ? toForm(addOn) : EMPTY_FORM);
+    setFormDialogOpen(true);
+  };
+
+  const updateForm = (changes: Partial<AddOnForm>) => {
+    setForm(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(
+        editingAddOn ? `/api/admin/add-ons/${editingAddOn.id}` : '/api/admin/add-ons',
+        {
+          method: editingAddOn ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            ...form,
+            vehicleIds: form.applyToAll ? [] : form.vehicleIds
+          })
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save add-on');
+      }
+
+      setAddOns(editingAddOn
+        ? addOns.map(addOn => addOn.id === editingAddOn.id ? data.addOn : addOn)
+        : [...addOns, data.addOn].sort((a, b) => a.name.localeCompare(b.name)));
+      setFormDialogOpen(false);
+      setEditingAddOn(null);
+      toast.success(`${data.addOn.name} saved`);
+    } catch (err) {
+      console.error('Error saving add-on:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to save add-on');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedAddOn) return;
+
+    try {
+      const response = await fetch(`/api/admin/add-ons/${selectedAddOn.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to delete add-on');
+      }
+
+      setAddOns(addOns.filter(addOn => addOn.id !== selectedAddOn.id));
+      setDeleteDialogOpen(false);
+      setSelectedAddOn(null);
+    } catch (err) {
+      console.error('Error deleting add-on:', err);
+      setError('Failed to delete add-on. Please try again.');
+    }
+  };
+
+  const header = (
+    <div className="flex items-center justify-between mb-6">
+      <div className="flex items-center">
+        <Link href="/admin" className="mr-4">
+          <Button variant="outline" size="icon">
+            <ArrowLeftIcon className="h-4 w-4" />
+          </Button>
+        </Link>
+        <h1 className="text-2xl font-bold">Add-ons</h1>
+      </div>
+      <div className="flex space-x-2">
+        <Link href="/admin/promo-codes">
+          <Button variant="outline">
+            <TagIcon className="h-4 w-4 mr-2" />
+            Promo Codes
+          </Button>
+        </Link>
+        <Button className="bg-red-600 hover:bg-red-700" onClick={() => openForm(null)}>
+          <PlusIcon className="h-4 w-4 mr-2" />
+          Add Add-on
+        </Button>
+      </div>
+    </div>
+  );
+
+  if (status === 'loading' || isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        {header}
+        <p>Loading add-ons...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {header}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-6">
+          {error}
+        </div>
+      )}
+
+      {addOns.length === 0 ? (
+        <div className="text-center py-12 bg-gray-50 rounded-lg">
+          <PackageIcon className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-lg font-medium text-gray-900">No add-ons</h3>
+          <p className="mt-1 text-sm text-gray-500">Create extras customers can add when booking.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full border-collapse">
+              <thead>
+                <tr className="bg-gray-50 border-b">
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Price</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Inventory</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Per Booking</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Applies To</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {addOns.map((addOn) => (
+                  <tr key={addOn.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">
+                        {addOn.name}
+                        {!addOn.active && (
+                          <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-600">Inactive</span>
+                        )}
+                      </div>
+                      {addOn.description && (
+                        <div className="text-xs text-gray-500">{addOn.description}</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatAddOnPrice(addOn)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {addOn.inventory !== null ? `${addOn.inventory} units` : 'Unlimited'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">Up to {addOn.maxQuantity}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {addOn.applyToAll
+                        ? 'All Vehicles'
+                        : `${addOn.vehicles.length} vehicle${addOn.vehicles.length !== 1 ? 's' : ''}`}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      <div className="flex space-x-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="text-blue-600 hover:text-blue-800"
+                          onClick={() => openForm(addOn)}
+                        >
+                          <PencilIcon className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="text-red-600 hover:text-red-800"
+                          onClick={() => {
+                            setSelectedAddOn(addOn);
+                            setDeleteDialogOpen(true);
+                          }}
+                        >
+                          <TrashIcon className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Create/Edit Dialog */}
+      <Dialog open={formDialogOpen} onOpenChange={setFormDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingAddOn ? 'Edit Add-on' : 'Add Add-on'}</DialogTitle>
+            <DialogDescription>
+              Customers can add it to their booking on the booking page.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4 max-h-[60vh] overflow-y-auto">
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-sm font-medium mb-1">Name</label>
+                <input
+                  type="text"
+                  className="w-full px-3 py-2 border rounded-md"
+                  placeholder="e.g., Child seat"
+                  value={form.name}
+                  onChange={(e) => updateForm({ name: e.target.value })}
+                />
+              </div>
+              <div className="flex items-end pb-2">
+                <input
+                  type="checkbox"
+                  id="add-on-active"
+                  checked={form.active}
+                  onChange={(e) => updateForm({ active: e.target.checked })}
+                  className="mr-2"
+                />
+                <label htmlFor="add-on-active" className="text-sm font-medium">Active</label>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1">Description</label>
+              <input
+                type="text"
+                className="w-full px-3 py-2 border rounded-md"
+                placeholder="Shown to the customer on the booking page"
+                value={form.description}
+                onChange={(e) => updateForm({ description: e.target.value })}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-sm font-medium mb-1">Charged</label>
+                <select
+                  className="w-full px-3 py-2 border rounded-md"
+                  value={form.priceType}
+                  onChange={(e) => updateForm({ priceType: e.target.value as 'per_day' | 'flat' })}
+                >
+                  <option value="per_day">Per day</option>
+                  <option value="flat">Once per booking</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Price ($)</label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  className="w-full px-3 py-2 border rounded-md"
+                  placeholder="e.g., 15"
+                  value={form.price}
+                  onChange={(e) => updateForm({ price: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Units in stock</label>
+                <input
+                  type="number"
+                  min={0}
+                  className="w-full px-3 py-2 border rounded-md"
+                  placeholder="Unlimited"
+                  value={form.inventory}
+                  onChange={(e) => updateForm({ inventory: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Most per booking</label>
+                <input
+                  type="number"
+                  min={1}
+                  className="w-full px-3 py-2 border rounded-md"
+                  value={form.maxQuantity}
+                  onChange={(e) => updateForm({ maxQuantity: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center mb-2">
+                <input
+                  type="checkbox"
+                  id="add-on-all-vehicles"
+                  checked={form.applyToAll}
+                  onChange={(e) => updateForm({ applyToAll: e.target.checked })}
+                  className="mr-2"
+                />
+                <label htmlFor="add-on-all-vehicles" className="text-sm font-medium">
+                  Offered for all vehicles
+                </label>
+              </div>
+
+              {!form.applyToAll && (
+                <div className="max-h-40 overflow-y-auto border rounded-md p-2">
+                  {vehicles.map(vehicle => (
+                    <div key={vehicle.id} className="flex items-center mb-2">
+                      <input
+                        type="checkbox"
+                        id={`add-on-vehicle-${vehicle.id}`}
+                        checked={form.vehicleIds.includes(vehicle.id)}
+                        onChange={() => updateForm({
+                          vehicleIds: form.vehicleIds.includes(vehicle.id)
+                            ? form.vehicleIds.filter(id => id !== vehicle.id)
+                            : [...form.vehicleIds, vehicle.id]
+                        })}
+                        className="mr-2"
+                      />
+                      <label htmlFor={`add-on-vehicle-${vehicle.id}`}>{vehicle.model}</label>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              className="bg-red-600 hover:bg-red-700"
+              disabled={
+                isSaving || !form.name.trim() || form.price === '' || !form.maxQuantity ||
+                (!form.applyToAll && form.vehicleIds.length === 0)
+              }
+              onClick={handleSave}
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Add-on</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete this add-on? Bookings that included it keep it. To stop offering it for now, mark it inactive instead.
+            </DialogDescription>
+          </DialogHeader>
+          {selectedAddOn && (
+            <div className="py-4">
+              <p className="font-medium">{selectedAddOn.name}</p>
+              <p className="text-sm text-gray-500">{formatAddOnPrice(selectedAddOn)}</p>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete}>
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
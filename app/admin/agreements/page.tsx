@@ -0,0 +1,327 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { ArrowLeftIcon, PlusIcon, PencilIcon, TrashIcon, FileSignatureIcon } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/app/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/app/components/ui/dialog";
+import {
+  AGREEMENT_PLACEHOLDERS,
+  AgreementPlaceholder,
+  DEFAULT_AGREEMENT_TEMPLATE
+} from '@/app/lib/agreement-templates';
+
+interface AgreementTemplate {
+  id: string;
+  name: string;
+  body: string;
+  active: boolean;
+  updatedAt: string;
+}
+
+// Values of the create/edit form, as the inputs hold them
+interface TemplateForm {
+  name: string;
+  body: string;
+  active: boolean;
+}
+
+// New templates start from the built-in agreement
+const EMPTY_FORM: TemplateForm = {
+  name: '',
+  body: DEFAULT_AGREEMENT_TEMPLATE,
+  active: true
+};
+
+export default function AdminAgreementsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [isLoading, setIsLoading] = useState(true);
+  const [templates, setTemplates] = useState<AgreementTemplate[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Create/edit state
+  const [formDialogOpen, setFormDialogOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<AgreementTemplate | null>(null);
+  const [form, setForm] = useState<TemplateForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isAdmin = session?.user?.isAdmin === true;
+  const activeTemplate = templates.find(template => template.active);
+
+  // Redirect if user is not authenticated or not an admin
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login?callbackUrl=/admin/agreements');
+      return;
+    }
+
+    if (status === 'authenticated' && !isAdmin) {
+      router.push('/');
+      return;
+    }
+
+    if (status === 'authenticated' && isAdmin) {
+      fetchTemplates();
+    }
+  }, [status, isAdmin, router]);
+
+  const fetchTemplates = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/admin/agreement-templates');
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch agreement templates');
+      }
+
+      const data = await response.json();
+      setTemplates(data.templates || []);
+    } catch (err) {
+      console.error('Error fetching agreement templates:', err);
+      setError('Failed to load agreement templates. Please try again later.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openForm = (template: AgreementTemplate | null) => {
+    setEditingTemplate(template);
+    setForm(template ? { name: template.name, body: template.body, active: template.active } : EMPTY_FORM);
+    setFormDialogOpen(true);
+  };
+
+  const updateForm = (changes: Partial<TemplateForm>) => {
+    setForm(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(
+        editingTemplate ? `/api/admin/agreement-templates/${editingTemplate.id}` : '/api/admin/agreement-templates',
+        {
+          method: editingTemplate ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(form)
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save agreement template');
+      }
+
+      // Activating a template deactivates the others, so reload the list
+      setFormDialogOpen(false);
+      setEditingTemplate(null);
+      toast.success(`${data.template.name} saved`);
+      fetchTemplates();
+    } catch (err) {
+      console.error('Error saving agreement template:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to save agreement template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: AgreementTemplate) => {
+    if (!confirm(`Delete the ${template.name} template? Agreements already filled from it keep their text.`)) return;
+
+    try {
+      const response = await fetch(`/api/admin/agreement-templates/${template.id}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        throw new Error('Failed to delete agreement template');
+      }
+
+      setTemplates(templates.filter(item => item.id !== template.id));
+    } catch (err) {
+      console.error('Error deleting agreement template:', err);
+      toast.error('Failed to delete agreement template');
+    }
+  };
+
+  const header = (
+    <div className="flex items-center justify-between mb-6">
+      <div className="flex items-center">
+        <Link href="/admin" className="mr-4">
+          <Button variant="outline" size="icon">
+            <ArrowLeftIcon className="h-4 w-4" />
+          </Button>
+        </Link>
+        <h1 className="text-2xl font-bold">Rental Agreements</h1>
+      </div>
+      <Button className="bg-red-600 hover:bg-red-700" onClick={() => openForm(null)}>
+        <PlusIcon className="h-4 w-4 mr-2" />
+        Add Template
+      </Button>
+    </div>
+  );
+
+  if (status === 'loading' || isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        {header}
+        <p>Loading agreement templates...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {header}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-6">
+          {error}
+        </div>
+      )}
+
+      <p className="text-sm text-gray-500 mb-4">
+        {activeTemplate
+          ? `Renters sign the ${activeTemplate.name} template. `
+          : 'No template is active, so renters sign the built-in agreement. '}
+        Unsigned agreements pick up template changes; signed ones never change.
+      </p>
+
+      {templates.length === 0 ? (
+        <div className="text-center py-12 bg-gray-50 rounded-lg">
+          <FileSignatureIcon className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-lg font-medium text-gray-900">No agreement templates</h3>
+          <p className="mt-1 text-sm text-gray-500">Add a template to use your own rental terms.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full border-collapse">
+              <thead>
+                <tr className="bg-gray-50 border-b">
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Updated</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {templates.map((template) => (
+                  <tr key={template.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {template.name}
+                      {template.active && (
+                        <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-800">Active</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {format(new Date(template.updatedAt), 'MMM d, yyyy')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      <div className="flex space-x-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="text-blue-600 hover:text-blue-800"
+                          onClick={() => openForm(template)}
+                        >
+                          <PencilIcon className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="text-red-600 hover:text-red-800"
+                          onClick={() => handleDelete(template)}
+                        >
+                          <TrashIcon className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Create/Edit Dialog */}
+      <Dialog open={formDialogOpen} onOpenChange={setFormDialogOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{editingTemplate ? 'Edit Template' : 'Add Template'}</DialogTitle>
+            <DialogDescription>
+              Placeholders in double braces are filled in from each booking.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-sm font-medium mb-1">Name</label>
+                <input
+                  type="text"
+                  className="w-full px-3 py-2 border rounded-md"
+                  placeholder="e.g., Standard rental terms"
+                  value={form.name}
+                  onChange={(e) => updateForm({ name: e.target.value })}
+                />
+              </div>
+              <div className="flex items-end pb-2">
+                <input
+                  type="checkbox"
+                  id="template-active"
+                  checked={form.active}
+                  onChange={(e) => updateForm({ active: e.target.checked })}
+                  className="mr-2"
+                />
+                <label htmlFor="template-active" className="text-sm font-medium">Active (renters sign this one)</label>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1">Agreement</label>
+              <textarea
+                rows={14}
+                className="w-full px-3 py-2 border rounded-md font-mono text-sm"
+                value={form.body}
+                onChange={(e) => updateForm({ body: e.target.value })}
+              />
+            </div>
+
+            <div>
+              <p className="text-xs font-medium text-gray-500 mb-1">Placeholders</p>
+              <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-gray-500">
+                {(Object.keys(AGREEMENT_PLACEHOLDERS) as AgreementPlaceholder[]).map(name => (
+                  <div key={name}>
+                    <code className="text-gray-700">{`{{${name}}}`}</code> {AGREEMENT_PLACEHOLDERS[name]}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              className="bg-red-600 hover:bg-red-700"
+              disabled={isSaving || !form.name.trim() || !form.body.trim()}
+              onClick={handleSave}
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -15,12 +15,24 @@ import {
   MailIcon,
   PhoneIcon,
   CheckIcon,
-  XIcon
+  XIcon,
+  TagIcon,
+  PackageIcon,
+  ShieldIcon,
+  ReceiptIcon,
+  DownloadIcon
 } from 'lucide-react';
 import { Button } from '@/app/components/ui/button';
+import { Input } from '@/app/components/ui/input';
+import { Label } from '@/app/components/ui/label';
+import BookingLedger, { BookingLedgerEntry } from '@/app/components/bookings/BookingLedger';
+import { RentalAgreementSummary } from '@/app/components/bookings/RentalAgreement';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/app/components/ui/card';
 import { Skeleton } from '@/app/components/ui/skeleton';
 import { ChatInterface } from '@/app/components/ui/ChatInterface';
+import { BookingStatus, formatBookingStatus, getNextBookingStatuses } from '@/app/lib/booking-status';
+import { protectionPlanName } from '@/app/lib/protection-plans';
+import { formatMoney, toMinorUnits } from '@/app/lib/currency';
 
 // Define types for our data
 interface Vehicle {
@@ -38,17 +50,84 @@ interface User {
   phone: string | null;
 }
 
+interface StatusChange {
+  id: string;
+  fromStatus: string | null;
+  toStatus: string;
+  note: string | null;
+  createdAt: string;
+  changedBy: { id: string; name: string | null; email: string | null } | null;
+}
+
+interface Payment {
+  id: string;
+  amount: number;
+  amountRefunded: number;
+  currency: string;
+  status: string;
+  failureMessage: string | null;
+  disputeStatus: string | null;
+  stripePaymentIntentId: string | null;
+  createdAt: string;
+}
+
+// Extra booked with the rental, priced when it was booked
+interface BookingAddOn {
+  id: string;
+  name: string;
+  priceType: string;
+  quantity: number;
+  amount: number;
+}
+
+// Fee and tax lines charged on the booking
+interface BookingCharge {
+  id: string;
+  name: string;
+  amount: number;
+}
+
+interface BookingTax extends BookingCharge {
+  percentage: number;
+}
+
 interface Booking {
   id: string;
   startDate: string;
   endDate: string;
   totalPrice: number;
+  currency: string;
   status: string;
   vehicle: Vehicle;
   user: User;
   createdAt: string;
+  securityDeposit: number;
+  depositStatus: 'pending' | 'held' | 'failed' | 'captured' | 'released' | null;
+  discountAmount: number;
+  promoCode: { id: string; code: string } | null;
+  addOns: BookingAddOn[];
+  fees: BookingCharge[];
+  taxes: BookingTax[];
+  protectionPlan: string | null;
+  protectionAmount: number;
+  deductible: number | null;
+  statusChanges: StatusChange[];
+  payments: Payment[];
+  ledgerEntries: BookingLedgerEntry[];
+  agreement: RentalAgreementSummary | null;
 }
 
+// Button labels for moving a booking into each status
+const STATUS_ACTION_LABELS: Record<BookingStatus, string> = {
+  pending: 'Mark Pending',
+  confirmed: 'Confirm',
+  active: 'Start Rental',
+  completed: 'Complete',
+  cancelled: 'Cancel',
+  no_show: 'No-show',
+  refunded: 'Mark Refunded',
+};
+
 export default function AdminBookingDetailsPage({ params }: { params: { id: string } }) {
   const { data: session, status } = useSession();
   const router = useRouter();
@@ -56,6 +135,11 @@ export default function AdminBookingDetailsPage({ params }: { params: { id: stri
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [statusUpdateLoading, setStatusUpdateLoading] = useState(false);
+  const [adjustmentAmount, setAdjustmentAmount] = useState('');
+  const [adjustmentDescription, setAdjustmentDescription] = useState('');
+  const [adjustmentLoading, setAdjustmentLoading] = useState(false);
+  const [depositItems, setDepositItems] = useState([{ description: '', amount: '' }]);
+  const [depositLoading, setDepositLoading] = useState(false);
 
   useEffect(() => {
     // Redirect to login if not authenticated
@@ -108,21 +192,91 @@ export default function AdminBookingDetailsPage({ params }: { params: { id: stri
       });
 
       if (!response.ok) {
-        throw new Error('Failed to update booking status');
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to update booking status');
       }
 
-      // Update the booking in the local state
-      if (booking) {
-        setBooking({ ...booking, status: newStatus });
-      }
+      // The response includes the updated status history
+      const data = await response.json();
+      setBooking(data.booking);
     } catch (err) {
       console.error('Error updating booking status:', err);
-      setError('Failed to update booking status. Please try again.');
+      setError(err instanceof Error ? err.message : 'Failed to update booking status. Please try again.');
     } finally {
       setStatusUpdateLoading(false);
     }
   };
 
+  const handleAddAdjustment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!booking) return;
+
+    setAdjustmentLoading(true);
+    try {
+      const response = await fetch(`/api/admin/bookings/${params.id}/ledger`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          amount: parseFloat(adjustmentAmount),
+          description: adjustmentDescription,
+        }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to record adjustment');
+      }
+
+      setBooking({ ...booking, ledgerEntries: [...booking.ledgerEntries, data.entry] });
+      setAdjustmentAmount('');
+      setAdjustmentDescription('');
+    } catch (err) {
+      console.error('Error recording adjustment:', err);
+      setError(err instanceof Error ? err.message : 'Failed to record adjustment. Please try again.');
+    } finally {
+      setAdjustmentLoading(false);
+    }
+  };
+
+  const updateDepositItem = (index: number, field: 'description' | 'amount', value: string) => {
+    setDepositItems(depositItems.map((item, i) => i === index ? { ...item, [field]: value } : item));
+  };
+
+  const handleDepositAction = async (action: 'capture' | 'release') => {
+    setDepositLoading(true);
+    try {
+      const response = await fetch(`/api/admin/bookings/${params.id}/deposit`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          action,
+          items: action === 'capture'
+            ? depositItems.map(item => ({ description: item.description, amount: parseFloat(item.amount) }))
+            : undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `Failed to ${action} security deposit`);
+      }
+
+      // Reload for the new ledger lines
+      setDepositItems([{ description: '', amount: '' }]);
+      fetchBookingDetails();
+    } catch (err) {
+      console.error('Error updating security deposit:', err);
+      setError(err instanceof Error ? err.message : `Failed to ${action} security deposit. Please try again.`);
+    } finally {
+      setDepositLoading(false);
+    }
+  };
+
   // Format date to readable string
   const formatDate = (dateString: string) => {
     return format(new Date(dateString), 'MMM d, yyyy');
@@ -144,10 +298,15 @@ export default function AdminBookingDetailsPage({ params }: { params: { id: stri
         return 'bg-green-100 text-green-800';
       case 'pending':
         return 'bg-yellow-100 text-yellow-800';
+      case 'active':
+        return 'bg-purple-100 text-purple-800';
       case 'completed':
         return 'bg-blue-100 text-blue-800';
       case 'cancelled':
+      case 'no_show':
         return 'bg-red-100 text-red-800';
+      case 'refunded':
+        return 'bg-orange-100 text-orange-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -238,49 +397,36 @@ export default function AdminBookingDetailsPage({ params }: { params: { id: stri
             <div className="flex justify-between items-start">
               <div>
                 <div className={`inline-block px-2 py-1 rounded-full text-xs font-semibold ${getStatusColor(booking.status)} mb-2`}>
-                  {booking.status}
+                  {formatBookingStatus(booking.status)}
                 </div>
                 <CardTitle className="text-2xl">{booking.vehicle.model}</CardTitle>
                 <CardDescription>Booking Reference: {booking.id.substring(0, 8)}</CardDescription>
               </div>
               
               <div className="flex space-x-2">
-                {booking.status !== 'confirmed' && (
+                {/* Only offer the moves the booking lifecycle allows */}
+                {getNextBookingStatuses(booking.status).map((nextStatus) => (
                   <Button 
+                    key={nextStatus}
                     variant="outline" 
                     size="sm" 
-                    className="bg-green-100 text-green-800 hover:bg-green-200"
-                    onClick={() => handleStatusChange('confirmed')}
+                    className={getStatusColor(nextStatus)}
+                    onClick={() => handleStatusChange(nextStatus)}
                     disabled={statusUpdateLoading}
                   >
-                    <CheckIcon className="h-4 w-4 mr-1" />
-                    Confirm
+                    {nextStatus === 'confirmed' && <CheckIcon className="h-4 w-4 mr-1" />}
+                    {nextStatus === 'cancelled' && <XIcon className="h-4 w-4 mr-1" />}
+                    {STATUS_ACTION_LABELS[nextStatus]}
                   </Button>
-                )}
+                ))}
                 
-                {booking.status !== 'completed' && booking.status !== 'cancelled' && (
-                  <Button 
-                    variant="outline" 
-                    size="sm" 
-                    className="bg-blue-100 text-blue-800 hover:bg-blue-200"
-                    onClick={() => handleStatusChange('completed')}
-                    disabled={statusUpdateLoading}
-                  >
-                    Complete
-                  </Button>
-                )}
-                
-                {booking.status !== 'cancelled' && (
-                  <Button 
-                    variant="outline" 
-                    size="sm" 
-                    className="bg-red-100 text-red-800 hover:bg-red-200"
-                    onClick={() => handleStatusChange('cancelled')}
-                    disabled={statusUpdateLoading}
-                  >
-                    <XIcon className="h-4 w-4 mr-1" />
-                    Cancel
-                  </Button>
+                {booking.status !== 'pending' && (
+                  <a href={`/api/bookings/${booking.id}/invoice`} download>
+                    <Button variant="outline" size="sm">
+                      <DownloadIcon className="h-4 w-4 mr-1" />
+                      Invoice
+                    </Button>
+                  </a>
                 )}
               </div>
             </div>
@@ -302,8 +448,42 @@ export default function AdminBookingDetailsPage({ params }: { params: { id: stri
                   </div>
                   <div className="flex items-center text-sm">
                     <CreditCardIcon className="mr-2 h-4 w-4 opacity-70" />
-                    <span>${booking.totalPrice.toFixed(2)}</span>
+                    <span>{formatMoney(booking.totalPrice, booking.currency)}</span>
                   </div>
+                  {booking.discountAmount > 0 && (
+                    <div className="flex items-center text-sm text-green-700">
+                      <TagIcon className="mr-2 h-4 w-4 opacity-70" />
+                      <span>
+                        {formatMoney(booking.discountAmount, booking.currency)} discount{booking.promoCode && ` (${booking.promoCode.code})`}
+                      </span>
+                    </div>
+                  )}
+                  {booking.protectionPlan && (
+                    <div className="flex items-center text-sm">
+                      <ShieldIcon className="mr-2 h-4 w-4 opacity-70" />
+                      <span>
+                        {protectionPlanName(booking.protectionPlan)} protection: {formatMoney(booking.protectionAmount, booking.currency)}
+                        {booking.deductible !== null && ` (${formatMoney(booking.deductible, booking.currency)} deductible)`}
+                      </span>
+                    </div>
+                  )}
+                  {booking.addOns.map((addOn) => (
+                    <div key={addOn.id} className="flex items-center text-sm">
+                      <PackageIcon className="mr-2 h-4 w-4 opacity-70" />
+                      <span>
+                        {addOn.name}{addOn.quantity > 1 && ` × ${addOn.quantity}`}
+                        {' '}({addOn.priceType === 'flat' ? 'per booking' : 'per day'}): {formatMoney(addOn.amount, booking.currency)}
+                      </span>
+                    </div>
+                  ))}
+                  {[...booking.fees, ...booking.taxes].map((charge) => (
+                    <div key={charge.id} className="flex items-center text-sm">
+                      <ReceiptIcon className="mr-2 h-4 w-4 opacity-70" />
+                      <span>
+                        {charge.name}{'percentage' in charge && ` (${charge.percentage}%)`}: {formatMoney(charge.amount, booking.currency)}
+                      </span>
+                    </div>
+                  ))}
                 </div>
               </div>
               
@@ -351,6 +531,228 @@ export default function AdminBookingDetailsPage({ params }: { params: { id: stri
           </CardContent>
         </Card>
         
+        <Card className="mt-8">
+          <CardHeader>
+            <CardTitle className="text-lg">Rental Agreement</CardTitle>
+            <CardDescription>The rental can only start once the renter has signed it</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {booking.agreement?.signedAt ? (
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-gray-600">
+                  Signed by {booking.agreement.signerName} on {format(new Date(booking.agreement.signedAt), 'MMM d, yyyy h:mm a')} from {booking.agreement.signedIp}
+                </p>
+                <a href={`/api/bookings/${booking.id}/agreement/pdf`} download>
+                  <Button variant="outline" size="sm">
+                    <DownloadIcon className="h-4 w-4 mr-1" />
+                    Signed Agreement
+                  </Button>
+                </a>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">Not signed yet. The renter signs it from their booking page.</p>
+            )}
+          </CardContent>
+        </Card>
+        
+        <Card className="mt-8">
+          <CardHeader>
+            <CardTitle className="text-lg">Payments</CardTitle>
+            <CardDescription>Stripe payments, refunds and disputes for this booking</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {booking.payments.length === 0 ? (
+              <p className="text-sm text-gray-500">No payments recorded yet.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="pb-2 font-medium">Date</th>
+                    <th className="pb-2 font-medium">Amount</th>
+                    <th className="pb-2 font-medium">Refunded</th>
+                    <th className="pb-2 font-medium">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {booking.payments.map((payment) => (
+                    <tr key={payment.id} className="border-t">
+                      <td className="py-2">{format(new Date(payment.createdAt), 'MMM d, yyyy h:mm a')}</td>
+                      <td className="py-2">{formatMoney(payment.amount, payment.currency)} {payment.currency.toUpperCase()}</td>
+                      <td className="py-2">{payment.amountRefunded > 0 ? formatMoney(payment.amountRefunded, payment.currency) : '-'}</td>
+                      <td className="py-2">
+                        <span className="capitalize">{payment.status.replace(/_/g, ' ')}</span>
+                        {payment.disputeStatus && (
+                          <span className="text-gray-500"> (dispute: {payment.disputeStatus.replace(/_/g, ' ')})</span>
+                        )}
+                        {payment.failureMessage && (
+                          <p className="text-xs text-red-600">{payment.failureMessage}</p>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+        
+        {booking.securityDeposit > 0 && (
+          <Card className="mt-8">
+            <CardHeader>
+              <CardTitle className="text-lg">Security Deposit</CardTitle>
+              <CardDescription>
+                {formatMoney(booking.securityDeposit, booking.currency)} &middot; <span className="capitalize">{booking.depositStatus || 'not placed'}</span>
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {booking.depositStatus === 'held' ? (
+                <div className="space-y-3">
+                  <p className="text-sm text-gray-600">
+                    Charge damage, tolls or cleaning against the hold. Everything is captured at once and the rest is released.
+                  </p>
+                  {depositItems.map((item, index) => (
+                    <div key={index} className="grid gap-2 md:grid-cols-[1fr_10rem_auto] items-end">
+                      <Input
+                        value={item.description}
+                        onChange={(e) => updateDepositItem(index, 'description', e.target.value)}
+                        placeholder="e.g. Interior cleaning"
+                      />
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={item.amount}
+                        onChange={(e) => updateDepositItem(index, 'amount', e.target.value)}
+                        placeholder="Amount ($)"
+                      />
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() => setDepositItems(depositItems.filter((_, i) => i !== index))}
+                        disabled={depositItems.length === 1}
+                      >
+                        <XIcon className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <div className="flex flex-wrap gap-2">
+                    <Button
+                      variant="outline"
+                      onClick={() => setDepositItems([...depositItems, { description: '', amount: '' }])}
+                    >
+                      Add Item
+                    </Button>
+                    <Button onClick={() => handleDepositAction('capture')} disabled={depositLoading}>
+                      Capture {formatMoney(toMinorUnits(depositItems.reduce((sum, item) => sum + (parseFloat(item.amount) || 0), 0), booking.currency), booking.currency)}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      className="text-red-600"
+                      onClick={() => handleDepositAction('release')}
+                      disabled={depositLoading}
+                    >
+                      Release Hold
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">
+                  {booking.depositStatus === 'pending' && 'The hold is placed on the card saved at checkout 48 hours before pickup.'}
+                  {booking.depositStatus === 'failed' && 'The card authorization failed. Collect the deposit from the customer another way.'}
+                  {booking.depositStatus === 'captured' && 'The deposit has been captured; see the ledger for the charged items.'}
+                  {booking.depositStatus === 'released' && 'The hold was released without a charge.'}
+                  {!booking.depositStatus && 'No deposit hold was placed for this booking.'}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+        
+        <Card className="mt-8">
+          <CardHeader>
+            <CardTitle className="text-lg">Ledger</CardTitle>
+            <CardDescription>Every charge, refund, deposit and adjustment with the running balance</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <BookingLedger
+              entries={booking.ledgerEntries}
+              totalPrice={booking.totalPrice}
+              currency={booking.currency}
+              showBalanceDue={!['cancelled', 'no_show', 'refunded'].includes(booking.status)}
+              showCreatedBy
+            />
+            <form onSubmit={handleAddAdjustment} className="mt-6 grid gap-3 md:grid-cols-[10rem_1fr_auto] items-end">
+              <div>
+                <Label htmlFor="adjustmentAmount">Adjustment ($)</Label>
+                <Input
+                  id="adjustmentAmount"
+                  type="number"
+                  step="0.01"
+                  value={adjustmentAmount}
+                  onChange={(e) => setAdjustmentAmount(e.target.value)}
+                  placeholder="-25.00"
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="adjustmentDescription">Description</Label>
+                <Input
+                  id="adjustmentDescription"
+                  value={adjustmentDescription}
+                  onChange={(e) => setAdjustmentDescription(e.target.value)}
+                  placeholder="Cash payment received, goodwill credit, ..."
+                  required
+                />
+              </div>
+              <Button type="submit" disabled={adjustmentLoading}>
+                {adjustmentLoading ? 'Saving...' : 'Add Adjustment'}
+              </Button>
+            </form>
+            <p className="text-xs text-gray-500 mt-2">
+              Positive amounts are money received outside Stripe; negative amounts are credits or money paid back.
+            </p>
+          </CardContent>
+        </Card>
+        
+        <Card className="mt-8">
+          <CardHeader>
+            <CardTitle className="text-lg">Status History</CardTitle>
+            <CardDescription>Every status change, oldest first</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {booking.statusChanges.length === 0 ? (
+              <p className="text-sm text-gray-500">No status changes recorded yet.</p>
+            ) : (
+              <ol className="space-y-3">
+                {booking.statusChanges.map((change) => (
+                  <li key={change.id} className="flex items-start justify-between text-sm border-b last:border-b-0 pb-3 last:pb-0">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        {change.fromStatus && (
+                          <>
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${getStatusColor(change.fromStatus)}`}>
+                              {formatBookingStatus(change.fromStatus)}
+                            </span>
+                            <span className="text-gray-400">&rarr;</span>
+                          </>
+                        )}
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${getStatusColor(change.toStatus)}`}>
+                          {formatBookingStatus(change.toStatus)}
+                        </span>
+                      </div>
+                      {change.note && <p className="text-gray-600 mt-1">{change.note}</p>}
+                    </div>
+                    <div className="text-right text-gray-500 shrink-0 ml-4">
+                      <p>{format(new Date(change.createdAt), 'MMM d, yyyy h:mm a')}</p>
+                      <p>{change.changedBy ? (change.changedBy.name || change.changedBy.email) : 'System'}</p>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </CardContent>
+        </Card>
+        
         <div className="mt-8">
           <h2 className="text-xl font-semibold mb-4">Communication with Customer</h2>
           <ChatInterface bookingId={booking.id} />
@@ -8,6 +8,8 @@ import { format } from 'date-fns';
 import { CalendarIcon, PencilIcon, TrashIcon, ArrowLeftIcon, CheckIcon, XIcon } from 'lucide-react';
 import { Button } from '@/app/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/app/components/ui/card';
+import { formatBookingStatus, getNextBookingStatuses } from '@/app/lib/booking-status';
+import { formatMoney } from '@/app/lib/currency';
 
 // Define types for our data
 interface Vehicle {
@@ -28,12 +30,23 @@ interface Booking {
   startDate: string;
   endDate: string;
   totalPrice: number;
+  currency: string;
   status: string;
   vehicle: Vehicle;
   user: User;
   createdAt: string;
 }
 
+// Paid trip extension waiting for approval
+interface ExtensionRequest {
+  id: string;
+  previousEndDate: string;
+  endDate: string;
+  priceDifference: number;
+  createdAt: string;
+  booking: Booking;
+}
+
 export default function AdminBookingsPage() {
   const { data: session, status } = useSession();
   const router = useRouter();
@@ -42,6 +55,8 @@ export default function AdminBookingsPage() {
   const [error, setError] = useState<string | null>(null);
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [deleteConfirmation, setDeleteConfirmation] = useState<string | null>(null);
+  const [extensions, setExtensions] = useState<ExtensionRequest[]>([]);
+  const [extensionLoading, setExtensionLoading] = useState<string | null>(null);
 
   // Redirect if user is not authenticated or not an admin
   useEffect(() => {
@@ -60,6 +75,7 @@ export default function AdminBookingsPage() {
     // Fetch bookings if authenticated and admin
     if (status === 'authenticated' && isAdmin) {
       fetchBookings();
+      fetchExtensions();
     }
   }, [status, session, router]);
 
@@ -82,6 +98,48 @@ export default function AdminBookingsPage() {
     }
   };
 
+  const fetchExtensions = async () => {
+    try {
+      const response = await fetch('/api/admin/booking-extensions');
+      
+      if (!response.ok) {
+        throw new Error('Failed to fetch extension requests');
+      }
+      
+      const data = await response.json();
+      setExtensions(data.extensions);
+    } catch (err) {
+      console.error('Error fetching extension requests:', err);
+    }
+  };
+
+  const handleExtensionDecision = async (extensionId: string, action: 'approve' | 'decline') => {
+    setExtensionLoading(extensionId);
+    try {
+      const response = await fetch(`/api/admin/booking-extensions/${extensionId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action }),
+      });
+      
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || `Failed to ${action} extension`);
+      }
+      
+      // Either way the request is no longer pending; reload the new end dates
+      setExtensions(extensions.filter(extension => extension.id !== extensionId));
+      fetchBookings();
+    } catch (err) {
+      console.error('Error updating extension request:', err);
+      setError(`Failed to ${action} extension. Please try again.`);
+    } finally {
+      setExtensionLoading(null);
+    }
+  };
+
   const handleStatusChange = async (bookingId: string, newStatus: string) => {
     try {
       const response = await fetch(`/api/admin/bookings/${bookingId}`, {
@@ -93,7 +151,8 @@ export default function AdminBookingsPage() {
       });
 
       if (!response.ok) {
-        throw new Error('Failed to update booking status');
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to update booking status');
       }
 
       // Update the booking in the local state
@@ -102,7 +161,7 @@ export default function AdminBookingsPage() {
       ));
     } catch (err) {
       console.error('Error updating booking status:', err);
-      setError('Failed to update booking status. Please try again.');
+      setError(err instanceof Error ? err.message : 'Failed to update booking status. Please try again.');
     }
   };
 
@@ -113,7 +172,9 @@ export default function AdminBookingsPage() {
       });
 
       if (!response.ok) {
-        throw new Error('Failed to delete booking');
+        // e.g. an invoiced booking, which has to be cancelled instead
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to delete booking. Please try again.');
       }
 
       // Remove the booking from the local state
@@ -121,7 +182,7 @@ export default function AdminBookingsPage() {
       setDeleteConfirmation(null);
     } catch (err) {
       console.error('Error deleting booking:', err);
-      setError('Failed to delete booking. Please try again.');
+      setError(err instanceof Error ? err.message : 'Failed to delete booking. Please try again.');
     }
   };
 
@@ -168,6 +229,51 @@ export default function AdminBookingsPage() {
         </div>
       )}
       
+      {extensions.length > 0 && (
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="text-lg">Pending Extension Requests</CardTitle>
+            <CardDescription>Paid extensions waiting for approval. Declining refunds the customer.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {extensions.map((extension) => (
+              <div key={extension.id} className="flex flex-wrap items-center justify-between gap-2 border-b last:border-b-0 pb-3 last:pb-0">
+                <div className="text-sm">
+                  <Link href={`/admin/bookings/${extension.booking.id}`} className="font-medium hover:underline">
+                    {extension.booking.vehicle.model} &middot; {extension.booking.user.name || extension.booking.user.email}
+                  </Link>
+                  <p className="text-gray-600">
+                    Return {formatDate(extension.previousEndDate)} &rarr; {formatDate(extension.endDate)} ({formatMoney(extension.priceDifference, extension.booking.currency)} paid)
+                  </p>
+                </div>
+                <div className="flex space-x-2">
+                  <Button 
+                    variant="outline" 
+                    size="sm"
+                    className="bg-green-100 text-green-800 hover:bg-green-200"
+                    onClick={() => handleExtensionDecision(extension.id, 'approve')}
+                    disabled={extensionLoading === extension.id}
+                  >
+                    <CheckIcon className="h-4 w-4 mr-1" />
+                    Approve
+                  </Button>
+                  <Button 
+                    variant="outline" 
+                    size="sm"
+                    className="bg-red-100 text-red-800 hover:bg-red-200"
+                    onClick={() => handleExtensionDecision(extension.id, 'decline')}
+                    disabled={extensionLoading === extension.id}
+                  >
+                    <XIcon className="h-4 w-4 mr-1" />
+                    Decline
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+      
       <div className="mb-6">
         <div className="flex flex-wrap gap-2">
           <Button 
@@ -190,6 +296,13 @@ export default function AdminBookingsPage() {
           >
             Confirmed
           </Button>
+          <Button 
+            variant={statusFilter === 'active' ? 'default' : 'outline'}
+            onClick={() => setStatusFilter('active')}
+            className="bg-purple-100 text-purple-800 hover:bg-purple-200 hover:text-purple-900"
+          >
+            Active
+          </Button>
           <Button 
             variant={statusFilter === 'completed' ? 'default' : 'outline'}
             onClick={() => setStatusFilter('completed')}
@@ -234,17 +347,17 @@ export default function AdminBookingsPage() {
                   <td className="border p-2">
                     {formatDate(booking.startDate)} - {formatDate(booking.endDate)}
                   </td>
-                  <td className="border p-2">${booking.totalPrice.toFixed(2)}</td>
+                  <td className="border p-2">{formatMoney(booking.totalPrice, booking.currency)}</td>
                   <td className="border p-2">
                     <select
                       value={booking.status}
                       onChange={(e) => handleStatusChange(booking.id, e.target.value)}
                       className="p-1 border rounded"
                     >
-                      <option value="pending">Pending</option>
-                      <option value="confirmed">Confirmed</option>
-                      <option value="completed">Completed</option>
-                      <option value="cancelled">Cancelled</option>
+                      {/* Current status plus the moves the booking lifecycle allows */}
+                      {[booking.status, ...getNextBookingStatuses(booking.status)].map((option) => (
+                        <option key={option} value={option}>{formatBookingStatus(option)}</option>
+                      ))}
                     </select>
                   </td>
                   <td className="border p-2">
@@ -17,7 +17,8 @@ import { useState, useEffect, useRef, useMemo } from 'react';
 import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { format, parseISO, addDays } from 'date-fns';
+import { format, parseISO, addDays, addYears, startOfYear, endOfYear, max as maxDate } from 'date-fns';
+import { toast } from 'sonner';
 import { ArrowLeftIcon, TrashIcon, CheckIcon, XIcon, PlusIcon, CalendarIcon, DollarSignIcon } from 'lucide-react';
 import { Button } from '@/app/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/app/components/ui/card';
@@ -37,6 +38,10 @@ import timeGridPlugin from '@fullcalendar/timegrid';
 import listPlugin from '@fullcalendar/list';
 import interactionPlugin from '@fullcalendar/interaction';
 import { DateSelectArg, EventClickArg } from '@fullcalendar/core';
+import { describeRecurrence, ruleCoveredRanges, WEEKDAY_LABELS, PricingRecurrence, RuleConflict } from '@/app/lib/pricing';
+import { canTransitionBookingStatus } from '@/app/lib/booking-status';
+import { formatMoney, fromMinorUnits } from '@/app/lib/currency';
+import { DEFAULT_PROTECTION_PLAN } from '@/app/lib/protection-plans';
 
 // -------------------------------------------------------
 // Type Definitions
@@ -60,6 +65,7 @@ interface Booking {
   startDate: string;
   endDate: string;
   totalPrice: number;
+  currency: string;
   status: string;
   vehicle: Vehicle;
   user: User;
@@ -82,6 +88,9 @@ interface SpecialPricing {
   priceType: 'multiplier' | 'fixed';
   priceValue: number;
   applyToAll: boolean;
+  recurrence: PricingRecurrence;
+  daysOfWeek: number[];
+  priority: number;
   vehicles: { id: string; model: string }[];
   createdAt: string;
   updatedAt: string;
@@ -132,9 +141,11 @@ export default function AdminCalendarPage() {
   const [dateRange, setDateRange] = useState<[Date | null, Date | null]>([null, null]);
   const [timeOffDialogOpen, setTimeOffDialogOpen] = useState(false);
   const [vehicleTimeOffs, setVehicleTimeOffs] = useState<VehicleTimeOff[]>([]);
+  const [selectedTimeOff, setSelectedTimeOff] = useState<VehicleTimeOff | null>(null);
   const [timeOffReason, setTimeOffReason] = useState('');
   const [newBookingDialogOpen, setNewBookingDialogOpen] = useState(false);
   const [customerEmail, setCustomerEmail] = useState('');
+  const [sendPaymentLink, setSendPaymentLink] = useState(false);
   const [totalPrice, setTotalPrice] = useState(0);
   const [calendarView, setCalendarView] = useState<'dayGridMonth' | 'listMonth'>('dayGridMonth');
   
@@ -150,6 +161,9 @@ export default function AdminCalendarPage() {
   const [priceValue, setPriceValue] = useState<number>(1);
   const [applyToAllVehicles, setApplyToAllVehicles] = useState(true);
   const [selectedVehiclesForPricing, setSelectedVehiclesForPricing] = useState<string[]>([]);
+  const [recurrence, setRecurrence] = useState<PricingRecurrence>('none');
+  const [daysOfWeek, setDaysOfWeek] = useState<number[]>([]);
+  const [pricingPriority, setPricingPriority] = useState<number>(0);
   const [deleteSpecialPricingDialogOpen, setDeleteSpecialPricingDialogOpen] = useState(false);
 
   // -------------------------------------------------------
@@ -172,7 +186,8 @@ export default function AdminCalendarPage() {
     // Fetch bookings if authenticated and admin
     if (status === 'authenticated' && isAdmin) {
       fetchBookings();
-      fetchVehicles();
+      // Load persisted time off periods once the fleet is known
+      fetchVehicles().then(fetchTimeOffs);
       fetchSpecialPricing();
       
       // Check for stored commands from other pages
@@ -210,8 +225,11 @@ export default function AdminCalendarPage() {
               setSelectedSpecialPricing(rule);
               setSpecialPricingName(rule.name);
               setPriceType(rule.priceType);
-              setPriceValue(rule.priceValue);
+              setPriceValue(rule.priceType === 'fixed' ? fromMinorUnits(rule.priceValue) : rule.priceValue);
               setApplyToAllVehicles(rule.applyToAll);
+              setRecurrence(rule.recurrence);
+              setDaysOfWeek(rule.daysOfWeek);
+              setPricingPriority(rule.priority);
               
               if (!rule.applyToAll && rule.vehicles) {
                 setSelectedVehiclesForPricing(rule.vehicles.map((v: { id: string }) => v.id));
@@ -235,14 +253,46 @@ export default function AdminCalendarPage() {
   // -------------------------------------------------------
 
   useEffect(() => {
-    if (selectedVehicle && dateRange[0] && dateRange[1]) {
-      // Add 1 to include both start and end dates
-      const days = Math.floor((dateRange[1].getTime() - dateRange[0].getTime()) / (1000 * 60 * 60 * 24)) + 1;
-      setTotalPrice(days * selectedVehicle.pricePerDay);
-    } else {
+    if (!selectedVehicle || !dateRange[0] || !dateRange[1]) {
       setTotalPrice(0);
+      return;
     }
-  }, [dateRange, selectedVehicle]);
+
+    // Ignore answers to selections that have since changed
+    let current = true;
+
+    // Price the stay the way the booking will be created: on the server, with
+    // the default protection plan and any add-ons, fees and tax it brings
+    const fetchQuote = async () => {
+      try {
+        const response = await fetch('/api/quote', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            vehicleId: selectedVehicle.id,
+            startDate: format(dateRange[0]!, 'yyyy-MM-dd'),
+            endDate: format(dateRange[1]!, 'yyyy-MM-dd'),
+            protectionPlan: DEFAULT_PROTECTION_PLAN
+          })
+        });
+        const data = await response.json();
+        if (!current) return;
+
+        // Stays outside the vehicle's rental length limits have no price to show
+        setTotalPrice(response.ok ? data.totalPrice : 0);
+      } catch (error) {
+        console.error('Error fetching quote:', error);
+        if (current) setTotalPrice(0);
+      }
+    };
+
+    fetchQuote();
+
+    return () => {
+      current = false;
+    };
+    // Re-quote when special pricing rules are edited on this page
+  }, [dateRange, selectedVehicle, specialPricingRules]);
 
   // -------------------------------------------------------
   // Data Fetching Functions
@@ -283,31 +333,40 @@ export default function AdminCalendarPage() {
       
       const data = await response.json();
       setVehicles(data.vehicles || []);
-
-      // Update mock time off periods only if we have vehicles
-      if (data.vehicles && data.vehicles.length > 0) {
-        setVehicleTimeOffs([
-          {
-            id: '1',
-            vehicleId: data.vehicles[0]?.id,
-            startDate: addDays(new Date(), 5),
-            endDate: addDays(new Date(), 7),
-            reason: 'Maintenance'
-          },
-          {
-            id: '2',
-            vehicleId: data.vehicles[1]?.id || data.vehicles[0]?.id,
-            startDate: addDays(new Date(), 10),
-            endDate: addDays(new Date(), 12),
-            reason: 'Repair'
-          }
-        ]);
-      }
+      return (data.vehicles || []) as Vehicle[];
     } catch (err) {
       console.error('Error fetching vehicles:', err);
       setError('Failed to load vehicles. Please try again later.');
       // Initialize with empty array to prevent further errors
       setVehicles([]);
+      return [];
+    }
+  };
+
+  const fetchTimeOffs = async (fleet: Vehicle[]) => {
+    if (fleet.length === 0) return;
+    
+    try {
+      const results = await Promise.all(fleet.map(async (vehicle) => {
+        const response = await fetch(`/api/admin/vehicles/${vehicle.id}/time-off`);
+        
+        if (!response.ok) {
+          throw new Error(`Failed to fetch time off for ${vehicle.model}`);
+        }
+        
+        const data = await response.json();
+        return data.timeOffs || [];
+      }));
+      
+      // Convert date strings from the API into Date objects
+      setVehicleTimeOffs(results.flat().map((timeOff: { id: string; vehicleId: string; startDate: string; endDate: string; reason: string }) => ({
+        ...timeOff,
+        startDate: parseISO(timeOff.startDate),
+        endDate: parseISO(timeOff.endDate)
+      })));
+    } catch (err) {
+      console.error('Error fetching time off:', err);
+      setError('Failed to load vehicle time off. Please try again later.');
     }
   };
 
@@ -338,6 +397,8 @@ export default function AdminCalendarPage() {
         return isHex ? '#fbbf24' : 'bg-yellow-400 text-yellow-900'; // More visible yellow
       case 'confirmed':
         return isHex ? '#4ade80' : 'bg-green-400 text-green-900'; // More saturated green
+      case 'active':
+        return isHex ? '#c084fc' : 'bg-purple-400 text-purple-900';
       case 'completed':
         return isHex ? '#60a5fa' : 'bg-blue-400 text-blue-900'; // More saturated blue
       case 'cancelled':
@@ -358,7 +419,7 @@ export default function AdminCalendarPage() {
   // -------------------------------------------------------
 
   // Add time off period for vehicle(s)
-  const handleAddTimeOff = () => {
+  const handleAddTimeOff = async () => {
     if (!dateRange[0] || !dateRange[1] || !timeOffReason) {
       return;
     }
@@ -373,20 +434,59 @@ export default function AdminCalendarPage() {
       return;
     }
     
-    // Create time off entries for each selected vehicle
-    const newTimeOffs = targetVehicleIds.map(vehicleId => ({
-      id: `to_${Date.now()}_${vehicleId}`,
-      vehicleId,
-      startDate: dateRange[0]!,
-      endDate: dateRange[1]!,
-      reason: timeOffReason
-    }));
+    try {
+      // Create time off entries for each selected vehicle
+      await Promise.all(targetVehicleIds.map(async (vehicleId) => {
+        const response = await fetch(`/api/admin/vehicles/${vehicleId}/time-off`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            startDate: format(dateRange[0]!, 'yyyy-MM-dd'),
+            endDate: format(dateRange[1]!, 'yyyy-MM-dd'),
+            reason: timeOffReason
+          }),
+        });
+        
+        if (!response.ok) {
+          throw new Error('Failed to create time off');
+        }
+      }));
+      
+      setTimeOffDialogOpen(false);
+      setDateRange([null, null]);
+      setTimeOffReason('');
+      setSelectedVehiclesForTimeOff([]);
+    } catch (err) {
+      console.error('Error creating time off:', err);
+      setError('Failed to add time off. Please try again.');
+    } finally {
+      // Refresh time off periods
+      fetchTimeOffs(vehicles);
+    }
+  };
+
+  // Remove a time off period
+  const handleDeleteTimeOff = async () => {
+    if (!selectedTimeOff) return;
     
-    setVehicleTimeOffs([...vehicleTimeOffs, ...newTimeOffs]);
-    setTimeOffDialogOpen(false);
-    setDateRange([null, null]);
-    setTimeOffReason('');
-    setSelectedVehiclesForTimeOff([]);
+    try {
+      const response = await fetch(`/api/admin/vehicles/${selectedTimeOff.vehicleId}/time-off/${selectedTimeOff.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to delete time off');
+      }
+
+      // Remove the time off from the local state
+      setVehicleTimeOffs(vehicleTimeOffs.filter(timeOff => timeOff.id !== selectedTimeOff.id));
+      setSelectedTimeOff(null);
+    } catch (err) {
+      console.error('Error deleting time off:', err);
+      setError('Failed to delete time off. Please try again.');
+    }
   };
 
   // Handle date selection from the calendar
@@ -402,6 +502,8 @@ export default function AdminCalendarPage() {
     
     if (eventType === 'booking') {
       setSelectedBooking(clickInfo.event.extendedProps.booking);
+    } else if (eventType === 'timeOff') {
+      setSelectedTimeOff(clickInfo.event.extendedProps.timeOff);
     } else if (eventType === 'specialPricing') {
       setSelectedSpecialPricing(clickInfo.event.extendedProps.specialPricing);
       
@@ -409,7 +511,7 @@ export default function AdminCalendarPage() {
       const rule = clickInfo.event.extendedProps.specialPricing;
       setSpecialPricingName(rule.name);
       setPriceType(rule.priceType);
-      setPriceValue(rule.priceValue);
+      setPriceValue(rule.priceType === 'fixed' ? fromMinorUnits(rule.priceValue) : rule.priceValue);
       setApplyToAllVehicles(rule.applyToAll);
       
       if (!rule.applyToAll && rule.vehicles) {
@@ -442,17 +544,24 @@ export default function AdminCalendarPage() {
           startDate: format(dateRange[0], 'yyyy-MM-dd'),
           endDate: format(dateRange[1], 'yyyy-MM-dd'),
           userEmail: customerEmail,
-          totalPrice,
-          status: 'confirmed'
+          status: 'confirmed',
+          sendPaymentLink
         }),
       });
 
       if (!response.ok) {
-        throw new Error('Failed to create booking');
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to create booking');
       }
 
       const data = await response.json();
       
+      if (data.paymentLink) {
+        toast.success(data.paymentLink.emailed
+          ? 'Booking created. The payment link was emailed to the customer and posted in the booking thread.'
+          : 'Booking created. The payment link was posted in the booking thread (email not sent).');
+      }
+      
       // Add the new booking to the state
       setBookings([...bookings, data.booking]);
       
@@ -460,12 +569,13 @@ export default function AdminCalendarPage() {
       setNewBookingDialogOpen(false);
       setDateRange([null, null]);
       setCustomerEmail('');
+      setSendPaymentLink(false);
       
       // Refresh bookings
       fetchBookings();
     } catch (err) {
       console.error('Error creating booking:', err);
-      setError('Failed to create booking. Please try again.');
+      setError(err instanceof Error ? err.message : 'Failed to create booking. Please try again.');
     }
   };
 
@@ -509,7 +619,9 @@ export default function AdminCalendarPage() {
       });
 
       if (!response.ok) {
-        throw new Error('Failed to delete booking');
+        // e.g. an invoiced booking, which has to be cancelled instead
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to delete booking. Please try again.');
       }
 
       // Remove the booking from the local state
@@ -519,7 +631,7 @@ export default function AdminCalendarPage() {
       setSelectedBooking(null);
     } catch (err) {
       console.error('Error deleting booking:', err);
-      setError('Failed to delete booking. Please try again.');
+      setError(err instanceof Error ? err.message : 'Failed to delete booking. Please try again.');
     }
   };
 
@@ -537,7 +649,10 @@ export default function AdminCalendarPage() {
         priceType,
         priceValue,
         applyToAll: applyToAllVehicles,
-        vehicleIds: !applyToAllVehicles ? selectedVehiclesForPricing : []
+        vehicleIds: !applyToAllVehicles ? selectedVehiclesForPricing : [],
+        recurrence,
+        daysOfWeek,
+        priority: pricingPriority
       };
       
       const response = await fetch('/api/admin/special-pricing', {
@@ -548,10 +663,14 @@ export default function AdminCalendarPage() {
         body: JSON.stringify(payload),
       });
 
+      const data = await response.json();
+
       if (!response.ok) {
-        throw new Error('Failed to create special pricing rule');
+        throw new Error(data.error || 'Failed to create special pricing rule');
       }
 
+      showPricingWarnings(data.warnings);
+
       // Refresh special pricing rules
       fetchSpecialPricing();
       
@@ -560,7 +679,7 @@ export default function AdminCalendarPage() {
       resetSpecialPricingForm();
     } catch (err) {
       console.error('Error creating special pricing rule:', err);
-      setError('Failed to create special pricing rule. Please try again.');
+      toast.error(err instanceof Error ? err.message : 'Failed to create special pricing rule. Please try again.');
     }
   };
   
@@ -588,12 +707,20 @@ export default function AdminCalendarPage() {
     }
   };
   
+  // Tell the admin which rules the saved one shadows or overlaps
+  const showPricingWarnings = (warnings: RuleConflict[] = []) => {
+    warnings.forEach(warning => toast.warning(warning.message, { duration: 10000 }));
+  };
+  
   const resetSpecialPricingForm = () => {
     setSpecialPricingName('');
     setPriceType('multiplier');
     setPriceValue(1);
     setApplyToAllVehicles(true);
     setSelectedVehiclesForPricing([]);
+    setRecurrence('none');
+    setDaysOfWeek([]);
+    setPricingPriority(0);
     setDateRange([null, null]);
   };
 
@@ -659,6 +786,26 @@ export default function AdminCalendarPage() {
       });
     });
     
+    // Recurring rules are drawn once per occurrence; yearly rules from last
+    // year until two years ahead
+    const ruleOccurrences = (rule: SpecialPricing) => {
+      if (rule.recurrence === 'none') {
+        return [{ start: rule.startDate, end: rule.endDate }];
+      }
+      const from = rule.recurrence === 'yearly'
+        ? maxDate([parseISO(rule.startDate), startOfYear(addYears(new Date(), -1))])
+        : parseISO(rule.startDate);
+      const to = rule.recurrence === 'yearly' ? endOfYear(addYears(new Date(), 2)) : parseISO(rule.endDate);
+      if (from > to) {
+        return [];
+      }
+      // Calendar all-day events end on the following day
+      return ruleCoveredRanges(rule, from, to).map(range => ({
+        start: range.start,
+        end: format(addDays(parseISO(range.end), 1), 'yyyy-MM-dd')
+      }));
+    };
+    
     // Add special pricing as events
     specialPricingRules.forEach(rule => {
       // If rule applies to all vehicles or we're not filtering
@@ -668,37 +815,12 @@ export default function AdminCalendarPage() {
           ? `All Vehicles - ${rule.name}`
           : `${rule.vehicles.length} Vehicles - ${rule.name}`;
         
-        events.push({
-          id: `specialPrice_${rule.id}`,
-          title: `💰 ${ruleTitle}: ${rule.priceType === 'multiplier' ? `${rule.priceValue}x` : `$${rule.priceValue}`}`,
-          start: rule.startDate,
-          end: rule.endDate,
-          backgroundColor: priceTypeColor,
-          borderColor: priceTypeColor,
-          textColor: '#000000',
-          display: 'block',
-          allDay: true,
-          extendedProps: {
-            type: 'specialPricing',
-            specialPricing: rule,
-            vehicleId: 'all',
-            vehicleModel: 'All Vehicles'
-          }
-        });
-      } 
-      // If rule applies to specific vehicles and we're filtering
-      else if (!rule.applyToAll && selectedVehicle) {
-        // Check if this rule applies to the selected vehicle
-        const appliesTo = rule.vehicles.some(v => v.id === selectedVehicle.id);
-        
-        if (appliesTo) {
-          const priceTypeColor = getSpecialPricingColor(rule.priceType, true);
-          
+        ruleOccurrences(rule).forEach((occurrence, index) => {
           events.push({
-            id: `specialPrice_${rule.id}_${selectedVehicle.id}`,
-            title: `💰 ${selectedVehicle.model} - ${rule.name}: ${rule.priceType === 'multiplier' ? `${rule.priceValue}x` : `$${rule.priceValue}`}`,
-            start: rule.startDate,
-            end: rule.endDate,
+            id: `specialPrice_${rule.id}_${index}`,
+            title: `💰 ${ruleTitle}: ${rule.priceType === 'multiplier' ? `${rule.priceValue}x` : formatMoney(rule.priceValue)}`,
+            start: occurrence.start,
+            end: occurrence.end,
             backgroundColor: priceTypeColor,
             borderColor: priceTypeColor,
             textColor: '#000000',
@@ -707,10 +829,39 @@ export default function AdminCalendarPage() {
             extendedProps: {
               type: 'specialPricing',
               specialPricing: rule,
-              vehicleId: selectedVehicle.id,
-              vehicleModel: selectedVehicle.model
+              vehicleId: 'all',
+              vehicleModel: 'All Vehicles'
             }
           });
+        });
+      } 
+      // If rule applies to specific vehicles and we're filtering
+      else if (!rule.applyToAll && selectedVehicle) {
+        // Check if this rule applies to the selected vehicle
+        const appliesTo = rule.vehicles.some(v => v.id === selectedVehicle.id);
+        
+        if (appliesTo) {
+          const priceTypeColor = getSpecialPricingColor(rule.priceType, true);
+          
+          ruleOccurrences(rule).forEach((occurrence, index) => {
+            events.push({
+              id: `specialPrice_${rule.id}_${selectedVehicle.id}_${index}`,
+              title: `💰 ${selectedVehicle.model} - ${rule.name}: ${rule.priceType === 'multiplier' ? `${rule.priceValue}x` : formatMoney(rule.priceValue)}`,
+              start: occurrence.start,
+              end: occurrence.end,
+              backgroundColor: priceTypeColor,
+              borderColor: priceTypeColor,
+              textColor: '#000000',
+              display: 'block',
+              allDay: true,
+              extendedProps: {
+                type: 'specialPricing',
+                specialPricing: rule,
+                vehicleId: selectedVehicle.id,
+                vehicleModel: selectedVehicle.model
+              }
+            });
+          });
         }
       }
     });
@@ -871,14 +1022,14 @@ export default function AdminCalendarPage() {
                 <p>
                   {format(parseISO(selectedBooking.startDate), 'MMM d, yyyy')} - {format(parseISO(selectedBooking.endDate), 'MMM d, yyyy')}
                 </p>
-                <p className="font-medium mt-1">${selectedBooking.totalPrice.toFixed(2)}</p>
+                <p className="font-medium mt-1">{formatMoney(selectedBooking.totalPrice, selectedBooking.currency)}</p>
               </div>
               
               <div className="flex gap-2">
                 <Link href={`/admin/bookings/${selectedBooking.id}`}>
                   <Button variant="outline" size="sm">View Full Details</Button>
                 </Link>
-                {selectedBooking.status !== 'cancelled' && (
+                {canTransitionBookingStatus(selectedBooking.status, 'cancelled') && (
                   <Button 
                     variant="outline" 
                     size="sm"
@@ -902,6 +1053,49 @@ export default function AdminCalendarPage() {
         </Card>
       )}
       
+      {/* Time Off Details Card */}
+      {selectedTimeOff && (
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>Time Off Details</CardTitle>
+          </CardHeader>
+          <CardContent className="p-4">
+            <div className="space-y-4">
+              <div>
+                <h3 className="font-medium">
+                  {vehicles.find(v => v.id === selectedTimeOff.vehicleId)?.model || 'Vehicle'}
+                </h3>
+                <p className="text-sm text-gray-500">{selectedTimeOff.reason}</p>
+              </div>
+              
+              <div className="text-sm">
+                <p>
+                  {format(selectedTimeOff.startDate, 'MMM d, yyyy')} - {format(selectedTimeOff.endDate, 'MMM d, yyyy')}
+                </p>
+              </div>
+              
+              <div className="flex gap-2">
+                <Button 
+                  variant="outline" 
+                  size="sm"
+                  className="text-red-600 hover:text-red-700"
+                  onClick={handleDeleteTimeOff}
+                >
+                  <TrashIcon className="h-4 w-4 mr-1" /> Remove Time Off
+                </Button>
+                <Button 
+                  variant="outline" 
+                  size="sm"
+                  onClick={() => setSelectedTimeOff(null)}
+                >
+                  Close
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+      
       {/* Special Pricing Details Card */}
       {selectedSpecialPricing && !specialPricingDialogOpen && (
         <Card className="mb-6">
@@ -922,7 +1116,7 @@ export default function AdminCalendarPage() {
                 <div className={`px-2 py-1 rounded text-xs font-medium ${getSpecialPricingColor(selectedSpecialPricing.priceType)}`}>
                   {selectedSpecialPricing.priceType === 'multiplier' 
                     ? `${selectedSpecialPricing.priceValue}x multiplier` 
-                    : `$${selectedSpecialPricing.priceValue} fixed price`}
+                    : `${formatMoney(selectedSpecialPricing.priceValue)} fixed price`}
                 </div>
               </div>
               
@@ -930,6 +1124,12 @@ export default function AdminCalendarPage() {
                 <p>
                   {format(parseISO(selectedSpecialPricing.startDate), 'MMM d, yyyy')} - {format(parseISO(selectedSpecialPricing.endDate), 'MMM d, yyyy')}
                 </p>
+                {describeRecurrence(selectedSpecialPricing) && (
+                  <p className="text-gray-500">
+                    {describeRecurrence(selectedSpecialPricing)}
+                  </p>
+                )}
+                <p className="text-gray-500">Priority {selectedSpecialPricing.priority}</p>
               </div>
               
               <div className="flex gap-2">
@@ -940,8 +1140,11 @@ export default function AdminCalendarPage() {
                     // Prefill the form for editing
                     setSpecialPricingName(selectedSpecialPricing.name);
                     setPriceType(selectedSpecialPricing.priceType);
-                    setPriceValue(selectedSpecialPricing.priceValue);
+                    setPriceValue(selectedSpecialPricing.priceType === 'fixed' ? fromMinorUnits(selectedSpecialPricing.priceValue) : selectedSpecialPricing.priceValue);
                     setApplyToAllVehicles(selectedSpecialPricing.applyToAll);
+                    setRecurrence(selectedSpecialPricing.recurrence);
+                    setDaysOfWeek(selectedSpecialPricing.daysOfWeek);
+                    setPricingPriority(selectedSpecialPricing.priority);
                     
                     if (!selectedSpecialPricing.applyToAll) {
                       setSelectedVehiclesForPricing(selectedSpecialPricing.vehicles.map((v: { id: string }) => v.id));
@@ -1198,6 +1401,21 @@ export default function AdminCalendarPage() {
               />
             </div>
             
+            <label className="flex items-start gap-2 text-sm">
+              <input
+                type="checkbox"
+                className="mt-1"
+                checked={sendPaymentLink}
+                onChange={(e) => setSendPaymentLink(e.target.checked)}
+              />
+              <span>
+                Send a Stripe payment link
+                <span className="block text-gray-500">
+                  The booking stays pending until the customer pays. The link is emailed and posted in the booking thread and expires after 23 hours.
+                </span>
+              </span>
+            </label>
+            
             {totalPrice > 0 && (
               <div className="bg-gray-50 p-3 rounded-md">
                 <p className="font-medium">Booking Summary:</p>
@@ -1209,7 +1427,7 @@ export default function AdminCalendarPage() {
                     Dates: {format(dateRange[0], 'MMM d, yyyy')} - {format(dateRange[1], 'MMM d, yyyy')}
                   </p>
                 )}
-                <p className="text-lg font-bold mt-1">Total: ${totalPrice.toFixed(2)}</p>
+                <p className="text-lg font-bold mt-1">Total: {formatMoney(totalPrice)}</p>
               </div>
             )}
           </div>
@@ -1301,7 +1519,7 @@ export default function AdminCalendarPage() {
               <input
                 type="number"
                 min={priceType === 'multiplier' ? 0.1 : 1}
-                step={priceType === 'multiplier' ? 0.1 : 1}
+                step={priceType === 'multiplier' ? 0.1 : 0.01}
                 className="w-full px-3 py-2 border rounded-md"
                 placeholder={priceType === 'multiplier' ? 'e.g., 1.5' : 'e.g., 200'}
                 value={priceValue}
@@ -1345,6 +1563,55 @@ export default function AdminCalendarPage() {
               </div>
             </div>
             
+            <div>
+              <label className="block text-sm font-medium mb-1">Repeat</label>
+              <select
+                className="w-full px-3 py-2 border rounded-md"
+                value={recurrence}
+                onChange={(e) => setRecurrence(e.target.value as PricingRecurrence)}
+              >
+                <option value="none">Every day in the date range</option>
+                <option value="weekly">Weekly, on selected days in the date range</option>
+                <option value="yearly">Every year on these dates</option>
+              </select>
+              {recurrence === 'weekly' && (
+                <div className="flex flex-wrap gap-3 mt-2">
+                  {WEEKDAY_LABELS.map((label, day) => (
+                    <label key={label} className="flex items-center text-sm">
+                      <input
+                        type="checkbox"
+                        className="mr-1"
+                        checked={daysOfWeek.includes(day)}
+                        onChange={() => setDaysOfWeek(prev =>
+                          prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day]
+                        )}
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+              )}
+              {recurrence === 'yearly' && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Repeats on the same dates every year from the start date on
+                </p>
+              )}
+            </div>
+            
+            <div>
+              <label className="block text-sm font-medium mb-1">Priority</label>
+              <input
+                type="number"
+                step={1}
+                className="w-full px-3 py-2 border rounded-md"
+                value={pricingPriority}
+                onChange={(e) => setPricingPriority(parseInt(e.target.value, 10) || 0)}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                When rules overlap the highest priority wins, then the newest rule
+              </p>
+            </div>
+            
             <div>
               <div className="flex items-center mb-2">
                 <input
@@ -1435,7 +1702,8 @@ export default function AdminCalendarPage() {
                   disabled={
                     !dateRange[0] || !dateRange[1] || 
                     !specialPricingName || 
-                    (!applyToAllVehicles && selectedVehiclesForPricing.length === 0)
+                    (!applyToAllVehicles && selectedVehiclesForPricing.length === 0) ||
+                    (recurrence === 'weekly' && daysOfWeek.length === 0)
                   } 
                   onClick={async () => {
                     if (selectedSpecialPricing) {
@@ -1448,7 +1716,10 @@ export default function AdminCalendarPage() {
                           priceType,
                           priceValue,
                           applyToAll: applyToAllVehicles,
-                          vehicleIds: !applyToAllVehicles ? selectedVehiclesForPricing : []
+                          vehicleIds: !applyToAllVehicles ? selectedVehiclesForPricing : [],
+                          recurrence,
+                          daysOfWeek,
+                          priority: pricingPriority
                         };
                         
                         const response = await fetch(`/api/admin/special-pricing/${selectedSpecialPricing.id}`, {
@@ -1459,10 +1730,14 @@ export default function AdminCalendarPage() {
                           body: JSON.stringify(payload),
                         });
                         
+                        const data = await response.json();
+                        
                         if (!response.ok) {
-                          throw new Error('Failed to update special pricing rule');
+                          throw new Error(data.error || 'Failed to update special pricing rule');
                         }
                         
+                        showPricingWarnings(data.warnings);
+                        
                         // Refresh the data
                         fetchSpecialPricing();
                         
@@ -1472,7 +1747,7 @@ export default function AdminCalendarPage() {
                         resetSpecialPricingForm();
                       } catch (err) {
                         console.error('Error updating special pricing rule:', err);
-                        setError('Failed to update special pricing rule');
+                        toast.error(err instanceof Error ? err.message : 'Failed to update special pricing rule');
                       }
                     } else {
                       // Create new rule
@@ -1506,7 +1781,7 @@ export default function AdminCalendarPage() {
               <p className="text-sm mt-1">
                 {selectedSpecialPricing.priceType === 'multiplier' 
                   ? `${selectedSpecialPricing.priceValue}x multiplier` 
-                  : `$${selectedSpecialPricing.priceValue} fixed price`}
+                  : `${formatMoney(selectedSpecialPricing.priceValue)} fixed price`}
               </p>
             </div>
           )}
@@ -0,0 +1,253 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { PlusIcon, PencilIcon, TrashIcon } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/app/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/app/components/ui/dialog";
+
+interface TaxRate {
+  id: string;
+  name: string;
+  jurisdiction: string;
+  percentage: number;
+  active: boolean;
+}
+
+// Sales tax rates (e.g. Ontario HST) on the admin fees page
+export default function TaxRates() {
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Create/edit state
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<TaxRate | null>(null);
+  const [name, setName] = useState('');
+  const [jurisdiction, setJurisdiction] = useState('');
+  const [percentage, setPercentage] = useState('');
+  const [active, setActive] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchTaxRates();
+  }, []);
+
+  const fetchTaxRates = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/admin/tax-rates');
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch tax rates');
+      }
+
+      const data = await response.json();
+      setTaxRates(data.taxRates || []);
+    } catch (err) {
+      console.error('Error fetching tax rates:', err);
+      toast.error('Failed to load tax rates');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openDialog = (taxRate: TaxRate | null) => {
+    setEditing(taxRate);
+    setName(taxRate?.name || '');
+    setJurisdiction(taxRate?.jurisdiction || '');
+    setPercentage(taxRate ? String(taxRate.percentage) : '');
+    setActive(taxRate?.active ?? true);
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(
+        editing ? `/api/admin/tax-rates/${editing.id}` : '/api/admin/tax-rates',
+        {
+          method: editing ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name, jurisdiction, percentage, active })
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save tax rate');
+      }
+
+      const saved: TaxRate = data.taxRate;
+      setTaxRates(prev => editing ? prev.map(rate => rate.id === saved.id ? saved : rate) : [...prev, saved]);
+      setDialogOpen(false);
+    } catch (err) {
+      console.error('Error saving tax rate:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to save tax rate');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (taxRate: TaxRate) => {
+    if (!confirm(`Delete the ${taxRate.name} tax rate? Bookings already taxed at it keep their tax.`)) return;
+
+    try {
+      const response = await fetch(`/api/admin/tax-rates/${taxRate.id}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        throw new Error('Failed to delete tax rate');
+      }
+
+      setTaxRates(prev => prev.filter(rate => rate.id !== taxRate.id));
+    } catch (err) {
+      console.error('Error deleting tax rate:', err);
+      toast.error('Failed to delete tax rate');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow overflow-hidden mt-8">
+      <div className="flex items-center justify-between px-6 py-4 border-b">
+        <div>
+          <h2 className="text-lg font-semibold">Tax Rates</h2>
+          <p className="text-sm text-gray-500">Every active rate is charged on the booking total after discounts and fees.</p>
+        </div>
+        <Button variant="outline" onClick={() => openDialog(null)}>
+          <PlusIcon className="h-4 w-4 mr-2" />
+          Add Tax Rate
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <p className="px-6 py-4 text-sm text-gray-500">Loading tax rates...</p>
+      ) : taxRates.length === 0 ? (
+        <p className="px-6 py-4 text-sm text-gray-500">No tax rates. Bookings are charged without tax.</p>
+      ) : (
+        <table className="w-full border-collapse">
+          <thead>
+            <tr className="bg-gray-50 border-b">
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Jurisdiction</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rate</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {taxRates.map((taxRate) => (
+              <tr key={taxRate.id} className="hover:bg-gray-50">
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                  {taxRate.name}
+                  {!taxRate.active && (
+                    <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-600">Inactive</span>
+                  )}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{taxRate.jurisdiction}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{taxRate.percentage}%</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                  <div className="flex space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-blue-600 hover:text-blue-800"
+                      onClick={() => openDialog(taxRate)}
+                    >
+                      <PencilIcon className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-red-600 hover:text-red-800"
+                      onClick={() => handleDelete(taxRate)}
+                    >
+                      <TrashIcon className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Tax Rate' : 'Add Tax Rate'}</DialogTitle>
+            <DialogDescription>
+              New rates only apply to new bookings; existing bookings keep the tax they were charged.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-sm font-medium mb-1">Name</label>
+                <input
+                  type="text"
+                  className="w-full px-3 py-2 border rounded-md"
+                  placeholder="e.g., HST"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Jurisdiction</label>
+                <input
+                  type="text"
+                  className="w-full px-3 py-2 border rounded-md uppercase"
+                  placeholder="e.g., ON"
+                  value={jurisdiction}
+                  onChange={(e) => setJurisdiction(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-sm font-medium mb-1">Rate (%)</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="0.001"
+                  className="w-full px-3 py-2 border rounded-md"
+                  placeholder="e.g., 13"
+                  value={percentage}
+                  onChange={(e) => setPercentage(e.target.value)}
+                />
+              </div>
+              <div className="flex items-end pb-2">
+                <input
+                  type="checkbox"
+                  id="tax-rate-active"
+                  checked={active}
+                  onChange={(e) => setActive(e.target.checked)}
+                  className="mr-2"
+                />
+                <label htmlFor="tax-rate-active" className="text-sm font-medium">Active</label>
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              className="bg-red-600 hover:bg-red-700"
+              disabled={isSaving || !name.trim() || !jurisdiction.trim() || !percentage}
+              onClick={handleSave}
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,361 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeftIcon, PlusIcon, PencilIcon, TrashIcon, ReceiptIcon, PackageIcon } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/app/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/app/components/ui/dialog";
+import { FEE_KINDS, FEE_KIND_LABELS, FeeKind, OPTIONAL_FEE_QUESTIONS } from '@/app/lib/pricing';
+import { formatMoney, fromMinorUnits } from '@/app/lib/currency';
+import TaxRates from './TaxRates';
+
+interface Fee {
+  id: string;
+  name: string;
+  kind: FeeKind;
+  priceType: 'per_day' | 'flat';
+  price: number;
+  active: boolean;
+}
+
+// Values of the create/edit form, as the inputs hold them
+interface FeeForm {
+  name: string;
+  kind: FeeKind;
+  priceType: 'per_day' | 'flat';
+  price: string;
+  active: boolean;
+}
+
+const EMPTY_FORM: FeeForm = {
+  name: '',
+  kind: 'cleaning',
+  priceType: 'flat',
+  price: '',
+  active: true
+};
+
+// When a fee of this kind is charged
+function describeFeeKind(kind: FeeKind) {
+  return kind === 'cleaning'
+    ? 'Every booking'
+    : `When the customer ticks "${OPTIONAL_FEE_QUESTIONS[kind]}"`;
+}
+
+export default function AdminFeesPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [isLoading, setIsLoading] = useState(true);
+  const [fees, setFees] = useState<Fee[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Create/edit state
+  const [formDialogOpen, setFormDialogOpen] = useState(false);
+  const [editingFee, setEditingFee] = useState<Fee | null>(null);
+  const [form, setForm] = useState<FeeForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isAdmin = session?.user?.isAdmin === true;
+
+  // Redirect if user is not authenticated or not an admin
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login?callbackUrl=/admin/fees');
+      return;
+    }
+
+    if (status === 'authenticated' && !isAdmin) {
+      router.push('/');
+      return;
+    }
+
+    if (status === 'authenticated' && isAdmin) {
+      fetchFees();
+    }
+  }, [status, isAdmin, router]);
+
+  const fetchFees = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/admin/fees');
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch fees');
+      }
+
+      const data = await response.json();
+      setFees(data.fees || []);
+    } catch (err) {
+      console.error('Error fetching fees:', err);
+      setError('Failed to load fees. Please try again later.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openForm = (fee: Fee | null) => {
+    setEditingFee(fee);
+    setForm(fee ? { name: fee.name, kind: fee.kind, priceType: fee.priceType, price: String(fromMinorUnits(fee.price)), active: fee.active } : EMPTY_FORM);
+    setFormDialogOpen(true);
+  };
+
+  const updateForm = (changes: Partial<FeeForm>) => {
+    setForm(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(
+        editingFee ? `/api/admin/fees/${editingFee.id}` : '/api/admin/fees',
+        {
+          method: editingFee ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(form)
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save fee');
+      }
+
+      setFees(editingFee
+        ? fees.map(fee => fee.id === editingFee.id ? data.fee : fee)
+        : [...fees, data.fee]);
+      setFormDialogOpen(false);
+      setEditingFee(null);
+      toast.success(`${data.fee.name} saved`);
+    } catch (err) {
+      console.error('Error saving fee:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to save fee');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (fee: Fee) => {
+    if (!confirm(`Delete the ${fee.name} fee? Bookings that were charged it keep it.`)) return;
+
+    try {
+      const response = await fetch(`/api/admin/fees/${fee.id}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        throw new Error('Failed to delete fee');
+      }
+
+      setFees(fees.filter(item => item.id !== fee.id));
+    } catch (err) {
+      console.error('Error deleting fee:', err);
+      toast.error('Failed to delete fee');
+    }
+  };
+
+  const header = (
+    <div className="flex items-center justify-between mb-6">
+      <div className="flex items-center">
+        <Link href="/admin" className="mr-4">
+          <Button variant="outline" size="icon">
+            <ArrowLeftIcon className="h-4 w-4" />
+          </Button>
+        </Link>
+        <h1 className="text-2xl font-bold">Fees &amp; Taxes</h1>
+      </div>
+      <div className="flex space-x-2">
+        <Link href="/admin/add-ons">
+          <Button variant="outline">
+            <PackageIcon className="h-4 w-4 mr-2" />
+            Add-ons
+          </Button>
+        </Link>
+        <Button className="bg-red-600 hover:bg-red-700" onClick={() => openForm(null)}>
+          <PlusIcon className="h-4 w-4 mr-2" />
+          Add Fee
+        </Button>
+      </div>
+    </div>
+  );
+
+  if (status === 'loading' || isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        {header}
+        <p>Loading fees...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {header}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-6">
+          {error}
+        </div>
+      )}
+
+      {fees.length === 0 ? (
+        <div className="text-center py-12 bg-gray-50 rounded-lg">
+          <ReceiptIcon className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-lg font-medium text-gray-900">No fees</h3>
+          <p className="mt-1 text-sm text-gray-500">Add cleaning, delivery, airport or young driver fees.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full border-collapse">
+              <thead>
+                <tr className="bg-gray-50 border-b">
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Kind</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Price</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Charged</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {fees.map((fee) => (
+                  <tr key={fee.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {fee.name}
+                      {!fee.active && (
+                        <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-600">Inactive</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{FEE_KIND_LABELS[fee.kind]}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatMoney(fee.price)}{fee.priceType === 'flat' ? ' per booking' : '/day'}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">{describeFeeKind(fee.kind)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      <div className="flex space-x-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="text-blue-600 hover:text-blue-800"
+                          onClick={() => openForm(fee)}
+                        >
+                          <PencilIcon className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="text-red-600 hover:text-red-800"
+                          onClick={() => handleDelete(fee)}
+                        >
+                          <TrashIcon className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <TaxRates />
+
+      {/* Create/Edit Dialog */}
+      <Dialog open={formDialogOpen} onOpenChange={setFormDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingFee ? 'Edit Fee' : 'Add Fee'}</DialogTitle>
+            <DialogDescription>
+              Fees are added to the booking total before tax. Changes only affect new bookings.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-sm font-medium mb-1">Name</label>
+                <input
+                  type="text"
+                  className="w-full px-3 py-2 border rounded-md"
+                  placeholder="e.g., Cleaning fee"
+                  value={form.name}
+                  onChange={(e) => updateForm({ name: e.target.value })}
+                />
+              </div>
+              <div className="flex items-end pb-2">
+                <input
+                  type="checkbox"
+                  id="fee-active"
+                  checked={form.active}
+                  onChange={(e) => updateForm({ active: e.target.checked })}
+                  className="mr-2"
+                />
+                <label htmlFor="fee-active" className="text-sm font-medium">Active</label>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1">Kind</label>
+              <select
+                className="w-full px-3 py-2 border rounded-md"
+                value={form.kind}
+                onChange={(e) => updateForm({ kind: e.target.value as FeeKind })}
+              >
+                {FEE_KINDS.map(kind => (
+                  <option key={kind} value={kind}>{FEE_KIND_LABELS[kind]}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">Charged: {describeFeeKind(form.kind)}</p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-sm font-medium mb-1">Charged</label>
+                <select
+                  className="w-full px-3 py-2 border rounded-md"
+                  value={form.priceType}
+                  onChange={(e) => updateForm({ priceType: e.target.value as 'per_day' | 'flat' })}
+                >
+                  <option value="flat">Once per booking</option>
+                  <option value="per_day">Per day</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Price ($)</label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  className="w-full px-3 py-2 border rounded-md"
+                  placeholder="e.g., 40"
+                  value={form.price}
+                  onChange={(e) => updateForm({ price: e.target.value })}
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              className="bg-red-600 hover:bg-red-700"
+              disabled={isSaving || !form.name.trim() || form.price === ''}
+              onClick={handleSave}
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
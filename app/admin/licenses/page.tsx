@@ -0,0 +1,346 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import Image from 'next/image';
+import { format } from 'date-fns';
+import { ArrowLeftIcon, IdCardIcon } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/app/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/app/components/ui/dialog";
+import { LICENSE_STATUS_LABELS, MINIMUM_RENTER_AGE, ageOn } from '@/app/lib/license-rules';
+
+type LicenseStatus = keyof typeof LICENSE_STATUS_LABELS;
+
+// A user's submitted license, as /api/admin/licenses returns it
+interface LicenseSubmission {
+  id: string;
+  name: string | null;
+  email: string | null;
+  licenseNumber: string;
+  licenseCountry: string;
+  licenseRegion: string | null;
+  licenseExpiry: string;
+  dateOfBirth: string;
+  licenseStatus: LicenseStatus;
+  licenseSubmittedAt: string;
+  licenseReviewedAt: string | null;
+  licenseRejectionReason: string | null;
+  licenseReviewedBy: { name: string | null; email: string | null } | null;
+}
+
+const STATUS_TABS: LicenseStatus[] = ['pending', 'approved', 'rejected'];
+
+const formatDate = (value: string) => format(new Date(value), 'MMM d, yyyy');
+
+export default function AdminLicensesPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [isLoading, setIsLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<LicenseStatus>('pending');
+  const [submissions, setSubmissions] = useState<LicenseSubmission[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Review state
+  const [reviewing, setReviewing] = useState<LicenseSubmission | null>(null);
+  const [rejectionReason, setRejectionReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isAdmin = session?.user?.isAdmin === true;
+
+  // Redirect if user is not authenticated or not an admin
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login?callbackUrl=/admin/licenses');
+      return;
+    }
+
+    if (status === 'authenticated' && !isAdmin) {
+      router.push('/');
+      return;
+    }
+
+    if (status === 'authenticated' && isAdmin) {
+      fetchSubmissions(statusFilter);
+    }
+  }, [status, isAdmin, router, statusFilter]);
+
+  const fetchSubmissions = async (licenseStatus: LicenseStatus) => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/admin/licenses?status=${licenseStatus}`);
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch driver\'s licenses');
+      }
+
+      const data = await response.json();
+      setSubmissions(data.users || []);
+    } catch (err) {
+      console.error('Error fetching driver\'s licenses:', err);
+      setError('Failed to load driver\'s licenses. Please try again later.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openReview = (submission: LicenseSubmission) => {
+    setReviewing(submission);
+    setRejectionReason(submission.licenseRejectionReason || '');
+  };
+
+  const handleReview = async (action: 'approve' | 'reject') => {
+    if (!reviewing) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/admin/licenses/${reviewing.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action,
+          reason: rejectionReason,
+          submittedAt: reviewing.licenseSubmittedAt
+        })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to review driver\'s license');
+      }
+
+      toast.success(`License ${action === 'approve' ? 'approved' : 'rejected'} for ${reviewing.name || reviewing.email}`);
+      setReviewing(null);
+      fetchSubmissions(statusFilter);
+    } catch (err) {
+      console.error('Error reviewing driver\'s license:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to review driver\'s license');
+      // The user may have resubmitted; show the latest details
+      fetchSubmissions(statusFilter);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Problems the reviewer should know about, checked as of today
+  const warningsFor = (submission: LicenseSubmission) => {
+    const warnings: string[] = [];
+    if (format(new Date(submission.licenseExpiry), 'yyyy-MM-dd') < format(new Date(), 'yyyy-MM-dd')) {
+      warnings.push('The license has expired.');
+    }
+    if (ageOn(submission.dateOfBirth, new Date()) < MINIMUM_RENTER_AGE) {
+      warnings.push(`The renter is under ${MINIMUM_RENTER_AGE}, so they can only book rentals starting after they turn ${MINIMUM_RENTER_AGE}.`);
+    }
+    return warnings;
+  };
+
+  const header = (
+    <div className="flex items-center justify-between mb-6">
+      <div className="flex items-center">
+        <Link href="/admin" className="mr-4">
+          <Button variant="outline" size="icon">
+            <ArrowLeftIcon className="h-4 w-4" />
+          </Button>
+        </Link>
+        <h1 className="text-2xl font-bold">Driver&apos;s Licenses</h1>
+      </div>
+      <div className="flex space-x-2">
+        {STATUS_TABS.map(tab => (
+          <Button
+            key={tab}
+            variant={statusFilter === tab ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setStatusFilter(tab)}
+          >
+            {LICENSE_STATUS_LABELS[tab]}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+
+  if (status === 'loading' || isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        {header}
+        <p>Loading driver&apos;s licenses...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {header}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-6">
+          {error}
+        </div>
+      )}
+
+      <p className="text-sm text-gray-500 mb-4">
+        Renters can only book with an approved license that is valid through the rental,
+        and must be at least {MINIMUM_RENTER_AGE} on the first day.
+      </p>
+
+      {submissions.length === 0 ? (
+        <div className="text-center py-12 bg-gray-50 rounded-lg">
+          <IdCardIcon className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-lg font-medium text-gray-900">No licenses {statusFilter === 'pending' ? 'awaiting review' : statusFilter}</h3>
+          {statusFilter === 'pending' && (
+            <p className="mt-1 text-sm text-gray-500">New submissions show up here for review.</p>
+          )}
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full border-collapse">
+              <thead>
+                <tr className="bg-gray-50 border-b">
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Renter</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">License</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expires</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Age</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {statusFilter === 'pending' ? 'Submitted' : 'Reviewed'}
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {submissions.map((submission) => (
+                  <tr key={submission.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <Link href={`/admin/users/${submission.id}`} className="font-medium text-gray-900 hover:underline">
+                        {submission.name || 'Unnamed User'}
+                      </Link>
+                      <div className="text-gray-500">{submission.email}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      <div className="font-mono text-gray-900">{submission.licenseNumber}</div>
+                      {[submission.licenseRegion, submission.licenseCountry].filter(Boolean).join(', ')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatDate(submission.licenseExpiry)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {ageOn(submission.dateOfBirth, new Date())}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {statusFilter === 'pending'
+                        ? formatDate(submission.licenseSubmittedAt)
+                        : submission.licenseReviewedAt && (
+                          <>
+                            {formatDate(submission.licenseReviewedAt)}
+                            {submission.licenseReviewedBy && (
+                              <div>by {submission.licenseReviewedBy.name || submission.licenseReviewedBy.email}</div>
+                            )}
+                          </>
+                        )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      <Button variant="outline" size="sm" onClick={() => openReview(submission)}>
+                        Review
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Review Dialog */}
+      <Dialog open={reviewing !== null} onOpenChange={(open) => !open && setReviewing(null)}>
+        <DialogContent className="max-w-3xl">
+          {reviewing && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{reviewing.name || reviewing.email}</DialogTitle>
+                <DialogDescription>
+                  {LICENSE_STATUS_LABELS[reviewing.licenseStatus]}, submitted {formatDate(reviewing.licenseSubmittedAt)}.
+                  Check the photos match the details and the renter&apos;s name.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4 py-4">
+                <div className="grid grid-cols-2 gap-4">
+                  {(['front', 'back'] as const).map(side => (
+                    <a
+                      key={side}
+                      href={`/api/admin/licenses/${reviewing.id}/image?side=${side}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="border rounded-md h-48 relative bg-gray-50 overflow-hidden"
+                    >
+                      {/* The photos need the admin's session, so they skip the image optimizer */}
+                      <Image
+                        src={`/api/admin/licenses/${reviewing.id}/image?side=${side}&v=${reviewing.licenseSubmittedAt}`}
+                        alt={`${side} of driver's license`}
+                        fill
+                        unoptimized
+                        className="object-contain"
+                      />
+                    </a>
+                  ))}
+                </div>
+
+                <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+                  <dt className="text-gray-500">License number</dt>
+                  <dd className="font-mono">{reviewing.licenseNumber}</dd>
+                  <dt className="text-gray-500">Issued by</dt>
+                  <dd>{[reviewing.licenseRegion, reviewing.licenseCountry].filter(Boolean).join(', ')}</dd>
+                  <dt className="text-gray-500">Expires</dt>
+                  <dd>{formatDate(reviewing.licenseExpiry)}</dd>
+                  <dt className="text-gray-500">Date of birth</dt>
+                  <dd>{formatDate(reviewing.dateOfBirth)} (age {ageOn(reviewing.dateOfBirth, new Date())})</dd>
+                </dl>
+
+                {warningsFor(reviewing).map(warning => (
+                  <p key={warning} className="text-sm text-red-600">{warning}</p>
+                ))}
+
+                <div>
+                  <label className="block text-sm font-medium mb-1">Reason for rejecting (sent to the renter)</label>
+                  <textarea
+                    rows={3}
+                    className="w-full px-3 py-2 border rounded-md text-sm"
+                    placeholder="e.g., The photo of the back is too blurry to read."
+                    value={rejectionReason}
+                    onChange={(e) => setRejectionReason(e.target.value)}
+                  />
+                </div>
+              </div>
+              <DialogFooter>
+                <Button
+                  variant="outline"
+                  disabled={isSaving || !rejectionReason.trim()}
+                  onClick={() => handleReview('reject')}
+                >
+                  Reject
+                </Button>
+                <Button
+                  className="bg-red-600 hover:bg-red-700"
+                  disabled={isSaving || reviewing.licenseStatus === 'approved'}
+                  onClick={() => handleReview('approve')}
+                >
+                  {isSaving ? 'Saving...' : 'Approve'}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { useEffect } from 'react';
-import { BookOpenCheck, Car, Users, Settings, Calendar } from 'lucide-react';
+import { BookOpenCheck, Car, Users, Settings, Calendar, Webhook, Tag, Package, Receipt, FileSignature, IdCard } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/app/components/ui/card';
 import { Button } from '@/app/components/ui/button';
 
@@ -88,6 +88,86 @@ export default function AdminDashboard() {
           </CardFooter>
         </Card>
 
+        <Card>
+          <CardHeader>
+            <Tag className="h-8 w-8 text-red-500 mb-2" />
+            <CardTitle>Promo Codes</CardTitle>
+            <CardDescription>Create discount codes for customers</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-gray-500">Set percent or fixed discounts with valid dates, usage limits and eligible vehicles.</p>
+          </CardContent>
+          <CardFooter>
+            <Link href="/admin/promo-codes" className="w-full">
+              <Button variant="default" className="w-full">Manage Promo Codes</Button>
+            </Link>
+          </CardFooter>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <Package className="h-8 w-8 text-red-500 mb-2" />
+            <CardTitle>Add-ons</CardTitle>
+            <CardDescription>Extras customers can add to a booking</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-gray-500">Offer child seats, extra drivers and more, priced per day or per booking with limited stock.</p>
+          </CardContent>
+          <CardFooter>
+            <Link href="/admin/add-ons" className="w-full">
+              <Button variant="default" className="w-full">Manage Add-ons</Button>
+            </Link>
+          </CardFooter>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <Receipt className="h-8 w-8 text-red-500 mb-2" />
+            <CardTitle>Fees &amp; Taxes</CardTitle>
+            <CardDescription>Booking fees and sales tax rates</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-gray-500">Set cleaning, delivery, airport and young driver fees and the tax charged on bookings.</p>
+          </CardContent>
+          <CardFooter>
+            <Link href="/admin/fees" className="w-full">
+              <Button variant="default" className="w-full">Manage Fees &amp; Taxes</Button>
+            </Link>
+          </CardFooter>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <FileSignature className="h-8 w-8 text-red-500 mb-2" />
+            <CardTitle>Rental Agreements</CardTitle>
+            <CardDescription>Terms renters sign before pickup</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-gray-500">Edit the agreement template that is filled in with each booking&apos;s renter, vehicle and price details.</p>
+          </CardContent>
+          <CardFooter>
+            <Link href="/admin/agreements" className="w-full">
+              <Button variant="default" className="w-full">Manage Agreements</Button>
+            </Link>
+          </CardFooter>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <IdCard className="h-8 w-8 text-red-500 mb-2" />
+            <CardTitle>Driver&apos;s Licenses</CardTitle>
+            <CardDescription>Verify renters before they can book</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-gray-500">Review submitted licenses and approve or reject them with a reason for the renter.</p>
+          </CardContent>
+          <CardFooter>
+            <Link href="/admin/licenses" className="w-full">
+              <Button variant="default" className="w-full">Review Licenses</Button>
+            </Link>
+          </CardFooter>
+        </Card>
+
         <Card>
           <CardHeader>
             <Users className="h-8 w-8 text-red-500 mb-2" />
@@ -119,6 +199,22 @@ export default function AdminDashboard() {
             </Link>
           </CardFooter>
         </Card>
+
+        <Card>
+          <CardHeader>
+            <Webhook className="h-8 w-8 text-red-500 mb-2" />
+            <CardTitle>Webhook Events</CardTitle>
+            <CardDescription>Inspect Stripe webhook deliveries</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-gray-500">Review received payment events, see why any failed, and replay them.</p>
+          </CardContent>
+          <CardFooter>
+            <Link href="/admin/webhooks" className="w-full">
+              <Button variant="default" className="w-full">View Events</Button>
+            </Link>
+          </CardFooter>
+        </Card>
       </div>
     </div>
   );
@@ -0,0 +1,205 @@
+'use client';
+
+import { useState, useMemo, useEffect } from 'react';
+import { format, addDays, differenceInCalendarDays } from 'date-fns';
+import {
+  describeDemandAdjustment,
+  explainDailyPricing,
+  parseDateParam,
+  DemandContext,
+  PricingRule
+} from '@/app/lib/pricing';
+import { formatMoney } from '@/app/lib/currency';
+
+interface Vehicle {
+  id: string;
+  model: string;
+  pricePerDay: number;
+  dynamicPricing: boolean;
+  priceFloor: number | null;
+  priceCeiling: number | null;
+}
+
+interface PricingSimulatorProps {
+  vehicles: Vehicle[];
+  rules: PricingRule[];
+}
+
+// Longest range the simulator lays out day by day
+const MAX_SIMULATED_DAYS = 62;
+
+/**
+ * Day-by-day breakdown of which special pricing rules match a vehicle, which
+ * one wins and, for vehicles with dynamic pricing, how demand moved the price
+ */
+export default function PricingSimulator({ vehicles, rules }: PricingSimulatorProps) {
+  const [vehicleId, setVehicleId] = useState('');
+  const [startDate, setStartDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(format(addDays(new Date(), 13), 'yyyy-MM-dd'));
+  const [demand, setDemand] = useState<DemandContext | undefined>(undefined);
+
+  const vehicle = vehicles.find(v => v.id === vehicleId) || vehicles[0];
+
+  const rangeError = !startDate || !endDate
+    ? 'Choose a start and end date'
+    : endDate < startDate
+      ? 'The end date must be after the start date'
+      : differenceInCalendarDays(parseDateParam(endDate), parseDateParam(startDate)) >= MAX_SIMULATED_DAYS
+        ? `Simulate at most ${MAX_SIMULATED_DAYS} days at a time`
+        : null;
+
+  const isDynamic = vehicle?.dynamicPricing === true;
+
+  // Fleet utilization for the range, the same figures checkout prices with
+  useEffect(() => {
+    if (!isDynamic || rangeError) {
+      setDemand(undefined);
+      return;
+    }
+
+    const fetchDemand = async () => {
+      try {
+        const response = await fetch(`/api/admin/fleet-demand?startDate=${startDate}&endDate=${endDate}`);
+
+        if (!response.ok) {
+          throw new Error('Failed to fetch fleet demand');
+        }
+
+        const data = await response.json();
+        setDemand({ utilization: data.demand.utilization, today: new Date(data.demand.today) });
+      } catch (err) {
+        console.error('Error fetching fleet demand:', err);
+        setDemand(undefined);
+      }
+    };
+
+    fetchDemand();
+  }, [isDynamic, startDate, endDate, rangeError]);
+
+  const days = useMemo(() => {
+    if (!vehicle || rangeError) {
+      return [];
+    }
+    return explainDailyPricing(vehicle, parseDateParam(startDate), parseDateParam(endDate), rules, demand);
+  }, [vehicle, startDate, endDate, rules, rangeError, demand]);
+
+  const total = days.reduce((sum, day) => sum + day.price, 0);
+
+  return (
+    <div className="bg-white rounded-lg shadow overflow-hidden mt-8">
+      <div className="px-6 py-4 border-b">
+        <h2 className="text-lg font-semibold">Pricing Simulator</h2>
+        <p className="text-sm text-gray-500">
+          See every rule matching a vehicle on each day and which one sets the price.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 px-6 py-4">
+        <div>
+          <label className="block text-sm font-medium mb-1">Vehicle</label>
+          <select
+            className="w-full px-3 py-2 border rounded-md"
+            value={vehicle?.id || ''}
+            onChange={(e) => setVehicleId(e.target.value)}
+          >
+            {vehicles.map(v => (
+              <option key={v.id} value={v.id}>
+                {v.model} ({formatMoney(v.pricePerDay)}/day{v.dynamicPricing ? ', dynamic' : ''})
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">Start Date</label>
+          <input
+            type="date"
+            className="w-full px-3 py-2 border rounded-md"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">End Date</label>
+          <input
+            type="date"
+            className="w-full px-3 py-2 border rounded-md"
+            value={endDate}
+            min={startDate}
+            onChange={(e) => setEndDate(e.target.value)}
+          />
+        </div>
+      </div>
+
+      {isDynamic && (
+        <p className="px-6 pb-4 text-sm text-gray-500">
+          Dynamic pricing is on for this vehicle
+          {vehicle.priceFloor ? `, never below ${formatMoney(vehicle.priceFloor)}` : ''}
+          {vehicle.priceCeiling ? `, never above ${formatMoney(vehicle.priceCeiling)}` : ''}.
+        </p>
+      )}
+
+      {!vehicle ? (
+        <p className="px-6 pb-4 text-sm text-gray-500">Add a vehicle to simulate its prices.</p>
+      ) : rangeError ? (
+        <p className="px-6 pb-4 text-sm text-red-600">{rangeError}</p>
+      ) : (
+        <table className="w-full border-collapse">
+          <thead>
+            <tr className="bg-gray-50 border-b border-t">
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Base Price</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Matching Rules</th>
+              {isDynamic && (
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Demand</th>
+              )}
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Price</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {days.map(day => (
+              <tr key={day.date} className={day.matchingRules.length > 1 ? 'bg-amber-50' : ''}>
+                <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">
+                  {format(parseDateParam(day.date), 'EEE, MMM d, yyyy')}
+                </td>
+                <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">{formatMoney(day.basePrice)}</td>
+                <td className="px-6 py-3 text-sm">
+                  {day.matchingRules.length === 0 ? (
+                    <span className="text-gray-400">None</span>
+                  ) : (
+                    <div className="space-y-1">
+                      {day.matchingRules.map(rule => (
+                        <div
+                          key={rule.id}
+                          className={rule.id === day.winningRuleId ? 'font-medium text-gray-900' : 'text-gray-400 line-through'}
+                        >
+                          {rule.name}: {formatMoney(rule.price)} (priority {rule.priority})
+                          {rule.id === day.winningRuleId && day.matchingRules.length > 1 && (
+                            <span className="ml-2 text-xs text-amber-700 no-underline">wins</span>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </td>
+                {isDynamic && (
+                  <td className="px-6 py-3 text-sm text-gray-500">
+                    {day.adjustment ? describeDemandAdjustment(day.adjustment) : 'No change'}
+                  </td>
+                )}
+                <td className="px-6 py-3 whitespace-nowrap text-sm font-medium text-gray-900">{formatMoney(day.price)}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className="bg-gray-50 border-t">
+              <td colSpan={isDynamic ? 4 : 3} className="px-6 py-3 text-sm font-medium text-right">
+                Total for {days.length} day{days.length !== 1 ? 's' : ''} before discounts
+              </td>
+              <td className="px-6 py-3 whitespace-nowrap text-sm font-bold">{formatMoney(total)}</td>
+            </tr>
+          </tfoot>
+        </table>
+      )}
+    </div>
+  );
+}
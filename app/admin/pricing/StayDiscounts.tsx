@@ -0,0 +1,295 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { PlusIcon, PencilIcon, TrashIcon } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/app/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/app/components/ui/dialog";
+
+interface Vehicle {
+  id: string;
+  model: string;
+}
+
+interface StayDiscount {
+  id: string;
+  name: string;
+  minDays: number;
+  percentOff: number;
+  applyToAll: boolean;
+  vehicles: { id: string; model: string }[];
+}
+
+interface StayDiscountsProps {
+  vehicles: Vehicle[];
+}
+
+// Length-of-stay discount tiers (e.g. weekly and monthly rates) on the admin pricing page
+export default function StayDiscounts({ vehicles }: StayDiscountsProps) {
+  const [stayDiscounts, setStayDiscounts] = useState<StayDiscount[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Create/edit state
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<StayDiscount | null>(null);
+  const [name, setName] = useState('');
+  const [minDays, setMinDays] = useState('');
+  const [percentOff, setPercentOff] = useState('');
+  const [applyToAll, setApplyToAll] = useState(true);
+  const [vehicleIds, setVehicleIds] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchStayDiscounts();
+  }, []);
+
+  const fetchStayDiscounts = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/admin/stay-discounts');
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch stay discounts');
+      }
+
+      const data = await response.json();
+      setStayDiscounts(data.stayDiscounts || []);
+    } catch (err) {
+      console.error('Error fetching stay discounts:', err);
+      toast.error('Failed to load length-of-stay discounts');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openDialog = (discount: StayDiscount | null) => {
+    setEditing(discount);
+    setName(discount?.name || '');
+    setMinDays(discount ? String(discount.minDays) : '');
+    setPercentOff(discount ? String(discount.percentOff) : '');
+    setApplyToAll(discount?.applyToAll ?? true);
+    setVehicleIds(discount?.vehicles.map(vehicle => vehicle.id) || []);
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(
+        editing ? `/api/admin/stay-discounts/${editing.id}` : '/api/admin/stay-discounts',
+        {
+          method: editing ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name,
+            minDays,
+            percentOff,
+            applyToAll,
+            vehicleIds: applyToAll ? [] : vehicleIds
+          })
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save stay discount');
+      }
+
+      const saved: StayDiscount = data.stayDiscount;
+      setStayDiscounts(prev =>
+        (editing ? prev.map(discount => discount.id === saved.id ? saved : discount) : [...prev, saved])
+          .sort((a, b) => a.minDays - b.minDays)
+      );
+      setDialogOpen(false);
+    } catch (err) {
+      console.error('Error saving stay discount:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to save stay discount');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (discount: StayDiscount) => {
+    if (!confirm(`Delete the ${discount.name} discount?`)) return;
+
+    try {
+      const response = await fetch(`/api/admin/stay-discounts/${discount.id}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        throw new Error('Failed to delete stay discount');
+      }
+
+      setStayDiscounts(prev => prev.filter(item => item.id !== discount.id));
+    } catch (err) {
+      console.error('Error deleting stay discount:', err);
+      toast.error('Failed to delete stay discount');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow overflow-hidden mt-8">
+      <div className="flex items-center justify-between px-6 py-4 border-b">
+        <div>
+          <h2 className="text-lg font-semibold">Length-of-Stay Discounts</h2>
+          <p className="text-sm text-gray-500">Longer rentals get the largest discount they qualify for.</p>
+        </div>
+        <Button variant="outline" onClick={() => openDialog(null)}>
+          <PlusIcon className="h-4 w-4 mr-2" />
+          Add Discount
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <p className="px-6 py-4 text-sm text-gray-500">Loading discounts...</p>
+      ) : stayDiscounts.length === 0 ? (
+        <p className="px-6 py-4 text-sm text-gray-500">No length-of-stay discounts. Every day is charged at its daily rate.</p>
+      ) : (
+        <table className="w-full border-collapse">
+          <thead>
+            <tr className="bg-gray-50 border-b">
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Stays Of</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Discount</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Applies To</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {stayDiscounts.map((discount) => (
+              <tr key={discount.id} className="hover:bg-gray-50">
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{discount.name}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{discount.minDays}+ days</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{discount.percentOff}% off</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {discount.applyToAll
+                    ? 'All Vehicles'
+                    : `${discount.vehicles.length} vehicle${discount.vehicles.length !== 1 ? 's' : ''}`}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                  <div className="flex space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-blue-600 hover:text-blue-800"
+                      onClick={() => openDialog(discount)}
+                    >
+                      <PencilIcon className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-red-600 hover:text-red-800"
+                      onClick={() => handleDelete(discount)}
+                    >
+                      <TrashIcon className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Length-of-Stay Discount' : 'Add Length-of-Stay Discount'}</DialogTitle>
+            <DialogDescription>
+              Takes a percentage off the whole stay when it is at least this many days long.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div>
+              <label className="block text-sm font-medium mb-1">Name</label>
+              <input
+                type="text"
+                className="w-full px-3 py-2 border rounded-md"
+                placeholder="e.g., Weekly, Monthly"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-sm font-medium mb-1">Minimum Days</label>
+                <input
+                  type="number"
+                  min={2}
+                  className="w-full px-3 py-2 border rounded-md"
+                  placeholder="e.g., 7"
+                  value={minDays}
+                  onChange={(e) => setMinDays(e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Percent Off</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={99}
+                  className="w-full px-3 py-2 border rounded-md"
+                  placeholder="e.g., 10"
+                  value={percentOff}
+                  onChange={(e) => setPercentOff(e.target.value)}
+                />
+              </div>
+            </div>
+            <div>
+              <div className="flex items-center mb-2">
+                <input
+                  type="checkbox"
+                  id="stay-discount-all-vehicles"
+                  checked={applyToAll}
+                  onChange={(e) => setApplyToAll(e.target.checked)}
+                  className="mr-2"
+                />
+                <label htmlFor="stay-discount-all-vehicles" className="text-sm font-medium">
+                  Apply to all vehicles
+                </label>
+              </div>
+              {!applyToAll && (
+                <div className="max-h-40 overflow-y-auto border rounded-md p-2">
+                  {vehicles.map(vehicle => (
+                    <div key={vehicle.id} className="flex items-center mb-2">
+                      <input
+                        type="checkbox"
+                        id={`stay-discount-vehicle-${vehicle.id}`}
+                        checked={vehicleIds.includes(vehicle.id)}
+                        onChange={() => setVehicleIds(prev =>
+                          prev.includes(vehicle.id) ? prev.filter(id => id !== vehicle.id) : [...prev, vehicle.id]
+                        )}
+                        className="mr-2"
+                      />
+                      <label htmlFor={`stay-discount-vehicle-${vehicle.id}`}>{vehicle.model}</label>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              className="bg-red-600 hover:bg-red-700"
+              disabled={isSaving || !name.trim() || !minDays || !percentOff || (!applyToAll && vehicleIds.length === 0)}
+              onClick={handleSave}
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
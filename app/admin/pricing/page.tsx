@@ -1,11 +1,11 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { format, parseISO } from 'date-fns';
-import { ArrowLeftIcon, PlusIcon, PencilIcon, TrashIcon, CalendarIcon } from 'lucide-react';
+import { ArrowLeftIcon, PlusIcon, PencilIcon, TrashIcon, CalendarIcon, TagIcon, AlertTriangleIcon } from 'lucide-react';
 import { Button } from '@/app/components/ui/button';
 import {
   Dialog,
@@ -15,10 +15,18 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/app/components/ui/dialog";
+import StayDiscounts from './StayDiscounts';
+import PricingSimulator from './PricingSimulator';
+import { describeRecurrence, findRuleConflicts } from '@/app/lib/pricing';
+import { formatMoney } from '@/app/lib/currency';
 
 interface Vehicle {
   id: string;
   model: string;
+  pricePerDay: number;
+  dynamicPricing: boolean;
+  priceFloor: number | null;
+  priceCeiling: number | null;
 }
 
 interface SpecialPricing {
@@ -29,6 +37,9 @@ interface SpecialPricing {
   priceType: 'multiplier' | 'fixed';
   priceValue: number;
   applyToAll: boolean;
+  recurrence: string;
+  daysOfWeek: number[];
+  priority: number;
   vehicles: { id: string; model: string }[];
   createdAt: string;
   updatedAt: string;
@@ -46,6 +57,14 @@ export default function AdminPricingPage() {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [selectedRule, setSelectedRule] = useState<SpecialPricing | null>(null);
 
+  // Rules that never apply because another rule always wins over them
+  const shadowedBy = useMemo(() => Object.fromEntries(
+    specialPricingRules.map(rule => [
+      rule.id,
+      findRuleConflicts(rule, specialPricingRules).filter(conflict => conflict.kind === 'shadowed')
+    ])
+  ), [specialPricingRules]);
+
   // Redirect if user is not authenticated or not an admin
   useEffect(() => {
     if (status === 'unauthenticated') {
@@ -166,6 +185,12 @@ export default function AdminPricingPage() {
               Calendar View
             </Button>
           </Link>
+          <Link href="/admin/promo-codes">
+            <Button variant="outline">
+              <TagIcon className="h-4 w-4 mr-2" />
+              Promo Codes
+            </Button>
+          </Link>
           <Button 
             className="bg-red-600 hover:bg-red-700"
             onClick={() => {
@@ -215,6 +240,7 @@ export default function AdminPricingPage() {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Value</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Applies To</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Priority</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
                 </tr>
               </thead>
@@ -223,11 +249,20 @@ export default function AdminPricingPage() {
                   <tr key={rule.id} className="hover:bg-gray-50">
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm font-medium text-gray-900">{rule.name}</div>
+                      {shadowedBy[rule.id]?.map(conflict => (
+                        <div key={conflict.ruleId} className="flex items-center text-xs text-amber-700" title={conflict.message}>
+                          <AlertTriangleIcon className="h-3 w-3 mr-1" />
+                          Never applies, shadowed by {conflict.ruleName}
+                        </div>
+                      ))}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm text-gray-500">
                         {formatDate(rule.startDate)} - {formatDate(rule.endDate)}
                       </div>
+                      {describeRecurrence(rule) && (
+                        <div className="text-xs text-gray-400">{describeRecurrence(rule)}</div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${
@@ -241,13 +276,14 @@ export default function AdminPricingPage() {
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {rule.priceType === 'multiplier' 
                         ? `${rule.priceValue}x` 
-                        : `$${rule.priceValue}`}
+                        : formatMoney(rule.priceValue)}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {rule.applyToAll 
                         ? 'All Vehicles' 
                         : `${rule.vehicles.length} vehicle${rule.vehicles.length !== 1 ? 's' : ''}`}
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{rule.priority}</td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                       <div className="flex space-x-2">
                         <Button
@@ -283,6 +319,10 @@ export default function AdminPricingPage() {
         </div>
       )}
       
+      <PricingSimulator vehicles={vehicles} rules={specialPricingRules} />
+      
+      <StayDiscounts vehicles={vehicles} />
+      
       {/* Delete Confirmation Dialog */}
       <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <DialogContent>
@@ -301,7 +341,7 @@ export default function AdminPricingPage() {
               <p className="text-sm mt-1">
                 {selectedRule.priceType === 'multiplier' 
                   ? `${selectedRule.priceValue}x multiplier` 
-                  : `$${selectedRule.priceValue} fixed price`}
+                  : `${formatMoney(selectedRule.priceValue)} fixed price`}
               </p>
             </div>
           )}
@@ -0,0 +1,588 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { format, parseISO } from 'date-fns';
+import { ArrowLeftIcon, PlusIcon, PencilIcon, TrashIcon, TagIcon, DollarSignIcon } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/app/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/app/components/ui/dialog";
+import { formatMoney, fromMinorUnits } from '@/app/lib/currency';
+
+interface Vehicle {
+  id: string;
+  model: string;
+}
+
+interface PromoCode {
+  id: string;
+  code: string;
+  description: string | null;
+  discountType: 'percent' | 'fixed';
+  discountValue: number;
+  validFrom: string | null;
+  validUntil: string | null;
+  maxUses: number | null;
+  maxUsesPerUser: number | null;
+  minDays: number | null;
+  active: boolean;
+  applyToAll: boolean;
+  vehicles: { id: string; model: string }[];
+  uses: number;
+}
+
+// Values of the create/edit form, as the inputs hold them
+interface PromoCodeForm {
+  code: string;
+  description: string;
+  discountType: 'percent' | 'fixed';
+  discountValue: string;
+  validFrom: string;
+  validUntil: string;
+  maxUses: string;
+  maxUsesPerUser: string;
+  minDays: string;
+  active: boolean;
+  applyToAll: boolean;
+  vehicleIds: string[];
+}
+
+const EMPTY_FORM: PromoCodeForm = {
+  code: '',
+  description: '',
+  discountType: 'percent',
+  discountValue: '',
+  validFrom: '',
+  validUntil: '',
+  maxUses: '',
+  maxUsesPerUser: '',
+  minDays: '',
+  active: true,
+  applyToAll: true,
+  vehicleIds: []
+};
+
+// Fill the form from an existing code
+function toForm(promoCode: PromoCode): PromoCodeForm {
+  return {
+    code: promoCode.code,
+    description: promoCode.description || '',
+    discountType: promoCode.discountType,
+    discountValue: String(promoCode.discountType === 'fixed' ? fromMinorUnits(promoCode.discountValue) : promoCode.discountValue),
+    validFrom: promoCode.validFrom ? format(parseISO(promoCode.validFrom), 'yyyy-MM-dd') : '',
+    validUntil: promoCode.validUntil ? format(parseISO(promoCode.validUntil), 'yyyy-MM-dd') : '',
+    maxUses: promoCode.maxUses ? String(promoCode.maxUses) : '',
+    maxUsesPerUser: promoCode.maxUsesPerUser ? String(promoCode.maxUsesPerUser) : '',
+    minDays: promoCode.minDays ? String(promoCode.minDays) : '',
+    active: promoCode.active,
+    applyToAll: promoCode.applyToAll,
+    vehicleIds: promoCode.vehicles.map(vehicle => vehicle.id)
+  };
+}
+
+// Describe the discount, e.g. "15% off" or "$50 off"
+function formatDiscount(promoCode: Pick<PromoCode, 'discountType' | 'discountValue'>) {
+  return promoCode.discountType === 'percent'
+    ? `${promoCode.discountValue}% off`
+    : `${formatMoney(promoCode.discountValue)} off`;
+}
+
+export default function AdminPromoCodesPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [isLoading, setIsLoading] = useState(true);
+  const [promoCodes, setPromoCodes] = useState<PromoCode[]>([]);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Create/edit state
+  const [formDialogOpen, setFormDialogOpen] = useState(false);
+  const [editingCode, setEditingCode] = useState<PromoCode | null>(null);
+  const [form, setForm] = useState<PromoCodeForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Deletion state
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [selectedCode, setSelectedCode] = useState<PromoCode | null>(null);
+
+  const isAdmin = session?.user?.isAdmin === true;
+
+  // Redirect if user is not authenticated or not an admin
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login?callbackUrl=/admin/promo-codes');
+      return;
+    }
+
+    if (status === 'authenticated' && !isAdmin) {
+      router.push('/');
+      return;
+    }
+
+    if (status === 'authenticated' && isAdmin) {
+      fetchPromoCodes();
+      fetchVehicles();
+    }
+  }, [status, isAdmin, router]);
+
+  const fetchPromoCodes = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/admin/promo-codes');
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch promo codes');
+      }
+
+      const data = await response.json();
+      setPromoCodes(data.promoCodes || []);
+    } catch (err) {
+      console.error('Error fetching promo codes:', err);
+      setError('Failed to load promo codes. Please try again later.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const fetchVehicles = async () => {
+    try {
+      const response = await fetch('/api/admin/vehicles');
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch vehicles');
+      }
+
+      const data = await response.json();
+      setVehicles(data.vehicles || []);
+    } catch (err) {
+      console.error('Error fetching vehicles:', err);
+    }
+  };
+
+  const openForm = (promoCode: PromoCode | null) => {
+    setEditingCode(promoCode);
+    setForm(promoCode ? toForm(promoCode) : EMPTY_FORM);
+    setFormDialogOpen(true);
+  };
+
+  const updateForm = (changes: Partial<PromoCodeForm>) => {
+    setForm(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(
+        editingCode ? `/api/admin/promo-codes/${editingCode.id}` : '/api/admin/promo-codes',
+        {
+          method: editingCode ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            ...form,
+            vehicleIds: form.applyToAll ? [] : form.vehicleIds
+          })
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save promo code');
+      }
+
+      setPromoCodes(editingCode
+        ? promoCodes.map(promoCode => promoCode.id === editingCode.id ? data.promoCode : promoCode)
+        : [data.promoCode, ...promoCodes]);
+      setFormDialogOpen(false);
+      setEditingCode(null);
+      toast.success(`Promo code ${data.promoCode.code} saved`);
+    } catch (err) {
+      console.error('Error saving promo code:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to save promo code');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedCode) return;
+
+    try {
+      const response = await fetch(`/api/admin/promo-codes/${selectedCode.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to delete promo code');
+      }
+
+      setPromoCodes(promoCodes.filter(promoCode => promoCode.id !== selectedCode.id));
+      setDeleteDialogOpen(false);
+      setSelectedCode(null);
+    } catch (err) {
+      console.error('Error deleting promo code:', err);
+      setError('Failed to delete promo code. Please try again.');
+    }
+  };
+
+  // Format an optional date for display
+  const formatDate = (dateString: string | null) => {
+    return dateString ? format(parseISO(dateString), 'MMM d, yyyy') : null;
+  };
+
+  const header = (
+    <div className="flex items-center justify-between mb-6">
+      <div className="flex items-center">
+        <Link href="/admin" className="mr-4">
+          <Button variant="outline" size="icon">
+            <ArrowLeftIcon className="h-4 w-4" />
+          </Button>
+        </Link>
+        <h1 className="text-2xl font-bold">Promo Codes</h1>
+      </div>
+      <div className="flex space-x-2">
+        <Link href="/admin/pricing">
+          <Button variant="outline">
+            <DollarSignIcon className="h-4 w-4 mr-2" />
+            Special Pricing
+          </Button>
+        </Link>
+        <Button className="bg-red-600 hover:bg-red-700" onClick={() => openForm(null)}>
+          <PlusIcon className="h-4 w-4 mr-2" />
+          Add Promo Code
+        </Button>
+      </div>
+    </div>
+  );
+
+  if (status === 'loading' || isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        {header}
+        <p>Loading promo codes...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {header}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-6">
+          {error}
+        </div>
+      )}
+
+      {promoCodes.length === 0 ? (
+        <div className="text-center py-12 bg-gray-50 rounded-lg">
+          <TagIcon className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-lg font-medium text-gray-900">No promo codes</h3>
+          <p className="mt-1 text-sm text-gray-500">Create a code customers can enter when booking.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full border-collapse">
+              <thead>
+                <tr className="bg-gray-50 border-b">
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Code</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Discount</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Valid</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Uses</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Applies To</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {promoCodes.map((promoCode) => (
+                  <tr key={promoCode.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">
+                        {promoCode.code}
+                        {!promoCode.active && (
+                          <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-600">Inactive</span>
+                        )}
+                      </div>
+                      {promoCode.description && (
+                        <div className="text-xs text-gray-500">{promoCode.description}</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatDiscount(promoCode)}
+                      {promoCode.minDays && <div className="text-xs">{promoCode.minDays}+ days</div>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {promoCode.validFrom || promoCode.validUntil
+                        ? `${formatDate(promoCode.validFrom) || 'Now'} - ${formatDate(promoCode.validUntil) || 'No end'}`
+                        : 'Always'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {promoCode.uses}{promoCode.maxUses ? ` / ${promoCode.maxUses}` : ''}
+                      {promoCode.maxUsesPerUser && (
+                        <div className="text-xs">{promoCode.maxUsesPerUser} per customer</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {promoCode.applyToAll
+                        ? 'All Vehicles'
+                        : `${promoCode.vehicles.length} vehicle${promoCode.vehicles.length !== 1 ? 's' : ''}`}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      <div className="flex space-x-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="text-blue-600 hover:text-blue-800"
+                          onClick={() => openForm(promoCode)}
+                        >
+                          <PencilIcon className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="text-red-600 hover:text-red-800"
+                          onClick={() => {
+                            setSelectedCode(promoCode);
+                            setDeleteDialogOpen(true);
+                          }}
+                        >
+                          <TrashIcon className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Create/Edit Dialog */}
+      <Dialog open={formDialogOpen} onOpenChange={setFormDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingCode ? 'Edit Promo Code' : 'Add Promo Code'}</DialogTitle>
+            <DialogDescription>
+              Customers enter the code on the booking page to get the discount.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4 max-h-[60vh] overflow-y-auto">
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-sm font-medium mb-1">Code</label>
+                <input
+                  type="text"
+                  className="w-full px-3 py-2 border rounded-md uppercase"
+                  placeholder="e.g., SUMMER25"
+                  value={form.code}
+                  onChange={(e) => updateForm({ code: e.target.value })}
+                />
+              </div>
+              <div className="flex items-end pb-2">
+                <input
+                  type="checkbox"
+                  id="promo-active"
+                  checked={form.active}
+                  onChange={(e) => updateForm({ active: e.target.checked })}
+                  className="mr-2"
+                />
+                <label htmlFor="promo-active" className="text-sm font-medium">Active</label>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1">Description</label>
+              <input
+                type="text"
+                className="w-full px-3 py-2 border rounded-md"
+                placeholder="Shown to the customer when the code is applied"
+                value={form.description}
+                onChange={(e) => updateForm({ description: e.target.value })}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-sm font-medium mb-1">Discount Type</label>
+                <select
+                  className="w-full px-3 py-2 border rounded-md"
+                  value={form.discountType}
+                  onChange={(e) => updateForm({ discountType: e.target.value as 'percent' | 'fixed' })}
+                >
+                  <option value="percent">Percent off</option>
+                  <option value="fixed">Fixed amount off</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">
+                  {form.discountType === 'percent' ? 'Percent' : 'Amount ($)'}
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  max={form.discountType === 'percent' ? 100 : undefined}
+                  step={form.discountType === 'percent' ? 1 : 0.01}
+                  className="w-full px-3 py-2 border rounded-md"
+                  placeholder={form.discountType === 'percent' ? 'e.g., 15' : 'e.g., 50'}
+                  value={form.discountValue}
+                  onChange={(e) => updateForm({ discountValue: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1">Valid Dates</label>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">From (optional)</label>
+                  <input
+                    type="date"
+                    className="w-full px-3 py-2 border rounded-md"
+                    value={form.validFrom}
+                    onChange={(e) => updateForm({ validFrom: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">Until (optional)</label>
+                  <input
+                    type="date"
+                    className="w-full px-3 py-2 border rounded-md"
+                    value={form.validUntil}
+                    min={form.validFrom}
+                    onChange={(e) => updateForm({ validUntil: e.target.value })}
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Total uses</label>
+                <input
+                  type="number"
+                  min={1}
+                  className="w-full px-3 py-2 border rounded-md"
+                  placeholder="Unlimited"
+                  value={form.maxUses}
+                  onChange={(e) => updateForm({ maxUses: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Uses per customer</label>
+                <input
+                  type="number"
+                  min={1}
+                  className="w-full px-3 py-2 border rounded-md"
+                  placeholder="Unlimited"
+                  value={form.maxUsesPerUser}
+                  onChange={(e) => updateForm({ maxUsesPerUser: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Minimum days</label>
+                <input
+                  type="number"
+                  min={1}
+                  className="w-full px-3 py-2 border rounded-md"
+                  placeholder="Any"
+                  value={form.minDays}
+                  onChange={(e) => updateForm({ minDays: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center mb-2">
+                <input
+                  type="checkbox"
+                  id="promo-all-vehicles"
+                  checked={form.applyToAll}
+                  onChange={(e) => updateForm({ applyToAll: e.target.checked })}
+                  className="mr-2"
+                />
+                <label htmlFor="promo-all-vehicles" className="text-sm font-medium">
+                  Valid for all vehicles
+                </label>
+              </div>
+
+              {!form.applyToAll && (
+                <div className="max-h-40 overflow-y-auto border rounded-md p-2">
+                  {vehicles.map(vehicle => (
+                    <div key={vehicle.id} className="flex items-center mb-2">
+                      <input
+                        type="checkbox"
+                        id={`promo-vehicle-${vehicle.id}`}
+                        checked={form.vehicleIds.includes(vehicle.id)}
+                        onChange={() => updateForm({
+                          vehicleIds: form.vehicleIds.includes(vehicle.id)
+                            ? form.vehicleIds.filter(id => id !== vehicle.id)
+                            : [...form.vehicleIds, vehicle.id]
+                        })}
+                        className="mr-2"
+                      />
+                      <label htmlFor={`promo-vehicle-${vehicle.id}`}>{vehicle.model}</label>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              className="bg-red-600 hover:bg-red-700"
+              disabled={
+                isSaving || !form.code.trim() || !form.discountValue ||
+                (!form.applyToAll && form.vehicleIds.length === 0)
+              }
+              onClick={handleSave}
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Promo Code</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete this promo code? Bookings that used it keep their discount.
+            </DialogDescription>
+          </DialogHeader>
+          {selectedCode && (
+            <div className="py-4">
+              <p className="font-medium">{selectedCode.code}</p>
+              <p className="text-sm text-gray-500">
+                {formatDiscount(selectedCode)}, used {selectedCode.uses} time{selectedCode.uses !== 1 ? 's' : ''}
+              </p>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete}>
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
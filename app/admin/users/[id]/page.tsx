@@ -12,6 +12,7 @@ import { Label } from '@/app/components/ui/label';
 import { Checkbox } from '@/app/components/ui/checkbox';
 import { Skeleton } from '@/app/components/ui/skeleton';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/app/components/ui/card';
+import { formatMoney } from '@/app/lib/currency';
 
 // Define types for our data
 interface Booking {
@@ -19,6 +20,7 @@ interface Booking {
   startDate: string;
   endDate: string;
   totalPrice: number;
+  currency: string;
   status: string;
   vehicle: {
     id: string;
@@ -445,7 +447,7 @@ export default function UserDetailPage({ params }: { params: { id: string } }) {
                       </div>
                       <div className="flex justify-between text-sm">
                         <span className="text-gray-500">Total:</span>
-                        <span className="font-medium">${booking.totalPrice.toFixed(2)}</span>
+                        <span className="font-medium">{formatMoney(booking.totalPrice, booking.currency)}</span>
                       </div>
                       <div className="mt-2">
                         <Link href={`/admin/bookings/${booking.id}`}>
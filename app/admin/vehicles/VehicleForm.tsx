@@ -7,6 +7,7 @@ import { Input } from '@/app/components/ui/input';
 import { Label } from '@/app/components/ui/label';
 import { Textarea } from '@/app/components/ui/textarea';
 import { XIcon, PlusIcon, ImageIcon, UploadIcon, DollarSignIcon, Settings2Icon } from 'lucide-react';
+import { formatMoney, fromMinorUnits } from '@/app/lib/currency';
 
 interface VehicleFormProps {
   vehicleId?: string;
@@ -18,6 +19,12 @@ interface VehicleFormData {
   image: string;
   description: string;
   pricePerDay: string;
+  securityDeposit: string;
+  minRentalDays: string;
+  maxRentalDays: string;
+  dynamicPricing: boolean;
+  priceFloor: string;
+  priceCeiling: string;
   seats: string;
   range: string;
   acceleration: string;
@@ -50,6 +57,12 @@ export default function VehicleForm({ vehicleId, isEditing = false }: VehicleFor
     image: '',
     description: '',
     pricePerDay: '',
+    securityDeposit: '0',
+    minRentalDays: '1',
+    maxRentalDays: '',
+    dynamicPricing: false,
+    priceFloor: '',
+    priceCeiling: '',
     seats: '',
     range: '',
     acceleration: '',
@@ -91,7 +104,13 @@ export default function VehicleForm({ vehicleId, isEditing = false }: VehicleFor
         model: vehicle.model,
         image: vehicle.image || '',
         description: vehicle.description,
-        pricePerDay: vehicle.pricePerDay.toString(),
+        pricePerDay: fromMinorUnits(vehicle.pricePerDay).toString(),
+        securityDeposit: fromMinorUnits(vehicle.securityDeposit ?? 0).toString(),
+        minRentalDays: (vehicle.minRentalDays ?? 1).toString(),
+        maxRentalDays: vehicle.maxRentalDays ? vehicle.maxRentalDays.toString() : '',
+        dynamicPricing: vehicle.dynamicPricing ?? false,
+        priceFloor: vehicle.priceFloor ? fromMinorUnits(vehicle.priceFloor).toString() : '',
+        priceCeiling: vehicle.priceCeiling ? fromMinorUnits(vehicle.priceCeiling).toString() : '',
         seats: vehicle.seats.toString(),
         range: vehicle.range,
         acceleration: vehicle.acceleration,
@@ -191,6 +210,12 @@ export default function VehicleForm({ vehicleId, isEditing = false }: VehicleFor
       return;
     }
     
+    if (formData.priceFloor && formData.priceCeiling && parseFloat(formData.priceFloor) > parseFloat(formData.priceCeiling)) {
+      setError('The price floor must not be above the price ceiling');
+      setIsLoading(false);
+      return;
+    }
+    
     // Filter out empty features
     const filteredFeatures = formData.features.filter(feature => feature.trim() !== '');
     
@@ -402,10 +427,104 @@ export default function VehicleForm({ vehicleId, isEditing = false }: VehicleFor
                 onChange={handleChange}
                 placeholder="150"
                 min="1"
+                step="0.01"
                 required
               />
             </div>
             
+            <div className="space-y-2">
+              <Label htmlFor="securityDeposit">Security Deposit ($)</Label>
+              <Input
+                id="securityDeposit"
+                name="securityDeposit"
+                type="number"
+                value={formData.securityDeposit}
+                onChange={handleChange}
+                placeholder="500"
+                min="0"
+                step="0.01"
+              />
+              <p className="text-xs text-gray-500">Authorized on the customer&apos;s card after payment. Use 0 to hold the deductible of the customer&apos;s protection plan instead.</p>
+            </div>
+            
+            <div className="space-y-2">
+              <Label htmlFor="minRentalDays">Minimum Rental (days)</Label>
+              <Input
+                id="minRentalDays"
+                name="minRentalDays"
+                type="number"
+                value={formData.minRentalDays}
+                onChange={handleChange}
+                placeholder="1"
+                min="1"
+              />
+            </div>
+            
+            <div className="space-y-2">
+              <Label htmlFor="maxRentalDays">Maximum Rental (days)</Label>
+              <Input
+                id="maxRentalDays"
+                name="maxRentalDays"
+                type="number"
+                value={formData.maxRentalDays}
+                onChange={handleChange}
+                placeholder="No limit"
+                min="1"
+              />
+              <p className="text-xs text-gray-500">Leave empty for no maximum.</p>
+            </div>
+            
+            <div className="space-y-2 md:col-span-2">
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  id="dynamicPricing"
+                  checked={formData.dynamicPricing}
+                  onChange={(e) => setFormData(prev => ({ ...prev, dynamicPricing: e.target.checked }))}
+                  className="mr-2"
+                />
+                <Label htmlFor="dynamicPricing">Dynamic pricing</Label>
+              </div>
+              <p className="text-xs text-gray-500">
+                Raises daily prices when most of the fleet is booked or the rental is days away, and lowers them when
+                demand is low or the rental is booked well ahead.
+              </p>
+            </div>
+            
+            {formData.dynamicPricing && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="priceFloor">Price Floor ($)</Label>
+                  <Input
+                    id="priceFloor"
+                    name="priceFloor"
+                    type="number"
+                    value={formData.priceFloor}
+                    onChange={handleChange}
+                    placeholder="No floor"
+                    min="1"
+                    step="0.01"
+                  />
+                  <p className="text-xs text-gray-500">Dynamic pricing never lowers a day below this.</p>
+                </div>
+                
+                <div className="space-y-2">
+                  <Label htmlFor="priceCeiling">Price Ceiling ($)</Label>
+                  <Input
+                    id="priceCeiling"
+                    name="priceCeiling"
+                    type="number"
+                    value={formData.priceCeiling}
+                    onChange={handleChange}
+                    placeholder="No ceiling"
+                    min="1"
+                    step="0.01"
+                  />
+                  <p className="text-xs text-gray-500">Dynamic pricing never raises a day above this.</p>
+                </div>
+              </>
+            )}
+            
             <div className="space-y-2">
               <Label htmlFor="seats">Seats *</Label>
               <Input
@@ -564,7 +683,7 @@ export default function VehicleForm({ vehicleId, isEditing = false }: VehicleFor
                           <td className="border p-2">
                             {rule.priceType === 'multiplier' 
                               ? `${rule.priceValue}x` 
-                              : `$${rule.priceValue}`}
+                              : formatMoney(rule.priceValue)}
                           </td>
                           <td className="border p-2">
                             {rule.applyToAll 
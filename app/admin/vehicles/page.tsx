@@ -9,6 +9,7 @@ import { PencilIcon, TrashIcon, ArrowLeftIcon, PlusIcon, CheckIcon, XIcon, CarIc
 import { Button } from '@/app/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/app/components/ui/card';
 import { Skeleton } from '@/app/components/ui/skeleton';
+import { formatMoney } from '@/app/lib/currency';
 
 // Define types for our data
 interface Vehicle {
@@ -172,7 +173,7 @@ export default function AdminVehiclesPage() {
                     <div className="font-medium">{vehicle.model}</div>
                     <div className="text-sm text-gray-500 truncate max-w-xs">{vehicle.description.substring(0, 50)}...</div>
                   </td>
-                  <td className="border p-2">${vehicle.pricePerDay.toFixed(2)}</td>
+                  <td className="border p-2">{formatMoney(vehicle.pricePerDay)}</td>
                   <td className="border p-2">{vehicle.seats}</td>
                   <td className="border p-2">{vehicle.range}</td>
                   <td className="border p-2">{formatDate(vehicle.createdAt)}</td>
@@ -0,0 +1,222 @@
+'use client';
+
+import { Fragment, useState, useEffect } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { ArrowLeftIcon, RefreshCwIcon, RotateCcwIcon } from 'lucide-react';
+import { Button } from '@/app/components/ui/button';
+
+interface WebhookEvent {
+  id: string;
+  type: string;
+  payload: unknown;
+  status: 'received' | 'processing' | 'processed' | 'failed';
+  error: string | null;
+  attempts: number;
+  processedAt: string | null;
+  createdAt: string;
+}
+
+const STATUS_FILTERS = ['all', 'failed', 'processed', 'processing', 'received'] as const;
+
+const STATUS_COLORS: Record<WebhookEvent['status'], string> = {
+  received: 'bg-gray-100 text-gray-800',
+  processing: 'bg-yellow-100 text-yellow-800',
+  processed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+export default function AdminWebhooksPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [events, setEvents] = useState<WebhookEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [expandedEvent, setExpandedEvent] = useState<string | null>(null);
+  const [replaying, setReplaying] = useState<string | null>(null);
+
+  // Redirect if user is not authenticated or not an admin
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login?callbackUrl=/admin/webhooks');
+      return;
+    }
+
+    // Check if user is an admin
+    const isAdmin = session?.user?.isAdmin === true;
+    if (status === 'authenticated' && !isAdmin) {
+      router.push('/');
+      return;
+    }
+
+    if (status === 'authenticated' && isAdmin) {
+      fetchEvents(statusFilter);
+    }
+  }, [status, session, router, statusFilter]);
+
+  const fetchEvents = async (filter: string) => {
+    setIsLoading(true);
+    try {
+      const query = filter === 'all' ? '' : `?status=${filter}`;
+      const response = await fetch(`/api/admin/webhook-events${query}`);
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch webhook events');
+      }
+
+      setEvents(await response.json());
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching webhook events:', err);
+      setError('Failed to load webhook events. Please try again later.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReplay = async (eventId: string) => {
+    setReplaying(eventId);
+    try {
+      const response = await fetch(`/api/admin/webhook-events/${eventId}/replay`, {
+        method: 'POST',
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to replay webhook event');
+      }
+
+      setEvents(events.map(event => event.id === eventId ? data.event : event));
+      setError(data.result === 'failed' ? `Replay of ${eventId} failed again: ${data.event?.error}` : null);
+    } catch (err) {
+      console.error('Error replaying webhook event:', err);
+      setError(err instanceof Error ? err.message : 'Failed to replay webhook event. Please try again.');
+    } finally {
+      setReplaying(null);
+    }
+  };
+
+  // Format date to readable string
+  const formatDate = (dateString: string) => {
+    return format(new Date(dateString), 'MMM d, yyyy HH:mm:ss');
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center">
+          <Link href="/admin" className="mr-4">
+            <Button variant="outline" size="icon">
+              <ArrowLeftIcon className="h-4 w-4" />
+            </Button>
+          </Link>
+          <h1 className="text-2xl font-bold">Webhook Events</h1>
+        </div>
+        <Button variant="outline" onClick={() => fetchEvents(statusFilter)} disabled={isLoading}>
+          <RefreshCwIcon className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-6">
+          {error}
+        </div>
+      )}
+
+      <div className="mb-6 flex flex-wrap gap-2">
+        {STATUS_FILTERS.map((filter) => (
+          <Button
+            key={filter}
+            variant={statusFilter === filter ? 'default' : 'outline'}
+            onClick={() => setStatusFilter(filter)}
+          >
+            {filter.charAt(0).toUpperCase() + filter.slice(1)}
+          </Button>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <p>Loading webhook events...</p>
+      ) : events.length === 0 ? (
+        <div className="text-center py-12 bg-gray-50 rounded-lg">
+          <p className="text-gray-500">No webhook events found with the selected filter.</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="bg-gray-100">
+                <th className="border p-2 text-left">Received</th>
+                <th className="border p-2 text-left">Type</th>
+                <th className="border p-2 text-left">Event ID</th>
+                <th className="border p-2 text-left">Status</th>
+                <th className="border p-2 text-left">Attempts</th>
+                <th className="border p-2 text-left">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {events.map((event) => (
+                <Fragment key={event.id}>
+                  <tr className="hover:bg-gray-50">
+                    <td className="border p-2 whitespace-nowrap">{formatDate(event.createdAt)}</td>
+                    <td className="border p-2">{event.type}</td>
+                    <td className="border p-2 font-mono text-xs">{event.id}</td>
+                    <td className="border p-2">
+                      <span className={`px-2 py-1 rounded text-xs ${STATUS_COLORS[event.status]}`}>
+                        {event.status}
+                      </span>
+                    </td>
+                    <td className="border p-2">{event.attempts}</td>
+                    <td className="border p-2">
+                      <div className="flex space-x-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setExpandedEvent(expandedEvent === event.id ? null : event.id)}
+                        >
+                          {expandedEvent === event.id ? 'Hide' : 'Details'}
+                        </Button>
+                        {(event.status === 'failed' || event.status === 'processing') && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleReplay(event.id)}
+                            disabled={replaying === event.id}
+                          >
+                            <RotateCcwIcon className="h-4 w-4 mr-1" />
+                            {replaying === event.id ? 'Replaying...' : 'Replay'}
+                          </Button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                  {expandedEvent === event.id && (
+                    <tr>
+                      <td colSpan={6} className="border p-3 bg-gray-50">
+                        {event.error && (
+                          <p className="text-sm text-red-700 mb-2">
+                            <span className="font-medium">Error:</span> {event.error}
+                          </p>
+                        )}
+                        {event.processedAt && (
+                          <p className="text-sm text-gray-600 mb-2">Processed {formatDate(event.processedAt)}</p>
+                        )}
+                        <pre className="text-xs bg-white border rounded p-2 max-h-96 overflow-auto">
+                          {JSON.stringify(event.payload, null, 2)}
+                        </pre>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { parseDateParam } from '@/app/lib/pricing';
+import { findAvailableAddOns } from '@/app/lib/add-ons';
+
+/**
+ * GET /api/add-ons?vehicleId=...&startDate=...&endDate=...
+ * Add-ons offered for a vehicle, with how many units are still free for the
+ * dates (remaining is null when there is no inventory limit)
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const vehicleId = searchParams.get('vehicleId');
+  const startDate = searchParams.get('startDate');
+  const endDate = searchParams.get('endDate');
+
+  if (!vehicleId || !startDate || !endDate) {
+    return NextResponse.json({ error: 'Vehicle, start date and end date are required' }, { status: 400 });
+  }
+
+  try {
+    const addOns = await findAvailableAddOns(vehicleId, parseDateParam(startDate), parseDateParam(endDate));
+
+    return NextResponse.json({
+      addOns: addOns.map(addOn => ({
+        id: addOn.id,
+        name: addOn.name,
+        description: addOn.description,
+        priceType: addOn.priceType,
+        price: addOn.price,
+        maxQuantity: addOn.maxQuantity,
+        remaining: addOn.remaining
+      }))
+    });
+  } catch (error) {
+    console.error('Error fetching add-ons:', error);
+    return NextResponse.json({ error: 'Failed to fetch add-ons' }, { status: 500 });
+  }
+}
@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server';
+import { getServerSession, NextAuthOptions } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import prisma from '@/app/lib/prisma';
+import { parseAddOnInput } from '@/app/lib/add-ons';
+
+// Helper function to check if user is an admin
+async function isAdmin() {
+  const session = await getServerSession(authOptions as NextAuthOptions);
+  return session?.user?.isAdmin === true;
+}
+
+/**
+ * PATCH /api/admin/add-ons/[id]
+ * Update an add-on; existing bookings keep the price they were booked at
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!(await isAdmin())) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+
+    const existing = await prisma.addOn.findUnique({ where: { id } });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Add-on not found' }, { status: 404 });
+    }
+
+    const parsed = parseAddOnInput(body);
+
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const addOn = await prisma.addOn.update({
+      where: { id },
+      data: parsed.data,
+      include: {
+        vehicles: {
+          select: {
+            id: true,
+            model: true
+          }
+        }
+      }
+    });
+
+    return NextResponse.json({ addOn });
+  } catch (error) {
+    console.error('Error updating add-on:', error);
+    return NextResponse.json({ error: 'Failed to update add-on' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/admin/add-ons/[id]
+ * Delete an add-on. Bookings that included it keep their add-on lines.
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!(await isAdmin())) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+
+    const existing = await prisma.addOn.findUnique({ where: { id } });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Add-on not found' }, { status: 404 });
+    }
+
+    await prisma.addOn.delete({ where: { id } });
+
+    return NextResponse.json({ message: 'Add-on deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting add-on:', error);
+    return NextResponse.json({ error: 'Failed to delete add-on' }, { status: 500 });
+  }
+}
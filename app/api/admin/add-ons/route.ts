@@ -0,0 +1,87 @@
+import { NextResponse } from 'next/server';
+import { getServerSession, NextAuthOptions } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { Prisma } from '@prisma/client';
+import prisma from '@/app/lib/prisma';
+import { parseAddOnInput } from '@/app/lib/add-ons';
+
+// Helper function to check if user is an admin
+async function isAdmin() {
+  const session = await getServerSession(authOptions as NextAuthOptions);
+  return session?.user?.isAdmin === true;
+}
+
+/**
+ * GET /api/admin/add-ons
+ * The whole add-on catalog with the vehicles each one is offered for
+ */
+export async function GET() {
+  try {
+    if (!(await isAdmin())) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const addOns = await prisma.addOn.findMany({
+      include: {
+        vehicles: {
+          select: {
+            id: true,
+            model: true
+          }
+        }
+      },
+      orderBy: { name: 'asc' }
+    });
+
+    return NextResponse.json({ addOns });
+  } catch (error) {
+    console.error('Error fetching add-ons:', error);
+    return NextResponse.json({ error: 'Failed to fetch add-ons' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/add-ons
+ * Create an add-on
+ */
+export async function POST(request: Request) {
+  try {
+    if (!(await isAdmin())) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json();
+
+    if (!body.name || body.price === undefined) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    const parsed = parseAddOnInput(body);
+
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { vehicles, ...data } = parsed.data;
+
+    const addOn = await prisma.addOn.create({
+      data: {
+        ...(data as Prisma.AddOnCreateInput),
+        vehicles: vehicles?.set ? { connect: vehicles.set } : undefined
+      },
+      include: {
+        vehicles: {
+          select: {
+            id: true,
+            model: true
+          }
+        }
+      }
+    });
+
+    return NextResponse.json({ addOn }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating add-on:', error);
+    return NextResponse.json({ error: 'Failed to create add-on' }, { status: 500 });
+  }
+}
@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server';
+import { getServerSession, NextAuthOptions } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import prisma from '@/app/lib/prisma';
+import { parseAgreementTemplateInput } from '@/app/lib/agreements';
+
+// Helper function to check if user is an admin
+async function isAdmin() {
+  const session = await getServerSession(authOptions as NextAuthOptions);
+  return session?.user?.isAdmin === true;
+}
+
+/**
+ * PATCH /api/admin/agreement-templates/[id]
+ * Update a template; activating it deactivates the others. Signed agreements keep their text.
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!(await isAdmin())) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+
+    const existing = await prisma.agreementTemplate.findUnique({ where: { id } });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Agreement template not found' }, { status: 404 });
+    }
+
+    const parsed = parseAgreementTemplateInput(body);
+
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const template = await prisma.$transaction(async (tx) => {
+      if (parsed.data.active) {
+        await tx.agreementTemplate.updateMany({ where: { active: true, id: { not: id } }, data: { active: false } });
+      }
+      return tx.agreementTemplate.update({
+        where: { id },
+        data: parsed.data
+      });
+    });
+
+    return NextResponse.json({ template });
+  } catch (error) {
+    console.error('Error updating agreement template:', error);
+    return NextResponse.json({ error: 'Failed to update agreement template' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/admin/agreement-templates/[id]
+ * Delete a template. Agreements filled from it keep their text.
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!(await isAdmin())) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+
+    const existing = await prisma.agreementTemplate.findUnique({ where: { id } });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Agreement template not found' }, { status: 404 });
+    }
+
+    await prisma.agreementTemplate.delete({ where: { id } });
+
+    return NextResponse.json({ message: 'Agreement template deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting agreement template:', error);
+    return NextResponse.json({ error: 'Failed to delete agreement template' }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import { getServerSession, NextAuthOptions } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { Prisma } from '@prisma/client';
+import prisma from '@/app/lib/prisma';
+import { parseAgreementTemplateInput } from '@/app/lib/agreements';
+
+// Helper function to check if user is an admin
+async function isAdmin() {
+  const session = await getServerSession(authOptions as NextAuthOptions);
+  return session?.user?.isAdmin === true;
+}
+
+/**
+ * GET /api/admin/agreement-templates
+ * All rental agreement templates, the active one first
+ */
+export async function GET() {
+  try {
+    if (!(await isAdmin())) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const templates = await prisma.agreementTemplate.findMany({
+      orderBy: [{ active: 'desc' }, { updatedAt: 'desc' }]
+    });
+
+    return NextResponse.json({ templates });
+  } catch (error) {
+    console.error('Error fetching agreement templates:', error);
+    return NextResponse.json({ error: 'Failed to fetch agreement templates' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/agreement-templates
+ * Create a template; creating it active deactivates the others
+ */
+export async function POST(request: Request) {
+  try {
+    if (!(await isAdmin())) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json();
+
+    if (!body.name || !body.body) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    const parsed = parseAgreementTemplateInput(body);
+
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const template = await prisma.$transaction(async (tx) => {
+      if (parsed.data.active) {
+        await tx.agreementTemplate.updateMany({ where: { active: true }, data: { active: false } });
+      }
+      return tx.agreementTemplate.create({
+        data: parsed.data as Prisma.AgreementTemplateCreateInput
+      });
+    });
+
+    return NextResponse.json({ template }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating agreement template:', error);
+    return NextResponse.json({ error: 'Failed to create agreement template' }, { status: 500 });
+  }
+}
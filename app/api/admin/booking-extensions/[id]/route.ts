@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { NextAuthOptions } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import prisma from '@/app/lib/prisma';
+import { applyBookingModification, declineBookingModification } from '@/app/lib/booking-modifications';
+
+// Helper function to check if user is admin
+async function isAdmin() {
+  const session = await getServerSession(authOptions as NextAuthOptions);
+  return session?.user?.isAdmin === true;
+}
+
+/**
+ * PATCH /api/admin/booking-extensions/[id]
+ * Approve (apply the new end date) or decline (refund) a pending extension
+ *
+ * Body: { action: 'approve' | 'decline', reason?: string }
+ */
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: 'Unauthorized: Admin access required' },
+        { status: 403 }
+      );
+    }
+    
+    const { id } = await params;
+    const { action, reason } = await request.json();
+    
+    if (action !== 'approve' && action !== 'decline') {
+      return NextResponse.json(
+        { error: 'Action must be approve or decline' },
+        { status: 400 }
+      );
+    }
+    
+    const extension = await prisma.bookingModification.findUnique({
+      where: { id },
+    });
+    
+    if (!extension || extension.type !== 'extension') {
+      return NextResponse.json(
+        { error: 'Extension request not found' },
+        { status: 404 }
+      );
+    }
+    
+    if (extension.status !== 'pending_approval') {
+      return NextResponse.json(
+        { error: 'Extension request is no longer waiting for approval' },
+        { status: 409 }
+      );
+    }
+    
+    if (action === 'decline') {
+      const declined = await declineBookingModification(id, typeof reason === 'string' ? reason.trim() : undefined);
+      return NextResponse.json({ extension: declined });
+    }
+    
+    const result = await applyBookingModification(id);
+    
+    if (!result.applied) {
+      return NextResponse.json(
+        { error: 'Vehicle is no longer available for the extra days; the customer has been refunded', extension: result.modification },
+        { status: 409 }
+      );
+    }
+    
+    return NextResponse.json({ extension: result.modification });
+  } catch (error) {
+    console.error('Error updating booking extension:', error);
+    return NextResponse.json(
+      { error: 'Failed to update booking extension' },
+      { status: 500 }
+    );
+  }
+}
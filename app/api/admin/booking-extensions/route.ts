@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { NextAuthOptions } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import prisma from '@/app/lib/prisma';
+
+// Helper function to check if user is admin
+async function isAdmin() {
+  const session = await getServerSession(authOptions as NextAuthOptions);
+  return session?.user?.isAdmin === true;
+}
+
+/**
+ * GET /api/admin/booking-extensions
+ * Paid trip extensions waiting for an admin to approve or decline them
+ */
+export async function GET() {
+  try {
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: 'Unauthorized: Admin access required' },
+        { status: 403 }
+      );
+    }
+    
+    const extensions = await prisma.bookingModification.findMany({
+      where: {
+        type: 'extension',
+        status: 'pending_approval',
+      },
+      include: {
+        booking: {
+          include: {
+            vehicle: true,
+            user: {
+              select: {
+                id: true,
+                name: true,
+                email: true,
+              },
+            },
+          },
+        },
+      },
+      orderBy: {
+        createdAt: 'asc',
+      },
+    });
+    
+    return NextResponse.json({ extensions });
+  } catch (error) {
+    console.error('Error fetching booking extensions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch booking extensions' },
+      { status: 500 }
+    );
+  }
+}
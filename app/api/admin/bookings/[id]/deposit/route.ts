@@ -0,0 +1,115 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { NextAuthOptions } from 'next-auth';
+import Stripe from 'stripe';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import prisma from '@/app/lib/prisma';
+import { toMinorUnits } from '@/app/lib/currency';
+import { DepositCaptureItem, DepositError, captureDeposit, releaseDeposit } from '@/app/lib/deposits';
+
+// Signed-in admin user, or null
+async function findAdminUser() {
+  const session = await getServerSession(authOptions as NextAuthOptions);
+
+  if (!session?.user?.email) {
+    return null;
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { email: session.user.email }
+  });
+
+  return user?.isAdmin ? user : null;
+}
+
+// Validate capture items from the request body (amounts in dollars)
+function parseCaptureItems(items: unknown): DepositCaptureItem[] | null {
+  if (!Array.isArray(items) || items.length === 0) {
+    return null;
+  }
+
+  const parsed: DepositCaptureItem[] = [];
+
+  for (const item of items) {
+    const description = typeof item?.description === 'string' ? item.description.trim() : '';
+    const amount = typeof item?.amount === 'number' ? toMinorUnits(item.amount) : NaN;
+
+    if (!description || !isFinite(amount) || amount <= 0) {
+      return null;
+    }
+
+    parsed.push({ description, amount });
+  }
+
+  return parsed;
+}
+
+/**
+ * POST /api/admin/bookings/[id]/deposit
+ * Capture or release the booking's security deposit hold
+ *
+ * Body: { action: 'capture', items: [{ description, amount (dollars) }] }
+ *    or { action: 'release' }
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const admin = await findAdminUser();
+
+    if (!admin) {
+      return NextResponse.json(
+        { error: 'Unauthorized: Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const { action, items } = await request.json();
+
+    if (action === 'capture') {
+      const captureItems = parseCaptureItems(items);
+
+      if (!captureItems) {
+        return NextResponse.json(
+          { error: 'Each deposit charge needs a description and a positive amount' },
+          { status: 400 }
+        );
+      }
+
+      await captureDeposit(id, captureItems, { capturedById: admin.id });
+    } else if (action === 'release') {
+      await releaseDeposit(id);
+    } else {
+      return NextResponse.json({ error: 'Action must be capture or release' }, { status: 400 });
+    }
+
+    const booking = await prisma.booking.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        securityDeposit: true,
+        depositStatus: true,
+        depositPaymentIntentId: true,
+      },
+    });
+
+    return NextResponse.json({ booking });
+  } catch (error) {
+    if (error instanceof DepositError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    if (error instanceof Stripe.errors.StripeError) {
+      console.error('Stripe error updating security deposit:', error);
+      return NextResponse.json({ error: error.message }, { status: 502 });
+    }
+
+    console.error('Error updating security deposit:', error);
+    return NextResponse.json(
+      { error: 'Failed to update security deposit' },
+      { status: 500 }
+    );
+  }
+}
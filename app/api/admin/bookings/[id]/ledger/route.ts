@@ -0,0 +1,88 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { NextAuthOptions } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import prisma from '@/app/lib/prisma';
+import { toMinorUnits } from '@/app/lib/currency';
+
+// Signed-in admin user, or null
+async function findAdminUser() {
+  const session = await getServerSession(authOptions as NextAuthOptions);
+
+  if (!session?.user?.email) {
+    return null;
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { email: session.user.email }
+  });
+
+  return user?.isAdmin ? user : null;
+}
+
+/**
+ * POST /api/admin/bookings/[id]/ledger
+ * Record a manual adjustment, e.g. a cash payment (positive) or a goodwill credit (negative)
+ *
+ * Body: { amount: number (in the booking's currency, e.g. dollars, signed), description: string }
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const admin = await findAdminUser();
+
+    if (!admin) {
+      return NextResponse.json(
+        { error: 'Unauthorized: Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const booking = await prisma.booking.findUnique({ where: { id } });
+
+    if (!booking) {
+      return NextResponse.json({ error: 'Booking not found' }, { status: 404 });
+    }
+
+    const { amount, description } = await request.json();
+
+    if (typeof amount !== 'number' || !isFinite(amount) || amount === 0) {
+      return NextResponse.json({ error: 'Amount must be a non-zero number' }, { status: 400 });
+    }
+
+    if (typeof description !== 'string' || !description.trim()) {
+      return NextResponse.json({ error: 'Description is required' }, { status: 400 });
+    }
+
+    const entry = await prisma.ledgerEntry.create({
+      data: {
+        bookingId: booking.id,
+        type: 'adjustment',
+        amount: toMinorUnits(amount, booking.currency),
+        currency: booking.currency,
+        description: description.trim(),
+        createdById: admin.id
+      },
+      include: {
+        createdBy: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+      },
+    });
+
+    return NextResponse.json({ entry }, { status: 201 });
+  } catch (error) {
+    console.error('Error recording ledger adjustment:', error);
+    return NextResponse.json(
+      { error: 'Failed to record adjustment' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,15 @@
 import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import prisma from '@/app/lib/prisma';
+import { Prisma } from '@prisma/client';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { parseDateParam } from '@/app/lib/pricing';
+import { getNextBookingStatuses, isBookingStatus } from '@/app/lib/booking-status';
+import { AgreementNotSignedError, BookingStatusTransitionError, transitionBookingStatus } from '@/app/lib/booking-lifecycle';
+import { BookingConflictError, createBookingIfAvailable, findAlternativeDates } from '@/app/lib/availability';
+import { AGREEMENT_SUMMARY_SELECT } from '@/app/lib/agreements';
+import { closeCancelledBooking } from '@/app/lib/booking-cancellations';
+import { formatInvoiceNumber } from '@/app/lib/invoices';
 
 // Helper function to check if user is admin
 async function isAdmin() {
@@ -18,6 +26,70 @@ async function isAdmin() {
   return user?.isAdmin === true;
 }
 
+// Booking with vehicle, customer and status history for the detail page
+const bookingDetailsInclude = {
+  vehicle: true,
+  user: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      // Don't include sensitive info
+      password: false,
+    },
+  },
+  promoCode: {
+    select: {
+      id: true,
+      code: true,
+    },
+  },
+  // Extras, fees and taxes as they were booked
+  addOns: {
+    orderBy: { createdAt: 'asc' },
+  },
+  fees: {
+    orderBy: { createdAt: 'asc' },
+  },
+  taxes: {
+    orderBy: { createdAt: 'asc' },
+  },
+  // Stripe payments, oldest first
+  payments: {
+    orderBy: { createdAt: 'asc' },
+  },
+  // Ledger lines, oldest first
+  ledgerEntries: {
+    orderBy: { createdAt: 'asc' },
+    include: {
+      createdBy: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+        },
+      },
+    },
+  },
+  // Status history, oldest first
+  statusChanges: {
+    orderBy: { createdAt: 'asc' },
+    include: {
+      changedBy: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+        },
+      },
+    },
+  },
+  // Whether the renter has signed the rental agreement
+  agreement: {
+    select: AGREEMENT_SUMMARY_SELECT,
+  },
+} satisfies Prisma.BookingInclude;
+
 // Get a single booking
 export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
   try {
@@ -37,18 +109,7 @@ export async function GET(request: Request, { params }: { params: Promise<{ id:
     // Get the booking
     const booking = await prisma.booking.findUnique({
       where: { id: bookingId },
-      include: {
-        vehicle: true,
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            // Don't include sensitive info
-            password: false,
-          },
-        },
-      },
+      include: bookingDetailsInclude,
     });
     
     if (!booking) {
@@ -69,6 +130,7 @@ export async function GET(request: Request, { params }: { params: Promise<{ id:
 }
 
 // Update a booking
+// Only the status (through the lifecycle rules), dates and price can be changed
 export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
   try {
     // Check if user is authenticated and is an admin
@@ -83,28 +145,107 @@ export async function PATCH(request: Request, { params }: { params: Promise<{ id
     
     const resolvedParams = await params;
     const bookingId = resolvedParams.id;
-    const data = await request.json();
+    const { status, note, startDate, endDate, totalPrice } = await request.json();
     
-    // Update the booking
-    const booking = await prisma.booking.update({
+    const existingBooking = await prisma.booking.findUnique({
       where: { id: bookingId },
-      data: {
-        ...data,
-        // Convert dates if they are provided
-        ...(data.startDate ? { startDate: new Date(data.startDate) } : {}),
-        ...(data.endDate ? { endDate: new Date(data.endDate) } : {}),
-      },
-      include: {
-        vehicle: true,
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            password: false,
+    });
+    
+    if (!existingBooking) {
+      return NextResponse.json(
+        { error: 'Booking not found' },
+        { status: 404 }
+      );
+    }
+    
+    if (status !== undefined && !isBookingStatus(status)) {
+      return NextResponse.json(
+        { error: `Invalid status: ${status}` },
+        { status: 400 }
+      );
+    }
+    
+    if (totalPrice !== undefined && (!Number.isInteger(totalPrice) || totalPrice < 0)) {
+      return NextResponse.json(
+        { error: 'Total price must be a non-negative whole number (minor units)' },
+        { status: 400 }
+      );
+    }
+    
+    const admin = await prisma.user.findUnique({
+      where: { email: session.user?.email || '' },
+      select: { id: true },
+    });
+    
+    const start = startDate ? parseDateParam(startDate) : existingBooking.startDate;
+    const end = endDate ? parseDateParam(endDate) : existingBooking.endDate;
+    
+    if ((startDate || endDate) && start > end) {
+      return NextResponse.json(
+        { error: 'Start date must be before end date' },
+        { status: 400 }
+      );
+    }
+    
+    // Dates, price and status are saved together, so a rejected status change leaves the booking as it was
+    const applyChanges = async (tx: Prisma.TransactionClient) => {
+      if (startDate || endDate || totalPrice !== undefined) {
+        await tx.booking.update({
+          where: { id: bookingId },
+          data: {
+            ...(startDate || endDate ? { startDate: start, endDate: end } : {}),
+            ...(totalPrice !== undefined ? { totalPrice } : {}),
           },
-        },
-      },
+        });
+      }
+      
+      if (status !== undefined) {
+        await transitionBookingStatus(bookingId, status, {
+          changedById: admin?.id,
+          note: typeof note === 'string' && note.trim() ? note.trim() : undefined,
+          db: tx,
+        });
+      }
+    };
+    
+    try {
+      // Moving the dates re-checks availability, ignoring this booking itself
+      if (startDate || endDate) {
+        await createBookingIfAvailable(existingBooking.vehicleId, start, end, applyChanges, { excludeBookingId: bookingId });
+      } else {
+        await prisma.$transaction(applyChanges);
+      }
+    } catch (error) {
+      if (error instanceof BookingConflictError) {
+        const alternatives = await findAlternativeDates(existingBooking.vehicleId, start, end);
+        return NextResponse.json(
+          { error: error.message, code: 'BOOKING_CONFLICT', alternatives },
+          { status: 409 }
+        );
+      }
+      if (error instanceof BookingStatusTransitionError) {
+        return NextResponse.json(
+          { error: error.message, code: 'INVALID_STATUS_TRANSITION', allowed: getNextBookingStatuses(error.from) },
+          { status: 409 }
+        );
+      }
+      if (error instanceof AgreementNotSignedError) {
+        return NextResponse.json(
+          { error: error.message, code: 'AGREEMENT_NOT_SIGNED' },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+    
+    // A cancelled booking's payment link or open date change must not stay payable
+    if (status === 'cancelled' && existingBooking.status !== 'cancelled') {
+      await closeCancelledBooking(bookingId);
+    }
+    
+    const booking = await prisma.booking.findUnique({
+      where: { id: bookingId },
+      include: bookingDetailsInclude,
     });
     
     return NextResponse.json({ booking });
@@ -133,6 +274,16 @@ export async function DELETE(request: Request, { params }: { params: Promise<{ i
     const resolvedParams = await params;
     const bookingId = resolvedParams.id;
     
+    // Issued invoices are kept for the books, so invoiced bookings can only be cancelled
+    const invoice = await prisma.invoice.findUnique({ where: { bookingId } });
+
+    if (invoice) {
+      return NextResponse.json(
+        { error: `This booking has invoice ${formatInvoiceNumber(invoice.number)} and can't be deleted. Cancel it instead.`, code: 'BOOKING_INVOICED' },
+        { status: 409 }
+      );
+    }
+
     // Delete the booking
     await prisma.booking.delete({
       where: { id: bookingId },
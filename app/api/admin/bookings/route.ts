@@ -2,6 +2,15 @@ import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
 import prisma from '@/app/lib/prisma';
+import { parseDateParam } from '@/app/lib/pricing';
+import { RentalLengthError, quoteBooking } from '@/app/lib/quote';
+import { INITIAL_BOOKING_STATUSES, isBookingStatus } from '@/app/lib/booking-status';
+import { BookingConflictError, createBookingIfAvailable, findAlternativeDates } from '@/app/lib/availability';
+import { transitionBookingStatus } from '@/app/lib/booking-lifecycle';
+import { closeCancelledBooking } from '@/app/lib/booking-cancellations';
+import { paymentLinkExpiryFromNow, sendBookingPaymentLink } from '@/app/lib/payment-links';
+import { getDefaultProtectionPlan, securityDepositFor } from '@/app/lib/protection-plans';
+import { DEFAULT_CURRENCY } from '@/app/lib/currency';
 
 export async function GET(request: Request) {
   try {
@@ -58,7 +67,18 @@ export async function POST(request: Request) {
     
     // Parse the request body
     const data = await request.json();
-    const { vehicleId, startDate, endDate, userEmail, totalPrice: providedTotalPrice, status } = data;
+    const { vehicleId, startDate, endDate, userEmail, totalPrice: providedTotalPrice } = data;
+    // With a payment link the booking waits for the customer to pay
+    const sendPaymentLink = data.sendPaymentLink === true;
+    const status = sendPaymentLink ? 'pending' : data.status || 'confirmed';
+    
+    // New bookings can only start out pending or confirmed
+    if (!isBookingStatus(status) || !INITIAL_BOOKING_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `Invalid initial status: ${status}` },
+        { status: 400 }
+      );
+    }
     
     // Find user by email
     const user = await prisma.user.findUnique({
@@ -84,84 +104,105 @@ export async function POST(request: Request) {
       );
     }
     
-    // Calculate days
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-    const diffTime = Math.abs(end.getTime() - start.getTime());
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-    
-    // Calculate base price
-    let basePrice = vehicle.pricePerDay;
-    let totalPrice = providedTotalPrice;
-    
-    // If no total price is provided, calculate it
-    if (!totalPrice) {
-      // Check for special pricing rules that apply to this date range and vehicle
-      const specialPricingRules = await prisma.specialPricing.findMany({
-        where: {
-          OR: [
-            // Apply to all vehicles
-            { applyToAll: true },
-            // Apply to this specific vehicle
-            {
-              vehicles: {
-                some: {
-                  id: vehicleId
-                }
+    const start = parseDateParam(startDate);
+    const end = parseDateParam(endDate);
+    
+    // Admin bookings come with the default protection plan, which is free
+    const protectionPlan = getDefaultProtectionPlan();
+    const securityDeposit = securityDepositFor(protectionPlan, vehicle);
+    
+    // Quote the stay like checkout, with the fees and tax that apply to every booking
+    let bookingQuote;
+    try {
+      bookingQuote = await quoteBooking(vehicle, start, end, { protectionPlan });
+    } catch (error) {
+      if (error instanceof RentalLengthError) {
+        return NextResponse.json({ error: error.message, code: 'INVALID_RENTAL_LENGTH' }, { status: 400 });
+      }
+      throw error;
+    }
+    
+    // A provided total is a manual all-in override, so the quote's breakdown isn't stored with it
+    const priceOverride = Boolean(providedTotalPrice);
+    const totalPrice = priceOverride ? providedTotalPrice : bookingQuote.totalPrice;
+    
+    // Create the booking, atomically checking that the dates are still free
+    let booking;
+    try {
+      booking = await createBookingIfAvailable(vehicleId, start, end, (tx) =>
+        tx.booking.create({
+          data: {
+            startDate: start,
+            endDate: end,
+            totalPrice,
+            currency: DEFAULT_CURRENCY,
+            status,
+            vehicleId,
+            userId: user.id,
+            protectionPlan: protectionPlan.id,
+            protectionPerDay: protectionPlan.pricePerDay,
+            protectionAmount: priceOverride ? 0 : bookingQuote.protection.amount,
+            deductible: protectionPlan.deductible,
+            ...(priceOverride ? {} : {
+              fees: { create: bookingQuote.fees },
+              taxes: { create: bookingQuote.taxes },
+            }),
+            // Held until the payment link expires; the deposit is authorized near pickup once paid
+            ...(sendPaymentLink ? {
+              holdExpiresAt: paymentLinkExpiryFromNow(),
+              securityDeposit,
+              depositStatus: securityDeposit > 0 ? 'pending' as const : null,
+            } : {}),
+            statusChanges: {
+              create: {
+                toStatus: status,
+                note: sendPaymentLink ? 'Created by admin, payment link sent' : 'Created by admin',
+                changedBy: session.user?.email ? { connect: { email: session.user.email } } : undefined
               }
             }
-          ],
-          // Overlaps with booking date range
-          AND: [
-            { startDate: { lte: end } },
-            { endDate: { gte: start } }
-          ]
-        },
-        orderBy: {
-          createdAt: 'desc' // Most recently created rule takes precedence
-        }
-      });
-      
-      // If we have special pricing rules, apply them
-      if (specialPricingRules.length > 0) {
-        // Use the most recent rule (first in the sorted array)
-        const rule = specialPricingRules[0];
-        
-        if (rule.priceType === 'multiplier') {
-          // Apply multiplier to base price
-          basePrice = Math.round(basePrice * rule.priceValue);
-        } else if (rule.priceType === 'fixed') {
-          // Override with fixed price
-          basePrice = Math.round(rule.priceValue);
-        }
+          },
+          include: {
+            vehicle: true,
+            user: {
+              select: {
+                id: true,
+                name: true,
+                email: true,
+                password: false,
+              },
+            },
+          },
+        })
+      );
+    } catch (error) {
+      if (error instanceof BookingConflictError) {
+        const alternatives = await findAlternativeDates(vehicleId, start, end);
+        return NextResponse.json(
+          { error: error.message, code: 'BOOKING_CONFLICT', alternatives },
+          { status: 409 }
+        );
       }
-      
-      // Calculate final price
-      totalPrice = basePrice * diffDays;
+      throw error;
     }
     
-    // Create the booking
-    const booking = await prisma.booking.create({
-      data: {
-        startDate: new Date(startDate),
-        endDate: new Date(endDate),
-        totalPrice,
-        status: status || 'confirmed',
-        vehicleId,
-        userId: user.id,
-      },
-      include: {
-        vehicle: true,
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            password: false,
-          },
-        },
-      },
-    });
+    if (sendPaymentLink) {
+      try {
+        const paymentLink = await sendBookingPaymentLink(booking.id);
+        return NextResponse.json({ booking, paymentLink }, { status: 201 });
+      } catch (error) {
+        // Don't keep holding dates nobody can pay for
+        console.error('Error creating payment link:', error);
+        await transitionBookingStatus(booking.id, 'cancelled', {
+          fromStatus: 'pending',
+          note: 'Payment link could not be created'
+        });
+        await closeCancelledBooking(booking.id);
+        return NextResponse.json(
+          { error: 'Failed to create the Stripe payment link' },
+          { status: 502 }
+        );
+      }
+    }
     
     return NextResponse.json({ booking }, { status: 201 });
   } catch (error) {
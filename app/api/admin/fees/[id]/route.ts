@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import { getServerSession, NextAuthOptions } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import prisma from '@/app/lib/prisma';
+import { parseFeeInput } from '@/app/lib/fees';
+
+// Helper function to check if user is an admin
+async function isAdmin() {
+  const session = await getServerSession(authOptions as NextAuthOptions);
+  return session?.user?.isAdmin === true;
+}
+
+/**
+ * PATCH /api/admin/fees/[id]
+ * Update a fee; existing bookings keep what they were charged
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!(await isAdmin())) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+
+    const existing = await prisma.fee.findUnique({ where: { id } });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Fee not found' }, { status: 404 });
+    }
+
+    const parsed = parseFeeInput(body);
+
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const fee = await prisma.fee.update({
+      where: { id },
+      data: parsed.data
+    });
+
+    return NextResponse.json({ fee });
+  } catch (error) {
+    console.error('Error updating fee:', error);
+    return NextResponse.json({ error: 'Failed to update fee' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/admin/fees/[id]
+ * Delete a fee. Bookings that were charged it keep their fee line.
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!(await isAdmin())) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+
+    const existing = await prisma.fee.findUnique({ where: { id } });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Fee not found' }, { status: 404 });
+    }
+
+    await prisma.fee.delete({ where: { id } });
+
+    return NextResponse.json({ message: 'Fee deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting fee:', error);
+    return NextResponse.json({ error: 'Failed to delete fee' }, { status: 500 });
+  }
+}
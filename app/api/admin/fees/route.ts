@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { getServerSession, NextAuthOptions } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { Prisma } from '@prisma/client';
+import prisma from '@/app/lib/prisma';
+import { parseFeeInput } from '@/app/lib/fees';
+
+// Helper function to check if user is an admin
+async function isAdmin() {
+  const session = await getServerSession(authOptions as NextAuthOptions);
+  return session?.user?.isAdmin === true;
+}
+
+/**
+ * GET /api/admin/fees
+ * All fees, including inactive ones
+ */
+export async function GET() {
+  try {
+    if (!(await isAdmin())) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const fees = await prisma.fee.findMany({
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return NextResponse.json({ fees });
+  } catch (error) {
+    console.error('Error fetching fees:', error);
+    return NextResponse.json({ error: 'Failed to fetch fees' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/fees
+ * Create a fee
+ */
+export async function POST(request: Request) {
+  try {
+    if (!(await isAdmin())) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json();
+
+    if (!body.name || !body.kind || body.price === undefined) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    const parsed = parseFeeInput(body);
+
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const fee = await prisma.fee.create({
+      data: parsed.data as Prisma.FeeCreateInput
+    });
+
+    return NextResponse.json({ fee }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating fee:', error);
+    return NextResponse.json({ error: 'Failed to create fee' }, { status: 500 });
+  }
+}
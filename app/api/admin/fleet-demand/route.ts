@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { getServerSession, NextAuthOptions } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { parseDateParam } from '@/app/lib/pricing';
+import { findFleetDemand } from '@/app/lib/quote';
+
+// Helper function to check if user is an admin
+async function isAdmin() {
+  const session = await getServerSession(authOptions as NextAuthOptions);
+  return session?.user?.isAdmin === true;
+}
+
+/**
+ * GET /api/admin/fleet-demand?startDate=...&endDate=...
+ * Share of the fleet booked on each day, as used by dynamic pricing
+ */
+export async function GET(request: Request) {
+  try {
+    if (!(await isAdmin())) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const startDate = searchParams.get('startDate');
+    const endDate = searchParams.get('endDate');
+
+    if (!startDate || !endDate) {
+      return NextResponse.json({ error: 'Start date and end date are required' }, { status: 400 });
+    }
+
+    const demand = await findFleetDemand(parseDateParam(startDate), parseDateParam(endDate));
+
+    return NextResponse.json({ demand });
+  } catch (error) {
+    console.error('Error fetching fleet demand:', error);
+    return NextResponse.json({ error: 'Failed to fetch fleet demand' }, { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession, NextAuthOptions } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import prisma from '@/app/lib/prisma';
+import { parseLicenseSide, readLicenseImage } from '@/app/lib/licenses';
+
+// Helper function to check if user is an admin
+async function isAdmin() {
+  const session = await getServerSession(authOptions as NextAuthOptions);
+  return session?.user?.isAdmin === true;
+}
+
+/**
+ * GET /api/admin/licenses/[userId]/image?side=front|back
+ * A photo of the user's submitted driver's license, for review
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    if (!(await isAdmin())) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const side = parseLicenseSide(request.nextUrl.searchParams.get('side'));
+
+    if (!side) {
+      return NextResponse.json({ error: 'Side must be "front" or "back"' }, { status: 400 });
+    }
+
+    const { userId } = await params;
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { licenseFrontImage: true, licenseBackImage: true }
+    });
+
+    const name = side === 'front' ? user?.licenseFrontImage : user?.licenseBackImage;
+    const image = name ? await readLicenseImage(name) : null;
+
+    if (!image) {
+      return NextResponse.json({ error: 'License photo not found' }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(image.data), {
+      headers: {
+        'Content-Type': image.contentType,
+        'Cache-Control': 'private, no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching license photo:', error);
+    return NextResponse.json({ error: 'Failed to fetch license photo' }, { status: 500 });
+  }
+}
@@ -0,0 +1,113 @@
+import { NextResponse } from 'next/server';
+import { getServerSession, NextAuthOptions } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import prisma from '@/app/lib/prisma';
+import { sendEmail } from '@/app/lib/email';
+import { LICENSE_SELECT } from '@/app/lib/licenses';
+
+// The signed-in admin, or null if the user isn't one
+async function findAdmin() {
+  const session = await getServerSession(authOptions as NextAuthOptions);
+
+  if (!session?.user?.email || session.user.isAdmin !== true) {
+    return null;
+  }
+
+  return prisma.user.findUnique({ where: { email: session.user.email } });
+}
+
+/**
+ * PATCH /api/admin/licenses/[userId]
+ * Approve or reject a user's driver's license. The body is
+ * { action: 'approve' | 'reject', reason?, submittedAt? }; a reason is
+ * required to reject. When submittedAt is sent and the user has resubmitted
+ * since, the review is refused so the new details get looked at.
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const admin = await findAdmin();
+
+    if (!admin?.isAdmin) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const { userId } = await params;
+    const body = await request.json();
+
+    if (body.action !== 'approve' && body.action !== 'reject') {
+      return NextResponse.json({ error: 'Action must be "approve" or "reject"' }, { status: 400 });
+    }
+
+    const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+    if (body.action === 'reject' && !reason) {
+      return NextResponse.json({ error: 'Please give a reason for rejecting the license' }, { status: 400 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, name: true, email: true, licenseStatus: true, licenseSubmittedAt: true }
+    });
+
+    if (!user?.licenseStatus) {
+      return NextResponse.json({ error: 'This user has not submitted a driver\'s license' }, { status: 404 });
+    }
+
+    const resubmitted = { error: 'The user updated their license since you opened it. Please review it again.' };
+
+    if (body.submittedAt && new Date(body.submittedAt).getTime() !== user.licenseSubmittedAt?.getTime()) {
+      return NextResponse.json(resubmitted, { status: 409 });
+    }
+
+    const approved = body.action === 'approve';
+
+    // Only review the submission that was read, in case the user resubmits meanwhile
+    const { count } = await prisma.user.updateMany({
+      where: { id: user.id, licenseSubmittedAt: user.licenseSubmittedAt },
+      data: {
+        licenseStatus: approved ? 'approved' : 'rejected',
+        licenseReviewedAt: new Date(),
+        licenseReviewedById: admin.id,
+        licenseRejectionReason: approved ? null : reason
+      }
+    });
+
+    if (count === 0) {
+      return NextResponse.json(resubmitted, { status: 409 });
+    }
+
+    if (user.email) {
+      await sendEmail({
+        to: user.email,
+        subject: approved ? 'Your RideReady driver\'s license is approved' : 'Your RideReady driver\'s license needs attention',
+        text: [
+          `Hi${user.name ? ` ${user.name}` : ''},`,
+          '',
+          ...(approved
+            ? ['We\'ve verified your driver\'s license, so you can now book any of our vehicles.']
+            : [
+              'We couldn\'t verify your driver\'s license:',
+              '',
+              reason,
+              '',
+              `Please update it at ${process.env.NEXTAUTH_URL}/license and we'll review it again.`
+            ]),
+          '',
+          'Thank you for choosing RideReady!'
+        ].join('\n')
+      });
+    }
+
+    const license = await prisma.user.findUnique({
+      where: { id: user.id },
+      select: { id: true, name: true, email: true, ...LICENSE_SELECT }
+    });
+
+    return NextResponse.json({ user: license });
+  } catch (error) {
+    console.error('Error reviewing driver\'s license:', error);
+    return NextResponse.json({ error: 'Failed to review driver\'s license' }, { status: 500 });
+  }
+}
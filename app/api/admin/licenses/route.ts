@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession, NextAuthOptions } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { LicenseStatus } from '@prisma/client';
+import prisma from '@/app/lib/prisma';
+import { LICENSE_SELECT } from '@/app/lib/licenses';
+
+const LICENSE_STATUSES: LicenseStatus[] = ['pending', 'approved', 'rejected'];
+
+// Helper function to check if user is an admin
+async function isAdmin() {
+  const session = await getServerSession(authOptions as NextAuthOptions);
+  return session?.user?.isAdmin === true;
+}
+
+/**
+ * GET /api/admin/licenses?status=pending|approved|rejected
+ * Submitted driver's licenses with the given status (pending by default).
+ * Pending ones come oldest first so the queue is worked in order.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!(await isAdmin())) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const status = request.nextUrl.searchParams.get('status') || 'pending';
+
+    if (!LICENSE_STATUSES.includes(status as LicenseStatus)) {
+      return NextResponse.json({ error: `Invalid status: ${status}` }, { status: 400 });
+    }
+
+    const users = await prisma.user.findMany({
+      where: { licenseStatus: status as LicenseStatus },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        ...LICENSE_SELECT,
+        licenseReviewedBy: { select: { name: true, email: true } }
+      },
+      orderBy: status === 'pending' ? { licenseSubmittedAt: 'asc' } : { licenseReviewedAt: 'desc' },
+      take: 200
+    });
+
+    return NextResponse.json({ users });
+  } catch (error) {
+    console.error('Error fetching driver\'s licenses:', error);
+    return NextResponse.json({ error: 'Failed to fetch driver\'s licenses' }, { status: 500 });
+  }
+}
@@ -0,0 +1,96 @@
+import { NextResponse } from 'next/server';
+import { getServerSession, NextAuthOptions } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { Prisma } from '@prisma/client';
+import prisma from '@/app/lib/prisma';
+import { countPromoCodeUses, parsePromoCodeInput } from '@/app/lib/promotions';
+
+// Helper function to check if user is an admin
+async function isAdmin() {
+  const session = await getServerSession(authOptions as NextAuthOptions);
+  return session?.user?.isAdmin === true;
+}
+
+/**
+ * PATCH /api/admin/promo-codes/[id]
+ * Update a promo code; bookings that already used it keep their discount
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!(await isAdmin())) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+
+    const existing = await prisma.promoCode.findUnique({ where: { id } });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Promo code not found' }, { status: 404 });
+    }
+
+    // Check a changed value against the type it will have after the update
+    const parsed = parsePromoCodeInput({ discountType: existing.discountType, ...body });
+
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const promoCode = await prisma.promoCode.update({
+      where: { id },
+      data: parsed.data,
+      include: {
+        vehicles: {
+          select: {
+            id: true,
+            model: true
+          }
+        }
+      }
+    });
+
+    const uses = await countPromoCodeUses([id]);
+
+    return NextResponse.json({ promoCode: { ...promoCode, uses: uses[id] || 0 } });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json({ error: 'A promo code with this code already exists' }, { status: 409 });
+    }
+    console.error('Error updating promo code:', error);
+    return NextResponse.json({ error: 'Failed to update promo code' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/admin/promo-codes/[id]
+ * Delete a promo code. Bookings that used it keep their discount amount.
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!(await isAdmin())) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+
+    const existing = await prisma.promoCode.findUnique({ where: { id } });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Promo code not found' }, { status: 404 });
+    }
+
+    await prisma.promoCode.delete({ where: { id } });
+
+    return NextResponse.json({ message: 'Promo code deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting promo code:', error);
+    return NextResponse.json({ error: 'Failed to delete promo code' }, { status: 500 });
+  }
+}
@@ -0,0 +1,94 @@
+import { NextResponse } from 'next/server';
+import { getServerSession, NextAuthOptions } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { Prisma } from '@prisma/client';
+import prisma from '@/app/lib/prisma';
+import { countPromoCodeUses, parsePromoCodeInput } from '@/app/lib/promotions';
+
+// Helper function to check if user is an admin
+async function isAdmin() {
+  const session = await getServerSession(authOptions as NextAuthOptions);
+  return session?.user?.isAdmin === true;
+}
+
+/**
+ * GET /api/admin/promo-codes
+ * All promo codes with their eligible vehicles and how often each was used
+ */
+export async function GET() {
+  try {
+    if (!(await isAdmin())) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const promoCodes = await prisma.promoCode.findMany({
+      include: {
+        vehicles: {
+          select: {
+            id: true,
+            model: true
+          }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    const uses = await countPromoCodeUses(promoCodes.map(promoCode => promoCode.id));
+
+    return NextResponse.json({
+      promoCodes: promoCodes.map(promoCode => ({ ...promoCode, uses: uses[promoCode.id] || 0 }))
+    });
+  } catch (error) {
+    console.error('Error fetching promo codes:', error);
+    return NextResponse.json({ error: 'Failed to fetch promo codes' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/promo-codes
+ * Create a promo code
+ */
+export async function POST(request: Request) {
+  try {
+    if (!(await isAdmin())) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json();
+
+    if (!body.code || !body.discountType || body.discountValue === undefined) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    const parsed = parsePromoCodeInput(body);
+
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { vehicles, ...data } = parsed.data;
+
+    const promoCode = await prisma.promoCode.create({
+      data: {
+        ...(data as Prisma.PromoCodeCreateInput),
+        vehicles: vehicles?.set ? { connect: vehicles.set } : undefined
+      },
+      include: {
+        vehicles: {
+          select: {
+            id: true,
+            model: true
+          }
+        }
+      }
+    });
+
+    return NextResponse.json({ promoCode: { ...promoCode, uses: 0 } }, { status: 201 });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json({ error: 'A promo code with this code already exists' }, { status: 409 });
+    }
+    console.error('Error creating promo code:', error);
+    return NextResponse.json({ error: 'Failed to create promo code' }, { status: 500 });
+  }
+}
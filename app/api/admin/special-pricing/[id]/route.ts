@@ -2,6 +2,9 @@ import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
 import prisma from '@/app/lib/prisma';
+import { recurrenceError } from '@/app/lib/pricing';
+import { findPricingConflicts } from '@/app/lib/quote';
+import { toMinorUnits } from '@/app/lib/currency';
 
 // Helper function to check if user is an admin
 async function isAdmin() {
@@ -86,8 +89,30 @@ export async function PATCH(
       }
       updateData.priceType = priceType;
     }
-    if (priceValue !== undefined) updateData.priceValue = parseFloat(priceValue);
+    if (priceValue !== undefined) {
+      // Fixed prices are entered in dollars and stored in cents
+      const value = parseFloat(priceValue);
+      updateData.priceValue = (priceType ?? existingRule.priceType) === 'fixed' ? toMinorUnits(value) : value;
+    }
     if (applyToAll !== undefined) updateData.applyToAll = Boolean(applyToAll);
+    if (data.priority !== undefined) updateData.priority = parseInt(data.priority, 10) || 0;
+    
+    // Validate the repeat settings against the dates the rule will end up with
+    if (data.recurrence !== undefined || data.daysOfWeek !== undefined || startDate !== undefined || endDate !== undefined) {
+      const recurrence = data.recurrence ?? existingRule.recurrence;
+      const daysOfWeek: number[] = Array.isArray(data.daysOfWeek) ? data.daysOfWeek.map(Number) : existingRule.daysOfWeek;
+      const repeatError = recurrenceError(
+        recurrence,
+        daysOfWeek,
+        updateData.startDate ?? existingRule.startDate,
+        updateData.endDate ?? existingRule.endDate
+      );
+      if (repeatError) {
+        return NextResponse.json({ error: repeatError }, { status: 400 });
+      }
+      updateData.recurrence = recurrence;
+      updateData.daysOfWeek = recurrence === 'weekly' ? daysOfWeek : [];
+    }
     
     // Handle vehicle connections
     if (vehicleIds !== undefined) {
@@ -116,7 +141,10 @@ export async function PATCH(
       }
     });
     
-    return NextResponse.json({ specialPricing: updatedRule });
+    // Warn about rules this one shadows or is shadowed by
+    const warnings = await findPricingConflicts(updatedRule);
+    
+    return NextResponse.json({ specialPricing: updatedRule, warnings });
   } catch (error) {
     console.error('Error updating special pricing rule:', error);
     return NextResponse.json({ error: 'Failed to update special pricing rule' }, { status: 500 });
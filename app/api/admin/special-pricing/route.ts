@@ -2,6 +2,9 @@ import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
 import prisma from '@/app/lib/prisma';
+import { recurrenceError } from '@/app/lib/pricing';
+import { findPricingConflicts } from '@/app/lib/quote';
+import { toMinorUnits } from '@/app/lib/currency';
 
 // Helper function to check if user is an admin
 async function isAdmin() {
@@ -70,6 +73,8 @@ export async function POST(request: Request) {
     // Parse the request body
     const data = await request.json();
     const { name, startDate, endDate, priceType, priceValue, applyToAll, vehicleIds } = data;
+    const recurrence = data.recurrence ?? 'none';
+    const daysOfWeek: number[] = Array.isArray(data.daysOfWeek) ? data.daysOfWeek.map(Number) : [];
     
     // Validate required fields
     if (!name || !startDate || !endDate || !priceType || priceValue === undefined) {
@@ -87,14 +92,24 @@ export async function POST(request: Request) {
       );
     }
     
+    // Validate how the rule repeats
+    const repeatError = recurrenceError(recurrence, daysOfWeek, new Date(startDate), new Date(endDate));
+    if (repeatError) {
+      return NextResponse.json({ error: repeatError }, { status: 400 });
+    }
+    
     // Create data object
     const createData: any = {
       name,
       startDate: new Date(startDate),
       endDate: new Date(endDate),
       priceType,
-      priceValue: parseFloat(priceValue),
-      applyToAll: Boolean(applyToAll)
+      // Fixed prices are entered in dollars and stored in cents
+      priceValue: priceType === 'fixed' ? toMinorUnits(parseFloat(priceValue)) : parseFloat(priceValue),
+      applyToAll: Boolean(applyToAll),
+      recurrence,
+      daysOfWeek: recurrence === 'weekly' ? daysOfWeek : [],
+      priority: parseInt(data.priority, 10) || 0
     };
     
     // If not applying to all vehicles, connect specific vehicles
@@ -117,7 +132,10 @@ export async function POST(request: Request) {
       }
     });
     
-    return NextResponse.json({ specialPricing }, { status: 201 });
+    // Warn about rules this one shadows or is shadowed by
+    const warnings = await findPricingConflicts(specialPricing);
+    
+    return NextResponse.json({ specialPricing, warnings }, { status: 201 });
   } catch (error) {
     console.error('Error creating special pricing:', error);
     return NextResponse.json(
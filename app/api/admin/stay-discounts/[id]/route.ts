@@ -0,0 +1,109 @@
+import { NextResponse } from 'next/server';
+import { getServerSession, NextAuthOptions } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { Prisma } from '@prisma/client';
+import prisma from '@/app/lib/prisma';
+
+// Helper function to check if user is an admin
+async function isAdmin() {
+  const session = await getServerSession(authOptions as NextAuthOptions);
+  return session?.user?.isAdmin === true;
+}
+
+/**
+ * PATCH /api/admin/stay-discounts/[id]
+ * Update a length-of-stay discount tier. Existing bookings keep their price.
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!(await isAdmin())) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const { name, minDays, percentOff, applyToAll, vehicleIds } = await request.json();
+
+    const existing = await prisma.stayDiscount.findUnique({ where: { id } });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Stay discount not found' }, { status: 404 });
+    }
+
+    const updateData: Prisma.StayDiscountUpdateInput = {};
+
+    if (name !== undefined) updateData.name = name;
+    if (minDays !== undefined) {
+      const days = parseInt(minDays);
+      if (!(days >= 2)) {
+        return NextResponse.json({ error: 'Minimum days must be at least 2' }, { status: 400 });
+      }
+      updateData.minDays = days;
+    }
+    if (percentOff !== undefined) {
+      const percent = parseFloat(percentOff);
+      if (!(percent > 0 && percent < 100)) {
+        return NextResponse.json({ error: 'Percent off must be between 0 and 100' }, { status: 400 });
+      }
+      updateData.percentOff = percent;
+    }
+    if (applyToAll !== undefined) updateData.applyToAll = Boolean(applyToAll);
+
+    // Replace the vehicle list; applying to all vehicles clears it
+    if (vehicleIds !== undefined) {
+      updateData.vehicles = {
+        set: !applyToAll && Array.isArray(vehicleIds) ? vehicleIds.map((vehicleId: string) => ({ id: vehicleId })) : []
+      };
+    }
+
+    const stayDiscount = await prisma.stayDiscount.update({
+      where: { id },
+      data: updateData,
+      include: {
+        vehicles: {
+          select: {
+            id: true,
+            model: true
+          }
+        }
+      }
+    });
+
+    return NextResponse.json({ stayDiscount });
+  } catch (error) {
+    console.error('Error updating stay discount:', error);
+    return NextResponse.json({ error: 'Failed to update stay discount' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/admin/stay-discounts/[id]
+ * Delete a length-of-stay discount tier
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!(await isAdmin())) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+
+    const existing = await prisma.stayDiscount.findUnique({ where: { id } });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Stay discount not found' }, { status: 404 });
+    }
+
+    await prisma.stayDiscount.delete({ where: { id } });
+
+    return NextResponse.json({ message: 'Stay discount deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting stay discount:', error);
+    return NextResponse.json({ error: 'Failed to delete stay discount' }, { status: 500 });
+  }
+}
@@ -0,0 +1,96 @@
+import { NextResponse } from 'next/server';
+import { getServerSession, NextAuthOptions } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import prisma from '@/app/lib/prisma';
+
+// Helper function to check if user is an admin
+async function isAdmin() {
+  const session = await getServerSession(authOptions as NextAuthOptions);
+  return session?.user?.isAdmin === true;
+}
+
+/**
+ * GET /api/admin/stay-discounts
+ * All length-of-stay discount tiers, shortest stay first
+ */
+export async function GET() {
+  try {
+    if (!(await isAdmin())) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const stayDiscounts = await prisma.stayDiscount.findMany({
+      include: {
+        vehicles: {
+          select: {
+            id: true,
+            model: true
+          }
+        }
+      },
+      orderBy: { minDays: 'asc' }
+    });
+
+    return NextResponse.json({ stayDiscounts });
+  } catch (error) {
+    console.error('Error fetching stay discounts:', error);
+    return NextResponse.json({ error: 'Failed to fetch stay discounts' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/stay-discounts
+ * Create a length-of-stay discount tier
+ */
+export async function POST(request: Request) {
+  try {
+    if (!(await isAdmin())) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const { name, minDays, percentOff, applyToAll, vehicleIds } = await request.json();
+
+    if (!name || minDays === undefined || percentOff === undefined) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    const days = parseInt(minDays);
+    const percent = parseFloat(percentOff);
+
+    if (!(days >= 2)) {
+      return NextResponse.json({ error: 'Minimum days must be at least 2' }, { status: 400 });
+    }
+
+    if (!(percent > 0 && percent < 100)) {
+      return NextResponse.json({ error: 'Percent off must be between 0 and 100' }, { status: 400 });
+    }
+
+    const forAllVehicles = applyToAll !== false;
+
+    const stayDiscount = await prisma.stayDiscount.create({
+      data: {
+        name,
+        minDays: days,
+        percentOff: percent,
+        applyToAll: forAllVehicles,
+        // Only specific vehicles get the discount when not applying to all
+        vehicles: !forAllVehicles && Array.isArray(vehicleIds)
+          ? { connect: vehicleIds.map((id: string) => ({ id })) }
+          : undefined
+      },
+      include: {
+        vehicles: {
+          select: {
+            id: true,
+            model: true
+          }
+        }
+      }
+    });
+
+    return NextResponse.json({ stayDiscount }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating stay discount:', error);
+    return NextResponse.json({ error: 'Failed to create stay discount' }, { status: 500 });
+  }
+}
@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import { getServerSession, NextAuthOptions } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import prisma from '@/app/lib/prisma';
+import { parseTaxRateInput } from '@/app/lib/fees';
+
+// Helper function to check if user is an admin
+async function isAdmin() {
+  const session = await getServerSession(authOptions as NextAuthOptions);
+  return session?.user?.isAdmin === true;
+}
+
+/**
+ * PATCH /api/admin/tax-rates/[id]
+ * Update a tax rate; existing bookings keep what they were charged
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!(await isAdmin())) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+
+    const existing = await prisma.taxRate.findUnique({ where: { id } });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Tax rate not found' }, { status: 404 });
+    }
+
+    const parsed = parseTaxRateInput(body);
+
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const taxRate = await prisma.taxRate.update({
+      where: { id },
+      data: parsed.data
+    });
+
+    return NextResponse.json({ taxRate });
+  } catch (error) {
+    console.error('Error updating tax rate:', error);
+    return NextResponse.json({ error: 'Failed to update tax rate' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/admin/tax-rates/[id]
+ * Delete a tax rate. Bookings that were taxed at it keep their tax line.
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!(await isAdmin())) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+
+    const existing = await prisma.taxRate.findUnique({ where: { id } });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Tax rate not found' }, { status: 404 });
+    }
+
+    await prisma.taxRate.delete({ where: { id } });
+
+    return NextResponse.json({ message: 'Tax rate deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting tax rate:', error);
+    return NextResponse.json({ error: 'Failed to delete tax rate' }, { status: 500 });
+  }
+}
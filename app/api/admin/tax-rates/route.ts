@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { getServerSession, NextAuthOptions } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { Prisma } from '@prisma/client';
+import prisma from '@/app/lib/prisma';
+import { parseTaxRateInput } from '@/app/lib/fees';
+
+// Helper function to check if user is an admin
+async function isAdmin() {
+  const session = await getServerSession(authOptions as NextAuthOptions);
+  return session?.user?.isAdmin === true;
+}
+
+/**
+ * GET /api/admin/tax-rates
+ * All tax rates, including inactive ones
+ */
+export async function GET() {
+  try {
+    if (!(await isAdmin())) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const taxRates = await prisma.taxRate.findMany({
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return NextResponse.json({ taxRates });
+  } catch (error) {
+    console.error('Error fetching tax rates:', error);
+    return NextResponse.json({ error: 'Failed to fetch tax rates' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/tax-rates
+ * Create a tax rate
+ */
+export async function POST(request: Request) {
+  try {
+    if (!(await isAdmin())) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json();
+
+    if (!body.name || !body.jurisdiction || body.percentage === undefined) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    const parsed = parseTaxRateInput(body);
+
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const taxRate = await prisma.taxRate.create({
+      data: parsed.data as Prisma.TaxRateCreateInput
+    });
+
+    return NextResponse.json({ taxRate }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating tax rate:', error);
+    return NextResponse.json({ error: 'Failed to create tax rate' }, { status: 500 });
+  }
+}
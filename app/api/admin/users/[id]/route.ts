@@ -46,6 +46,7 @@ export async function GET(request: Request, { params }: { params: { id: string }
             startDate: true,
             endDate: true,
             totalPrice: true,
+            currency: true,
             status: true,
             vehicle: {
               select: {
@@ -146,7 +147,8 @@ export async function DELETE(request: Request, { params }: { params: { id: strin
           where: {
             OR: [
               { status: 'pending' },
-              { status: 'confirmed' }
+              { status: 'confirmed' },
+              { status: 'active' }
             ]
           }
         }
@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import prisma from '@/app/lib/prisma';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { toMinorUnits } from '@/app/lib/currency';
 
 // Import the mockVehiclesStore from the parent route
 // Since we can't directly share variables between API routes, we'll need to recreate it
@@ -12,7 +13,7 @@ let mockVehiclesStore = [
     model: "Model X Long Range",
     image: "/model_x.png",
     description: "Spacious SUV with 348mi range, falcon wing doors, and 0-60 in 3.8s.",
-    pricePerDay: 5,
+    pricePerDay: 500,
     seats: 7,
     range: "348 miles",
     acceleration: "0-60 in 3.8s",
@@ -26,7 +27,7 @@ let mockVehiclesStore = [
     model: "Model S Plaid",
     image: "/model_s.png",
     description: "Luxury sedan with 390mi range, 200mph top speed, and 0-60 in 1.99s.",
-    pricePerDay: 5,
+    pricePerDay: 500,
     seats: 5,
     range: "390 miles",
     acceleration: "0-60 in 1.99s",
@@ -40,7 +41,7 @@ let mockVehiclesStore = [
     model: "Model 3 Performance",
     image: "/model_3.png",
     description: "Sporty sedan with 315mi range, 162mph top speed, and 0-60 in 3.1s.",
-    pricePerDay: 5,
+    pricePerDay: 500,
     seats: 5,
     range: "315 miles",
     acceleration: "0-60 in 3.1s",
@@ -156,12 +157,26 @@ export async function PATCH(request: Request, { params }: { params: { id: string
     
     // Validate and prepare update data
     const updateData: any = {};
-    const allowedFields = ['model', 'image', 'description', 'pricePerDay', 'seats', 'range', 'acceleration', 'features'];
+    const allowedFields = ['model', 'image', 'description', 'pricePerDay', 'securityDeposit', 'minRentalDays', 'maxRentalDays', 'dynamicPricing', 'priceFloor', 'priceCeiling', 'seats', 'range', 'acceleration', 'features'];
     
     Object.keys(data).forEach(key => {
       if (allowedFields.includes(key)) {
-        if (key === 'pricePerDay' || key === 'seats') {
+        if (key === 'seats') {
           updateData[key] = parseInt(data[key]);
+        } else if (key === 'pricePerDay') {
+          // The form sends prices in dollars; they are stored in cents
+          updateData[key] = toMinorUnits(parseFloat(data[key]));
+        } else if (key === 'securityDeposit') {
+          updateData[key] = toMinorUnits(parseFloat(data[key]) || 0);
+        } else if (key === 'minRentalDays') {
+          updateData[key] = Math.max(parseInt(data[key]) || 1, 1);
+        } else if (key === 'maxRentalDays') {
+          // Empty means no limit
+          updateData[key] = parseInt(data[key]) || null;
+        } else if (key === 'priceFloor' || key === 'priceCeiling') {
+          updateData[key] = toMinorUnits(parseFloat(data[key])) || null;
+        } else if (key === 'dynamicPricing') {
+          updateData[key] = Boolean(data[key]);
         } else {
           updateData[key] = data[key];
         }
@@ -219,7 +234,8 @@ export async function DELETE(request: Request, { params }: { params: { id: strin
           where: {
             OR: [
               { status: 'pending' },
-              { status: 'confirmed' }
+              { status: 'confirmed' },
+              { status: 'active' }
             ]
           }
         }
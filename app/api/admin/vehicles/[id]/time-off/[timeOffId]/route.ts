@@ -0,0 +1,95 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { NextAuthOptions } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import prisma from '@/app/lib/prisma';
+import { parseDateParam } from '@/app/lib/pricing';
+
+// Helper function to check if user is an admin
+async function isAdmin() {
+  const session = await getServerSession(authOptions as NextAuthOptions);
+  return session?.user?.isAdmin === true;
+}
+
+// Update a time-off period
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string; timeOffId: string }> }
+) {
+  try {
+    // Check if user is admin
+    if (!(await isAdmin())) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+    
+    const { id: vehicleId, timeOffId } = await params;
+    const { startDate, endDate, reason } = await request.json();
+    
+    // Check if the time-off period exists for this vehicle
+    const existingTimeOff = await prisma.vehicleTimeOff.findFirst({
+      where: { id: timeOffId, vehicleId }
+    });
+    
+    if (!existingTimeOff) {
+      return NextResponse.json({ error: 'Time off not found' }, { status: 404 });
+    }
+    
+    const start = startDate !== undefined ? parseDateParam(startDate) : existingTimeOff.startDate;
+    const end = endDate !== undefined ? parseDateParam(endDate) : existingTimeOff.endDate;
+    
+    if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+      return NextResponse.json({ error: 'Invalid date format' }, { status: 400 });
+    }
+    
+    if (end < start) {
+      return NextResponse.json({ error: 'End date must be on or after start date' }, { status: 400 });
+    }
+    
+    const timeOff = await prisma.vehicleTimeOff.update({
+      where: { id: timeOffId },
+      data: {
+        startDate: start,
+        endDate: end,
+        ...(reason !== undefined ? { reason } : {})
+      }
+    });
+    
+    return NextResponse.json({ timeOff });
+  } catch (error) {
+    console.error('Error updating vehicle time off:', error);
+    return NextResponse.json({ error: 'Failed to update vehicle time off' }, { status: 500 });
+  }
+}
+
+// Delete a time-off period
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string; timeOffId: string }> }
+) {
+  try {
+    // Check if user is admin
+    if (!(await isAdmin())) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+    
+    const { id: vehicleId, timeOffId } = await params;
+    
+    // Check if the time-off period exists for this vehicle
+    const existingTimeOff = await prisma.vehicleTimeOff.findFirst({
+      where: { id: timeOffId, vehicleId }
+    });
+    
+    if (!existingTimeOff) {
+      return NextResponse.json({ error: 'Time off not found' }, { status: 404 });
+    }
+    
+    await prisma.vehicleTimeOff.delete({
+      where: { id: timeOffId }
+    });
+    
+    return NextResponse.json({ message: 'Time off deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting vehicle time off:', error);
+    return NextResponse.json({ error: 'Failed to delete vehicle time off' }, { status: 500 });
+  }
+}
@@ -0,0 +1,90 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { NextAuthOptions } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import prisma from '@/app/lib/prisma';
+import { parseDateParam } from '@/app/lib/pricing';
+
+// Helper function to check if user is an admin
+async function isAdmin() {
+  const session = await getServerSession(authOptions as NextAuthOptions);
+  return session?.user?.isAdmin === true;
+}
+
+// Get all time-off periods for a vehicle
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check if user is admin
+    if (!(await isAdmin())) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+    
+    const { id: vehicleId } = await params;
+    
+    const timeOffs = await prisma.vehicleTimeOff.findMany({
+      where: { vehicleId },
+      orderBy: { startDate: 'asc' }
+    });
+    
+    return NextResponse.json({ timeOffs });
+  } catch (error) {
+    console.error('Error fetching vehicle time off:', error);
+    return NextResponse.json({ error: 'Failed to fetch vehicle time off' }, { status: 500 });
+  }
+}
+
+// Create a time-off period for a vehicle
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check if user is admin
+    if (!(await isAdmin())) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+    
+    const { id: vehicleId } = await params;
+    const { startDate, endDate, reason } = await request.json();
+    
+    // Validate required fields
+    if (!startDate || !endDate || !reason) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+    
+    const start = parseDateParam(startDate);
+    const end = parseDateParam(endDate);
+    
+    if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+      return NextResponse.json({ error: 'Invalid date format' }, { status: 400 });
+    }
+    
+    if (end < start) {
+      return NextResponse.json({ error: 'End date must be on or after start date' }, { status: 400 });
+    }
+    
+    // Make sure the vehicle exists
+    const vehicle = await prisma.vehicle.findUnique({ where: { id: vehicleId } });
+    
+    if (!vehicle) {
+      return NextResponse.json({ error: 'Vehicle not found' }, { status: 404 });
+    }
+    
+    const timeOff = await prisma.vehicleTimeOff.create({
+      data: {
+        vehicleId,
+        startDate: start,
+        endDate: end,
+        reason
+      }
+    });
+    
+    return NextResponse.json({ timeOff }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating vehicle time off:', error);
+    return NextResponse.json({ error: 'Failed to create vehicle time off' }, { status: 500 });
+  }
+}
@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import prisma from '@/app/lib/prisma';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { toMinorUnits } from '@/app/lib/currency';
 
 // Store mock vehicles in memory to persist between requests
 // This will be reset when the server restarts
@@ -11,7 +12,7 @@ let mockVehiclesStore = [
     model: "Model X Long Range",
     image: "/model_x.png",
     description: "Spacious SUV with 348mi range, falcon wing doors, and 0-60 in 3.8s.",
-    pricePerDay: 5,
+    pricePerDay: 500,
     seats: 7,
     range: "348 miles",
     acceleration: "0-60 in 3.8s",
@@ -24,7 +25,7 @@ let mockVehiclesStore = [
     model: "Model S Plaid",
     image: "/model_s.png",
     description: "Luxury sedan with 390mi range, 200mph top speed, and 0-60 in 1.99s.",
-    pricePerDay: 5,
+    pricePerDay: 500,
     seats: 5,
     range: "390 miles",
     acceleration: "0-60 in 1.99s",
@@ -37,7 +38,7 @@ let mockVehiclesStore = [
     model: "Model 3 Performance",
     image: "/model_3.png",
     description: "Sporty sedan with 315mi range, 162mph top speed, and 0-60 in 3.1s.",
-    pricePerDay: 5,
+    pricePerDay: 500,
     seats: 5,
     range: "315 miles",
     acceleration: "0-60 in 3.1s",
@@ -116,14 +117,20 @@ export async function POST(request: Request) {
       }
     }
     
-    // Try to create the vehicle in the database
+    // Try to create the vehicle in the database (the form sends prices in dollars; they are stored in cents)
     try {
       const vehicle = await prisma.vehicle.create({
         data: {
           model: data.model,
           image: data.image,
           description: data.description,
-          pricePerDay: parseInt(data.pricePerDay),
+          pricePerDay: toMinorUnits(parseFloat(data.pricePerDay)),
+          securityDeposit: toMinorUnits(parseFloat(data.securityDeposit) || 0),
+          minRentalDays: Math.max(parseInt(data.minRentalDays) || 1, 1),
+          maxRentalDays: parseInt(data.maxRentalDays) || null,
+          dynamicPricing: Boolean(data.dynamicPricing),
+          priceFloor: toMinorUnits(parseFloat(data.priceFloor)) || null,
+          priceCeiling: toMinorUnits(parseFloat(data.priceCeiling)) || null,
           seats: parseInt(data.seats),
           range: data.range,
           acceleration: data.acceleration,
@@ -141,7 +148,13 @@ export async function POST(request: Request) {
         model: data.model,
         image: data.image,
         description: data.description,
-        pricePerDay: parseInt(data.pricePerDay),
+        pricePerDay: toMinorUnits(parseFloat(data.pricePerDay)),
+        securityDeposit: toMinorUnits(parseFloat(data.securityDeposit) || 0),
+        minRentalDays: Math.max(parseInt(data.minRentalDays) || 1, 1),
+        maxRentalDays: parseInt(data.maxRentalDays) || null,
+        dynamicPricing: Boolean(data.dynamicPricing),
+        priceFloor: toMinorUnits(parseFloat(data.priceFloor)) || null,
+        priceCeiling: toMinorUnits(parseFloat(data.priceCeiling)) || null,
         seats: parseInt(data.seats),
         range: data.range,
         acceleration: data.acceleration,
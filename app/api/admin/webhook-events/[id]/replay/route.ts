@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { NextAuthOptions } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import prisma from '@/app/lib/prisma';
+import { isReplayable, processWebhookEvent } from '@/app/lib/webhook-events';
+
+// Helper function to check if user is admin
+async function isAdmin() {
+  const session = await getServerSession(authOptions as NextAuthOptions);
+  return session?.user?.isAdmin === true;
+}
+
+/**
+ * POST /api/admin/webhook-events/[id]/replay
+ * Run a failed Stripe event through the webhook handlers again. Events stuck
+ * in processing (the handling request crashed) can be replayed once their
+ * claim is older than STALE_PROCESSING_MS.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: 'Unauthorized: Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const webhookEvent = await prisma.webhookEvent.findUnique({ where: { id } });
+
+    if (!webhookEvent) {
+      return NextResponse.json({ error: 'Webhook event not found' }, { status: 404 });
+    }
+
+    if (!isReplayable(webhookEvent)) {
+      return NextResponse.json(
+        {
+          error: webhookEvent.status === 'processing'
+            ? 'This event is still being processed; it can be replayed if it hasn\'t finished within 5 minutes'
+            : `Only failed or stuck events can be replayed (this one is ${webhookEvent.status})`
+        },
+        { status: 409 }
+      );
+    }
+
+    const result = await processWebhookEvent(id);
+    const updatedEvent = await prisma.webhookEvent.findUnique({ where: { id } });
+
+    if (result === 'in_progress') {
+      return NextResponse.json(
+        { error: 'This event is already being processed', event: updatedEvent },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ result, event: updatedEvent });
+  } catch (error) {
+    console.error('Error replaying webhook event:', error);
+    return NextResponse.json(
+      { error: 'Failed to replay webhook event' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { NextAuthOptions } from 'next-auth';
+import { WebhookEventStatus } from '@prisma/client';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import prisma from '@/app/lib/prisma';
+
+const WEBHOOK_EVENT_STATUSES: WebhookEventStatus[] = ['received', 'processing', 'processed', 'failed'];
+
+// Helper function to check if user is admin
+async function isAdmin() {
+  const session = await getServerSession(authOptions as NextAuthOptions);
+  return session?.user?.isAdmin === true;
+}
+
+/**
+ * GET /api/admin/webhook-events?status=failed
+ * Most recent Stripe webhook events, optionally filtered by status
+ */
+export async function GET(request: Request) {
+  try {
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: 'Unauthorized: Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+
+    if (status && !WEBHOOK_EVENT_STATUSES.includes(status as WebhookEventStatus)) {
+      return NextResponse.json({ error: 'Invalid status filter' }, { status: 400 });
+    }
+
+    const events = await prisma.webhookEvent.findMany({
+      where: status ? { status: status as WebhookEventStatus } : undefined,
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+    });
+
+    return NextResponse.json(events);
+  } catch (error) {
+    console.error('Error fetching webhook events:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch webhook events' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,26 +1,23 @@
 import { NextResponse } from 'next/server';
 import prisma from '@/app/lib/prisma';
-import { format, eachDayOfInterval } from 'date-fns';
 import { Vehicle } from '@prisma/client';
+import { differenceInCalendarDays } from 'date-fns';
+import { parseDateParam, calculateQuote, rentalLengthError } from '@/app/lib/pricing';
+import { findFleetDemand, findPricingRules, findStayDiscounts } from '@/app/lib/quote';
+import { activeBookingWhere, findVehicleIdsWithTimeOff } from '@/app/lib/availability';
 
-// Define custom types for special pricing with vehicles relationship
-interface SpecialPricingWithVehicles {
-  id: string;
-  name: string;
-  startDate: Date;
-  endDate: Date;
-  priceType: string;
-  priceValue: number;
-  applyToAll: boolean;
-  createdAt: Date;
-  updatedAt: Date;
-  vehicles: { id: string }[];
-}
-
+/**
+ * GET /api/availability?startDate=...&endDate=...
+ * Vehicles free for the whole date range and allowed to be rented for that
+ * many days, each with its quote. Pass ignoreRentalLength=true to skip the
+ * rental length check, e.g. when loading a month of prices for a calendar.
+ * Days whose price dynamic pricing changed are marked isSpecialPrice.
+ */
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
   const startDate = searchParams.get('startDate');
   const endDate = searchParams.get('endDate');
+  const ignoreRentalLength = searchParams.get('ignoreRentalLength') === 'true';
 
   if (!startDate || !endDate) {
     return NextResponse.json({ error: 'Start date and end date are required' }, { status: 400 });
@@ -28,9 +25,8 @@ export async function GET(request: Request) {
 
   try {
     // Parse dates consistently to avoid timezone issues
-    // Add 'T00:00:00' to ensure local timezone interpretation
-    const start = new Date(startDate + 'T00:00:00');
-    const end = new Date(endDate + 'T00:00:00');
+    const start = parseDateParam(startDate);
+    const end = parseDateParam(endDate);
 
     // Get all vehicles
     const allVehicles = await prisma.vehicle.findMany();
@@ -39,7 +35,8 @@ export async function GET(request: Request) {
     const overlappingBookings = await prisma.booking.findMany({
       where: {
         AND: [
-          { status: 'confirmed' },
+          // Confirmed bookings and pending bookings still inside their checkout hold
+          activeBookingWhere(),
           {
             OR: [
               {
@@ -60,98 +57,43 @@ export async function GET(request: Request) {
     // Get ids of vehicles that are booked during the requested period
     const bookedVehicleIds = overlappingBookings.map(booking => booking.vehicleId);
 
-    // Filter out the booked vehicles
+    // Get ids of vehicles taken out of service (maintenance, repairs, etc.)
+    const timeOffVehicleIds = await findVehicleIdsWithTimeOff(start, end);
+
+    // Filter out the booked and blocked vehicles, and those that can't be
+    // rented for this many days
+    const days = differenceInCalendarDays(end, start) + 1;
     const availableVehicles = allVehicles.filter(
-      vehicle => !bookedVehicleIds.includes(vehicle.id)
+      vehicle => !bookedVehicleIds.includes(vehicle.id) &&
+        !timeOffVehicleIds.includes(vehicle.id) &&
+        (ignoreRentalLength || !rentalLengthError(vehicle, days))
     );
     
-    // Get any special pricing rules that apply to this date range
-    // TODO: Fix special pricing integration after Prisma client update
-    // const specialPricingRules = await (prisma as any).specialPricing.findMany({
-    //   where: {
-    //     AND: [
-    //       { startDate: { lte: end } },
-    //       { endDate: { gte: start } }
-    //     ]
-    //   },
-    //   include: {
-    //     vehicles: {
-    //       select: {
-    //         id: true
-    //       }
-    //     }
-    //   }
-    // }) as unknown as SpecialPricingWithVehicles[];
-    const specialPricingRules: SpecialPricingWithVehicles[] = [];
+    // Get any special pricing rules and length-of-stay discounts that apply
+    const specialPricingRules = await findPricingRules(start, end);
+    const stayDiscounts = await findStayDiscounts();
     
-    // Get all days in the range
-    const allDaysInRange = eachDayOfInterval({ start, end });
+    // Fleet utilization, only needed when a vehicle uses dynamic pricing
+    const demand = availableVehicles.some(vehicle => vehicle.dynamicPricing)
+      ? await findFleetDemand(start, end)
+      : undefined;
     
-    // Enhance available vehicles with adjusted prices
+    // Enhance available vehicles with their quote for the stay
     const enhancedVehicles = availableVehicles.map((vehicle: Vehicle) => {
-      // Default to standard pricing
-      let hasSpecialPricing = false;
-      let adjustedPricePerDay = vehicle.pricePerDay;
-      
-      // Generate daily prices for each day in the range
-      const dailyPrices = allDaysInRange.map(day => {
-        const dayStr = format(day, 'yyyy-MM-dd');
-        
-        // Find applicable rules for this vehicle on this specific day
-        const applicableRules = specialPricingRules.filter((rule: SpecialPricingWithVehicles) => {
-          const ruleStart = new Date(rule.startDate);
-          const ruleEnd = new Date(rule.endDate);
-          
-          // Check if the day falls within the rule's date range
-          const dayInRuleRange = day >= ruleStart && day <= ruleEnd;
-          
-          // Check if the rule applies to this vehicle
-          const ruleAppliesToVehicle = rule.applyToAll || rule.vehicles.some((v: { id: string }) => v.id === vehicle.id);
-          
-          return dayInRuleRange && ruleAppliesToVehicle;
-        });
-        
-        // Sort by creation date (newest first) to get precedence
-        applicableRules.sort((a: SpecialPricingWithVehicles, b: SpecialPricingWithVehicles) => 
-          new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-        );
-        
-        // Default price for the day
-        let dayPrice = vehicle.pricePerDay;
-        let isSpecialPrice = false;
-        
-        // Apply the first (most recent) rule if any exist
-        if (applicableRules.length > 0) {
-          const rule = applicableRules[0];
-          isSpecialPrice = true;
-          hasSpecialPricing = true;
-          
-          if (rule.priceType === 'multiplier') {
-            dayPrice = Math.round(vehicle.pricePerDay * rule.priceValue);
-          } else if (rule.priceType === 'fixed') {
-            dayPrice = Math.round(rule.priceValue);
-          }
-        }
-        
-        return {
-          date: dayStr,
-          price: dayPrice,
-          isSpecialPrice
-        };
-      });
-      
-      // Calculate total price for the stay
-      const totalPrice = dailyPrices.reduce((sum, day) => sum + day.price, 0);
-      
-      // Calculate average price per day (for backward compatibility)
-      adjustedPricePerDay = hasSpecialPricing ? Math.round(totalPrice / dailyPrices.length) : vehicle.pricePerDay;
+      const quote = calculateQuote(vehicle, start, end, specialPricingRules, stayDiscounts, { demand });
       
       return {
         ...vehicle,
-        adjustedPricePerDay,
-        totalPrice,
-        hasSpecialPricing,
-        dailyPrices
+        adjustedPricePerDay: quote.adjustedPricePerDay,
+        subtotal: quote.subtotal,
+        stayDiscount: quote.stayDiscount,
+        totalPrice: quote.totalPrice,
+        hasSpecialPricing: quote.hasSpecialPricing,
+        dailyPrices: quote.dailyPrices,
+        // Tiers for this vehicle, so date pickers can price other selections
+        stayDiscounts: stayDiscounts.filter(
+          discount => discount.applyToAll || discount.vehicles.some(v => v.id === vehicle.id)
+        )
       };
     });
 
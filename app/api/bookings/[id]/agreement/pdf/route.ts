@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { NextAuthOptions } from 'next-auth';
+import prisma from '@/app/lib/prisma';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+
+/**
+ * GET /api/bookings/[id]/agreement/pdf
+ * Download the signed rental agreement (the customer who booked it or an admin)
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions as NextAuthOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const { id } = await params;
+    const booking = await prisma.booking.findUnique({
+      where: { id },
+      include: { agreement: { select: { signedPdf: true } } }
+    });
+
+    if (!booking) {
+      return NextResponse.json({ error: 'Booking not found' }, { status: 404 });
+    }
+
+    if (booking.userId !== user.id && !user.isAdmin) {
+      return NextResponse.json({ error: 'Unauthorized to view this booking' }, { status: 403 });
+    }
+
+    if (!booking.agreement?.signedPdf) {
+      return NextResponse.json({ error: 'The rental agreement has not been signed yet' }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(booking.agreement.signedPdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="rental-agreement-${booking.id.substring(0, 8)}.pdf"`,
+        'Cache-Control': 'private, no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Error downloading rental agreement:', error);
+    return NextResponse.json({ error: 'Failed to download rental agreement' }, { status: 500 });
+  }
+}
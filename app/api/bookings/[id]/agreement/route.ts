@@ -0,0 +1,145 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { NextAuthOptions } from 'next-auth';
+import prisma from '@/app/lib/prisma';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import {
+  SIGNABLE_BOOKING_STATUSES,
+  prepareAgreement,
+  requestIp,
+  signAgreement
+} from '@/app/lib/agreements';
+import { parseSignature } from '@/app/lib/agreement-templates';
+
+// Load the booking if the signed-in user booked it (or, when allowed, is an admin)
+async function findBooking(bookingId: string, options: { allowAdmin: boolean }) {
+  const session = await getServerSession(authOptions as NextAuthOptions);
+
+  if (!session?.user?.email) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { email: session.user.email }
+  });
+
+  if (!user) {
+    return { error: NextResponse.json({ error: 'User not found' }, { status: 404 }) };
+  }
+
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    include: { agreement: { select: { signedAt: true } } }
+  });
+
+  if (!booking) {
+    return { error: NextResponse.json({ error: 'Booking not found' }, { status: 404 }) };
+  }
+
+  if (booking.userId !== user.id && !(options.allowAdmin && user.isAdmin)) {
+    return { error: NextResponse.json({ error: 'Unauthorized to view this booking' }, { status: 403 }) };
+  }
+
+  return { booking, user };
+}
+
+/**
+ * GET /api/bookings/[id]/agreement
+ * The booking's rental agreement, filled in with its current details until it is signed
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await findBooking(id, { allowAdmin: true });
+
+    if (result.error) {
+      return result.error;
+    }
+
+    const { booking } = result;
+
+    if (!booking.agreement?.signedAt && !SIGNABLE_BOOKING_STATUSES.includes(booking.status)) {
+      return NextResponse.json(
+        { error: 'The rental agreement is available once the booking is confirmed' },
+        { status: 409 }
+      );
+    }
+
+    const agreement = await prepareAgreement(booking.id);
+
+    return NextResponse.json({ agreement });
+  } catch (error) {
+    console.error('Error preparing rental agreement:', error);
+    return NextResponse.json({ error: 'Failed to load rental agreement' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/bookings/[id]/agreement
+ * Sign the rental agreement. The body carries the name and signature pad
+ * strokes, plus the text the renter read so they never sign a different one.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await findBooking(id, { allowAdmin: false });
+
+    if (result.error) {
+      return result.error;
+    }
+
+    const { booking } = result;
+    const body = await request.json();
+
+    const signerName = typeof body.signerName === 'string' ? body.signerName.trim() : '';
+    if (!signerName || signerName.length > 100) {
+      return NextResponse.json({ error: 'Please type your full name' }, { status: 400 });
+    }
+
+    const signature = parseSignature(body.signature);
+    if (!signature) {
+      return NextResponse.json({ error: 'Please draw your signature' }, { status: 400 });
+    }
+
+    if (booking.agreement?.signedAt) {
+      return NextResponse.json({ error: 'The rental agreement is already signed' }, { status: 409 });
+    }
+
+    if (!SIGNABLE_BOOKING_STATUSES.includes(booking.status)) {
+      return NextResponse.json(
+        { error: 'The rental agreement can only be signed for a confirmed booking' },
+        { status: 409 }
+      );
+    }
+
+    const agreement = await prepareAgreement(booking.id);
+
+    if (agreement.content !== body.content) {
+      return NextResponse.json(
+        { error: 'The agreement was updated since you opened it. Please review it again before signing.', agreement },
+        { status: 409 }
+      );
+    }
+
+    const signed = await signAgreement(agreement, booking.id, {
+      name: signerName,
+      signature,
+      ip: requestIp(request)
+    });
+
+    if (!signed) {
+      return NextResponse.json({ error: 'The rental agreement is already signed' }, { status: 409 });
+    }
+
+    return NextResponse.json({ agreement: signed });
+  } catch (error) {
+    console.error('Error signing rental agreement:', error);
+    return NextResponse.json({ error: 'Failed to sign rental agreement' }, { status: 500 });
+  }
+}
@@ -0,0 +1,120 @@
+import { NextResponse } from 'next/server';
+import { format } from 'date-fns';
+import { previewCancellation } from '@/app/lib/cancellation';
+import { transitionBookingStatus } from '@/app/lib/booking-lifecycle';
+import { getRefundableAmount, refundBookingPayments } from '@/app/lib/payments';
+import { closeCancelledBooking } from '@/app/lib/booking-cancellations';
+import { postBookingMessage } from '@/app/lib/booking-messages';
+import { formatMoney } from '@/app/lib/currency';
+import { findOwnBooking } from '@/app/lib/own-bookings';
+
+/**
+ * GET /api/bookings/[id]/cancel
+ * Preview what cancelling now would refund under the cancellation policy
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await findOwnBooking(id, 'cancel');
+
+    if (result.error) {
+      return result.error;
+    }
+
+    const refundableAmount = await getRefundableAmount(result.booking.id);
+
+    return NextResponse.json({ preview: previewCancellation(result.booking, refundableAmount) });
+  } catch (error) {
+    console.error('Error previewing cancellation:', error);
+    return NextResponse.json({ error: 'Failed to preview cancellation' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/bookings/[id]/cancel
+ * Cancel the booking, refund according to the policy and let the admins know
+ *
+ * Flow:
+ * 1. Check the customer owns the booking and it can still be cancelled
+ * 2. Move the booking to cancelled (guarded so a double submit can't refund twice)
+ * 3. Expire any unpaid checkout or open date change and release a held deposit, then
+ *    refund the computed amount across the booking's payments
+ * 4. Post an admin message to the booking thread
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await findOwnBooking(id, 'cancel');
+
+    if (result.error) {
+      return result.error;
+    }
+
+    const { booking, user } = result;
+    const preview = previewCancellation(booking, await getRefundableAmount(booking.id));
+
+    if (!preview.canCancel) {
+      return NextResponse.json({ error: preview.reason }, { status: 409 });
+    }
+
+    const cancelled = await transitionBookingStatus(booking.id, 'cancelled', {
+      fromStatus: booking.status,
+      changedById: user.id,
+      note: `Cancelled by customer (${preview.refundPercent}% refund)`
+    });
+
+    if (!cancelled) {
+      return NextResponse.json({ error: 'Booking was updated, please refresh and try again' }, { status: 409 });
+    }
+
+    // Stop an unpaid checkout or open date change being paid for, and release any deposit hold
+    await closeCancelledBooking(booking.id);
+
+    let refundIds: string[] = [];
+    let refundFailed = false;
+
+    if (preview.refundAmount > 0) {
+      try {
+        const { refunds, unrefunded } = await refundBookingPayments(booking.id, preview.refundAmount, {
+          // Never refund the same cancellation twice
+          idempotencyKey: `booking-cancel-${booking.id}`,
+          reason: 'customer_cancellation'
+        });
+        refundIds = refunds.map(refund => refund.id);
+        refundFailed = unrefunded > 0;
+      } catch (error) {
+        console.error('Error refunding cancelled booking:', error);
+        refundFailed = true;
+      }
+    }
+
+    // Let the admins know in the booking thread
+    const refundSummary = preview.refundAmount > 0
+      ? `Refund of ${formatMoney(preview.refundAmount, booking.currency)} (${preview.refundPercent}% of ${formatMoney(preview.paidAmount, booking.currency)}) ${refundFailed ? 'could not be issued automatically and needs to be processed manually' : 'has been issued to the original payment method'}.`
+      : 'No refund is due under the cancellation policy.';
+
+    await postBookingMessage(
+      booking,
+      `This booking for the ${booking.vehicle.model} (${format(booking.startDate, 'MMM d')} - ${format(booking.endDate, 'MMM d, yyyy')}) was cancelled by the customer. ${refundSummary}`
+    );
+
+    return NextResponse.json({
+      booking: cancelled,
+      refund: {
+        amount: preview.refundAmount,
+        percent: preview.refundPercent,
+        stripeRefundIds: refundIds,
+        failed: refundFailed
+      }
+    });
+  } catch (error) {
+    console.error('Error cancelling booking:', error);
+    return NextResponse.json({ error: 'Failed to cancel booking' }, { status: 500 });
+  }
+}
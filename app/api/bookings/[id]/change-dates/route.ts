@@ -0,0 +1,180 @@
+import { NextResponse } from 'next/server';
+import { startOfDay } from 'date-fns';
+import prisma from '@/app/lib/prisma';
+import { RentalLengthError } from '@/app/lib/quote';
+import { AddOnError, assertBookingAddOnInventory } from '@/app/lib/add-ons';
+import { parseDateParam } from '@/app/lib/pricing';
+import { findAlternativeDates, findBookingConflicts, findTimeOffConflicts } from '@/app/lib/availability';
+import { ModificationPendingError, quoteModification, requestBookingModification } from '@/app/lib/booking-modifications';
+import { findOwnBooking } from '@/app/lib/own-bookings';
+import { LicenseError, assertLicenseCanBook } from '@/app/lib/licenses';
+
+// Parse and sanity-check the requested range; returns an error message when invalid
+function parseNewDates(startDate: unknown, endDate: unknown) {
+  if (typeof startDate !== 'string' || typeof endDate !== 'string') {
+    return { error: 'Start date and end date are required' };
+  }
+
+  const start = parseDateParam(startDate);
+  const end = parseDateParam(endDate);
+
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+    return { error: 'Invalid date format' };
+  }
+
+  if (start > end) {
+    return { error: 'Start date must be before end date' };
+  }
+
+  if (start < startOfDay(new Date())) {
+    return { error: 'New dates must be in the future' };
+  }
+
+  return { start, end };
+}
+
+// Check if the vehicle is free for the new range, ignoring this booking itself
+async function isRangeAvailable(vehicleId: string, bookingId: string, start: Date, end: Date) {
+  const [bookings, timeOffs] = await Promise.all([
+    findBookingConflicts(vehicleId, start, end, { excludeBookingId: bookingId }),
+    findTimeOffConflicts(vehicleId, start, end)
+  ]);
+
+  return bookings.length === 0 && timeOffs.length === 0;
+}
+
+/**
+ * GET /api/bookings/[id]/change-dates?startDate=yyyy-MM-dd&endDate=yyyy-MM-dd
+ * Check availability and reprice the booking for new dates
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await findOwnBooking(id, 'change');
+
+    if (result.error) {
+      return result.error;
+    }
+
+    const { booking } = result;
+    const { searchParams } = new URL(request.url);
+    const dates = parseNewDates(searchParams.get('startDate'), searchParams.get('endDate'));
+
+    if (dates.error || !dates.start || !dates.end) {
+      return NextResponse.json({ error: dates.error }, { status: 400 });
+    }
+
+    const available = await isRangeAvailable(booking.vehicleId, booking.id, dates.start, dates.end);
+    await assertBookingAddOnInventory(booking.id, dates.start, dates.end);
+    const { quote, priceDifference, discountAmount } = await quoteModification(booking, 'date_change', dates.start, dates.end);
+
+    return NextResponse.json({
+      available,
+      alternatives: available ? [] : await findAlternativeDates(booking.vehicleId, dates.start, dates.end),
+      quote,
+      discountAmount,
+      currentTotal: booking.totalPrice,
+      priceDifference
+    });
+  } catch (error) {
+    if (error instanceof RentalLengthError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof AddOnError) {
+      return NextResponse.json({ error: error.message, code: 'INVALID_ADD_ONS' }, { status: 409 });
+    }
+    console.error('Error previewing date change:', error);
+    return NextResponse.json({ error: 'Failed to check new dates' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/bookings/[id]/change-dates
+ * Move a confirmed booking to new dates
+ *
+ * If the new dates cost more the response contains a Stripe checkout URL for
+ * the difference and the change is applied by the webhook once paid. If they
+ * cost the same or less the change is applied now and the surplus refunded.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await findOwnBooking(id, 'change');
+
+    if (result.error) {
+      return result.error;
+    }
+
+    const { booking, user } = result;
+
+    if (booking.status !== 'confirmed') {
+      return NextResponse.json(
+        { error: 'Only confirmed bookings that have not started can change dates' },
+        { status: 409 }
+      );
+    }
+
+    const { startDate, endDate } = await request.json();
+    const dates = parseNewDates(startDate, endDate);
+
+    if (dates.error || !dates.start || !dates.end) {
+      return NextResponse.json({ error: dates.error }, { status: 400 });
+    }
+
+    // Fail early with suggestions; the change itself re-checks atomically
+    if (!(await isRangeAvailable(booking.vehicleId, booking.id, dates.start, dates.end))) {
+      const alternatives = await findAlternativeDates(booking.vehicleId, dates.start, dates.end);
+      return NextResponse.json(
+        { error: 'Vehicle is not available for the new dates', code: 'BOOKING_CONFLICT', alternatives },
+        { status: 409 }
+      );
+    }
+
+    // The license must still allow the renter to drive through the new dates
+    assertLicenseCanBook(user, dates.start, dates.end);
+
+    const modification = await requestBookingModification(booking, 'date_change', dates.start, dates.end, {
+      requestedById: user.id,
+      customerEmail: user.email
+    });
+
+    if (modification.checkoutUrl) {
+      return NextResponse.json({ url: modification.checkoutUrl, modification: modification.modification });
+    }
+
+    if (!modification.applied) {
+      return NextResponse.json(
+        { error: 'Vehicle is not available for the new dates', code: 'BOOKING_CONFLICT', alternatives: [] },
+        { status: 409 }
+      );
+    }
+
+    const updatedBooking = await prisma.booking.findUnique({
+      where: { id: booking.id },
+      include: { vehicle: true }
+    });
+
+    return NextResponse.json({ booking: updatedBooking, modification: modification.modification });
+  } catch (error) {
+    if (error instanceof RentalLengthError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof AddOnError) {
+      return NextResponse.json({ error: error.message, code: 'INVALID_ADD_ONS' }, { status: 409 });
+    }
+    if (error instanceof LicenseError) {
+      return NextResponse.json({ error: error.message, code: 'LICENSE_REQUIRED' }, { status: 403 });
+    }
+    if (error instanceof ModificationPendingError) {
+      return NextResponse.json({ error: error.message, code: 'MODIFICATION_PENDING' }, { status: 409 });
+    }
+    console.error('Error changing booking dates:', error);
+    return NextResponse.json({ error: 'Failed to change booking dates' }, { status: 500 });
+  }
+}
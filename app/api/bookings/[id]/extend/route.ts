@@ -0,0 +1,159 @@
+import { NextResponse } from 'next/server';
+import { addDays, subDays } from 'date-fns';
+import prisma from '@/app/lib/prisma';
+import { RentalLengthError } from '@/app/lib/quote';
+import { AddOnError, assertBookingAddOnInventory } from '@/app/lib/add-ons';
+import { parseDateParam, toDateKey } from '@/app/lib/pricing';
+import { findNextBlockedDate } from '@/app/lib/availability';
+import { ModificationPendingError, isExtensionAutoApproved, quoteModification, requestBookingModification } from '@/app/lib/booking-modifications';
+import { findOwnBooking } from '@/app/lib/own-bookings';
+import { LicenseError, assertLicenseCanBook } from '@/app/lib/licenses';
+
+// Latest return date before the vehicle's next booking or time off ('yyyy-MM-dd'), or null if open-ended
+async function findLatestEndDate(vehicleId: string, bookingId: string, currentEnd: Date) {
+  const nextBlocked = await findNextBlockedDate(vehicleId, currentEnd, { excludeBookingId: bookingId });
+  return nextBlocked ? toDateKey(subDays(nextBlocked, 1)) : null;
+}
+
+/**
+ * GET /api/bookings/[id]/extend?endDate=yyyy-MM-dd
+ * How far the rental can be extended and, if an end date is given, what the extra days cost
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await findOwnBooking(id, 'extend');
+
+    if (result.error) {
+      return result.error;
+    }
+
+    const { booking } = result;
+    const latestEndDate = await findLatestEndDate(booking.vehicleId, booking.id, booking.endDate);
+    const { searchParams } = new URL(request.url);
+    const endDate = searchParams.get('endDate');
+
+    if (!endDate) {
+      return NextResponse.json({ latestEndDate, autoApprove: isExtensionAutoApproved() });
+    }
+
+    const end = parseDateParam(endDate);
+
+    if (isNaN(end.getTime()) || toDateKey(end) <= toDateKey(booking.endDate)) {
+      return NextResponse.json({ error: 'New return date must be after the current one' }, { status: 400 });
+    }
+
+    await assertBookingAddOnInventory(booking.id, booking.startDate, end);
+    const { quote, priceDifference } = await quoteModification(booking, 'extension', booking.startDate, end);
+
+    return NextResponse.json({
+      latestEndDate,
+      autoApprove: isExtensionAutoApproved(),
+      available: !latestEndDate || toDateKey(end) <= latestEndDate,
+      quote,
+      priceDifference
+    });
+  } catch (error) {
+    if (error instanceof RentalLengthError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof AddOnError) {
+      return NextResponse.json({ error: error.message, code: 'INVALID_ADD_ONS' }, { status: 409 });
+    }
+    console.error('Error previewing trip extension:', error);
+    return NextResponse.json({ error: 'Failed to check extension' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/bookings/[id]/extend
+ * Request a later return date for an active rental
+ *
+ * The added days are quoted with special pricing and paid through Stripe
+ * checkout; the webhook then updates the end date (or queues the extension for
+ * admin approval when auto-approval is off).
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await findOwnBooking(id, 'extend');
+
+    if (result.error) {
+      return result.error;
+    }
+
+    const { booking, user } = result;
+
+    if (booking.status !== 'active') {
+      return NextResponse.json({ error: 'Only active rentals can be extended' }, { status: 409 });
+    }
+
+    const { endDate } = await request.json();
+
+    if (typeof endDate !== 'string') {
+      return NextResponse.json({ error: 'New end date is required' }, { status: 400 });
+    }
+
+    const end = parseDateParam(endDate);
+
+    if (isNaN(end.getTime()) || toDateKey(end) <= toDateKey(booking.endDate)) {
+      return NextResponse.json({ error: 'New return date must be after the current one' }, { status: 400 });
+    }
+
+    // The vehicle's next booking or time off caps the extension
+    const latestEndDate = await findLatestEndDate(booking.vehicleId, booking.id, booking.endDate);
+
+    if (latestEndDate && toDateKey(end) > latestEndDate) {
+      return NextResponse.json(
+        {
+          error: latestEndDate < toDateKey(addDays(booking.endDate, 1))
+            ? 'This vehicle is booked right after your rental and can\'t be extended'
+            : `This vehicle can only be extended until ${latestEndDate}`,
+          code: 'BOOKING_CONFLICT',
+          latestEndDate
+        },
+        { status: 409 }
+      );
+    }
+
+    // The license must still allow the renter to drive through the new dates
+    assertLicenseCanBook(user, booking.startDate, end);
+
+    const modification = await requestBookingModification(booking, 'extension', booking.startDate, end, {
+      requestedById: user.id,
+      customerEmail: user.email
+    });
+
+    if (modification.checkoutUrl) {
+      return NextResponse.json({ url: modification.checkoutUrl, modification: modification.modification });
+    }
+
+    const updatedBooking = await prisma.booking.findUnique({
+      where: { id: booking.id },
+      include: { vehicle: true }
+    });
+
+    return NextResponse.json({ booking: updatedBooking, modification: modification.modification });
+  } catch (error) {
+    if (error instanceof RentalLengthError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof AddOnError) {
+      return NextResponse.json({ error: error.message, code: 'INVALID_ADD_ONS' }, { status: 409 });
+    }
+    if (error instanceof LicenseError) {
+      return NextResponse.json({ error: error.message, code: 'LICENSE_REQUIRED' }, { status: 403 });
+    }
+    if (error instanceof ModificationPendingError) {
+      return NextResponse.json({ error: error.message, code: 'MODIFICATION_PENDING' }, { status: 409 });
+    }
+    console.error('Error extending booking:', error);
+    return NextResponse.json({ error: 'Failed to extend booking' }, { status: 500 });
+  }
+}
@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { NextAuthOptions } from 'next-auth';
+import prisma from '@/app/lib/prisma';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import {
+  INVOICE_BOOKING_INCLUDE,
+  formatInvoiceNumber,
+  issueInvoice,
+  renderInvoicePdf
+} from '@/app/lib/invoices';
+
+/**
+ * GET /api/bookings/[id]/invoice
+ * Download the booking's invoice as a PDF (the customer who booked it or an admin).
+ * The invoice is numbered, and its charges fixed, on its first download.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions as NextAuthOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const { id } = await params;
+    const booking = await prisma.booking.findUnique({
+      where: { id },
+      include: INVOICE_BOOKING_INCLUDE
+    });
+
+    if (!booking) {
+      return NextResponse.json({ error: 'Booking not found' }, { status: 404 });
+    }
+
+    if (booking.userId !== user.id && !user.isAdmin) {
+      return NextResponse.json({ error: 'Unauthorized to view this booking' }, { status: 403 });
+    }
+
+    // A pending booking is only a hold on the dates until it's paid or confirmed
+    if (booking.status === 'pending') {
+      return NextResponse.json(
+        { error: 'The invoice is available once the booking is confirmed' },
+        { status: 409 }
+      );
+    }
+
+    const invoice = await issueInvoice(booking);
+    const pdf = await renderInvoicePdf(invoice, booking);
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${formatInvoiceNumber(invoice.number)}.pdf"`,
+        'Cache-Control': 'private, no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Error generating invoice:', error);
+    return NextResponse.json({ error: 'Failed to generate invoice' }, { status: 500 });
+  }
+}
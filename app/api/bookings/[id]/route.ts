@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import prisma from '@/app/lib/prisma';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { AGREEMENT_SUMMARY_SELECT } from '@/app/lib/agreements';
 
 export async function GET(
   request: Request,
@@ -36,7 +37,25 @@ export async function GET(
     const booking = await prisma.booking.findUnique({
       where: { id: bookingId },
       include: {
-        vehicle: true
+        vehicle: true,
+        promoCode: {
+          select: { code: true }
+        },
+        addOns: {
+          orderBy: { createdAt: 'asc' }
+        },
+        fees: {
+          orderBy: { createdAt: 'asc' }
+        },
+        taxes: {
+          orderBy: { createdAt: 'asc' }
+        },
+        ledgerEntries: {
+          orderBy: { createdAt: 'asc' }
+        },
+        agreement: {
+          select: AGREEMENT_SUMMARY_SELECT
+        }
       }
     });
     
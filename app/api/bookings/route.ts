@@ -2,6 +2,11 @@ import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import prisma from '@/app/lib/prisma';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { parseDateParam, rentalLengthError } from '@/app/lib/pricing';
+import { quoteVehicle } from '@/app/lib/quote';
+import { BookingConflictError, createBookingIfAvailable, findAlternativeDates } from '@/app/lib/availability';
+import { DEFAULT_CURRENCY } from '@/app/lib/currency';
+import { licenseBlockReason } from '@/app/lib/license-rules';
 
 export async function GET(request: Request) {
   try {
@@ -69,77 +74,70 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Vehicle not found' }, { status: 404 });
     }
     
-    // Calculate days
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-    const diffTime = Math.abs(end.getTime() - start.getTime());
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-    
-    // Calculate base price
-    let basePrice = vehicle.pricePerDay;
-    let totalPrice = 0;
-    
-    // Check for special pricing rules that apply to this date range and vehicle
-    const specialPricingRules = await prisma.specialPricing.findMany({
-      where: {
-        OR: [
-          // Apply to all vehicles
-          { applyToAll: true },
-          // Apply to this specific vehicle
-          {
-            vehicles: {
-              some: {
-                id: vehicleId
-              }
-            }
-          }
-        ],
-        // Overlaps with booking date range
-        AND: [
-          { startDate: { lte: end } },
-          { endDate: { gte: start } }
-        ]
-      },
-      orderBy: {
-        createdAt: 'desc' // Most recently created rule takes precedence
-      }
-    });
+    // Price the stay through the shared pricing engine
+    const start = parseDateParam(startDate);
+    const end = parseDateParam(endDate);
+    const quote = await quoteVehicle(vehicle, start, end);
     
-    // If we have special pricing rules, apply them
-    if (specialPricingRules.length > 0) {
-      // Use the most recent rule (first in the sorted array)
-      const rule = specialPricingRules[0];
-      
-      if (rule.priceType === 'multiplier') {
-        // Apply multiplier to base price
-        basePrice = Math.round(basePrice * rule.priceValue);
-      } else if (rule.priceType === 'fixed') {
-        // Override with fixed price
-        basePrice = Math.round(rule.priceValue);
-      }
+    const lengthError = rentalLengthError(vehicle, quote.days);
+    if (lengthError) {
+      return NextResponse.json({ error: lengthError }, { status: 400 });
     }
     
-    // Calculate final price
-    totalPrice = basePrice * diffDays;
-    
-    // Create the booking
-    const booking = await prisma.booking.create({
-      data: {
-        startDate: start,
-        endDate: end,
-        totalPrice,
-        status: 'confirmed',
-        user: {
-          connect: { 
-            email: userEmail 
-          }
-        },
-        vehicle: {
-          connect: { id: vehicleId }
-        }
-      },
+    // Only verified drivers old enough to rent can book
+    const license = await prisma.user.findUnique({
+      where: { email: userEmail },
+      select: { licenseStatus: true, licenseExpiry: true, dateOfBirth: true }
     });
     
+    if (!license) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+    
+    const licenseError = licenseBlockReason(license, start, end);
+    if (licenseError) {
+      return NextResponse.json({ error: licenseError, code: 'LICENSE_REQUIRED' }, { status: 403 });
+    }
+    
+    // Create the booking, atomically checking that the dates are still free
+    let booking;
+    try {
+      booking = await createBookingIfAvailable(vehicleId, start, end, (tx) =>
+        tx.booking.create({
+          data: {
+            startDate: start,
+            endDate: end,
+            totalPrice: quote.totalPrice,
+            currency: DEFAULT_CURRENCY,
+            status: 'confirmed',
+            user: {
+              connect: { 
+                email: userEmail 
+              }
+            },
+            vehicle: {
+              connect: { id: vehicleId }
+            },
+            statusChanges: {
+              create: {
+                toStatus: 'confirmed',
+                changedBy: { connect: { email: userEmail } }
+              }
+            }
+          },
+        })
+      );
+    } catch (error) {
+      if (error instanceof BookingConflictError) {
+        const alternatives = await findAlternativeDates(vehicleId, start, end);
+        return NextResponse.json(
+          { error: error.message, code: 'BOOKING_CONFLICT', alternatives },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+    
     return NextResponse.json(booking);
   } catch (error) {
     console.error('Error creating booking:', error);
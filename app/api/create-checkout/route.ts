@@ -1,17 +1,18 @@
 import { NextResponse } from 'next/server';
-import Stripe from 'stripe';
 import prisma from '@/app/lib/prisma';
+import stripe from '@/app/lib/stripe';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
 import { getToken } from 'next-auth/jwt';
-
-/**
- * Stripe API Configuration
- * Initialize Stripe with secret key and latest API version
- */
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-  apiVersion: '2023-10-16',
-});
+import { parseDateParam } from '@/app/lib/pricing';
+import { RentalLengthError, quoteBooking } from '@/app/lib/quote';
+import { PromoCodeError, assertPromoCodeUsesAvailable } from '@/app/lib/promotions';
+import { AddOnError, assertAddOnInventory, parseAddOnSelections } from '@/app/lib/add-ons';
+import { DEFAULT_PROTECTION_PLAN, findProtectionPlan, securityDepositFor } from '@/app/lib/protection-plans';
+import { parseFeeKinds } from '@/app/lib/fees';
+import { LicenseError, assertLicenseCanBook } from '@/app/lib/licenses';
+import { DEFAULT_CURRENCY, formatMoney } from '@/app/lib/currency';
+import { BookingConflictError, createBookingIfAvailable, findAlternativeDates, holdExpiryFromNow } from '@/app/lib/availability';
 
 /**
  * POST /api/create-checkout
@@ -19,11 +20,18 @@ const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
  * 
  * Flow:
  * 1. Authenticate user via session
- * 2. Validate request body (vehicleId, dates)
- * 3. Get vehicle details and calculate price
- * 4. Create pending booking record
+ * 2. Validate request body (vehicleId, dates, protection plan, optional promo code, add-ons and fees)
+ *    and check the renter's driver's license is approved, valid through the stay and that they
+ *    are old enough (403 LICENSE_REQUIRED otherwise)
+ * 3. Get vehicle details and quote the stay via the pricing engine, applying any promo code,
+ *    add-ons, the protection plan, fees and tax (400 if the stay is outside the vehicle's rental length limits, the code
+ *    can't be used or an add-on isn't available)
+ * 4. Create pending booking record in the deployment currency with its add-ons, fees and taxes
+ *    if the dates (and add-on inventory) are still free (409 / 400 otherwise)
  * 5. Create welcome message from admin
- * 6. Create Stripe checkout session
+ * 6. Create Stripe checkout session with line items for the protection plan, each add-on, fee
+ *    and tax and a one-off coupon for the length-of-stay and promo discounts (saving the card when
+ *    there is a security deposit, which defaults to the plan's deductible)
  * 7. Return checkout URL
  */
 export async function POST(request: Request) {
@@ -48,12 +56,19 @@ export async function POST(request: Request) {
     
     // Validate request parameters
     const body = await request.json();
-    const { vehicleId, startDate, endDate } = body;
+    const { vehicleId, startDate, endDate, promoCode } = body;
+    const addOnSelections = parseAddOnSelections(body.addOns);
+    const protectionPlan = findProtectionPlan(body.protectionPlan ?? DEFAULT_PROTECTION_PLAN);
+    const feeKinds = parseFeeKinds(body.fees);
     
     if (!vehicleId || !startDate || !endDate) {
       return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
     }
     
+    if (!protectionPlan) {
+      return NextResponse.json({ error: 'Invalid protection plan' }, { status: 400 });
+    }
+    
     // Get vehicle information
     const vehicle = await prisma.vehicle.findUnique({
       where: { id: vehicleId },
@@ -65,46 +80,199 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Vehicle not found' }, { status: 404 });
     }
     
-    // Calculate booking duration and price
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-    const durationInMs = end.getTime() - start.getTime();
-    const days = Math.ceil(durationInMs / (1000 * 60 * 60 * 24)) + 1; // Add 1 to include both start and end dates
-    const totalAmount = vehicle.pricePerDay * days;
-    
-    // Create booking with status 'pending'
-    const booking = await prisma.booking.create({
-      data: {
-        startDate: start,
-        endDate: end,
-        totalPrice: totalAmount,
-        status: 'pending', // Set initial status as pending until payment is confirmed
+    const start = parseDateParam(startDate);
+    const end = parseDateParam(endDate);
+    
+    // Only verified drivers old enough to rent can book
+    try {
+      assertLicenseCanBook(user, start, end);
+    } catch (error) {
+      if (error instanceof LicenseError) {
+        return NextResponse.json({ error: error.message, code: 'LICENSE_REQUIRED' }, { status: 403 });
+      }
+      throw error;
+    }
+    
+    // Price the stay through the shared pricing engine so the charge
+    // matches the breakdown shown on /booking
+    let bookingQuote;
+    try {
+      bookingQuote = await quoteBooking(vehicle, start, end, {
+        promoCode,
         userId: user.id,
-        vehicleId: vehicle.id
-      },
-    });
+        addOns: addOnSelections,
+        protectionPlan,
+        fees: feeKinds
+      });
+    } catch (error) {
+      if (error instanceof RentalLengthError) {
+        return NextResponse.json({ error: error.message, code: 'INVALID_RENTAL_LENGTH' }, { status: 400 });
+      }
+      if (error instanceof PromoCodeError) {
+        return NextResponse.json({ error: error.message, code: 'INVALID_PROMO_CODE' }, { status: 400 });
+      }
+      if (error instanceof AddOnError) {
+        return NextResponse.json({ error: error.message, code: 'INVALID_ADD_ONS' }, { status: 400 });
+      }
+      throw error;
+    }
+    const { quote, discount, addOns, protection, fees, taxes } = bookingQuote;
+    const securityDeposit = securityDepositFor(protectionPlan, vehicle);
+    
+    const holdExpiresAt = holdExpiryFromNow();
+    
+    // Create booking with status 'pending', atomically checking that no other
+    // booking or time off overlaps the requested dates
+    let booking;
+    try {
+      booking = await createBookingIfAvailable(vehicle.id, start, end, async (tx) => {
+        // Physical add-ons may have been taken since the quote
+        await assertAddOnInventory(addOns, start, end, tx);
+
+        // Another checkout may have used up the promo code since the quote
+        if (bookingQuote.promoCode) {
+          await assertPromoCodeUsesAvailable(bookingQuote.promoCode.id, user.id, tx);
+        }
+
+        return tx.booking.create({
+          data: {
+            startDate: start,
+            endDate: end,
+            totalPrice: bookingQuote.totalPrice,
+            currency: DEFAULT_CURRENCY,
+            promoCodeId: bookingQuote.promoCode?.id,
+            discountAmount: discount,
+            protectionPlan: protectionPlan.id,
+            protectionPerDay: protectionPlan.pricePerDay,
+            protectionAmount: protection.amount,
+            deductible: protectionPlan.deductible,
+            status: 'pending', // Set initial status as pending until payment is confirmed
+            holdExpiresAt, // Dates are only held while the customer is in checkout
+            // Authorized on the card saved at checkout shortly before pickup
+            securityDeposit,
+            depositStatus: securityDeposit > 0 ? 'pending' : null,
+            userId: user.id,
+            vehicleId: vehicle.id,
+            statusChanges: {
+              create: { toStatus: 'pending', changedById: user.id }
+            },
+            addOns: {
+              create: addOns
+            },
+            fees: {
+              create: fees
+            },
+            taxes: {
+              create: taxes
+            }
+          },
+        });
+      });
+    } catch (error) {
+      if (error instanceof BookingConflictError) {
+        const alternatives = await findAlternativeDates(vehicle.id, start, end);
+        return NextResponse.json(
+          { error: error.message, code: 'BOOKING_CONFLICT', alternatives },
+          { status: 409 }
+        );
+      }
+      if (error instanceof AddOnError) {
+        return NextResponse.json({ error: error.message, code: 'INVALID_ADD_ONS' }, { status: 400 });
+      }
+      if (error instanceof PromoCodeError) {
+        return NextResponse.json({ error: error.message, code: 'INVALID_PROMO_CODE' }, { status: 400 });
+      }
+      throw error;
+    }
     
     console.log('Created booking:', booking.id);
     
+    const hasDeposit = securityDeposit > 0;
+    
+    // Line items are the daily rates, so Stripe applies the length-of-stay
+    // and promo discounts as a single-use coupon for the exact amount
+    const totalDiscount = (quote.stayDiscount?.amount || 0) + discount;
+    const coupon = totalDiscount > 0
+      ? await stripe.coupons.create({
+        amount_off: totalDiscount,
+        currency: booking.currency,
+        duration: 'once',
+        max_redemptions: 1,
+        name: [quote.stayDiscount && `${quote.stayDiscount.name} discount`, bookingQuote.promoCode?.code]
+          .filter(Boolean)
+          .join(' + '),
+        metadata: { bookingId: booking.id },
+      })
+      : null;
+    
     // Set up Stripe checkout session
     const checkoutSession = await stripe.checkout.sessions.create({
       payment_method_types: ['card'],
-      line_items: [
-        {
-          price_data: {
-            currency: 'usd',
-            product_data: {
-              name: `Tesla ${vehicle.model} Rental`,
-              description: `${days} day rental from ${start.toLocaleDateString()} to ${end.toLocaleDateString()}`,
-              // Only include images if they are valid URLs
-              images: vehicle.image && vehicle.image.startsWith('http') ? [vehicle.image] : [],
-            },
-            unit_amount: vehicle.pricePerDay * 100, // Convert to cents for Stripe
-            tax_behavior: 'exclusive',
+      // One line item per distinct daily rate in the quote, then the protection plan, add-ons, fees and taxes
+      line_items: [...quote.lines.map(line => ({
+        price_data: {
+          currency: booking.currency,
+          product_data: {
+            name: `Tesla ${vehicle.model} Rental - ${line.description}`,
+            description: `${line.quantity} of ${quote.days} days (${start.toLocaleDateString()} to ${end.toLocaleDateString()})`,
+            // Only include images if they are valid URLs
+            images: vehicle.image && vehicle.image.startsWith('http') ? [vehicle.image] : [],
+          },
+          unit_amount: line.unitPrice,
+          tax_behavior: 'exclusive' as const,
+        },
+        quantity: line.quantity,
+      })), ...(protection.amount > 0 ? [{
+        price_data: {
+          currency: booking.currency,
+          product_data: {
+            name: `${protectionPlan.name} Protection`,
+            description: `${formatMoney(protectionPlan.deductible, booking.currency)} deductible`,
+          },
+          unit_amount: protectionPlan.pricePerDay,
+          tax_behavior: 'exclusive' as const,
+        },
+        quantity: quote.days,
+      }] : []), ...addOns.map(addOn => ({
+        price_data: {
+          currency: booking.currency,
+          product_data: {
+            name: addOn.name,
+            description: addOn.priceType === 'flat'
+              ? 'Per booking'
+              : `${formatMoney(addOn.unitPrice, booking.currency)} per day for ${quote.days} days`,
           },
-          quantity: days,
+          // Per-day add-ons are charged for the whole stay per unit
+          unit_amount: addOn.amount / addOn.quantity,
+          tax_behavior: 'exclusive' as const,
         },
-      ],
+        quantity: addOn.quantity,
+      })), ...fees.filter(fee => fee.amount > 0).map(fee => ({
+        price_data: {
+          currency: booking.currency,
+          product_data: {
+            name: fee.name,
+            description: fee.priceType === 'flat'
+              ? 'Per booking'
+              : `${formatMoney(fee.unitPrice, booking.currency)} per day for ${quote.days} days`,
+          },
+          unit_amount: fee.amount,
+          tax_behavior: 'exclusive' as const,
+        },
+        quantity: 1,
+      })), ...taxes.filter(tax => tax.amount > 0).map(tax => ({
+        // Tax is worked out on the discounted total, so it is charged as is
+        price_data: {
+          currency: booking.currency,
+          product_data: {
+            name: `${tax.name} (${tax.percentage}%)`,
+          },
+          unit_amount: tax.amount,
+          tax_behavior: 'exclusive' as const,
+        },
+        quantity: 1,
+      }))],
+      ...(coupon ? { discounts: [{ coupon: coupon.id }] } : {}),
       mode: 'payment',
       success_url: `${process.env.NEXTAUTH_URL}/bookings/confirmation?session_id={CHECKOUT_SESSION_ID}`,
       cancel_url: `${process.env.NEXTAUTH_URL}/results?startDate=${startDate}&endDate=${endDate}&canceled=true`,
@@ -114,7 +282,29 @@ export async function POST(request: Request) {
         vehicleId: vehicle.id,
         userId: user.id,
       },
+      // Lets payment and charge events find the booking
+      payment_intent_data: {
+        metadata: { bookingId: booking.id },
+        // Keep the card on file for the security deposit authorization
+        ...(hasDeposit ? { setup_future_usage: 'off_session' as const } : {}),
+      },
+      ...(hasDeposit ? {
+        customer_creation: 'always' as const,
+        custom_text: {
+          submit: {
+            message: `A refundable ${formatMoney(securityDeposit, booking.currency)} security deposit will be authorized on this card shortly before pickup. It is only charged for damage, tolls or cleaning.`,
+          },
+        },
+      } : {}),
       customer_email: user.email || undefined,
+      // Stop accepting payment once the hold on the dates lapses
+      expires_at: Math.floor(holdExpiresAt.getTime() / 1000),
+    });
+    
+    // Remember the session so the hold sweeper can expire it
+    await prisma.booking.update({
+      where: { id: booking.id },
+      data: { stripeSessionId: checkoutSession.id },
     });
     
     // Return checkout session URL
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { sweepDepositHolds } from '@/app/lib/deposits';
+
+/**
+ * GET /api/cron/deposit-holds
+ * Scheduled job that authorizes security deposits shortly before pickup and
+ * re-authorizes holds before the card authorization lapses.
+ *
+ * Protected by CRON_SECRET, sent as a Bearer token by the scheduler.
+ */
+export async function GET(request: Request) {
+  const authHeader = request.headers.get('authorization');
+
+  if (!process.env.CRON_SECRET || authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await sweepDepositHolds();
+
+    console.log(`Deposit sweeper: placed ${result.placed.length}, renewed ${result.renewed.length}, failed ${result.failed.length}`);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error sweeping security deposits:', error);
+    return NextResponse.json({ error: 'Failed to sweep security deposits' }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { releaseExpiredHolds } from '@/app/lib/holds';
+
+/**
+ * GET /api/cron/release-holds
+ * Scheduled sweeper that cancels pending bookings whose checkout hold expired
+ * and expires the matching Stripe checkout sessions.
+ *
+ * Protected by CRON_SECRET, sent as a Bearer token by the scheduler.
+ */
+export async function GET(request: Request) {
+  const authHeader = request.headers.get('authorization');
+  
+  if (!process.env.CRON_SECRET || authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  
+  try {
+    const result = await releaseExpiredHolds();
+    
+    console.log(`Hold sweeper: released ${result.released.length}, confirmed ${result.confirmed.length}, failed ${result.failed.length}`);
+    
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error releasing expired holds:', error);
+    return NextResponse.json({ error: 'Failed to release expired holds' }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/app/lib/prisma';
+
+/**
+ * GET /api/fees
+ * Active fees and tax rates, so /booking can show the same total checkout charges
+ */
+export async function GET() {
+  try {
+    const [fees, taxRates] = await Promise.all([
+      prisma.fee.findMany({
+        where: { active: true },
+        select: { id: true, name: true, kind: true, priceType: true, price: true },
+        orderBy: { createdAt: 'asc' }
+      }),
+      prisma.taxRate.findMany({
+        where: { active: true },
+        select: { id: true, name: true, jurisdiction: true, percentage: true },
+        orderBy: { createdAt: 'asc' }
+      })
+    ]);
+
+    return NextResponse.json({ fees, taxRates });
+  } catch (error) {
+    console.error('Error fetching fees:', error);
+    return NextResponse.json({ error: 'Failed to fetch fees' }, { status: 500 });
+  }
+}
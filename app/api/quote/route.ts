@@ -0,0 +1,83 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/app/lib/prisma';
+import { getServerSession, NextAuthOptions } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { parseDateParam } from '@/app/lib/pricing';
+import { RentalLengthError, quoteBooking } from '@/app/lib/quote';
+import { PromoCodeError } from '@/app/lib/promotions';
+import { AddOnError, parseAddOnSelections } from '@/app/lib/add-ons';
+import { DEFAULT_PROTECTION_PLAN, findProtectionPlan } from '@/app/lib/protection-plans';
+import { parseFeeKinds } from '@/app/lib/fees';
+
+/**
+ * POST /api/quote
+ * Quotes a stay the way checkout will charge it. Takes the same body as
+ * /api/create-checkout (vehicleId, dates, promo code, add-ons, protection plan
+ * and fees) and returns the BookingQuote with its length-of-stay discount,
+ * add-ons, fees and tax. A stay outside the vehicle's rental length limits
+ * (INVALID_RENTAL_LENGTH) or add-ons that can't be booked (INVALID_ADD_ONS)
+ * are a 400; an unusable promo code still returns the quote without it, with
+ * the reason in promoError.
+ */
+export async function POST(request: Request) {
+  const body = await request.json();
+  const { vehicleId, startDate, endDate, promoCode } = body;
+  const addOnSelections = parseAddOnSelections(body.addOns);
+  const protectionPlan = findProtectionPlan(body.protectionPlan ?? DEFAULT_PROTECTION_PLAN);
+  const feeKinds = parseFeeKinds(body.fees);
+
+  if (!vehicleId || !startDate || !endDate) {
+    return NextResponse.json({ error: 'Vehicle, start date and end date are required' }, { status: 400 });
+  }
+
+  if (!protectionPlan) {
+    return NextResponse.json({ error: 'Invalid protection plan' }, { status: 400 });
+  }
+
+  try {
+    const vehicle = await prisma.vehicle.findUnique({
+      where: { id: vehicleId }
+    });
+
+    if (!vehicle) {
+      return NextResponse.json({ error: 'Vehicle not found' }, { status: 404 });
+    }
+
+    const start = parseDateParam(startDate);
+    const end = parseDateParam(endDate);
+
+    // Per-customer promo limits only apply when someone is signed in
+    const session = await getServerSession(authOptions as NextAuthOptions);
+    const user = session?.user?.email
+      ? await prisma.user.findUnique({ where: { email: session.user.email } })
+      : null;
+
+    const options = {
+      userId: user?.id,
+      addOns: addOnSelections,
+      protectionPlan,
+      fees: feeKinds
+    };
+
+    try {
+      const quote = await quoteBooking(vehicle, start, end, { ...options, promoCode });
+
+      return NextResponse.json(quote);
+    } catch (error) {
+      if (error instanceof RentalLengthError) {
+        return NextResponse.json({ error: error.message, code: 'INVALID_RENTAL_LENGTH' }, { status: 400 });
+      }
+      if (error instanceof AddOnError) {
+        return NextResponse.json({ error: error.message, code: 'INVALID_ADD_ONS' }, { status: 400 });
+      }
+      if (error instanceof PromoCodeError) {
+        const quote = await quoteBooking(vehicle, start, end, options);
+        return NextResponse.json({ ...quote, promoError: error.message });
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error('Error quoting booking:', error);
+    return NextResponse.json({ error: 'Failed to quote booking' }, { status: 500 });
+  }
+}
@@ -3,6 +3,39 @@ import { writeFile, mkdir } from 'fs/promises';
 import { join } from 'path';
 import { existsSync } from 'fs';
 import { v4 as uuidv4 } from 'uuid';
+import { getServerSession } from 'next-auth/next';
+import { NextAuthOptions } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { LICENSE_IMAGE_TYPES, LICENSE_UPLOADS_DIR } from '@/app/lib/licenses';
+
+// Save a driver's license photo for the signed-in user outside public/, returning only its file name
+async function uploadLicenseImage(file: File) {
+  const session = await getServerSession(authOptions as NextAuthOptions);
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const extension = LICENSE_IMAGE_TYPES[file.type];
+  if (!extension) {
+    return NextResponse.json({ error: 'Invalid file type. Only JPEG, PNG and WebP are allowed.' }, { status: 400 });
+  }
+
+  if (file.size > 10 * 1024 * 1024) {
+    return NextResponse.json({ error: 'The photo must be 10 MB or smaller' }, { status: 400 });
+  }
+
+  const fileName = `${uuidv4()}.${extension}`;
+
+  try {
+    await mkdir(LICENSE_UPLOADS_DIR, { recursive: true });
+    await writeFile(join(LICENSE_UPLOADS_DIR, fileName), Buffer.from(await file.arrayBuffer()));
+  } catch (error) {
+    console.error('Error saving license photo:', error);
+    return NextResponse.json({ error: 'Failed to save file' }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true, fileName });
+}
 
 export async function POST(request: NextRequest) {
   try {
@@ -27,6 +60,11 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'No file uploaded' }, { status: 400 });
     }
 
+    // License photos are private; everything else is a public image
+    if (formData.get('purpose') === 'license') {
+      return uploadLicenseImage(file);
+    }
+
     // Validate file type
     const validTypes = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
     if (!validTypes.includes(file.type)) {
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession, NextAuthOptions } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import prisma from '@/app/lib/prisma';
+import { parseLicenseSide, readLicenseImage } from '@/app/lib/licenses';
+
+/**
+ * GET /api/user/license/image?side=front|back
+ * A photo of the signed-in user's submitted driver's license
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions as NextAuthOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const side = parseLicenseSide(request.nextUrl.searchParams.get('side'));
+
+    if (!side) {
+      return NextResponse.json({ error: 'Side must be "front" or "back"' }, { status: 400 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+      select: { licenseFrontImage: true, licenseBackImage: true }
+    });
+
+    const name = side === 'front' ? user?.licenseFrontImage : user?.licenseBackImage;
+    const image = name ? await readLicenseImage(name) : null;
+
+    if (!image) {
+      return NextResponse.json({ error: 'License photo not found' }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(image.data), {
+      headers: {
+        'Content-Type': image.contentType,
+        'Cache-Control': 'private, no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching license photo:', error);
+    return NextResponse.json({ error: 'Failed to fetch license photo' }, { status: 500 });
+  }
+}
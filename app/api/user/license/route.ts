@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { getServerSession, NextAuthOptions } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import prisma from '@/app/lib/prisma';
+import { LICENSE_SELECT, parseLicenseInput } from '@/app/lib/licenses';
+
+/**
+ * GET /api/user/license
+ * The signed-in user's driver's license and its review status
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions as NextAuthOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const license = await prisma.user.findUnique({
+      where: { email: session.user.email },
+      select: LICENSE_SELECT
+    });
+
+    if (!license) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ license });
+  } catch (error) {
+    console.error('Error fetching driver\'s license:', error);
+    return NextResponse.json({ error: 'Failed to fetch driver\'s license' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/user/license
+ * Submit the driver's license for review. The photos are file names returned
+ * by POST /api/upload with purpose=license. Resubmitting, e.g. after a
+ * renewal, puts the license back in the review queue.
+ */
+export async function PUT(request: Request) {
+  try {
+    const session = await getServerSession(authOptions as NextAuthOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parsed = parseLicenseInput(await request.json());
+
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const license = await prisma.user.update({
+      where: { email: session.user.email },
+      data: parsed.data,
+      select: LICENSE_SELECT
+    });
+
+    return NextResponse.json({ license });
+  } catch (error) {
+    console.error('Error submitting driver\'s license:', error);
+    return NextResponse.json({ error: 'Failed to submit driver\'s license' }, { status: 500 });
+  }
+}
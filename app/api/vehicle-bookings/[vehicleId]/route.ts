@@ -18,6 +18,7 @@ export async function GET(
         startDate: true, 
         endDate: true,
         status: true,
+        holdExpiresAt: true,
         vehicleId: true,
         totalPrice: true,
         createdAt: true,
@@ -26,7 +27,19 @@ export async function GET(
       }
     });
 
-    return NextResponse.json({ bookings });
+    // Fetch time-off periods so the calendar can block them (reason stays admin-only)
+    const timeOffs = await prisma.vehicleTimeOff.findMany({
+      where: {
+        vehicleId: vehicleId,
+      },
+      select: {
+        id: true,
+        startDate: true,
+        endDate: true
+      }
+    });
+
+    return NextResponse.json({ bookings, timeOffs });
   } catch (error) {
     console.error('Error fetching vehicle bookings:', error);
     return NextResponse.json({ error: 'Failed to fetch vehicle bookings' }, { status: 500 });
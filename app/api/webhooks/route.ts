@@ -1,11 +1,8 @@
 import { NextResponse } from 'next/server';
 import Stripe from 'stripe';
-import prisma from '@/app/lib/prisma';
 import { headers } from 'next/headers';
-
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-  apiVersion: '2023-10-16',
-});
+import stripe from '@/app/lib/stripe';
+import { processWebhookEvent, recordWebhookEvent } from '@/app/lib/webhook-events';
 
 // This is your Stripe webhook secret for testing your endpoint locally
 const endpointSecret = process.env.STRIPE_WEBHOOK_SECRET;
@@ -24,71 +21,28 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: error.message }, { status: 400 });
   }
 
-  // Handle the event
-  switch (event.type) {
-    case 'checkout.session.completed':
-      console.log('Webhook: checkout.session.completed event received');
-      const session = event.data.object as Stripe.Checkout.Session;
-      
-      // Update the booking status to confirmed
-      if (session.metadata?.bookingId) {
-        const bookingId = session.metadata.bookingId;
-        const userId = session.metadata.userId;
-        console.log(`Webhook: Processing booking ${bookingId} for user ${userId}`);
-        
-        // First, get the booking with vehicle details
-        const booking = await prisma.booking.findUnique({
-          where: { id: bookingId },
-          include: { vehicle: true }
-        });
-        
-        if (booking) {
-          console.log(`Webhook: Found booking for ${booking.vehicle.model}`);
-          
-          // Update booking status
-          await prisma.booking.update({
-            where: { id: bookingId },
-            data: { 
-              status: 'confirmed',
-            },
-          });
-          console.log(`Webhook: Updated booking status to confirmed`);
-          
-          // Calculate number of days for the booking
-          const startDate = new Date(booking.startDate);
-          const endDate = new Date(booking.endDate);
-          const days = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-          
-          // Create welcome message from admin
-          const message = await prisma.message.create({
-            data: {
-              content: `Thank you for choosing RideReady! We're thrilled you'll be experiencing our ${booking.vehicle.model}. Your reservation for ${days} days has been confirmed. If you have any questions before your trip, feel free to message us here. We look forward to getting you on the road in style!`,
-              bookingId: bookingId,
-              userId: userId,
-              isAdminMessage: true
-            }
-          });
-          console.log(`Webhook: Created welcome message ${message.id}`);
-        } else {
-          console.log(`Webhook: No booking found for ID ${bookingId}`);
-        }
-      } else {
-        console.log('Webhook: No booking metadata found in session');
-      }
-      break;
-      
-    case 'checkout.session.expired':
-      // Handle expired checkout sessions
-      if (event.data.object.metadata?.bookingId) {
-        await prisma.booking.update({
-          where: { id: event.data.object.metadata.bookingId },
-          data: { status: 'cancelled' },
-        });
-      }
-      break;
-      
-    default:
-      console.log(`Unhandled event type ${event.type}`);
+  // Store the event first; Stripe may deliver the same event more than once
+  const webhookEvent = await recordWebhookEvent(event);
+
+  if (webhookEvent.status === 'processed') {
+    console.log(`Webhook: Event ${event.id} already processed, skipping`);
+    return NextResponse.json({ received: true, duplicate: true });
+  }
+
+  // Handle the event; a failure returns 500 so Stripe retries it
+  const result = await processWebhookEvent(event.id);
+
+  if (result === 'failed') {
+    return NextResponse.json({ error: 'Webhook handler failed' }, { status: 500 });
+  }
+
+  if (result === 'duplicate') {
+    return NextResponse.json({ received: true, duplicate: true });
+  }
+
+  // Another delivery holds the event; if it crashed, Stripe's retry reclaims it once the claim is stale
+  if (result === 'in_progress') {
+    return NextResponse.json({ error: 'Webhook event is already being processed' }, { status: 409 });
   }
 
   return NextResponse.json({ received: true });
@@ -1,12 +1,46 @@
 'use client';
 
-import { useState, useEffect, Suspense } from 'react';
+import { useState, useEffect, useMemo, Suspense } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
-import { format, differenceInDays, eachDayOfInterval } from 'date-fns';
+import { format, differenceInDays } from 'date-fns';
 import { Button } from '@/app/components/ui/button';
 import { loadStripe } from '@stripe/stripe-js';
 import Image from 'next/image';
 import Link from 'next/link';
+import { FeeKind, OPTIONAL_FEE_QUESTIONS, rentalLengthError } from '@/app/lib/pricing';
+import {
+  DEFAULT_PROTECTION_PLAN,
+  PROTECTION_PLANS,
+  ProtectionPlanId,
+  getDefaultProtectionPlan,
+  securityDepositFor
+} from '@/app/lib/protection-plans';
+import { formatMoney } from '@/app/lib/currency';
+import type { BookingQuote } from '@/app/lib/quote';
+import { LicenseEligibility, licenseBlockReason } from '@/app/lib/license-rules';
+
+// Extra offered for the vehicle and dates; remaining is null when unlimited
+interface AddOnOption {
+  id: string;
+  name: string;
+  description: string | null;
+  priceType: string;
+  price: number;
+  maxQuantity: number;
+  remaining: number | null;
+}
+
+// Active fee, as /api/fees returns it
+interface FeeOption {
+  id: string;
+  name: string;
+  kind: FeeKind;
+  priceType: string;
+  price: number;
+}
+
+// The server quote for the current selections, as /api/quote returns it
+type QuoteResponse = BookingQuote & { promoError?: string };
 
 // Initialize Stripe with your publishable key
 // In production, you would use an environment variable
@@ -25,12 +59,35 @@ function BookingContent() {
     seats?: number;
     range?: string;
     acceleration?: string;
+    minRentalDays: number;
+    maxRentalDays: number | null;
+    securityDeposit: number;
   } | null>(null);
   const [error, setError] = useState<string | null>(null);
-  // Simplified state - just track the adjusted price
-  const [adjustedPricePerDay, setAdjustedPricePerDay] = useState<number>(0);
-  // Add daily price breakdown
-  const [dailyPrices, setDailyPrices] = useState<Array<{ date: string, price: number }>>([]);
+  // What checkout will charge for the current selections, priced by the server
+  const [bookingQuote, setBookingQuote] = useState<QuoteResponse | null>(null);
+  const [isQuoting, setIsQuoting] = useState(false);
+  // Other date ranges offered when the selected dates were taken
+  const [alternatives, setAlternatives] = useState<Array<{ startDate: string, endDate: string }>>([]);
+  // Promo code the customer typed, and the one the quote accepted
+  const [promoInput, setPromoInput] = useState('');
+  const [appliedPromo, setAppliedPromo] = useState<{ code: string; description: string | null } | null>(null);
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const [isApplyingPromo, setIsApplyingPromo] = useState(false);
+  // Extras offered for these dates and how many of each the customer picked
+  const [addOns, setAddOns] = useState<AddOnOption[]>([]);
+  const [addOnQuantities, setAddOnQuantities] = useState<Record<string, number>>({});
+  const [addOnError, setAddOnError] = useState<string | null>(null);
+  // Bumped to reload the extras, e.g. after one sold out during checkout
+  const [addOnsReload, setAddOnsReload] = useState(0);
+  const [protectionPlanId, setProtectionPlanId] = useState<ProtectionPlanId>(DEFAULT_PROTECTION_PLAN);
+  // Active fees, to ask about the optional ones, and the optional fees the customer needs
+  const [fees, setFees] = useState<FeeOption[]>([]);
+  const [feeKinds, setFeeKinds] = useState<FeeKind[]>([]);
+  // The renter's driver's license (null until loaded or when logged out), and
+  // the reason checkout refused it, which wins over the local check
+  const [license, setLicense] = useState<LicenseEligibility | null>(null);
+  const [licenseRefusal, setLicenseRefusal] = useState<string | null>(null);
 
   const vehicleId = searchParams.get('vehicleId');
   const fromDate = searchParams.get('from');
@@ -40,6 +97,17 @@ function BookingContent() {
   const startDate = fromDate ? new Date(fromDate + 'T00:00:00') : null;
   const endDate = toDate ? new Date(toDate + 'T00:00:00') : null;
   const numberOfDays = startDate && endDate ? differenceInDays(endDate, startDate) + 1 : 0;
+  const protectionPlan = PROTECTION_PLANS.find(plan => plan.id === protectionPlanId) || getDefaultProtectionPlan();
+
+  // Everything the customer picked, sent as /api/quote and /api/create-checkout expect it
+  const selections = useMemo(() => ({
+    addOns: Object.entries(addOnQuantities)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([addOnId, quantity]) => ({ addOnId, quantity })),
+    protectionPlan: protectionPlanId,
+    fees: feeKinds
+  }), [addOnQuantities, protectionPlanId, feeKinds]);
+  const appliedPromoCode = appliedPromo?.code;
 
   useEffect(() => {
     // Redirect if missing required parameters
@@ -48,6 +116,12 @@ function BookingContent() {
       return;
     }
 
+    // Clear any conflict or promo code from a previous date selection
+    setError(null);
+    setAlternatives([]);
+    setAppliedPromo(null);
+    setPromoError(null);
+
     // Fetch vehicle details
     const fetchVehicle = async () => {
       try {
@@ -63,75 +137,154 @@ function BookingContent() {
       }
     };
 
-    // Fetch availability to get adjusted price
-    const fetchAvailability = async () => {
-      if (!fromDate || !toDate || !vehicleId) return;
-      
+    fetchVehicle();
+  }, [vehicleId, fromDate, toDate, router]);
+
+  // Price the stay with the selected extras the same way checkout will charge it
+  useEffect(() => {
+    if (!vehicleId || !fromDate || !toDate) return;
+
+    // Ignore answers to selections that have since changed
+    let current = true;
+
+    const fetchQuote = async () => {
+      setIsQuoting(true);
       try {
-        const response = await fetch(`/api/availability?startDate=${fromDate}&endDate=${toDate}`);
-        if (!response.ok) {
-          throw new Error('Failed to fetch availability');
-        }
+        const response = await fetch('/api/quote', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ vehicleId, startDate: fromDate, endDate: toDate, promoCode: appliedPromoCode, ...selections })
+        });
         const data = await response.json();
-        
-        // Find the vehicle in the availability results
-        const vehicleData = data.availableVehicles.find((v: {
-          id: string;
-          adjustedPricePerDay?: number;
-          pricePerDay: number;
-          hasSpecialPricing?: boolean;
-        }) => v.id === vehicleId);
-        
-        if (vehicleData) {
-          setAdjustedPricePerDay(vehicleData.adjustedPricePerDay || vehicleData.pricePerDay);
-          
-          // Use the daily prices from the API if available
-          if (vehicleData.dailyPrices && vehicleData.dailyPrices.length > 0) {
-            setDailyPrices(vehicleData.dailyPrices);
-          } else if (vehicleData.hasSpecialPricing && startDate && endDate) {
-            // Fall back to uniform special pricing if no daily breakdown
-            const days = eachDayOfInterval({ start: startDate, end: endDate });
-            const pricesArray = days.map(day => ({
-              date: format(day, 'yyyy-MM-dd'),
-              price: vehicleData.adjustedPricePerDay || vehicleData.pricePerDay
-            }));
-            setDailyPrices(pricesArray);
-          } else if (startDate && endDate) {
-            // Regular pricing for all days
-            const days = eachDayOfInterval({ start: startDate, end: endDate });
-            const pricesArray = days.map(day => ({
-              date: format(day, 'yyyy-MM-dd'),
-              price: vehicleData.pricePerDay
-            }));
-            setDailyPrices(pricesArray);
+        if (!current) return;
+
+        if (!response.ok) {
+          if (data.code === 'INVALID_ADD_ONS') {
+            // An extra sold out since the page loaded; show what's left
+            setAddOnError(data.error);
+            setAddOnsReload(reload => reload + 1);
           }
+          // Stays outside the rental length limits are explained next to the checkout button
+          setBookingQuote(null);
+          return;
+        }
+
+        if (data.promoError) {
+          // The code stopped being valid since it was applied (e.g. usage limit reached)
+          setAppliedPromo(null);
+          setPromoError(data.promoError);
+        }
+        setBookingQuote(data);
+      } catch (err) {
+        console.error('Error fetching quote:', err);
+        if (current) setBookingQuote(null);
+      } finally {
+        if (current) setIsQuoting(false);
+      }
+    };
+
+    fetchQuote();
+    return () => { current = false; };
+  }, [vehicleId, fromDate, toDate, appliedPromoCode, selections]);
+
+  // Load the active fees to ask about the optional ones
+  useEffect(() => {
+    const fetchFees = async () => {
+      try {
+        const response = await fetch('/api/fees');
+        if (!response.ok) {
+          throw new Error('Failed to fetch fees');
         }
+        const data = await response.json();
+        setFees(data.fees || []);
       } catch (err) {
-        console.error('Error fetching availability:', err);
-        // If we fail to get special pricing, we'll fall back to regular pricing
-        if (vehicle && startDate && endDate) {
-          const days = eachDayOfInterval({ start: startDate, end: endDate });
-          const pricesArray = days.map(day => ({
-            date: format(day, 'yyyy-MM-dd'),
-            price: vehicle.pricePerDay
-          }));
-          setDailyPrices(pricesArray);
+        console.error('Error fetching fees:', err);
+      }
+    };
+
+    fetchFees();
+  }, []);
+
+  // Load the driver's license so checkout isn't offered to renters who can't book
+  useEffect(() => {
+    const fetchLicense = async () => {
+      try {
+        const response = await fetch('/api/user/license');
+        // Logged out visitors are asked to log in at checkout
+        if (!response.ok) return;
+        const data = await response.json();
+        setLicense(data.license);
+      } catch (err) {
+        console.error('Error fetching driver\'s license:', err);
+      }
+    };
+
+    fetchLicense();
+  }, []);
+
+  // Load the extras offered for this vehicle and dates
+  useEffect(() => {
+    if (!vehicleId || !fromDate || !toDate) return;
+
+    const fetchAddOns = async () => {
+      try {
+        const params = new URLSearchParams({ vehicleId, startDate: fromDate, endDate: toDate });
+        const response = await fetch(`/api/add-ons?${params}`);
+        if (!response.ok) {
+          throw new Error('Failed to fetch add-ons');
         }
+        const data = await response.json();
+        setAddOns(data.addOns || []);
+      } catch (err) {
+        console.error('Error fetching add-ons:', err);
+        setAddOns([]);
       }
     };
 
-    fetchVehicle();
-    fetchAvailability();
-  }, [vehicleId, fromDate, toDate, router]);
+    setAddOnQuantities({});
+    fetchAddOns();
+  }, [vehicleId, fromDate, toDate, addOnsReload]);
+
+  // Check the promo code against the quote for these dates
+  const handleApplyPromo = async () => {
+    if (!vehicleId || !fromDate || !toDate || !promoInput.trim()) return;
+
+    setIsApplyingPromo(true);
+    setPromoError(null);
+    try {
+      const response = await fetch('/api/quote', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ vehicleId, startDate: fromDate, endDate: toDate, promoCode: promoInput.trim(), ...selections })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to apply promo code');
+      }
+
+      if (data.promoError || !data.promoCode) {
+        setAppliedPromo(null);
+        setPromoError(data.promoError || 'This promo code is not valid');
+        return;
+      }
+
+      setAppliedPromo({ code: data.promoCode.code, description: data.promoCode.description });
+      setBookingQuote(data);
+      setPromoInput('');
+    } catch (err) {
+      console.error('Error applying promo code:', err);
+      setPromoError(err instanceof Error ? err.message : 'Failed to apply promo code');
+    } finally {
+      setIsApplyingPromo(false);
+    }
+  };
 
   const handleCheckout = async () => {
     if (!vehicle || !startDate || !endDate) return;
 
     setIsLoading(true);
     try {
-      // Calculate total from daily prices
-      const calculatedTotal = dailyPrices.reduce((sum, day) => sum + day.price, 0) || totalPrice;
-      
       // Create a checkout session
       const response = await fetch('/api/create-checkout', {
         method: 'POST',
@@ -142,11 +295,8 @@ function BookingContent() {
           vehicleId: vehicle.id,
           startDate: format(startDate, 'yyyy-MM-dd'),
           endDate: format(endDate, 'yyyy-MM-dd'),
-          pricePerDay: adjustedPricePerDay || vehicle.pricePerDay,
-          dailyPrices: dailyPrices.length > 0 ? dailyPrices : undefined,
-          numberOfDays,
-          totalAmount: calculatedTotal,
-          vehicleModel: vehicle.model,
+          promoCode: appliedPromoCode,
+          ...selections,
         }),
       });
 
@@ -156,6 +306,41 @@ function BookingContent() {
         return;
       }
 
+      if (response.status === 409) {
+        // Dates were taken by another booking - offer alternatives
+        const conflict = await response.json();
+        setAlternatives(conflict.alternatives || []);
+        setError(conflict.error || 'These dates are no longer available');
+        return;
+      }
+
+      if (response.status === 403) {
+        const blocked = await response.json();
+        if (blocked.code === 'LICENSE_REQUIRED') {
+          // The driver's license isn't verified, doesn't cover the stay or the renter is too young
+          setLicenseRefusal(blocked.error);
+          return;
+        }
+        throw new Error(blocked.error || 'Failed to create checkout session');
+      }
+
+      if (response.status === 400) {
+        const invalid = await response.json();
+        if (invalid.code === 'INVALID_PROMO_CODE') {
+          // The code stopped being valid since it was applied (e.g. usage limit reached)
+          setAppliedPromo(null);
+          setPromoError(invalid.error);
+          return;
+        }
+        if (invalid.code === 'INVALID_ADD_ONS') {
+          // An extra sold out since the page loaded; show what's left
+          setAddOnError(invalid.error);
+          setAddOnsReload(reload => reload + 1);
+          return;
+        }
+        throw new Error(invalid.error || 'Failed to create checkout session');
+      }
+
       if (!response.ok) {
         throw new Error('Failed to create checkout session');
       }
@@ -188,9 +373,15 @@ function BookingContent() {
     }
   };
 
-  // Use the adjusted price or fall back to regular price
-  const displayPrice = adjustedPricePerDay || (vehicle?.pricePerDay || 0);
-  const totalPrice = displayPrice * numberOfDays;
+  // Optional fees the customer can ask for
+  const optionalFeeKinds = (Object.keys(OPTIONAL_FEE_QUESTIONS) as (keyof typeof OPTIONAL_FEE_QUESTIONS)[])
+    .filter(kind => fees.some(fee => fee.kind === kind));
+  const stayDiscount = bookingQuote?.quote.stayDiscount || null;
+  // Stays shorter or longer than the vehicle allows can't be checked out
+  const lengthError = vehicle ? rentalLengthError(vehicle, numberOfDays) : null;
+  // Nor can renters without a verified license covering the stay, or who are too young
+  const licenseError = licenseRefusal
+    || (license && startDate && endDate ? licenseBlockReason(license, startDate, endDate) : null);
 
   if (error) {
     return (
@@ -217,6 +408,24 @@ function BookingContent() {
                 </Link>
               </div>
             </div>
+          ) : alternatives.length > 0 ? (
+            <div className="mt-4">
+              <p className="mb-4">This vehicle is available on these nearby dates:</p>
+              <div className="flex flex-wrap gap-3 mb-6">
+                {alternatives.map((alternative) => (
+                  <Link
+                    key={alternative.startDate}
+                    href={`/booking?vehicleId=${vehicleId}&from=${alternative.startDate}&to=${alternative.endDate}`}
+                    className="bg-white border border-gray-300 hover:border-red-600 py-2 px-4 rounded-md"
+                  >
+                    {format(new Date(alternative.startDate + 'T00:00:00'), 'MMM d')} - {format(new Date(alternative.endDate + 'T00:00:00'), 'MMM d, yyyy')}
+                  </Link>
+                ))}
+              </div>
+              <Link href={`/vehicles/${vehicleId}`} className="text-red-600 hover:text-red-800">
+                &larr; Pick other dates
+              </Link>
+            </div>
           ) : (
             <Link href="/" className="text-red-600 hover:text-red-800">
               &larr; Back to all vehicles
@@ -310,39 +519,247 @@ function BookingContent() {
                   {/* Price Breakdown Section */}
                   <div className="mb-4">
                     <h3 className="font-semibold">Price Breakdown</h3>
-                    {/* Show daily prices if special pricing exists */}
-                    {dailyPrices.length > 0 ? (
+                    {bookingQuote ? (
                       <div className="mt-2 max-h-36 overflow-y-auto">
-                        {dailyPrices.map((dayPrice) => (
+                        {bookingQuote.quote.dailyPrices.map((dayPrice) => (
                           <div key={dayPrice.date} className="flex justify-between text-gray-700 text-sm py-1">
-                            <span>{format(new Date(dayPrice.date), 'MMM d, yyyy')}</span>
-                            <span className="font-medium">${dayPrice.price}</span>
+                            <span>{format(new Date(dayPrice.date + 'T00:00:00'), 'MMM d, yyyy')}</span>
+                            <span className="font-medium">{formatMoney(dayPrice.price)}</span>
                           </div>
                         ))}
                       </div>
                     ) : (
-                      // Show simple calculation if no special pricing
-                      <div className="flex justify-between mt-1">
-                        <span className="text-gray-700">
-                          ${displayPrice} × {numberOfDays} days
+                      <p className="text-sm text-gray-500 mt-1">{isQuoting ? 'Calculating prices...' : 'Prices are unavailable for these dates.'}</p>
+                    )}
+                  </div>
+
+                  {/* Protection Plan */}
+                  <div className="mb-4">
+                    <h3 className="font-semibold">Protection</h3>
+                    <div className="mt-2 space-y-2">
+                      {PROTECTION_PLANS.map((plan) => (
+                        <label
+                          key={plan.id}
+                          className={`flex items-start gap-3 p-3 border rounded-md cursor-pointer text-sm ${
+                            plan.id === protectionPlan.id ? 'border-red-600 bg-red-50' : 'border-gray-200'
+                          }`}
+                        >
+                          <input
+                            type="radio"
+                            name="protectionPlan"
+                            className="mt-1"
+                            checked={plan.id === protectionPlan.id}
+                            onChange={() => setProtectionPlanId(plan.id)}
+                          />
+                          <div className="flex-1">
+                            <div className="flex justify-between">
+                              <span className="font-medium">{plan.name}</span>
+                              <span>{plan.pricePerDay > 0 ? `${formatMoney(plan.pricePerDay)}/day` : 'Included'}</span>
+                            </div>
+                            <p className="text-gray-600">{plan.description}</p>
+                            <p className="text-gray-500">{formatMoney(plan.deductible)} deductible</p>
+                          </div>
+                        </label>
+                      ))}
+                    </div>
+                    {vehicle && securityDepositFor(protectionPlan, vehicle) > 0 && (
+                      <p className="text-sm text-gray-600 mt-2">
+                        A refundable {formatMoney(securityDepositFor(protectionPlan, vehicle))} security deposit will be held on your card shortly before pickup.
+                      </p>
+                    )}
+                  </div>
+
+                  {/* Extras */}
+                  {addOns.length > 0 && (
+                    <div className="mb-4">
+                      <h3 className="font-semibold">Extras</h3>
+                      <div className="mt-2 space-y-2">
+                        {addOns.map((addOn) => {
+                          const limit = Math.min(addOn.maxQuantity, addOn.remaining ?? addOn.maxQuantity);
+                          const quantity = addOnQuantities[addOn.id] || 0;
+                          const setQuantity = (value: number) => {
+                            setAddOnError(null);
+                            setAddOnQuantities(prev => ({ ...prev, [addOn.id]: value }));
+                          };
+
+                          return (
+                            <div key={addOn.id} className="flex justify-between items-start text-sm gap-4">
+                              <div>
+                                <p className="font-medium">{addOn.name}</p>
+                                {addOn.description && <p className="text-gray-600">{addOn.description}</p>}
+                                {addOn.remaining !== null && addOn.remaining <= 3 && (
+                                  <p className="text-amber-700">
+                                    {addOn.remaining === 0 ? 'Sold out for these dates' : `Only ${addOn.remaining} left`}
+                                  </p>
+                                )}
+                              </div>
+                              <div className="flex items-center gap-2 whitespace-nowrap">
+                                <span className="text-gray-700">
+                                  {formatMoney(addOn.price)}{addOn.priceType === 'flat' ? '' : '/day'}
+                                </span>
+                                {addOn.maxQuantity > 1 ? (
+                                  <select
+                                    className="px-2 py-1 border rounded-md"
+                                    value={quantity}
+                                    disabled={limit === 0}
+                                    onChange={(e) => setQuantity(parseInt(e.target.value, 10))}
+                                  >
+                                    {Array.from({ length: limit + 1 }, (_, count) => (
+                                      <option key={count} value={count}>{count}</option>
+                                    ))}
+                                  </select>
+                                ) : (
+                                  <input
+                                    type="checkbox"
+                                    checked={quantity > 0}
+                                    disabled={limit === 0}
+                                    onChange={(e) => setQuantity(e.target.checked ? 1 : 0)}
+                                  />
+                                )}
+                              </div>
+                            </div>
+                          );
+                        })}
+                      </div>
+                      {addOnError && <p className="text-sm text-red-600 mt-1">{addOnError}</p>}
+                    </div>
+                  )}
+
+                  {/* Optional Fees */}
+                  {optionalFeeKinds.length > 0 && (
+                    <div className="mb-4">
+                      <h3 className="font-semibold">Trip Details</h3>
+                      <div className="mt-2 space-y-1">
+                        {optionalFeeKinds.map((kind) => (
+                          <label key={kind} className="flex items-center text-sm gap-2">
+                            <input
+                              type="checkbox"
+                              checked={feeKinds.includes(kind)}
+                              onChange={(e) => setFeeKinds(prev =>
+                                e.target.checked ? [...prev, kind] : prev.filter(item => item !== kind)
+                              )}
+                            />
+                            {OPTIONAL_FEE_QUESTIONS[kind]}
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Promo Code */}
+                  <div className="mb-4">
+                    <h3 className="font-semibold">Promo Code</h3>
+                    {appliedPromo ? (
+                      <div className="flex justify-between items-center mt-2 text-sm">
+                        <span className="text-green-700">
+                          {appliedPromo.code} applied{appliedPromo.description && ` - ${appliedPromo.description}`}
                         </span>
-                        <span className="font-medium">${totalPrice}</span>
+                        <button
+                          type="button"
+                          className="text-red-600 hover:text-red-800"
+                          onClick={() => setAppliedPromo(null)}
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    ) : (
+                      <div className="flex gap-2 mt-2">
+                        <input
+                          type="text"
+                          className="flex-1 px-3 py-2 border rounded-md uppercase"
+                          placeholder="Enter code"
+                          value={promoInput}
+                          onChange={(e) => { setPromoInput(e.target.value); setPromoError(null); }}
+                          onKeyDown={(e) => { if (e.key === 'Enter') handleApplyPromo(); }}
+                        />
+                        <Button
+                          type="button"
+                          variant="outline"
+                          onClick={handleApplyPromo}
+                          disabled={isApplyingPromo || !promoInput.trim()}
+                        >
+                          {isApplyingPromo ? 'Applying...' : 'Apply'}
+                        </Button>
                       </div>
                     )}
+                    {promoError && <p className="text-sm text-red-600 mt-1">{promoError}</p>}
                   </div>
 
                   {/* Total Price Display */}
                   <div className="border-t border-gray-300 my-4 pt-4">
+                    {bookingQuote && (
+                      <>
+                        <div className="flex justify-between text-sm">
+                          <span className="text-gray-700">Subtotal</span>
+                          <span>{formatMoney(bookingQuote.quote.subtotal)}</span>
+                        </div>
+                        {stayDiscount && (
+                          <div className="flex justify-between text-sm text-green-700">
+                            <span>{stayDiscount.name} discount ({stayDiscount.percentOff}% off {stayDiscount.minDays}+ days)</span>
+                            <span>-{formatMoney(stayDiscount.amount)}</span>
+                          </div>
+                        )}
+                        {bookingQuote.promoCode && (
+                          <div className="flex justify-between text-sm text-green-700">
+                            <span>Discount ({bookingQuote.promoCode.code})</span>
+                            <span>-{formatMoney(bookingQuote.discount)}</span>
+                          </div>
+                        )}
+                        {bookingQuote.protection.amount > 0 && (
+                          <div className="flex justify-between text-sm">
+                            <span className="text-gray-700">{bookingQuote.protection.plan.name} protection ({bookingQuote.quote.days} days)</span>
+                            <span>{formatMoney(bookingQuote.protection.amount)}</span>
+                          </div>
+                        )}
+                        {bookingQuote.addOns.map((addOn) => (
+                          <div key={addOn.addOnId} className="flex justify-between text-sm">
+                            <span className="text-gray-700">
+                              {addOn.name}{addOn.quantity > 1 && ` × ${addOn.quantity}`}
+                              {addOn.priceType !== 'flat' && ` (${bookingQuote.quote.days} days)`}
+                            </span>
+                            <span>{formatMoney(addOn.amount)}</span>
+                          </div>
+                        ))}
+                        {bookingQuote.fees.map((fee) => (
+                          <div key={fee.feeId} className="flex justify-between text-sm">
+                            <span className="text-gray-700">
+                              {fee.name}{fee.priceType !== 'flat' && ` (${bookingQuote.quote.days} days)`}
+                            </span>
+                            <span>{formatMoney(fee.amount)}</span>
+                          </div>
+                        ))}
+                        {bookingQuote.taxes.map((tax) => (
+                          <div key={tax.taxRateId} className="flex justify-between text-sm">
+                            <span className="text-gray-700">{tax.name} ({tax.percentage}%)</span>
+                            <span>{formatMoney(tax.amount)}</span>
+                          </div>
+                        ))}
+                        <div className="mb-2" />
+                      </>
+                    )}
                     <div className="flex justify-between">
                       <span className="font-semibold">Total</span>
-                      <span className="font-bold text-lg">${dailyPrices.reduce((sum, day) => sum + day.price, 0) || totalPrice}</span>
+                      <span className="font-bold text-lg">{bookingQuote ? formatMoney(bookingQuote.totalPrice) : '—'}</span>
                     </div>
                   </div>
 
+                  {lengthError && (
+                    <p className="text-sm text-red-600">{lengthError}. Please go back and pick other dates.</p>
+                  )}
+
+                  {licenseError && (
+                    <p className="text-sm text-red-600">
+                      {licenseError}{' '}
+                      <Link href="/license" className="underline hover:text-red-800">
+                        Manage your driver&apos;s license
+                      </Link>
+                    </p>
+                  )}
+
                   {/* Checkout Button */}
                   <Button
                     onClick={handleCheckout}
-                    disabled={isLoading}
+                    disabled={isLoading || isQuoting || !bookingQuote || !!lengthError || !!licenseError}
                     className="w-full bg-red-600 hover:bg-red-700 text-white py-3 mt-4"
                   >
                     {isLoading ? (
@@ -4,11 +4,28 @@ import { useState, useEffect } from 'react';
 import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { format } from 'date-fns';
-import { CalendarIcon, CarIcon, ClockIcon, CreditCardIcon, ArrowLeftIcon } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { toast } from 'sonner';
+import { CalendarIcon, CarIcon, ClockIcon, CreditCardIcon, ArrowLeftIcon, XIcon, CalendarClockIcon, CalendarPlusIcon, ShieldCheckIcon, PackageIcon, ShieldIcon, ReceiptIcon, DownloadIcon } from 'lucide-react';
+import { Button } from '@/app/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/app/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/app/components/ui/dialog';
+import { Input } from '@/app/components/ui/input';
+import { Label } from '@/app/components/ui/label';
 import { Skeleton } from '@/app/components/ui/skeleton';
 import { ChatInterface } from '@/app/components/ui/ChatInterface';
+import BookingLedger, { BookingLedgerEntry } from '@/app/components/bookings/BookingLedger';
+import RentalAgreement, { RentalAgreementSummary } from '@/app/components/bookings/RentalAgreement';
+import { canTransitionBookingStatus, formatBookingStatus } from '@/app/lib/booking-status';
+import { protectionPlanName } from '@/app/lib/protection-plans';
+import { formatMoney } from '@/app/lib/currency';
 
 // Define types for our data
 interface Vehicle {
@@ -19,23 +36,104 @@ interface Vehicle {
   image?: string;
 }
 
+// Extra booked with the rental, priced when it was booked
+interface BookingAddOn {
+  id: string;
+  name: string;
+  priceType: string;
+  quantity: number;
+  amount: number;
+}
+
+// Fee and tax lines charged on the booking
+interface BookingCharge {
+  id: string;
+  name: string;
+  amount: number;
+}
+
+interface BookingTax extends BookingCharge {
+  percentage: number;
+}
+
 interface Booking {
   id: string;
   startDate: string;
   endDate: string;
   totalPrice: number;
+  currency: string;
   status: string;
   vehicle: Vehicle;
   createdAt: string;
+  securityDeposit: number;
+  depositStatus: string | null;
+  discountAmount: number;
+  promoCode: { code: string } | null;
+  addOns: BookingAddOn[];
+  fees: BookingCharge[];
+  taxes: BookingTax[];
+  protectionPlan: string | null;
+  protectionAmount: number;
+  deductible: number | null;
+  ledgerEntries: BookingLedgerEntry[];
+  agreement: RentalAgreementSummary | null;
+}
+
+// Refund the cancellation policy would give right now
+interface CancellationPreview {
+  canCancel: boolean;
+  reason?: string;
+  hoursUntilStart: number;
+  paidAmount: number;
+  refundPercent: number;
+  refundAmount: number;
+  policy: {
+    fullRefundHours: number;
+    partialRefundPercent: number;
+  };
+}
+
+// Availability and price of the requested new dates
+interface DateChangePreview {
+  available: boolean;
+  alternatives: { startDate: string; endDate: string }[];
+  quote: { days: number; totalPrice: number };
+  // Promo code discount re-applied to the new dates
+  discountAmount: number;
+  currentTotal: number;
+  priceDifference: number;
+}
+
+// How far an active rental can be extended and what it costs
+interface ExtensionPreview {
+  latestEndDate: string | null;
+  autoApprove: boolean;
+  available?: boolean;
+  quote?: { days: number; totalPrice: number };
+  priceDifference?: number;
 }
 
 export default function BookingDetailsPage({ params }: { params: { id: string } }) {
   const bookingId = params.id;
-  const { status } = useSession();
+  const { data: session, status } = useSession();
   const router = useRouter();
   const [booking, setBooking] = useState<Booking | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [cancelDialogOpen, setCancelDialogOpen] = useState(false);
+  const [cancelPreview, setCancelPreview] = useState<CancellationPreview | null>(null);
+  const [cancelLoading, setCancelLoading] = useState(false);
+  const [changeDialogOpen, setChangeDialogOpen] = useState(false);
+  const [newStartDate, setNewStartDate] = useState('');
+  const [newEndDate, setNewEndDate] = useState('');
+  const [changePreview, setChangePreview] = useState<DateChangePreview | null>(null);
+  const [changeError, setChangeError] = useState<string | null>(null);
+  const [changeLoading, setChangeLoading] = useState(false);
+  const [extendDialogOpen, setExtendDialogOpen] = useState(false);
+  const [extendEndDate, setExtendEndDate] = useState('');
+  const [extendPreview, setExtendPreview] = useState<ExtensionPreview | null>(null);
+  const [extendError, setExtendError] = useState<string | null>(null);
+  const [extendLoading, setExtendLoading] = useState(false);
 
   useEffect(() => {
     // Redirect to login if not authenticated
@@ -69,6 +167,184 @@ export default function BookingDetailsPage({ params }: { params: { id: string }
     }
   };
 
+  // Open the cancel dialog with a fresh refund preview
+  const openCancelDialog = async () => {
+    setCancelPreview(null);
+    setCancelDialogOpen(true);
+    try {
+      const response = await fetch(`/api/bookings/${bookingId}/cancel`);
+      
+      if (!response.ok) {
+        throw new Error('Failed to load cancellation preview');
+      }
+      
+      const data = await response.json();
+      setCancelPreview(data.preview);
+    } catch (err) {
+      console.error('Error loading cancellation preview:', err);
+      toast.error('Could not load the refund preview. Please try again.');
+      setCancelDialogOpen(false);
+    }
+  };
+
+  const handleCancelBooking = async () => {
+    setCancelLoading(true);
+    try {
+      const response = await fetch(`/api/bookings/${bookingId}/cancel`, {
+        method: 'POST',
+      });
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to cancel booking');
+      }
+      
+      // Reload to pick up the new status and any refund in the ledger
+      fetchBookingDetails();
+      setCancelDialogOpen(false);
+      toast.success(data.refund.amount > 0
+        ? `Booking cancelled. A refund of ${formatMoney(data.refund.amount, booking?.currency)} is on its way.`
+        : 'Booking cancelled.');
+    } catch (err) {
+      console.error('Error cancelling booking:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to cancel booking');
+    } finally {
+      setCancelLoading(false);
+    }
+  };
+
+  const openChangeDialog = () => {
+    if (!booking) return;
+    setNewStartDate(format(new Date(booking.startDate), 'yyyy-MM-dd'));
+    setNewEndDate(format(new Date(booking.endDate), 'yyyy-MM-dd'));
+    setChangePreview(null);
+    setChangeError(null);
+    setChangeDialogOpen(true);
+  };
+
+  // Check availability and the new price before committing
+  const handleCheckNewDates = async () => {
+    setChangeLoading(true);
+    setChangeError(null);
+    setChangePreview(null);
+    try {
+      const response = await fetch(
+        `/api/bookings/${bookingId}/change-dates?startDate=${newStartDate}&endDate=${newEndDate}`
+      );
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to check new dates');
+      }
+      
+      setChangePreview(data);
+    } catch (err) {
+      console.error('Error checking new dates:', err);
+      setChangeError(err instanceof Error ? err.message : 'Failed to check new dates');
+    } finally {
+      setChangeLoading(false);
+    }
+  };
+
+  const handleChangeDates = async () => {
+    setChangeLoading(true);
+    setChangeError(null);
+    try {
+      const response = await fetch(`/api/bookings/${bookingId}/change-dates`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ startDate: newStartDate, endDate: newEndDate }),
+      });
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to change dates');
+      }
+      
+      // The new dates cost more: pay the difference first
+      if (data.url) {
+        window.location.href = data.url;
+        return;
+      }
+      
+      fetchBookingDetails();
+      setChangeDialogOpen(false);
+      toast.success('Your booking dates have been updated.');
+    } catch (err) {
+      console.error('Error changing dates:', err);
+      setChangeError(err instanceof Error ? err.message : 'Failed to change dates');
+    } finally {
+      setChangeLoading(false);
+    }
+  };
+
+  // Quote the extension; without an end date this just returns how far we can go
+  const fetchExtensionPreview = async (endDate?: string) => {
+    setExtendLoading(true);
+    setExtendError(null);
+    try {
+      const query = endDate ? `?endDate=${endDate}` : '';
+      const response = await fetch(`/api/bookings/${bookingId}/extend${query}`);
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to check extension');
+      }
+      
+      setExtendPreview(data);
+    } catch (err) {
+      console.error('Error checking extension:', err);
+      setExtendError(err instanceof Error ? err.message : 'Failed to check extension');
+    } finally {
+      setExtendLoading(false);
+    }
+  };
+
+  const openExtendDialog = () => {
+    setExtendEndDate('');
+    setExtendPreview(null);
+    setExtendDialogOpen(true);
+    fetchExtensionPreview();
+  };
+
+  const handleExtendTrip = async () => {
+    setExtendLoading(true);
+    setExtendError(null);
+    try {
+      const response = await fetch(`/api/bookings/${bookingId}/extend`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ endDate: extendEndDate }),
+      });
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to extend trip');
+      }
+      
+      // Pay for the extra days before the new return date takes effect
+      if (data.url) {
+        window.location.href = data.url;
+        return;
+      }
+      
+      fetchBookingDetails();
+      setExtendDialogOpen(false);
+      toast.success(data.modification.status === 'applied'
+        ? 'Your trip has been extended.'
+        : 'Your extension request has been sent for approval.');
+    } catch (err) {
+      console.error('Error extending trip:', err);
+      setExtendError(err instanceof Error ? err.message : 'Failed to extend trip');
+    } finally {
+      setExtendLoading(false);
+    }
+  };
+
   // Format date to readable string
   const formatDate = (dateString: string) => {
     return format(new Date(dateString), 'MMM d, yyyy');
@@ -179,11 +455,60 @@ export default function BookingDetailsPage({ params }: { params: { id: string }
       <div className="max-w-4xl mx-auto">
         <Card className="mb-4">
           <CardHeader className="pb-2">
-            <div className={`inline-block px-2 py-1 rounded-full text-xs font-semibold ${getStatusColor(booking.status)} mb-1`}>
-              {booking.status}
+            <div className="flex justify-between items-start">
+              <div>
+                <div className={`inline-block px-2 py-1 rounded-full text-xs font-semibold ${getStatusColor(booking.status)} mb-1`}>
+                  {formatBookingStatus(booking.status)}
+                </div>
+                <CardTitle className="text-xl">{booking.vehicle.model}</CardTitle>
+                <CardDescription>Booking Reference: {booking.id.substring(0, 8)}</CardDescription>
+              </div>
+              
+              <div className="flex space-x-2">
+                {booking.status !== 'pending' && (
+                  <a href={`/api/bookings/${booking.id}/invoice`} download>
+                    <Button variant="outline" size="sm">
+                      <DownloadIcon className="h-4 w-4 mr-1" />
+                      Invoice
+                    </Button>
+                  </a>
+                )}
+                
+                {booking.status === 'confirmed' && (
+                  <Button 
+                    variant="outline" 
+                    size="sm" 
+                    onClick={openChangeDialog}
+                  >
+                    <CalendarClockIcon className="h-4 w-4 mr-1" />
+                    Change Dates
+                  </Button>
+                )}
+                
+                {booking.status === 'active' && (
+                  <Button 
+                    variant="outline" 
+                    size="sm" 
+                    onClick={openExtendDialog}
+                  >
+                    <CalendarPlusIcon className="h-4 w-4 mr-1" />
+                    Extend Trip
+                  </Button>
+                )}
+                
+                {canTransitionBookingStatus(booking.status, 'cancelled') && (
+                  <Button 
+                    variant="outline" 
+                    size="sm" 
+                    className="text-red-600 hover:text-red-700"
+                    onClick={openCancelDialog}
+                  >
+                    <XIcon className="h-4 w-4 mr-1" />
+                    Cancel Booking
+                  </Button>
+                )}
+              </div>
             </div>
-            <CardTitle className="text-xl">{booking.vehicle.model}</CardTitle>
-            <CardDescription>Booking Reference: {booking.id.substring(0, 8)}</CardDescription>
           </CardHeader>
           <CardContent className="pt-0">
             <div className="flex flex-wrap">
@@ -201,8 +526,50 @@ export default function BookingDetailsPage({ params }: { params: { id: string }
                   </div>
                   <div className="flex items-center text-sm">
                     <CreditCardIcon className="mr-2 h-3 w-3 opacity-70" />
-                    <span>${booking.totalPrice.toFixed(2)}</span>
+                    <span>
+                      {formatMoney(booking.totalPrice, booking.currency)}
+                      {booking.discountAmount > 0 && (
+                        <> (includes {formatMoney(booking.discountAmount, booking.currency)} off{booking.promoCode && ` with ${booking.promoCode.code}`})</>
+                      )}
+                    </span>
                   </div>
+                  {booking.protectionPlan && (
+                    <div className="flex items-center text-sm">
+                      <ShieldIcon className="mr-2 h-3 w-3 opacity-70" />
+                      <span>
+                        {protectionPlanName(booking.protectionPlan)} protection
+                        {booking.protectionAmount > 0 && `: ${formatMoney(booking.protectionAmount, booking.currency)}`}
+                        {booking.deductible !== null && ` (${formatMoney(booking.deductible, booking.currency)} deductible)`}
+                      </span>
+                    </div>
+                  )}
+                  {booking.addOns.map((addOn) => (
+                    <div key={addOn.id} className="flex items-center text-sm">
+                      <PackageIcon className="mr-2 h-3 w-3 opacity-70" />
+                      <span>
+                        {addOn.name}{addOn.quantity > 1 && ` × ${addOn.quantity}`}: {formatMoney(addOn.amount, booking.currency)}
+                      </span>
+                    </div>
+                  ))}
+                  {[...booking.fees, ...booking.taxes].map((charge) => (
+                    <div key={charge.id} className="flex items-center text-sm">
+                      <ReceiptIcon className="mr-2 h-3 w-3 opacity-70" />
+                      <span>
+                        {charge.name}{'percentage' in charge && ` (${charge.percentage}%)`}: {formatMoney(charge.amount, booking.currency)}
+                      </span>
+                    </div>
+                  ))}
+                  {booking.securityDeposit > 0 && (
+                    <div className="flex items-center text-sm">
+                      <ShieldCheckIcon className="mr-2 h-3 w-3 opacity-70" />
+                      <span>
+                        {formatMoney(booking.securityDeposit, booking.currency)} security deposit
+                        {booking.depositStatus === 'held' && ' (authorized on your card)'}
+                        {booking.depositStatus === 'released' && ' (released)'}
+                        {booking.depositStatus === 'captured' && ' (charged, see payments)'}
+                      </span>
+                    </div>
+                  )}
                   <div className="flex items-center text-sm">
                     <CarIcon className="mr-2 h-3 w-3 opacity-70" />
                     <span>{booking.vehicle.description}</span>
@@ -223,11 +590,255 @@ export default function BookingDetailsPage({ params }: { params: { id: string }
           </CardContent>
         </Card>
         
+        {(booking.agreement?.signedAt || ['pending', 'confirmed', 'active'].includes(booking.status)) && (
+          <Card className="mb-4">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-lg">Rental Agreement</CardTitle>
+              <CardDescription>Signed before pickup</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <RentalAgreement
+                bookingId={booking.id}
+                agreement={booking.agreement}
+                canSign={['confirmed', 'active'].includes(booking.status)}
+                defaultSignerName={session?.user?.name || ''}
+                onSigned={(agreement) => setBooking({ ...booking, agreement })}
+              />
+            </CardContent>
+          </Card>
+        )}
+        
+        <Card className="mb-4">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg">Payments</CardTitle>
+            <CardDescription>Charges and refunds for this booking</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <BookingLedger
+              entries={booking.ledgerEntries}
+              totalPrice={booking.totalPrice}
+              currency={booking.currency}
+              showBalanceDue={!['cancelled', 'no_show', 'refunded'].includes(booking.status)}
+            />
+          </CardContent>
+        </Card>
+        
         <div>
           <h2 className="text-xl font-semibold mb-2">Communication</h2>
           <ChatInterface bookingId={booking.id} />
         </div>
       </div>
+      
+      {/* Change Dates Dialog */}
+      <Dialog open={changeDialogOpen} onOpenChange={setChangeDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Change Dates</DialogTitle>
+            <DialogDescription>
+              Pick new dates. We&apos;ll reprice your trip and charge or refund the difference.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-4 space-y-4 text-sm">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="newStartDate">Pickup</Label>
+                <Input
+                  id="newStartDate"
+                  type="date"
+                  value={newStartDate}
+                  onChange={(e) => { setNewStartDate(e.target.value); setChangePreview(null); }}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="newEndDate">Return</Label>
+                <Input
+                  id="newEndDate"
+                  type="date"
+                  value={newEndDate}
+                  onChange={(e) => { setNewEndDate(e.target.value); setChangePreview(null); }}
+                />
+              </div>
+            </div>
+            
+            {changePreview && changePreview.available && (
+              <div className="bg-gray-50 rounded-lg p-3 space-y-1">
+                <div className="flex justify-between">
+                  <span>Current total</span>
+                  <span>{formatMoney(changePreview.currentTotal, booking.currency)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>New total ({changePreview.quote.days} days)</span>
+                  <span>{formatMoney(changePreview.quote.totalPrice, booking.currency)}</span>
+                </div>
+                {changePreview.discountAmount > 0 && (
+                  <div className="flex justify-between text-green-700">
+                    <span>Promo discount</span>
+                    <span>-{formatMoney(changePreview.discountAmount, booking.currency)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between font-semibold">
+                  <span>{changePreview.priceDifference > 0 ? 'To pay' : 'To refund'}</span>
+                  <span>{formatMoney(Math.abs(changePreview.priceDifference), booking.currency)}</span>
+                </div>
+              </div>
+            )}
+            
+            {changePreview && !changePreview.available && (
+              <div className="text-red-600 space-y-1">
+                <p>The vehicle isn&apos;t available for those dates.</p>
+                {changePreview.alternatives.length > 0 && (
+                  <p>
+                    Try{' '}
+                    {changePreview.alternatives.map((alt, index) => (
+                      <span key={alt.startDate}>
+                        {index > 0 && ', '}
+                        <button
+                          type="button"
+                          className="underline"
+                          onClick={() => { setNewStartDate(alt.startDate); setNewEndDate(alt.endDate); setChangePreview(null); }}
+                        >
+                          {alt.startDate} to {alt.endDate}
+                        </button>
+                      </span>
+                    ))}
+                  </p>
+                )}
+              </div>
+            )}
+            
+            {changeError && <p className="text-red-600">{changeError}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setChangeDialogOpen(false)}>
+              Close
+            </Button>
+            {changePreview?.available ? (
+              <Button onClick={handleChangeDates} disabled={changeLoading}>
+                {changeLoading
+                  ? 'Updating...'
+                  : changePreview.priceDifference > 0 ? 'Pay Difference & Change' : 'Confirm New Dates'}
+              </Button>
+            ) : (
+              <Button onClick={handleCheckNewDates} disabled={changeLoading || !newStartDate || !newEndDate}>
+                {changeLoading ? 'Checking...' : 'Check Availability'}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+      
+      {/* Extend Trip Dialog */}
+      <Dialog open={extendDialogOpen} onOpenChange={setExtendDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Extend Trip</DialogTitle>
+            <DialogDescription>
+              Keep the {booking.vehicle.model} longer. You currently return it on {formatDate(booking.endDate)}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-4 space-y-4 text-sm">
+            {extendPreview && (
+              <p className="text-gray-600">
+                {extendPreview.latestEndDate
+                  ? `This vehicle is available until ${format(parseISO(extendPreview.latestEndDate), 'MMM d, yyyy')}.`
+                  : 'There are no upcoming bookings for this vehicle.'}
+                {!extendPreview.autoApprove && ' Extensions are confirmed by our team after payment.'}
+              </p>
+            )}
+            <div className="space-y-1">
+              <Label htmlFor="extendEndDate">New return date</Label>
+              <Input
+                id="extendEndDate"
+                type="date"
+                value={extendEndDate}
+                max={extendPreview?.latestEndDate || undefined}
+                onChange={(e) => { setExtendEndDate(e.target.value); setExtendPreview(prev => prev && { latestEndDate: prev.latestEndDate, autoApprove: prev.autoApprove }); }}
+              />
+            </div>
+            
+            {extendPreview?.quote && (
+              extendPreview.available ? (
+                <div className="bg-gray-50 rounded-lg p-3 space-y-1">
+                  <div className="flex justify-between font-semibold">
+                    <span>Extra {extendPreview.quote.days} {extendPreview.quote.days === 1 ? 'day' : 'days'}</span>
+                    <span>{formatMoney(extendPreview.priceDifference || 0, booking.currency)}</span>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-red-600">The vehicle isn&apos;t available until that date.</p>
+              )
+            )}
+            
+            {extendError && <p className="text-red-600">{extendError}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setExtendDialogOpen(false)}>
+              Close
+            </Button>
+            {extendPreview?.quote && extendPreview.available ? (
+              <Button onClick={handleExtendTrip} disabled={extendLoading}>
+                {extendLoading ? 'Processing...' : 'Pay & Extend'}
+              </Button>
+            ) : (
+              <Button onClick={() => fetchExtensionPreview(extendEndDate)} disabled={extendLoading || !extendEndDate}>
+                {extendLoading ? 'Checking...' : 'Get Quote'}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+      
+      {/* Cancel Booking Dialog */}
+      <Dialog open={cancelDialogOpen} onOpenChange={setCancelDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancel Booking</DialogTitle>
+            <DialogDescription>
+              Review your refund before cancelling. This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          {cancelPreview ? (
+            <div className="py-4 space-y-3 text-sm">
+              <p className="font-medium">{booking.vehicle.model}</p>
+              <p>{formatDate(booking.startDate)} - {formatDate(booking.endDate)}</p>
+              <div className="bg-gray-50 rounded-lg p-3 space-y-1">
+                <div className="flex justify-between">
+                  <span>Amount paid</span>
+                  <span>{formatMoney(cancelPreview.paidAmount, booking.currency)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Refund ({cancelPreview.refundPercent}%)</span>
+                  <span className="font-semibold">{formatMoney(cancelPreview.refundAmount, booking.currency)}</span>
+                </div>
+              </div>
+              <p className="text-gray-500">
+                Full refund when cancelling at least {cancelPreview.policy.fullRefundHours} hours before pickup,
+                {' '}{cancelPreview.policy.partialRefundPercent}% refund after that, and no refund once the rental has started.
+              </p>
+              {!cancelPreview.canCancel && (
+                <p className="text-red-600">{cancelPreview.reason}</p>
+              )}
+            </div>
+          ) : (
+            <div className="py-4 space-y-2">
+              <Skeleton className="h-4 w-2/3" />
+              <Skeleton className="h-4 w-1/2" />
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCancelDialogOpen(false)}>
+              No, Keep It
+            </Button>
+            <Button 
+              variant="destructive" 
+              onClick={handleCancelBooking}
+              disabled={!cancelPreview?.canCancel || cancelLoading}
+            >
+              {cancelLoading ? 'Cancelling...' : 'Yes, Cancel Booking'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -4,6 +4,8 @@ import { useEffect, useState, Suspense } from 'react';
 import { useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import { CheckCircle } from 'lucide-react';
+import { protectionPlanName } from '@/app/lib/protection-plans';
+import { formatMoney } from '@/app/lib/currency';
 
 function ConfirmationContent() {
   const searchParams = useSearchParams();
@@ -138,9 +140,27 @@ function ConfirmationContent() {
               
               <div>
                 <p className="text-gray-500">Total Price</p>
-                <p className="font-medium">${booking.totalPrice.toFixed(2)}</p>
+                <p className="font-medium">{formatMoney(booking.totalPrice, booking.currency)}</p>
               </div>
               
+              {booking.protectionPlan && (
+                <div>
+                  <p className="text-gray-500">Protection</p>
+                  <p className="font-medium">
+                    {protectionPlanName(booking.protectionPlan)}
+                    {booking.protectionAmount > 0 && ` (${formatMoney(booking.protectionAmount, booking.currency)})`}
+                    {booking.deductible !== null && `, ${formatMoney(booking.deductible, booking.currency)} deductible`}
+                  </p>
+                </div>
+              )}
+              
+              {booking.securityDeposit > 0 && (
+                <div>
+                  <p className="text-gray-500">Security Deposit</p>
+                  <p className="font-medium">{formatMoney(booking.securityDeposit, booking.currency)} held on your card, refundable</p>
+                </div>
+              )}
+              
               <div>
                 <p className="text-gray-500">Status</p>
                 <p className="font-medium text-green-600">Confirmed</p>
@@ -9,6 +9,7 @@ import { CalendarIcon, CarIcon, ClockIcon, CreditCardIcon } from 'lucide-react';
 import { Button } from '@/app/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/app/components/ui/card';
 import { Skeleton } from '@/app/components/ui/skeleton';
+import { formatMoney } from '@/app/lib/currency';
 
 // Define types for our data
 interface Vehicle {
@@ -23,6 +24,7 @@ interface Booking {
   startDate: string;
   endDate: string;
   totalPrice: number;
+  currency: string;
   status: string;
   vehicle: Vehicle;
   createdAt: string;
@@ -187,7 +189,7 @@ export default function BookingsPage() {
                 </div>
                 <div className="flex items-center text-sm">
                   <CreditCardIcon className="mr-2 h-4 w-4 opacity-70" />
-                  <span>${booking.totalPrice.toFixed(2)}</span>
+                  <span>{formatMoney(booking.totalPrice, booking.currency)}</span>
                 </div>
               </CardContent>
               <CardFooter>
@@ -2,6 +2,7 @@
 
 import { useState } from 'react';
 import { toast } from "sonner";
+import { formatMoney } from '@/app/lib/currency';
 
 interface BookingFormProps {
   vehicleId: string;
@@ -121,7 +122,7 @@ export default function BookingForm({ vehicleId, pricePerDay }: BookingFormProps
           <div className="bg-gray-100 p-4 rounded-md mb-6">
             <div className="flex justify-between mb-2">
               <span>Daily Rate:</span>
-              <span>${pricePerDay}/day</span>
+              <span>{formatMoney(pricePerDay)}/day</span>
             </div>
             <div className="flex justify-between mb-2">
               <span>Number of Days:</span>
@@ -129,7 +130,7 @@ export default function BookingForm({ vehicleId, pricePerDay }: BookingFormProps
             </div>
             <div className="flex justify-between font-bold">
               <span>Total Price:</span>
-              <span>${totalPrice}</span>
+              <span>{formatMoney(totalPrice)}</span>
             </div>
           </div>
         )}
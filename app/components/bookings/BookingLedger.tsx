@@ -0,0 +1,78 @@
+'use client';
+
+import { format } from 'date-fns';
+import {
+  LEDGER_ENTRY_TYPE_LABELS,
+  LedgerEntryLike,
+  countsTowardBalance,
+  summarizeLedger
+} from '@/app/lib/ledger';
+import { formatMoney } from '@/app/lib/currency';
+
+export interface BookingLedgerEntry extends LedgerEntryLike {
+  description: string | null;
+  createdBy?: { id: string; name: string | null; email: string | null } | null;
+}
+
+interface BookingLedgerProps {
+  entries: BookingLedgerEntry[];
+  // Booking.totalPrice and the currency it is in
+  totalPrice: number;
+  currency: string;
+  // Hide the amount still owed, e.g. for cancelled bookings
+  showBalanceDue?: boolean;
+  // Show who recorded manual adjustments (admin view)
+  showCreatedBy?: boolean;
+}
+
+export default function BookingLedger({ entries, totalPrice, currency, showBalanceDue = true, showCreatedBy = false }: BookingLedgerProps) {
+  const { lines, collected, balanceDue } = summarizeLedger(entries, totalPrice);
+
+  if (lines.length === 0) {
+    return <p className="text-sm text-gray-500">No payments recorded yet.</p>;
+  }
+
+  return (
+    <div>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="pb-2 font-medium">Date</th>
+            <th className="pb-2 font-medium">Type</th>
+            <th className="pb-2 font-medium text-right">Amount</th>
+            <th className="pb-2 font-medium text-right">Balance</th>
+          </tr>
+        </thead>
+        <tbody>
+          {lines.map((line) => (
+            <tr key={line.id} className={`border-t ${countsTowardBalance(line) ? '' : 'text-gray-400'}`}>
+              <td className="py-2 align-top">{format(new Date(line.createdAt), 'MMM d, yyyy h:mm a')}</td>
+              <td className="py-2 align-top">
+                {LEDGER_ENTRY_TYPE_LABELS[line.type]}
+                {line.status !== 'succeeded' && <span className="capitalize"> ({line.status})</span>}
+                {line.description && <p className="text-xs text-gray-500">{line.description}</p>}
+                {showCreatedBy && line.createdBy && (
+                  <p className="text-xs text-gray-500">by {line.createdBy.name || line.createdBy.email}</p>
+                )}
+              </td>
+              <td className="py-2 align-top text-right">{formatMoney(line.amount, currency)}</td>
+              <td className="py-2 align-top text-right">{formatMoney(line.runningBalance, currency)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="border-t mt-2 pt-2 text-sm space-y-1">
+        <div className="flex justify-between font-medium">
+          <span>Net paid</span>
+          <span>{formatMoney(collected, currency)}</span>
+        </div>
+        {showBalanceDue && (
+          <div className="flex justify-between">
+            <span>Balance due</span>
+            <span>{formatMoney(balanceDue, currency)}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+'use client';
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { DownloadIcon, FileSignatureIcon } from 'lucide-react';
+import { Button } from '@/app/components/ui/button';
+import { Input } from '@/app/components/ui/input';
+import { Label } from '@/app/components/ui/label';
+import SignaturePad from '@/app/components/bookings/SignaturePad';
+import { Signature } from '@/app/lib/agreement-templates';
+
+// Agreement fields returned with a booking
+export interface RentalAgreementSummary {
+  id: string;
+  signerName: string | null;
+  signedAt: string | null;
+  signedIp: string | null;
+}
+
+interface RentalAgreementProps {
+  bookingId: string;
+  agreement: RentalAgreementSummary | null;
+  // Whether the booking is in a status the renter can sign in
+  canSign: boolean;
+  defaultSignerName?: string;
+  onSigned: (agreement: RentalAgreementSummary) => void;
+}
+
+// Shows the signed agreement, or lets the renter read and sign it
+export default function RentalAgreement({ bookingId, agreement, canSign, defaultSignerName = '', onSigned }: RentalAgreementProps) {
+  const [content, setContent] = useState<string | null>(null);
+  const [signerName, setSignerName] = useState(defaultSignerName);
+  const [signature, setSignature] = useState<Signature | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSigning, setIsSigning] = useState(false);
+
+  if (agreement?.signedAt) {
+    return (
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          Signed by {agreement.signerName} on {format(new Date(agreement.signedAt), 'MMM d, yyyy h:mm a')}.
+        </p>
+        <a href={`/api/bookings/${bookingId}/agreement/pdf`} download>
+          <Button variant="outline" size="sm">
+            <DownloadIcon className="h-4 w-4 mr-1" />
+            Signed Agreement
+          </Button>
+        </a>
+      </div>
+    );
+  }
+
+  if (!canSign) {
+    return <p className="text-sm text-gray-500">You can sign the rental agreement once your booking is confirmed.</p>;
+  }
+
+  const fetchAgreement = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/bookings/${bookingId}/agreement`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load the rental agreement');
+      }
+
+      setContent(data.agreement.content);
+    } catch (err) {
+      console.error('Error loading rental agreement:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to load the rental agreement');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSign = async () => {
+    if (!signature) return;
+
+    setIsSigning(true);
+    try {
+      const response = await fetch(`/api/bookings/${bookingId}/agreement`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ signerName, signature, content })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        // The text changed since it was opened; show the new one to read again
+        if (data.agreement?.content) {
+          setContent(data.agreement.content);
+        }
+        throw new Error(data.error || 'Failed to sign the rental agreement');
+      }
+
+      toast.success('Rental agreement signed');
+      onSigned(data.agreement);
+    } catch (err) {
+      console.error('Error signing rental agreement:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to sign the rental agreement');
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  if (content === null) {
+    return (
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">Please sign the rental agreement before pickup. Your rental can&apos;t start until it is signed.</p>
+        <Button variant="outline" size="sm" onClick={fetchAgreement} disabled={isLoading}>
+          <FileSignatureIcon className="h-4 w-4 mr-1" />
+          {isLoading ? 'Loading...' : 'Review & Sign'}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="whitespace-pre-wrap text-sm border rounded-md p-4 max-h-80 overflow-y-auto bg-gray-50">
+        {content}
+      </div>
+      <div>
+        <Label htmlFor="signerName">Full name</Label>
+        <Input
+          id="signerName"
+          value={signerName}
+          onChange={(e) => setSignerName(e.target.value)}
+          maxLength={100}
+        />
+      </div>
+      <div>
+        <Label>Signature</Label>
+        <SignaturePad onChange={setSignature} disabled={isSigning} />
+      </div>
+      <div className="flex justify-end">
+        <Button onClick={handleSign} disabled={isSigning || !signerName.trim() || !signature}>
+          {isSigning ? 'Signing...' : 'Sign Agreement'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { MAX_SIGNATURE_POINTS, Signature } from '@/app/lib/agreement-templates';
+
+interface SignaturePadProps {
+  // Called after every stroke and on clear; null when nothing is drawn
+  onChange: (signature: Signature | null) => void;
+  height?: number;
+  disabled?: boolean;
+}
+
+// Canvas the renter signs on with a mouse, pen or finger
+export default function SignaturePad({ onChange, height = 160, disabled = false }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const strokesRef = useRef<[number, number][][]>([]);
+  const drawingRef = useRef(false);
+  const [isEmpty, setIsEmpty] = useState(true);
+
+  // Match the canvas resolution to its size on screen so strokes stay sharp
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = canvas.offsetWidth * ratio;
+    canvas.height = height * ratio;
+
+    const context = canvas.getContext('2d');
+    if (context) {
+      context.scale(ratio, ratio);
+      context.lineWidth = 2;
+      context.lineCap = 'round';
+      context.lineJoin = 'round';
+      context.strokeStyle = '#111827';
+    }
+  }, [height]);
+
+  // Pointer position on the canvas, kept inside it
+  const pointFrom = (event: React.PointerEvent<HTMLCanvasElement>): [number, number] => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = Math.min(Math.max(event.clientX - rect.left, 0), event.currentTarget.offsetWidth);
+    const y = Math.min(Math.max(event.clientY - rect.top, 0), height);
+    return [Math.floor(x * 10) / 10, Math.floor(y * 10) / 10];
+  };
+
+  const pointCount = () => strokesRef.current.reduce((sum, stroke) => sum + stroke.length, 0);
+
+  const drawSegment = (from: [number, number], to: [number, number]) => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+    context.beginPath();
+    context.moveTo(from[0], from[1]);
+    context.lineTo(to[0], to[1]);
+    context.stroke();
+  };
+
+  const emitChange = () => {
+    const strokes = strokesRef.current;
+    setIsEmpty(strokes.length === 0);
+    onChange(strokes.length > 0 && canvasRef.current
+      ? { width: canvasRef.current.offsetWidth, height, strokes: strokes.map(stroke => [...stroke]) }
+      : null);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled || pointCount() >= MAX_SIGNATURE_POINTS) return;
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drawingRef.current = true;
+    const point = pointFrom(event);
+    strokesRef.current.push([point]);
+    drawSegment(point, [point[0] + 0.1, point[1]]);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current || pointCount() >= MAX_SIGNATURE_POINTS) return;
+
+    const stroke = strokesRef.current[strokesRef.current.length - 1];
+    const point = pointFrom(event);
+    drawSegment(stroke[stroke.length - 1], point);
+    stroke.push(point);
+  };
+
+  const handlePointerUp = () => {
+    if (!drawingRef.current) return;
+
+    drawingRef.current = false;
+    emitChange();
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    strokesRef.current = [];
+    emitChange();
+  };
+
+  return (
+    <div>
+      <div className="relative border rounded-md bg-white">
+        <canvas
+          ref={canvasRef}
+          className="block w-full cursor-crosshair"
+          style={{ height, touchAction: 'none' }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        />
+        {isEmpty && (
+          <span className="absolute inset-0 flex items-center justify-center text-sm text-gray-400 pointer-events-none">
+            Sign here
+          </span>
+        )}
+      </div>
+      <div className="flex justify-end mt-1">
+        <button
+          type="button"
+          className="text-xs text-gray-500 hover:text-gray-700 disabled:opacity-50"
+          onClick={handleClear}
+          disabled={disabled || isEmpty}
+        >
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -117,6 +117,11 @@ export default function Header() {
               My Bookings
             </Link>
           )}
+          {session?.user && (
+            <Link href="/license" className={`px-3 py-2 rounded-md font-medium ${pathname === "/license" ? "bg-gray-100 text-black" : "text-gray-700 hover:text-black"}`}>
+              My License
+            </Link>
+          )}
           {session?.user && (
             <Link href="/inbox" className={`px-3 py-2 rounded-md font-medium relative ${pathname === "/inbox" ? "bg-gray-100 text-black" : "text-gray-700 hover:text-black"}`}>
               Inbox
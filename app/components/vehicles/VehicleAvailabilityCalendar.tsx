@@ -4,15 +4,31 @@ import { useState, useEffect } from 'react';
 import { Calendar } from '../../components/ui/calendar';
 import { type SelectRangeEventHandler, type DateRange } from 'react-day-picker';
 import { Booking } from '@prisma/client';
-import { addDays, format, isSameDay, isWithinInterval, startOfDay, isBefore, differenceInDays, eachDayOfInterval, startOfMonth, endOfMonth } from 'date-fns';
+import { addDays, format, isSameDay, isWithinInterval, startOfDay, isBefore, isAfter, differenceInDays, eachDayOfInterval, startOfMonth, endOfMonth } from 'date-fns';
 import { cn } from '../../../lib/utils';
 import { useRouter } from 'next/navigation';
+import { StayDiscountRule, findStayDiscount, rentalLengthError } from '@/app/lib/pricing';
+import { formatMoney } from '@/app/lib/currency';
+
+// Period when the vehicle is out of service (maintenance, repairs, etc.)
+type TimeOffPeriod = {
+  id: string;
+  startDate: Date | string;
+  endDate: Date | string;
+};
+
+// Only the booking fields the calendar reads, so callers needn't pass whole rows
+export type CalendarBooking = Pick<Booking, 'id' | 'status' | 'startDate' | 'endDate' | 'holdExpiresAt'>;
 
 type VehicleAvailabilityCalendarProps = {
   vehicleId: string;
-  bookings: Booking[];
+  bookings: CalendarBooking[];
+  timeOffs?: TimeOffPeriod[];
   vehicleModel?: string;
   pricePerDay?: number;
+  // Shortest and longest rental allowed, in days
+  minRentalDays?: number;
+  maxRentalDays?: number | null;
 };
 
 // Define interface for daily pricing
@@ -25,21 +41,33 @@ interface DailyPrice {
 export default function VehicleAvailabilityCalendar({ 
   vehicleId, 
   bookings, 
+  timeOffs = [],
   vehicleModel = "Vehicle", 
-  pricePerDay = 5 
+  pricePerDay = 500,
+  minRentalDays = 1,
+  maxRentalDays = null
 }: VehicleAvailabilityCalendarProps) {
   const router = useRouter();
   const [dateRange, setDateRange] = useState<DateRange>({
     from: undefined,
     to: undefined
   });
-  const [hoveredBooking, setHoveredBooking] = useState<Booking | null>(null);
+  const [hoveredBooking, setHoveredBooking] = useState<CalendarBooking | null>(null);
   const [totalPrice, setTotalPrice] = useState<number>(0);
   // Keep track of daily prices
   const [dailyPrices, setDailyPrices] = useState<Map<string, DailyPrice>>(new Map());
   const [isLoading, setIsLoading] = useState<boolean>(false);
   // Add current display month state
   const [currentMonth, setCurrentMonth] = useState<Date>(new Date());
+  // Length-of-stay discount tiers for this vehicle
+  const [stayDiscounts, setStayDiscounts] = useState<StayDiscountRule[]>([]);
+
+  // Confirmed and active bookings block dates; pending ones only while their checkout hold lasts
+  const isBlockingBooking = (booking: CalendarBooking) => {
+    if (booking.status === 'confirmed' || booking.status === 'active') return true;
+    if (booking.status !== 'pending') return false;
+    return !booking.holdExpiresAt || new Date(booking.holdExpiresAt) > new Date();
+  };
 
   // Function to check if a date is booked
   const isDateBooked = (date: Date) => {
@@ -50,10 +78,23 @@ export default function VehicleAvailabilityCalendar({
       return isWithinInterval(date, {
         start: bookingStart,
         end: bookingEnd,
-      }) && booking.status === 'confirmed'; // Only confirmed bookings block dates
+      }) && isBlockingBooking(booking);
     });
   };
 
+  // Function to check if a date falls in a time-off period
+  const isDateInTimeOff = (date: Date) => {
+    return timeOffs.some((timeOff) => isWithinInterval(date, {
+      start: startOfDay(new Date(timeOff.startDate)),
+      end: startOfDay(new Date(timeOff.endDate)),
+    }));
+  };
+
+  // Function to check if a date can't be rented (booked or blocked)
+  const isDateUnavailable = (date: Date) => {
+    return isDateBooked(date) || isDateInTimeOff(date);
+  };
+
   // Function to get all bookings for a specific date
   const getBookingsForDate = (date: Date) => {
     return bookings.filter((booking) => {
@@ -63,10 +104,23 @@ export default function VehicleAvailabilityCalendar({
       return isWithinInterval(date, {
         start: bookingStart,
         end: bookingEnd,
-      }) && booking.status === 'confirmed'; // Only show confirmed bookings
+      }) && isBlockingBooking(booking);
     });
   };
 
+  // Why a stay ending on this date can't be booked (too short or too long), or null
+  const getRentalLengthError = (from: Date, to: Date) => {
+    return rentalLengthError({ minRentalDays, maxRentalDays }, differenceInDays(to, from) + 1);
+  };
+
+  // Once a start date is picked, end dates outside the rental length limits can't be chosen
+  const isEndDateOutOfRange = (date: Date) => {
+    if (!dateRange.from || dateRange.to || !isAfter(date, dateRange.from)) {
+      return false;
+    }
+    return getRentalLengthError(dateRange.from, date) !== null;
+  };
+
   // Get price for a specific date
   const getPriceForDate = (date: Date): number => {
     const dateKey = format(date, 'yyyy-MM-dd');
@@ -91,8 +145,9 @@ export default function VehicleAvailabilityCalendar({
       const from = format(firstDay, 'yyyy-MM-dd');
       const to = format(lastDay, 'yyyy-MM-dd');
       
-      // Fetch availability data from API
-      const response = await fetch(`/api/availability?startDate=${from}&endDate=${to}`);
+      // Fetch availability data from API; a month of prices is wanted whatever
+      // the vehicle's rental length limits
+      const response = await fetch(`/api/availability?startDate=${from}&endDate=${to}&ignoreRentalLength=true`);
       if (!response.ok) {
         throw new Error('Failed to fetch availability');
       }
@@ -104,6 +159,8 @@ export default function VehicleAvailabilityCalendar({
       const newPrices = new Map<string, DailyPrice>();
       
       if (vehicleData) {
+        setStayDiscounts(vehicleData.stayDiscounts || []);
+
         // Get all days in the month
         const days = eachDayOfInterval({ start: firstDay, end: lastDay });
         
@@ -178,6 +235,11 @@ export default function VehicleAvailabilityCalendar({
     fetchMonthPricing(currentMonth);
   }, [currentMonth, vehicleId, pricePerDay]);
 
+  // Length-of-stay discount for the selected range
+  const selectedDays = dateRange.from && dateRange.to ? differenceInDays(dateRange.to, dateRange.from) + 1 : 0;
+  const stayDiscount = selectedDays > 0 ? findStayDiscount(stayDiscounts, vehicleId, selectedDays) : null;
+  const stayDiscountAmount = stayDiscount ? Math.round(totalPrice * stayDiscount.percentOff / 100) : 0;
+
   // Handle month navigation
   const handleMonthChange = (month: Date) => {
     setCurrentMonth(month);
@@ -190,7 +252,7 @@ export default function VehicleAvailabilityCalendar({
     const endDate = startOfDay(new Date(to));
     
     while (isBefore(currentDate, endDate) || isSameDay(currentDate, endDate)) {
-      if (isDateBooked(currentDate)) {
+      if (isDateUnavailable(currentDate)) {
         return true;
       }
       currentDate = addDays(currentDate, 1);
@@ -222,6 +284,7 @@ export default function VehicleAvailabilityCalendar({
           onSelect={handleSelect}
           className="rounded-md border w-full text-sm md:text-base lg:text-lg"
           onMonthChange={handleMonthChange}
+          disabled={isEndDateOutOfRange}
           // Custom styling classes for calendar elements
           classNames={{
             months: "flex flex-col space-y-4 sm:space-y-0 sm:space-x-4",
@@ -246,6 +309,7 @@ export default function VehicleAvailabilityCalendar({
           // Custom modifiers for special date states
           modifiers={{
             booked: (date) => isDateBooked(date),
+            blocked: (date) => isDateInTimeOff(date),
             selected: (date) => {
               // Mark single selected date
               if (dateRange.from && !dateRange.to && isSameDay(date, dateRange.from)) {
@@ -264,12 +328,14 @@ export default function VehicleAvailabilityCalendar({
           // Classes for modified dates
           modifiersClassNames={{
             booked: "bg-red-100 text-red-800",
+            blocked: "bg-gray-200 text-gray-500",
             selected: "bg-blue-100 text-blue-800"
           }}
           // Custom day cell rendering
           components={{
             DayContent: ({ date: dayDate }) => {
               const isBooked = isDateBooked(dayDate);
+              const isBlocked = isDateInTimeOff(dayDate);
               const price = getPriceForDate(dayDate);
               const isSpecial = hasSpecialPricing(dayDate);
               
@@ -290,12 +356,12 @@ export default function VehicleAvailabilityCalendar({
                   onMouseLeave={() => setHoveredBooking(null)}
                 >
                   <span className="text-xs sm:text-sm md:text-base">{format(dayDate, "d")}</span>
-                  {!isBooked && (
+                  {!isBooked && !isBlocked && (
                     <span className={cn(
                       "text-[8px] sm:text-[10px] md:text-[11px] font-medium",
                       isSpecial ? "text-green-700" : "text-gray-500"
                     )}>
-                      ${price}
+                      {formatMoney(price)}
                     </span>
                   )}
                   {isBooked && (
@@ -313,6 +379,10 @@ export default function VehicleAvailabilityCalendar({
             <div className="w-4 h-4 bg-red-100 rounded-full"></div>
             <span className="text-xs">Booked</span>
           </div>
+          <div className="flex items-center gap-2">
+            <div className="w-4 h-4 bg-gray-200 rounded-full"></div>
+            <span className="text-xs">Unavailable</span>
+          </div>
           <div className="flex items-center gap-2">
             <div className="w-4 h-4 bg-blue-100 rounded-full"></div>
             <span className="text-xs">Selected</span>
@@ -369,12 +439,20 @@ export default function VehicleAvailabilityCalendar({
         {/* Booking status and summary section */}
         {dateRange.from && (
           <>
-            {dateRange.to && hasDateRangeConflicts(dateRange.from, dateRange.to) ? (
+            {dateRange.to && getRentalLengthError(dateRange.from, dateRange.to) ? (
+              // Show error if the stay is shorter or longer than the vehicle allows
+              <div className="bg-red-50 p-3 md:p-5 rounded-md text-sm md:text-base">
+                <p className="text-red-800 mb-2 text-base md:text-lg font-medium">
+                  {getRentalLengthError(dateRange.from, dateRange.to)}.
+                </p>
+                <p className="text-gray-700">Please adjust your date range.</p>
+              </div>
+            ) : dateRange.to && hasDateRangeConflicts(dateRange.from, dateRange.to) ? (
               // Show error if dates conflict with existing bookings
               <div className="bg-red-50 p-3 md:p-5 rounded-md text-sm md:text-base">
-                <p className="text-red-800 mb-2 text-base md:text-lg font-medium">Some dates in your selection are already booked.</p>
+                <p className="text-red-800 mb-2 text-base md:text-lg font-medium">Some dates in your selection are unavailable.</p>
                 <p className="text-gray-700">
-                  Please adjust your date range to avoid conflicts with existing bookings.
+                  Please adjust your date range to avoid conflicts with existing bookings or unavailable dates.
                 </p>
               </div>
             ) : dateRange.to ? (
@@ -393,12 +471,18 @@ export default function VehicleAvailabilityCalendar({
                           <div key={format(day, 'yyyy-MM-dd')} className="flex justify-between text-gray-700 py-1">
                             <span>{format(day, 'MMM d')}</span>
                             <span className={cn(hasSpecialPricing(day) ? "text-green-700 font-medium" : "")}>
-                              ${getPriceForDate(day)}/day
+                              {formatMoney(getPriceForDate(day))}/day
                             </span>
                           </div>
                         ))}
                       </div>
-                      <p className="text-base md:text-xl font-bold mt-2 pt-2 border-t">Total: ${totalPrice}</p>
+                      {stayDiscount && (
+                        <p className="text-sm md:text-base text-green-700 pt-2 border-t flex justify-between">
+                          <span>{stayDiscount.name} discount ({stayDiscount.percentOff}% off {stayDiscount.minDays}+ days)</span>
+                          <span>-{formatMoney(stayDiscountAmount)}</span>
+                        </p>
+                      )}
+                      <p className="text-base md:text-xl font-bold mt-2 pt-2 border-t">Total: {formatMoney(totalPrice - stayDiscountAmount)}</p>
                     </div>
                   )}
                 </div>
@@ -430,8 +514,19 @@ export default function VehicleAvailabilityCalendar({
             <li>Review the booking summary</li>
             <li>Click &ldquo;Proceed to Booking&rdquo; to confirm</li>
           </ol>
+          {(minRentalDays > 1 || maxRentalDays) && (
+            <p className="text-xs md:text-sm text-gray-700 mt-3">
+              {minRentalDays > 1 && `Minimum rental: ${minRentalDays} days. `}
+              {maxRentalDays && `Maximum rental: ${maxRentalDays} days.`}
+            </p>
+          )}
+          {stayDiscounts.length > 0 && (
+            <p className="text-xs md:text-sm text-green-700 mt-3">
+              Save on longer trips: {stayDiscounts.map(discount => `${discount.percentOff}% off ${discount.minDays}+ days`).join(', ')}.
+            </p>
+          )}
           <p className="text-xs md:text-sm text-gray-500 mt-3">
-            Note: Red dates are unavailable due to existing bookings. Green prices indicate special event pricing.
+            Note: Red dates are unavailable due to existing bookings and gray dates are unavailable for service. Green prices indicate special event pricing.
           </p>
         </div>
       </div>
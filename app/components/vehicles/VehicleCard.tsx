@@ -2,6 +2,7 @@
 
 import Image from 'next/image';
 import { useRouter } from 'next/navigation';
+import { formatMoney } from '@/app/lib/currency';
 
 interface VehicleCardProps {
   id: string;
@@ -47,7 +48,10 @@ export default function VehicleCard({ id, model, image, description, pricePerDay
         <h3 className="text-xl font-bold mb-2 text-gray-900">Tesla {model}</h3>
         <p className="text-gray-800 mb-4">{description}</p>
         <div className="flex justify-between items-center">
-          <span className="text-sm italic text-gray-600">See calendar for pricing</span>
+          <span className="text-sm text-gray-600">
+            <span className="text-lg font-bold text-gray-900">{formatMoney(pricePerDay)}</span>/day
+            <span className="block italic">See calendar for pricing</span>
+          </span>
           <button 
             onClick={handleBookNowClick}
             className="bg-red-600 hover:bg-red-700 text-white py-2 px-4 rounded-md"
@@ -1,4 +1,5 @@
 import Link from 'next/link';
+import { formatMoney } from '@/app/lib/currency';
 
 // This would typically come from a database
 const getVehicleById = (id: string) => {
@@ -8,7 +9,7 @@ const getVehicleById = (id: string) => {
       model: "Model S",
       image: "/tesla-model-s.jpg",
       description: "Luxury sedan with exceptional range and performance",
-      pricePerDay: 150,
+      pricePerDay: 15000,
       features: ["Autopilot", "Long Range Battery", "Premium Interior", "Dual Motor"],
       seats: 5,
       range: "370 miles",
@@ -19,7 +20,7 @@ const getVehicleById = (id: string) => {
       model: "Model 3",
       image: "/tesla-model-3.jpg",
       description: "Compact sports sedan with impressive efficiency",
-      pricePerDay: 120,
+      pricePerDay: 12000,
       features: ["Autopilot", "Standard Range Plus", "Minimalist Interior", "Rear-Wheel Drive"],
       seats: 5,
       range: "272 miles",
@@ -30,7 +31,7 @@ const getVehicleById = (id: string) => {
       model: "Model X",
       image: "/tesla-model-x.jpg",
       description: "SUV with falcon-wing doors and spacious interior",
-      pricePerDay: 180,
+      pricePerDay: 18000,
       features: ["Autopilot", "Long Range Plus", "Falcon Wing Doors", "Third Row Seating"],
       seats: 7,
       range: "340 miles",
@@ -92,7 +93,7 @@ export default function VehicleDetails({ params }: { params: { id: string } }) {
               </div>
               <div>
                 <p className="text-gray-600">Daily Rate</p>
-                <p className="font-semibold">${vehicle.pricePerDay}/day</p>
+                <p className="font-semibold">{formatMoney(vehicle.pricePerDay)}/day</p>
               </div>
             </div>
           </div>
@@ -6,6 +6,7 @@ import { useState, useEffect } from 'react';
 import BookingForm from '@/app/components/bookings/BookingForm';
 import BookingSearchBar from '@/app/components/bookings/BookingSearchBar';
 import { toast } from "sonner";
+import { formatMoney } from '@/app/lib/currency';
 
 interface Vehicle {
   id: string;
@@ -156,7 +157,7 @@ export default function Dashboard() {
                   >
                     <h3 className="font-bold mb-2">Tesla {vehicle.model}</h3>
                     <p className="text-gray-600 mb-2 text-sm">{vehicle.description}</p>
-                    <p className="text-gray-600 mb-2">${vehicle.pricePerDay}/day</p>
+                    <p className="text-gray-600 mb-2">{formatMoney(vehicle.pricePerDay)}/day</p>
                     <button className="w-full bg-red-600 hover:bg-red-700 text-white py-2 rounded text-sm">
                       Select
                     </button>
@@ -181,7 +182,7 @@ export default function Dashboard() {
                 >
                   <h3 className="font-bold mb-2">Tesla {vehicle.model}</h3>
                   <p className="text-gray-600 mb-2 text-sm">{vehicle.description}</p>
-                  <p className="text-gray-600 mb-2">${vehicle.pricePerDay}/day</p>
+                  <p className="text-gray-600 mb-2">{formatMoney(vehicle.pricePerDay)}/day</p>
                   <button className="w-full bg-red-600 hover:bg-red-700 text-white py-2 rounded text-sm">
                     Select
                   </button>
@@ -0,0 +1,294 @@
+import prisma from '@/app/lib/prisma';
+import { AddOn, Prisma } from '@prisma/client';
+import { eachDayOfInterval, max as maxDate, min as minDate } from 'date-fns';
+import { calculateAddOnAmount, toDateKey } from '@/app/lib/pricing';
+import { activeBookingWhere, overlapsRange } from '@/app/lib/availability';
+import { toMinorUnits } from '@/app/lib/currency';
+
+/**
+ * Add-ons
+ *
+ * Extras a customer can add to a booking (child seats, extra drivers,
+ * supercharging, delivery...). Add-ons with an inventory are physical items:
+ * on any day no more units can be out than exist, counting the bookings that
+ * currently hold their dates. The price is copied onto the booking so later
+ * catalog changes don't alter it.
+ */
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+// Thrown when the selected add-ons can't be booked
+export class AddOnError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AddOnError';
+  }
+}
+
+// Add-on and quantity picked on /booking
+export interface AddOnSelection {
+  addOnId: string;
+  quantity: number;
+}
+
+// Add-on priced for a booking, as stored in BookingAddOn
+export interface SelectedAddOn {
+  addOnId: string;
+  name: string;
+  priceType: string;
+  unitPrice: number;
+  quantity: number;
+  amount: number;
+}
+
+// Add-on offered for a stay with the units still free (null when unlimited)
+export type AvailableAddOn = AddOn & { remaining: number | null };
+
+export const ADD_ON_PRICE_TYPES = ['per_day', 'flat'];
+
+// Read the add-on selections sent by the client, merging repeats and dropping empty ones
+export function parseAddOnSelections(value: unknown): AddOnSelection[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const quantities = new Map<string, number>();
+  value.forEach(item => {
+    const addOnId = item && typeof item.addOnId === 'string' ? item.addOnId : null;
+    const quantity = parseInt(String(item?.quantity ?? 1), 10);
+    if (addOnId && quantity > 0) {
+      quantities.set(addOnId, (quantities.get(addOnId) || 0) + quantity);
+    }
+  });
+
+  return Array.from(quantities, ([addOnId, quantity]) => ({ addOnId, quantity }));
+}
+
+/**
+ * Units of each add-on out on the busiest day of a range.
+ * Pass excludeBookingId to leave out a booking's own add-ons.
+ */
+export async function findAddOnUsage(
+  addOnIds: string[],
+  start: Date,
+  end: Date,
+  options: { excludeBookingId?: string; db?: DbClient } = {}
+): Promise<Record<string, number>> {
+  const db = options.db || prisma;
+  const lines = await db.bookingAddOn.findMany({
+    where: {
+      addOnId: { in: addOnIds },
+      booking: {
+        AND: [
+          activeBookingWhere(),
+          overlapsRange(start, end),
+          ...(options.excludeBookingId ? [{ id: { not: options.excludeBookingId } }] : [])
+        ]
+      }
+    },
+    select: {
+      addOnId: true,
+      quantity: true,
+      booking: { select: { startDate: true, endDate: true } }
+    }
+  });
+
+  const perDay = new Map<string, Map<string, number>>();
+  lines.forEach(line => {
+    const days = perDay.get(line.addOnId as string) || new Map<string, number>();
+    eachDayOfInterval({ start: maxDate([line.booking.startDate, start]), end: minDate([line.booking.endDate, end]) })
+      .forEach(day => {
+        const key = toDateKey(day);
+        days.set(key, (days.get(key) || 0) + line.quantity);
+      });
+    perDay.set(line.addOnId as string, days);
+  });
+
+  return Object.fromEntries(
+    Array.from(perDay, ([addOnId, days]) => [addOnId, Math.max(...days.values())])
+  );
+}
+
+// Active add-ons offered for a vehicle, with the units still free over the stay
+export async function findAvailableAddOns(vehicleId: string, start: Date, end: Date): Promise<AvailableAddOn[]> {
+  const addOns = await prisma.addOn.findMany({
+    where: {
+      active: true,
+      OR: [{ applyToAll: true }, { vehicles: { some: { id: vehicleId } } }]
+    },
+    orderBy: { name: 'asc' }
+  });
+
+  const usage = await findAddOnUsage(
+    addOns.filter(addOn => addOn.inventory !== null).map(addOn => addOn.id),
+    start,
+    end
+  );
+
+  return addOns.map(addOn => ({
+    ...addOn,
+    remaining: addOn.inventory === null ? null : Math.max(addOn.inventory - (usage[addOn.id] || 0), 0)
+  }));
+}
+
+/**
+ * Check and price the add-ons picked for a stay.
+ * Throws AddOnError with a customer-facing message when one isn't offered
+ * for the vehicle, exceeds its per-booking limit or is out of stock.
+ */
+export async function priceAddOns(
+  selections: AddOnSelection[],
+  vehicleId: string,
+  start: Date,
+  end: Date,
+  days: number
+): Promise<SelectedAddOn[]> {
+  if (selections.length === 0) {
+    return [];
+  }
+
+  const available = await findAvailableAddOns(vehicleId, start, end);
+
+  return selections.map(selection => {
+    const addOn = available.find(item => item.id === selection.addOnId);
+
+    if (!addOn) {
+      throw new AddOnError('One of the selected extras is not available for this vehicle');
+    }
+    if (selection.quantity > addOn.maxQuantity) {
+      throw new AddOnError(`You can add at most ${addOn.maxQuantity} × ${addOn.name} to a booking`);
+    }
+    if (addOn.remaining !== null && selection.quantity > addOn.remaining) {
+      throw new AddOnError(
+        addOn.remaining === 0
+          ? `${addOn.name} is sold out for these dates`
+          : `Only ${addOn.remaining} × ${addOn.name} left for these dates`
+      );
+    }
+
+    return {
+      addOnId: addOn.id,
+      name: addOn.name,
+      priceType: addOn.priceType,
+      unitPrice: addOn.price,
+      quantity: selection.quantity,
+      amount: calculateAddOnAmount(addOn, selection.quantity, days)
+    };
+  });
+}
+
+/**
+ * Check the add-ons still fit in the inventory inside the booking transaction,
+ * so two customers can't both take the last unit. Pass excludeBookingId when
+ * moving an existing booking, so its own add-ons don't count against it.
+ */
+export async function assertAddOnInventory(
+  addOns: Pick<SelectedAddOn, 'addOnId' | 'quantity'>[],
+  start: Date,
+  end: Date,
+  db: DbClient,
+  options: { excludeBookingId?: string } = {}
+) {
+  const limited = await db.addOn.findMany({
+    where: { id: { in: addOns.map(addOn => addOn.addOnId) }, inventory: { not: null } }
+  });
+
+  if (limited.length === 0) {
+    return;
+  }
+
+  const usage = await findAddOnUsage(limited.map(addOn => addOn.id), start, end, {
+    excludeBookingId: options.excludeBookingId,
+    db
+  });
+
+  limited.forEach(addOn => {
+    const selected = addOns.find(item => item.addOnId === addOn.id);
+    if (selected && (usage[addOn.id] || 0) + selected.quantity > (addOn.inventory as number)) {
+      throw new AddOnError(`${addOn.name} is sold out for these dates`);
+    }
+  });
+}
+
+// Check a booking's add-ons are still free if it moves to new dates
+export async function assertBookingAddOnInventory(bookingId: string, start: Date, end: Date, db: DbClient = prisma) {
+  const lines = await db.bookingAddOn.findMany({ where: { bookingId } });
+  const addOns = lines.flatMap(line => (line.addOnId ? [{ addOnId: line.addOnId, quantity: line.quantity }] : []));
+
+  await assertAddOnInventory(addOns, start, end, db, { excludeBookingId: bookingId });
+}
+
+// Charge for a booking's add-ons over a number of days, at the prices they were booked at
+export function repriceBookingAddOns<T extends { priceType: string; unitPrice: number; quantity: number }>(
+  addOns: T[],
+  days: number
+): (T & { amount: number })[] {
+  return addOns.map(addOn => ({
+    ...addOn,
+    amount: calculateAddOnAmount({ priceType: addOn.priceType, price: addOn.unitPrice }, addOn.quantity, days)
+  }));
+}
+
+// Optional whole-number limit from an admin form; blank means no limit
+function parseLimit(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  const limit = parseInt(String(value), 10);
+  return Number.isFinite(limit) && limit >= 0 ? limit : null;
+}
+
+/**
+ * Validate the fields the admin add-on form sends.
+ * Only fields present in the body are returned, so it serves both create and update.
+ */
+export function parseAddOnInput(body: Record<string, unknown>): { error: string } | { data: Prisma.AddOnUpdateInput } {
+  const data: Prisma.AddOnUpdateInput = {};
+
+  if (body.name !== undefined) {
+    const name = String(body.name).trim();
+    if (!name) {
+      return { error: 'Name is required' };
+    }
+    data.name = name;
+  }
+
+  if (body.description !== undefined) data.description = body.description ? String(body.description) : null;
+
+  if (body.priceType !== undefined) {
+    if (!ADD_ON_PRICE_TYPES.includes(String(body.priceType))) {
+      return { error: 'Invalid price type. Must be "per_day" or "flat"' };
+    }
+    data.priceType = String(body.priceType);
+  }
+
+  if (body.price !== undefined) {
+    // Entered in dollars, stored in cents
+    const price = toMinorUnits(parseFloat(String(body.price)));
+    if (!Number.isFinite(price) || price < 0) {
+      return { error: 'Price must be zero or more' };
+    }
+    data.price = price;
+  }
+
+  if (body.inventory !== undefined) data.inventory = parseLimit(body.inventory);
+
+  if (body.maxQuantity !== undefined) {
+    const maxQuantity = parseInt(String(body.maxQuantity), 10);
+    if (!Number.isFinite(maxQuantity) || maxQuantity < 1) {
+      return { error: 'Customers must be able to add at least one' };
+    }
+    data.maxQuantity = maxQuantity;
+  }
+
+  if (body.active !== undefined) data.active = Boolean(body.active);
+
+  if (body.applyToAll !== undefined || body.vehicleIds !== undefined) {
+    const applyToAll = body.applyToAll !== false;
+    const vehicleIds = Array.isArray(body.vehicleIds) ? body.vehicleIds.map(String) : [];
+    data.applyToAll = applyToAll;
+    data.vehicles = { set: applyToAll ? [] : vehicleIds.map(id => ({ id })) };
+  }
+
+  return { data };
+}
@@ -0,0 +1,120 @@
+/**
+ * Rental agreement templates and signatures
+ *
+ * Templates are plain text with {{placeholders}} that are filled from the
+ * booking when its agreement is prepared. Signatures are the strokes drawn on
+ * the signature pad, so they can be redrawn at any size in the signed PDF.
+ *
+ * Kept free of server-only imports so the admin editor and the signature pad
+ * can share them.
+ */
+
+// Placeholders a template may use, with what they are filled with
+export const AGREEMENT_PLACEHOLDERS = {
+  companyName: 'Company name',
+  renterName: "Renter's name",
+  renterEmail: "Renter's email",
+  bookingReference: 'Booking reference',
+  vehicle: 'Vehicle, e.g. Tesla Model 3',
+  startDate: 'Pickup date',
+  endDate: 'Return date',
+  days: 'Number of rental days',
+  totalPrice: 'Booking total including tax',
+  protectionPlan: 'Protection plan',
+  deductible: 'Deductible under the protection plan',
+  securityDeposit: 'Security deposit held on the card'
+};
+
+export type AgreementPlaceholder = keyof typeof AGREEMENT_PLACEHOLDERS;
+
+export type AgreementValues = Record<AgreementPlaceholder, string>;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Used until an admin activates a template of their own
+export const DEFAULT_AGREEMENT_TEMPLATE = `This rental agreement is between {{companyName}} and {{renterName}} ({{renterEmail}}) for booking {{bookingReference}}.
+
+Vehicle: {{vehicle}}
+Rental period: {{startDate}} to {{endDate}} ({{days}} days)
+Total charged: {{totalPrice}}
+Protection plan: {{protectionPlan}}, deductible {{deductible}}
+Security deposit: {{securityDeposit}}
+
+1. The renter will present a valid driver's license at pickup and only licensed drivers named on this booking may drive the vehicle.
+2. The vehicle must be returned by the end of the rental period with at least the charge level it had at pickup. Late returns are charged at the daily rate.
+3. The renter is responsible for tolls, parking tickets and traffic fines incurred during the rental.
+4. The renter is responsible for damage to the vehicle up to the deductible of the protection plan above. The security deposit may be captured towards damage, fines or unpaid charges.
+5. Smoking and pets are not permitted in the vehicle. Cleaning required as a result will be charged.
+6. The vehicle may not be used for racing, towing, ride-hailing or off-road driving.
+
+By signing below the renter confirms they have read and agree to these terms.`;
+
+// Placeholders in a template that aren't known, e.g. misspelled ones
+export function findUnknownPlaceholders(body: string): string[] {
+  const unknown = Array.from(body.matchAll(PLACEHOLDER_PATTERN), match => match[1])
+    .filter(name => !(name in AGREEMENT_PLACEHOLDERS));
+  return Array.from(new Set(unknown));
+}
+
+// Fill a template's placeholders with the booking's values
+export function fillAgreementTemplate(body: string, values: AgreementValues): string {
+  return body.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    name in values ? values[name as AgreementPlaceholder] : placeholder
+  );
+}
+
+// Strokes drawn on the signature pad, as [x, y] points on a width x height canvas
+export interface Signature {
+  width: number;
+  height: number;
+  strokes: [number, number][][];
+}
+
+// Keeps the stored signature (and the request) small
+export const MAX_SIGNATURE_POINTS = 5000;
+
+// Read a signature sent by the signature pad; null if it's malformed or empty
+export function parseSignature(value: unknown): Signature | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const { width, height, strokes } = value as Record<string, unknown>;
+  const isSize = (size: unknown): size is number => typeof size === 'number' && size > 0 && size <= 4000;
+
+  if (!isSize(width) || !isSize(height) || !Array.isArray(strokes)) {
+    return null;
+  }
+
+  const parsed: [number, number][][] = [];
+  let pointCount = 0;
+
+  for (const stroke of strokes) {
+    if (!Array.isArray(stroke)) {
+      return null;
+    }
+
+    const points: [number, number][] = [];
+    for (const point of stroke) {
+      if (!Array.isArray(point) || point.length !== 2) {
+        return null;
+      }
+      const [x, y] = point;
+      if (typeof x !== 'number' || typeof y !== 'number' || !(x >= 0 && x <= width && y >= 0 && y <= height)) {
+        return null;
+      }
+      points.push([x, y]);
+    }
+
+    pointCount += points.length;
+    if (points.length > 0) {
+      parsed.push(points);
+    }
+  }
+
+  if (parsed.length === 0 || pointCount > MAX_SIGNATURE_POINTS) {
+    return null;
+  }
+
+  return { width, height, strokes: parsed };
+}
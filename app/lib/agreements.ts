@@ -0,0 +1,250 @@
+import prisma from '@/app/lib/prisma';
+import { BookingStatus, Prisma } from '@prisma/client';
+import { differenceInCalendarDays, format } from 'date-fns';
+import {
+  AgreementValues,
+  DEFAULT_AGREEMENT_TEMPLATE,
+  Signature,
+  fillAgreementTemplate,
+  findUnknownPlaceholders
+} from '@/app/lib/agreement-templates';
+import { protectionPlanName } from '@/app/lib/protection-plans';
+import { formatMoney } from '@/app/lib/currency';
+import { COMPANY } from '@/app/lib/invoices';
+import { PdfColor, createPdfLayout, renderPdf } from '@/app/lib/pdf';
+
+/**
+ * Rental agreements
+ *
+ * Every booking gets an agreement filled in from the active template (or the
+ * built-in one). Until the renter signs it, its text is refilled whenever it is
+ * opened, so date or price changes show up. Signing stores the signature, the
+ * time, the renter's IP address and a signed PDF, and freezes the agreement.
+ * A booking can't become active until its agreement is signed, see
+ * transitionBookingStatus.
+ */
+
+// Bookings whose renter can sign the agreement; active covers rentals started before agreements were required
+export const SIGNABLE_BOOKING_STATUSES: BookingStatus[] = ['confirmed', 'active'];
+
+// Agreement fields to show with a booking; leaves out the signature and the PDF
+export const AGREEMENT_SUMMARY_SELECT = {
+  id: true,
+  signerName: true,
+  signedAt: true,
+  signedIp: true
+} satisfies Prisma.RentalAgreementSelect;
+
+// Agreement fields needed to show it for signing
+const AGREEMENT_SELECT = {
+  ...AGREEMENT_SUMMARY_SELECT,
+  content: true
+} satisfies Prisma.RentalAgreementSelect;
+
+// Booking fields an agreement is filled from
+const AGREEMENT_BOOKING_INCLUDE = {
+  user: { select: { name: true, email: true } },
+  vehicle: { select: { model: true } }
+} satisfies Prisma.BookingInclude;
+
+type AgreementBooking = Prisma.BookingGetPayload<{ include: typeof AGREEMENT_BOOKING_INCLUDE }>;
+
+// Template to fill new agreements from; null means the built-in one
+async function findActiveTemplate() {
+  return prisma.agreementTemplate.findFirst({
+    where: { active: true },
+    orderBy: { updatedAt: 'desc' }
+  });
+}
+
+// Values for a template's placeholders
+function agreementValues(booking: AgreementBooking): AgreementValues {
+  const days = differenceInCalendarDays(booking.endDate, booking.startDate) + 1;
+  const money = (amount: number) => formatMoney(amount, booking.currency);
+
+  return {
+    companyName: COMPANY.name,
+    renterName: booking.user.name || booking.user.email || 'the renter',
+    renterEmail: booking.user.email || '',
+    bookingReference: booking.id.substring(0, 8),
+    vehicle: `Tesla ${booking.vehicle.model}`,
+    startDate: format(booking.startDate, 'MMMM d, yyyy'),
+    endDate: format(booking.endDate, 'MMMM d, yyyy'),
+    days: String(days),
+    totalPrice: money(booking.totalPrice),
+    protectionPlan: booking.protectionPlan ? protectionPlanName(booking.protectionPlan) : 'None',
+    deductible: booking.deductible !== null ? money(booking.deductible) : 'Not applicable',
+    securityDeposit: booking.securityDeposit > 0 ? money(booking.securityDeposit) : 'None'
+  };
+}
+
+/**
+ * The booking's agreement, ready to read and sign.
+ * Signed agreements are returned as they are; unsigned ones are refilled from
+ * the active template and the booking's current details.
+ */
+export async function prepareAgreement(bookingId: string) {
+  const existing = await prisma.rentalAgreement.findUnique({
+    where: { bookingId },
+    select: AGREEMENT_SELECT
+  });
+
+  if (existing?.signedAt) {
+    return existing;
+  }
+
+  const [booking, template] = await Promise.all([
+    prisma.booking.findUniqueOrThrow({
+      where: { id: bookingId },
+      include: AGREEMENT_BOOKING_INCLUDE
+    }),
+    findActiveTemplate()
+  ]);
+
+  const content = fillAgreementTemplate(template?.body ?? DEFAULT_AGREEMENT_TEMPLATE, agreementValues(booking));
+
+  return prisma.rentalAgreement.upsert({
+    where: { bookingId },
+    create: { bookingId, templateId: template?.id, content },
+    update: { templateId: template?.id ?? null, content },
+    select: AGREEMENT_SELECT
+  });
+}
+
+// Address the request came from, as reported by the proxy in front of the app
+export function requestIp(request: Request): string {
+  const forwarded = request.headers.get('x-forwarded-for');
+  return forwarded?.split(',')[0].trim() || request.headers.get('x-real-ip') || 'unknown';
+}
+
+/**
+ * Sign the agreement and store the signed PDF.
+ * Returns null if it was signed in the meantime, so it is never signed twice.
+ */
+export async function signAgreement(
+  agreement: { id: string; content: string },
+  bookingId: string,
+  signer: { name: string; signature: Signature; ip: string }
+) {
+  const signedAt = new Date();
+  const signedPdf = renderAgreementPdf({
+    id: agreement.id,
+    bookingId,
+    content: agreement.content,
+    signerName: signer.name,
+    signature: signer.signature,
+    signedAt,
+    signedIp: signer.ip
+  });
+
+  const { count } = await prisma.rentalAgreement.updateMany({
+    where: { id: agreement.id, signedAt: null },
+    data: {
+      signerName: signer.name,
+      signature: signer.signature as unknown as Prisma.InputJsonValue,
+      signedPdf,
+      signedAt,
+      signedIp: signer.ip
+    }
+  });
+
+  if (count === 0) {
+    return null;
+  }
+
+  return prisma.rentalAgreement.findUniqueOrThrow({
+    where: { id: agreement.id },
+    select: AGREEMENT_SUMMARY_SELECT
+  });
+}
+
+const MUTED: PdfColor = [0.42, 0.45, 0.5];
+
+// Render the signed agreement: its text, the signature scaled into a box, and the signing record
+function renderAgreementPdf(agreement: {
+  id: string;
+  bookingId: string;
+  content: string;
+  signerName: string;
+  signature: Signature;
+  signedAt: Date;
+  signedIp: string;
+}): Buffer {
+  const layout = createPdfLayout();
+
+  layout.moveDown(18);
+  layout.text('Rental Agreement', layout.left, { size: 18, font: 'bold' });
+  layout.text(COMPANY.name, layout.right, { size: 10, font: 'bold', align: 'right' });
+  layout.moveDown(16);
+  layout.text(`Booking ${agreement.bookingId.substring(0, 8)}`, layout.left, { size: 9, color: MUTED });
+  layout.rule();
+  layout.moveDown(10);
+
+  layout.paragraph(agreement.content, { size: 10, lineHeight: 14 });
+
+  // Signature box
+  const boxHeight = 90;
+  const boxWidth = 260;
+  layout.ensureSpace(boxHeight + 90);
+  layout.moveDown(30);
+  layout.text('Signature', layout.left, { size: 8, font: 'bold', color: MUTED });
+  layout.moveDown(6);
+
+  const top = layout.y;
+  const { width, height, strokes } = agreement.signature;
+  const scale = Math.min((boxWidth - 16) / width, (boxHeight - 16) / height);
+  const offsetX = layout.left + (boxWidth - width * scale) / 2;
+  const offsetY = top + (boxHeight - height * scale) / 2;
+  strokes.forEach(stroke => {
+    const points = stroke.map(([x, y]): [number, number] => [offsetX + x * scale, offsetY + y * scale]);
+    // A single tap is drawn as a dot
+    layout.polyline(points.length === 1 ? [points[0], [points[0][0] + 0.5, points[0][1]]] : points, { width: 1.5 });
+  });
+  layout.line(layout.left, top + boxHeight, layout.left + boxWidth, top + boxHeight, { color: MUTED });
+
+  layout.moveDown(boxHeight + 16);
+  layout.text(`Signed by ${agreement.signerName}`, layout.left);
+  layout.moveDown(14);
+  layout.text(`Signed at ${agreement.signedAt.toUTCString()} from IP address ${agreement.signedIp}`, layout.left, { size: 9, color: MUTED });
+  layout.moveDown(14);
+  layout.text(`Agreement ${agreement.id}`, layout.left, { size: 9, color: MUTED });
+
+  return renderPdf(layout.pages, {
+    title: `${COMPANY.name} rental agreement for booking ${agreement.bookingId.substring(0, 8)}`,
+    author: COMPANY.name
+  });
+}
+
+/**
+ * Validate the fields the admin agreement template form sends.
+ * Only fields present in the body are returned, so it serves both create and update.
+ */
+export function parseAgreementTemplateInput(
+  body: Record<string, unknown>
+): { error: string } | { data: Prisma.AgreementTemplateUpdateInput } {
+  const data: Prisma.AgreementTemplateUpdateInput = {};
+
+  if (body.name !== undefined) {
+    const name = String(body.name).trim();
+    if (!name) {
+      return { error: 'Name is required' };
+    }
+    data.name = name;
+  }
+
+  if (body.body !== undefined) {
+    const text = String(body.body).trim();
+    if (!text) {
+      return { error: 'The agreement text is required' };
+    }
+    const unknown = findUnknownPlaceholders(text);
+    if (unknown.length > 0) {
+      return { error: `Unknown placeholder${unknown.length === 1 ? '' : 's'}: ${unknown.map(name => `{{${name}}}`).join(', ')}` };
+    }
+    data.body = text;
+  }
+
+  if (body.active !== undefined) data.active = Boolean(body.active);
+
+  return { data };
+}
@@ -0,0 +1,244 @@
+import prisma from '@/app/lib/prisma';
+import { Prisma } from '@prisma/client';
+import { addDays, differenceInDays } from 'date-fns';
+import { toDateKey } from '@/app/lib/pricing';
+
+/**
+ * Availability helpers
+ *
+ * Shared checks for whether a vehicle can be rented over a date range.
+ * Ranges are inclusive of both the start and end date, matching the pricing engine.
+ */
+
+// How long an unpaid pending booking holds its dates while the customer is in checkout.
+// Stripe checkout sessions must live at least 30 minutes, so the hold is a little longer.
+export const PENDING_HOLD_MINUTES = 35;
+
+// How far ahead to look when suggesting alternative dates
+const ALTERNATIVE_SEARCH_DAYS = 60;
+
+// Number of serialization retries before reporting a conflict
+const MAX_TRANSACTION_ATTEMPTS = 3;
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+// Suggested date range offered when the requested one is taken
+export interface AlternativeDates {
+  startDate: string;
+  endDate: string;
+}
+
+// Thrown when a booking would overlap an existing booking or time off
+export class BookingConflictError extends Error {
+  constructor(message = 'Vehicle is already booked for the selected dates') {
+    super(message);
+    this.name = 'BookingConflictError';
+  }
+}
+
+// Where clause for records whose [startDate, endDate] range overlaps the given one
+export function overlapsRange(start: Date, end: Date) {
+  return {
+    startDate: { lte: end },
+    endDate: { gte: start }
+  };
+}
+
+// When a hold placed now should lapse
+export function holdExpiryFromNow(now: Date = new Date()): Date {
+  return new Date(now.getTime() + PENDING_HOLD_MINUTES * 60 * 1000);
+}
+
+/**
+ * Where clause for bookings that currently hold their dates.
+ * Pending bookings only block until their hold expires; pending bookings
+ * without a hold (e.g. created by an admin) block until they change status.
+ */
+export function activeBookingWhere(now: Date = new Date()): Prisma.BookingWhereInput {
+  return {
+    OR: [
+      { status: { in: ['confirmed', 'active'] } },
+      {
+        status: 'pending',
+        OR: [
+          { holdExpiresAt: null },
+          { holdExpiresAt: { gt: now } }
+        ]
+      }
+    ]
+  };
+}
+
+// Find active bookings overlapping the range for a vehicle
+export async function findBookingConflicts(
+  vehicleId: string,
+  start: Date,
+  end: Date,
+  options: { excludeBookingId?: string; db?: DbClient } = {}
+) {
+  const db = options.db || prisma;
+
+  return db.booking.findMany({
+    where: {
+      AND: [
+        { vehicleId },
+        overlapsRange(start, end),
+        activeBookingWhere(),
+        ...(options.excludeBookingId ? [{ id: { not: options.excludeBookingId } }] : [])
+      ]
+    },
+    orderBy: { startDate: 'asc' }
+  });
+}
+
+// Find time-off periods blocking a vehicle during the range
+export async function findTimeOffConflicts(vehicleId: string, start: Date, end: Date, db: DbClient = prisma) {
+  return db.vehicleTimeOff.findMany({
+    where: {
+      vehicleId,
+      ...overlapsRange(start, end)
+    },
+    orderBy: { startDate: 'asc' }
+  });
+}
+
+// Get ids of vehicles that have time off during the range
+export async function findVehicleIdsWithTimeOff(start: Date, end: Date): Promise<string[]> {
+  const timeOffs = await prisma.vehicleTimeOff.findMany({
+    where: overlapsRange(start, end),
+    select: { vehicleId: true }
+  });
+
+  return timeOffs.map(timeOff => timeOff.vehicleId);
+}
+
+/**
+ * Find the first day after the given date on which the vehicle is taken by
+ * another booking or time off. Used to tell how far a rental can be extended.
+ */
+export async function findNextBlockedDate(
+  vehicleId: string,
+  after: Date,
+  options: { excludeBookingId?: string } = {}
+): Promise<Date | null> {
+  const [booking, timeOff] = await Promise.all([
+    prisma.booking.findFirst({
+      where: {
+        AND: [
+          { vehicleId },
+          { endDate: { gt: after } },
+          activeBookingWhere(),
+          ...(options.excludeBookingId ? [{ id: { not: options.excludeBookingId } }] : [])
+        ]
+      },
+      orderBy: { startDate: 'asc' }
+    }),
+    prisma.vehicleTimeOff.findFirst({
+      where: { vehicleId, endDate: { gt: after } },
+      orderBy: { startDate: 'asc' }
+    })
+  ]);
+
+  const starts = [booking?.startDate, timeOff?.startDate].filter((date): date is Date => !!date);
+
+  if (starts.length === 0) {
+    return null;
+  }
+
+  return new Date(Math.min(...starts.map(date => date.getTime())));
+}
+
+// Check if Prisma aborted a transaction because of a serialization conflict
+function isSerializationFailure(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034';
+}
+
+/**
+ * Create a booking only if the vehicle is free for its dates.
+ *
+ * The overlap check and the insert run in one serializable transaction so two
+ * customers racing for the same car can't both succeed. The callback receives
+ * the transaction client and must create (and return) the booking.
+ */
+export async function createBookingIfAvailable<T>(
+  vehicleId: string,
+  start: Date,
+  end: Date,
+  create: (tx: Prisma.TransactionClient) => Promise<T>,
+  options: { excludeBookingId?: string } = {}
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const bookingConflicts = await findBookingConflicts(vehicleId, start, end, {
+          excludeBookingId: options.excludeBookingId,
+          db: tx
+        });
+
+        if (bookingConflicts.length > 0) {
+          throw new BookingConflictError();
+        }
+
+        const timeOffConflicts = await findTimeOffConflicts(vehicleId, start, end, tx);
+
+        if (timeOffConflicts.length > 0) {
+          throw new BookingConflictError('Vehicle is unavailable for the selected dates');
+        }
+
+        return create(tx);
+      }, {
+        isolationLevel: Prisma.TransactionIsolationLevel.Serializable
+      });
+    } catch (error) {
+      if (!isSerializationFailure(error)) {
+        throw error;
+      }
+
+      // Another booking for this vehicle committed first; after retrying we treat it as taken
+      if (attempt >= MAX_TRANSACTION_ATTEMPTS) {
+        throw new BookingConflictError();
+      }
+    }
+  }
+}
+
+/**
+ * Suggest nearby date ranges of the same length when the requested one is taken.
+ * Looks forward from the requested start date, skipping active bookings and time off.
+ */
+export async function findAlternativeDates(
+  vehicleId: string,
+  start: Date,
+  end: Date,
+  limit = 3
+): Promise<AlternativeDates[]> {
+  const length = differenceInDays(end, start);
+  const searchEnd = addDays(end, ALTERNATIVE_SEARCH_DAYS);
+
+  const [bookings, timeOffs] = await Promise.all([
+    findBookingConflicts(vehicleId, start, searchEnd),
+    findTimeOffConflicts(vehicleId, start, searchEnd)
+  ]);
+
+  // Blocked ranges as inclusive 'yyyy-MM-dd' keys
+  const blocked = [...bookings, ...timeOffs].map(range => ({
+    start: toDateKey(new Date(range.startDate)),
+    end: toDateKey(new Date(range.endDate))
+  }));
+
+  const alternatives: AlternativeDates[] = [];
+
+  for (let offset = 1; offset <= ALTERNATIVE_SEARCH_DAYS && alternatives.length < limit; offset++) {
+    const candidateStart = toDateKey(addDays(start, offset));
+    const candidateEnd = toDateKey(addDays(start, offset + length));
+    const overlaps = blocked.some(range => range.start <= candidateEnd && range.end >= candidateStart);
+
+    if (!overlaps) {
+      alternatives.push({ startDate: candidateStart, endDate: candidateEnd });
+      // Skip past this window so suggestions don't overlap each other
+      offset += length;
+    }
+  }
+
+  return alternatives;
+}
@@ -0,0 +1,53 @@
+import prisma from '@/app/lib/prisma';
+import stripe from '@/app/lib/stripe';
+import { cancelOpenBookingModifications } from '@/app/lib/booking-modifications';
+import { releaseDeposit } from '@/app/lib/deposits';
+
+/**
+ * Cancelled bookings
+ *
+ * transitionBookingStatus only changes the status. Whoever cancels a booking
+ * (the customer, an admin, the webhooks) then calls closeCancelledBooking so
+ * nothing can still be paid for it: the booking's own checkout or payment
+ * link is expired, open date changes are closed and a held security deposit
+ * is released. Refunds stay with the
+ * caller, since only the customer cancellation applies the refund policy.
+ */
+
+/**
+ * Stop anything still payable or held on a booking that was just cancelled.
+ * Each step is attempted on its own so one Stripe failure doesn't skip the rest.
+ */
+export async function closeCancelledBooking(bookingId: string) {
+  const booking = await prisma.booking.findUnique({ where: { id: bookingId } });
+
+  if (!booking || booking.status !== 'cancelled') {
+    return;
+  }
+
+  if (booking.stripeSessionId) {
+    try {
+      const checkoutSession = await stripe.checkout.sessions.retrieve(booking.stripeSessionId);
+      if (checkoutSession.status === 'open') {
+        await stripe.checkout.sessions.expire(booking.stripeSessionId);
+      }
+    } catch (error) {
+      console.error(`Error expiring checkout for cancelled booking ${booking.id}:`, error);
+    }
+  }
+
+  try {
+    await cancelOpenBookingModifications(booking.id);
+  } catch (error) {
+    console.error(`Error closing modifications for cancelled booking ${booking.id}:`, error);
+  }
+
+  // Nothing left to hold a security deposit against
+  if (booking.depositStatus === 'held') {
+    try {
+      await releaseDeposit(booking.id);
+    } catch (error) {
+      console.error(`Error releasing security deposit for cancelled booking ${booking.id}:`, error);
+    }
+  }
+}
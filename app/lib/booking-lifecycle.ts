@@ -0,0 +1,106 @@
+import prisma from '@/app/lib/prisma';
+import { Prisma } from '@prisma/client';
+import { BookingStatus, canTransitionBookingStatus, formatBookingStatus } from '@/app/lib/booking-status';
+
+/**
+ * Booking status writes
+ *
+ * Every status change after creation goes through transitionBookingStatus so
+ * illegal moves are rejected and each change is recorded in BookingStatusChange.
+ * A booking only becomes active once the renter has signed the rental agreement.
+ */
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+// Thrown when a status change isn't allowed from the booking's current status
+export class BookingStatusTransitionError extends Error {
+  from: BookingStatus;
+  to: BookingStatus;
+
+  constructor(from: BookingStatus, to: BookingStatus) {
+    super(`Cannot change booking status from ${formatBookingStatus(from)} to ${formatBookingStatus(to)}`);
+    this.name = 'BookingStatusTransitionError';
+    this.from = from;
+    this.to = to;
+  }
+}
+
+// Thrown when a rental is started before the renter has signed the rental agreement
+export class AgreementNotSignedError extends Error {
+  constructor() {
+    super('The renter must sign the rental agreement before the rental can start');
+    this.name = 'AgreementNotSignedError';
+  }
+}
+
+export interface TransitionOptions {
+  // User responsible for the change; omitted for system changes (webhooks, sweeper)
+  changedById?: string;
+  note?: string;
+  // Only transition if the booking is still in this status; otherwise returns null
+  fromStatus?: BookingStatus;
+  // Run inside an existing transaction
+  db?: Prisma.TransactionClient;
+}
+
+/**
+ * Move a booking to a new status and record the change.
+ * Returns the updated booking, or null if it doesn't exist or no longer has
+ * options.fromStatus. Moving to the current status is a no-op.
+ */
+export async function transitionBookingStatus(
+  bookingId: string,
+  toStatus: BookingStatus,
+  options: TransitionOptions = {}
+) {
+  const run = async (db: DbClient) => {
+    const booking = await db.booking.findUnique({ where: { id: bookingId } });
+
+    if (!booking || (options.fromStatus && booking.status !== options.fromStatus)) {
+      return null;
+    }
+
+    if (booking.status === toStatus) {
+      return booking;
+    }
+
+    if (!canTransitionBookingStatus(booking.status, toStatus)) {
+      throw new BookingStatusTransitionError(booking.status, toStatus);
+    }
+
+    if (toStatus === 'active') {
+      const agreement = await db.rentalAgreement.findUnique({
+        where: { bookingId },
+        select: { signedAt: true }
+      });
+
+      if (!agreement?.signedAt) {
+        throw new AgreementNotSignedError();
+      }
+    }
+
+    // Guard on the status we validated against in case it changed underneath us
+    const { count } = await db.booking.updateMany({
+      where: { id: bookingId, status: booking.status },
+      data: { status: toStatus }
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    await db.bookingStatusChange.create({
+      data: {
+        bookingId,
+        fromStatus: booking.status,
+        toStatus,
+        note: options.note,
+        changedById: options.changedById
+      }
+    });
+
+    return { ...booking, status: toStatus };
+  };
+
+  return options.db ? run(options.db) : prisma.$transaction(run);
+}
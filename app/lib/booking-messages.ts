@@ -0,0 +1,18 @@
+import prisma from '@/app/lib/prisma';
+import { Booking } from '@prisma/client';
+
+/**
+ * Post a message from the team to a booking's thread.
+ * Used for automatic updates (payments, refunds, date changes) so the customer
+ * and the admins see them alongside the conversation in ChatInterface.
+ */
+export async function postBookingMessage(booking: Pick<Booking, 'id' | 'userId'>, content: string) {
+  return prisma.message.create({
+    data: {
+      content,
+      bookingId: booking.id,
+      userId: booking.userId,
+      isAdminMessage: true
+    }
+  });
+}
@@ -0,0 +1,572 @@
+import prisma from '@/app/lib/prisma';
+import { Booking, BookingModification, BookingModificationType, Vehicle } from '@prisma/client';
+import { addDays, differenceInCalendarDays, format } from 'date-fns';
+import stripe, { getCheckoutPaymentIntentId } from '@/app/lib/stripe';
+import { Quote, calculatePromoDiscount, calculateTaxes } from '@/app/lib/pricing';
+import { assertRentalLength, quoteVehicle } from '@/app/lib/quote';
+import { BookingConflictError, createBookingIfAvailable, holdExpiryFromNow } from '@/app/lib/availability';
+import { postBookingMessage } from '@/app/lib/booking-messages';
+import { recordRefundEntry, refundBookingPayments } from '@/app/lib/payments';
+import { AddOnError, assertBookingAddOnInventory, repriceBookingAddOns } from '@/app/lib/add-ons';
+import { repriceBookingFees } from '@/app/lib/fees';
+import { formatMoney } from '@/app/lib/currency';
+
+/**
+ * Booking modifications
+ *
+ * Date changes (and trip extensions) keep the original booking, its id and its
+ * message thread. Each request is stored as a BookingModification: cheaper or
+ * equal changes are applied straight away and the surplus refunded; more
+ * expensive ones wait for a Stripe checkout for the difference and are applied
+ * by the webhook once paid.
+ *
+ * A promo code used at booking is re-applied to the new dates of a date change;
+ * extensions keep the original discount and pay full price for the added days.
+ * Per-day add-ons, fees and the protection plan are charged for the new number
+ * of days at the price they were booked at, and tax is recalculated at the
+ * rates the booking was made with.
+ *
+ * Extensions of active rentals only price the added days. When
+ * EXTENSION_AUTO_APPROVE is "false" a paid extension waits for an admin to
+ * approve it (applied) or decline it (refunded).
+ */
+
+type BookingWithVehicle = Booking & { vehicle: Vehicle };
+
+// Thrown when the booking already has a date change or extension waiting for payment or approval
+export class ModificationPendingError extends Error {
+  constructor(message = 'This booking already has a change waiting for payment or approval') {
+    super(message);
+    this.name = 'ModificationPendingError';
+  }
+}
+
+// Thrown inside the apply transaction when the booking no longer matches what the modification was priced against
+class BookingChangedError extends Error {
+  constructor() {
+    super('The booking changed after this modification was requested');
+    this.name = 'BookingChangedError';
+  }
+}
+
+// Outcome of applying a modification
+export interface ModificationResult {
+  modification: BookingModification;
+  applied: boolean;
+  refundId?: string;
+}
+
+const MODIFICATION_LABELS: Record<BookingModificationType, string> = {
+  date_change: 'Date change',
+  extension: 'Trip extension'
+};
+
+// Format a date range the way booking messages show it
+function formatRange(start: Date, end: Date) {
+  return `${format(start, 'MMM d')} - ${format(end, 'MMM d, yyyy')}`;
+}
+
+// Whether paid extensions are applied without an admin approving them
+export function isExtensionAutoApproved(): boolean {
+  return process.env.EXTENSION_AUTO_APPROVE !== 'false';
+}
+
+/**
+ * Price the requested dates.
+ * Date changes reprice the whole stay; extensions only quote the added days so
+ * the days already paid for keep their price (the added days still get the
+ * length-of-stay discount for the whole trip). Throws RentalLengthError when
+ * the new stay is shorter or longer than the vehicle allows.
+ * Add-ons, fees and protection keep their booked price; per-day ones follow the number of days.
+ */
+export async function quoteModification(
+  booking: BookingWithVehicle,
+  type: BookingModificationType,
+  start: Date,
+  end: Date
+): Promise<{
+  quote: Quote;
+  totalPrice: number;
+  priceDifference: number;
+  discountAmount: number;
+  taxAmount: number;
+}> {
+  const stayLength = differenceInCalendarDays(end, type === 'extension' ? booking.startDate : start) + 1;
+  assertRentalLength(booking.vehicle, stayLength);
+
+  const addOns = await prisma.bookingAddOn.findMany({ where: { bookingId: booking.id } });
+  const fees = await prisma.bookingFee.findMany({ where: { bookingId: booking.id } });
+  const taxes = await prisma.bookingTax.findMany({ where: { bookingId: booking.id } });
+  const extrasTotal = (days: number) =>
+    repriceBookingAddOns(addOns, days).reduce((sum, addOn) => sum + addOn.amount, 0) +
+    repriceBookingFees(fees, days).reduce((sum, fee) => sum + fee.amount, 0) +
+    booking.protectionPerDay * days;
+  // Tax on a new taxable amount at the booking's rates
+  const taxTotal = (taxableAmount: number) =>
+    calculateTaxes(taxes, taxableAmount).reduce((sum, tax) => sum + tax.amount, 0);
+
+  if (type === 'extension') {
+    const quote = await quoteVehicle(booking.vehicle, addDays(booking.endDate, 1), end, { stayLength });
+    // Only per-day add-ons, fees and protection cost more for the added days
+    const addedDays = differenceInCalendarDays(end, booking.endDate);
+    const extrasDifference = extrasTotal(stayLength) - extrasTotal(stayLength - addedDays);
+    const taxableAmount = booking.totalPrice - taxes.reduce((sum, tax) => sum + tax.amount, 0) +
+      quote.totalPrice + extrasDifference;
+    const taxAmount = taxTotal(taxableAmount);
+    const totalPrice = taxableAmount + taxAmount;
+
+    return {
+      quote,
+      totalPrice,
+      priceDifference: totalPrice - booking.totalPrice,
+      discountAmount: booking.discountAmount,
+      taxAmount
+    };
+  }
+
+  const quote = await quoteVehicle(booking.vehicle, start, end);
+
+  // The code was valid when booked, so only its discount is recalculated
+  const promoCode = booking.promoCodeId
+    ? await prisma.promoCode.findUnique({ where: { id: booking.promoCodeId } })
+    : null;
+  const discountAmount = promoCode ? calculatePromoDiscount(promoCode, quote.totalPrice) : 0;
+  const taxableAmount = quote.totalPrice - discountAmount + extrasTotal(quote.days);
+  const taxAmount = taxTotal(taxableAmount);
+  const totalPrice = taxableAmount + taxAmount;
+
+  return {
+    quote,
+    totalPrice,
+    priceDifference: totalPrice - booking.totalPrice,
+    discountAmount,
+    taxAmount
+  };
+}
+
+// Refund what the customer paid through a modification's checkout; returns the Stripe refund id
+async function refundModificationPayment(stripeSessionId: string, amount: number, idempotencyKey: string) {
+  const paymentIntentId = await getCheckoutPaymentIntentId(stripeSessionId);
+
+  if (!paymentIntentId) {
+    return null;
+  }
+
+  const refund = await stripe.refunds.create({
+    payment_intent: paymentIntentId,
+    amount
+  }, { idempotencyKey });
+
+  await recordRefundEntry(refund);
+
+  return refund.id;
+}
+
+/**
+ * Throw a ModificationPendingError if the booking has an open modification.
+ * A checkout that lapsed without its expiry webhook arriving doesn't count and
+ * is marked expired here.
+ */
+async function assertNoOpenModification(bookingId: string) {
+  const open = await prisma.bookingModification.findMany({
+    where: { bookingId, status: { in: ['pending_payment', 'pending_approval'] } }
+  });
+
+  for (const modification of open) {
+    if (modification.status === 'pending_payment' && modification.stripeSessionId) {
+      const checkoutSession = await stripe.checkout.sessions.retrieve(modification.stripeSessionId);
+      if (checkoutSession.status === 'expired') {
+        await expireBookingModification(modification.id);
+        continue;
+      }
+    }
+
+    throw new ModificationPendingError();
+  }
+}
+
+/**
+ * Record a requested change of dates.
+ * Returns the modification together with the Stripe checkout URL when the
+ * customer owes more; otherwise the change is applied immediately. Throws
+ * ModificationPendingError while another change to the booking is open, and
+ * AddOnError when one of its add-ons is sold out for the new dates.
+ */
+export async function requestBookingModification(
+  booking: BookingWithVehicle,
+  type: BookingModificationType,
+  start: Date,
+  end: Date,
+  options: { requestedById?: string; customerEmail?: string | null } = {}
+): Promise<ModificationResult & { checkoutUrl?: string }> {
+  await assertNoOpenModification(booking.id);
+  // Limited add-ons such as child seats have to be free for the new dates too
+  await assertBookingAddOnInventory(booking.id, start, end);
+
+  const { totalPrice, priceDifference, discountAmount, taxAmount } = await quoteModification(booking, type, start, end);
+
+  const modification = await prisma.bookingModification.create({
+    data: {
+      bookingId: booking.id,
+      type,
+      status: 'pending_payment',
+      previousStartDate: booking.startDate,
+      previousEndDate: booking.endDate,
+      previousTotalPrice: booking.totalPrice,
+      startDate: start,
+      endDate: end,
+      totalPrice,
+      priceDifference,
+      discountAmount,
+      taxAmount,
+      requestedById: options.requestedById
+    }
+  });
+
+  // Nothing more to pay, so skip checkout
+  if (priceDifference <= 0) {
+    return completeModificationPayment(modification.id);
+  }
+
+  const checkoutSession = await stripe.checkout.sessions.create({
+    payment_method_types: ['card'],
+    line_items: [{
+      price_data: {
+        currency: booking.currency,
+        product_data: {
+          name: `Tesla ${booking.vehicle.model} Rental - ${MODIFICATION_LABELS[type]}`,
+          description: `New dates ${formatRange(start, end)} (was ${formatRange(booking.startDate, booking.endDate)})`,
+        },
+        unit_amount: priceDifference,
+        tax_behavior: 'exclusive',
+      },
+      quantity: 1,
+    }],
+    mode: 'payment',
+    success_url: `${process.env.NEXTAUTH_URL}/bookings/${booking.id}`,
+    cancel_url: `${process.env.NEXTAUTH_URL}/bookings/${booking.id}`,
+    metadata: {
+      bookingId: booking.id,
+      modificationId: modification.id,
+      userId: booking.userId,
+    },
+    // Lets payment and charge events find the booking
+    payment_intent_data: {
+      metadata: { bookingId: booking.id, modificationId: modification.id },
+    },
+    customer_email: options.customerEmail || undefined,
+    expires_at: Math.floor(holdExpiryFromNow().getTime() / 1000),
+  });
+
+  const updated = await prisma.bookingModification.update({
+    where: { id: modification.id },
+    data: { stripeSessionId: checkoutSession.id }
+  });
+
+  return { modification: updated, applied: false, checkoutUrl: checkoutSession.url || undefined };
+}
+
+/**
+ * Move the booking to the modification's dates and price.
+ * Availability and add-on inventory are checked again at this point, and the
+ * booking must still be confirmed or active with the dates and total the
+ * change was priced against.
+ * Otherwise the modification fails and any payment for it is refunded.
+ */
+export async function applyBookingModification(modificationId: string): Promise<ModificationResult> {
+  const modification = await prisma.bookingModification.findUnique({
+    where: { id: modificationId },
+    include: { booking: { include: { vehicle: true } } }
+  });
+
+  if (!modification) {
+    throw new Error(`Booking modification ${modificationId} not found`);
+  }
+
+  const { booking, ...record } = modification;
+
+  if (record.status !== 'pending_payment' && record.status !== 'pending_approval') {
+    return { modification: record, applied: record.status === 'applied' };
+  }
+
+  const label = MODIFICATION_LABELS[record.type];
+
+  try {
+    const applied = await createBookingIfAvailable(booking.vehicleId, record.startDate, record.endDate, async (tx) => {
+      // Claim the modification first so a repeated webhook can't apply it twice
+      const { count } = await tx.bookingModification.updateMany({
+        where: { id: record.id, status: record.status },
+        data: { status: 'applied' }
+      });
+
+      if (count === 0) {
+        return false;
+      }
+
+      await assertBookingAddOnInventory(booking.id, record.startDate, record.endDate, tx);
+
+      // Per-day add-ons and protection now cover the new number of days
+      const days = differenceInCalendarDays(record.endDate, record.startDate) + 1;
+
+      // The price difference only holds for the booking as it was when the change was requested
+      const updated = await tx.booking.updateMany({
+        where: {
+          id: booking.id,
+          status: { in: ['confirmed', 'active'] },
+          startDate: record.previousStartDate,
+          endDate: record.previousEndDate,
+          totalPrice: record.previousTotalPrice
+        },
+        data: {
+          startDate: record.startDate,
+          endDate: record.endDate,
+          totalPrice: record.totalPrice,
+          discountAmount: record.discountAmount,
+          protectionAmount: booking.protectionPerDay * days
+        }
+      });
+
+      if (updated.count === 0) {
+        throw new BookingChangedError();
+      }
+
+      const addOns = await tx.bookingAddOn.findMany({ where: { bookingId: booking.id, priceType: 'per_day' } });
+      for (const addOn of repriceBookingAddOns(addOns, days)) {
+        await tx.bookingAddOn.update({ where: { id: addOn.id }, data: { amount: addOn.amount } });
+      }
+
+      const fees = await tx.bookingFee.findMany({ where: { bookingId: booking.id, priceType: 'per_day' } });
+      for (const fee of repriceBookingFees(fees, days)) {
+        await tx.bookingFee.update({ where: { id: fee.id }, data: { amount: fee.amount } });
+      }
+
+      // Tax lines follow the new total, at the rates the booking was made with
+      const taxes = await tx.bookingTax.findMany({ where: { bookingId: booking.id } });
+      for (const tax of calculateTaxes(taxes, record.totalPrice - record.taxAmount)) {
+        await tx.bookingTax.update({
+          where: { id: tax.id },
+          data: { taxableAmount: tax.taxableAmount, amount: tax.amount }
+        });
+      }
+
+      return true;
+    }, { excludeBookingId: booking.id });
+
+    if (!applied) {
+      const current = await prisma.bookingModification.findUniqueOrThrow({ where: { id: record.id } });
+      return { modification: current, applied: current.status === 'applied' };
+    }
+
+    // Give back the difference when the new dates cost less; whatever can't go
+    // back to a card payment (e.g. an admin-created booking paid offline) is
+    // left for staff to refund manually
+    let refundId: string | undefined;
+    let refundFailed = false;
+    if (record.priceDifference < 0) {
+      try {
+        // The booking may have been paid over several payments, so refund across all of them
+        const { refunds, unrefunded } = await refundBookingPayments(booking.id, -record.priceDifference, {
+          idempotencyKey: `booking-modification-${record.id}`,
+          reason: 'booking_modification'
+        });
+        refundId = refunds[0]?.id;
+        refundFailed = unrefunded > 0;
+      } catch (error) {
+        console.error('Error refunding booking modification:', error);
+        refundFailed = true;
+      }
+
+      if (refundId) {
+        await prisma.bookingModification.update({
+          where: { id: record.id },
+          data: { stripeRefundId: refundId }
+        });
+      }
+    }
+
+    const priceNote = record.priceDifference > 0
+      ? `The additional ${formatMoney(record.priceDifference, booking.currency)} has been paid.`
+      : record.priceDifference < 0
+        ? `${formatMoney(-record.priceDifference, booking.currency)} ${refundFailed ? 'will be refunded manually' : 'has been refunded to the original payment method'}.`
+        : 'The price is unchanged.';
+
+    await postBookingMessage(
+      booking,
+      `${label} applied: your ${booking.vehicle.model} booking now runs ${formatRange(record.startDate, record.endDate)} (was ${formatRange(record.previousStartDate, record.previousEndDate)}). New total: ${formatMoney(record.totalPrice, booking.currency)}. ${priceNote}`
+    );
+
+    return {
+      modification: { ...record, status: 'applied', stripeRefundId: refundId || null },
+      applied: true,
+      refundId
+    };
+  } catch (error) {
+    if (!(error instanceof BookingConflictError) && !(error instanceof BookingChangedError) && !(error instanceof AddOnError)) {
+      throw error;
+    }
+
+    // The dates were taken or the booking changed before we could apply the change; return any payment for it
+    let refundId: string | undefined;
+    if (record.stripeSessionId && record.priceDifference > 0) {
+      try {
+        refundId = await refundModificationPayment(
+          record.stripeSessionId,
+          record.priceDifference,
+          `booking-modification-failed-${record.id}`
+        ) || undefined;
+      } catch (refundError) {
+        console.error('Error refunding failed booking modification:', refundError);
+      }
+    }
+
+    const failed = await prisma.bookingModification.update({
+      where: { id: record.id },
+      data: { status: 'failed', stripeRefundId: refundId }
+    });
+
+    const failureReason = error instanceof BookingChangedError
+      ? 'your booking has changed since it was requested'
+      : error instanceof AddOnError
+        ? error.message
+        : 'the vehicle is no longer available';
+
+    await postBookingMessage(
+      booking,
+      `${label} to ${formatRange(record.startDate, record.endDate)} could not be applied because ${failureReason}. Your booking keeps its original dates${record.stripeSessionId ? ` and the ${formatMoney(record.priceDifference, booking.currency)} paid for the change ${refundId ? 'has been refunded' : 'will be refunded manually'}` : ''}.`
+    );
+
+    return { modification: failed, applied: false, refundId };
+  }
+}
+
+/**
+ * Called once the difference is paid (or nothing was owed).
+ * Applies the change, or queues an extension for admin approval when
+ * auto-approval is disabled.
+ */
+export async function completeModificationPayment(modificationId: string): Promise<ModificationResult> {
+  const modification = await prisma.bookingModification.findUnique({
+    where: { id: modificationId },
+    include: { booking: { include: { vehicle: true } } }
+  });
+
+  if (!modification) {
+    throw new Error(`Booking modification ${modificationId} not found`);
+  }
+
+  if (modification.type !== 'extension' || isExtensionAutoApproved()) {
+    return applyBookingModification(modificationId);
+  }
+
+  const { booking, ...record } = modification;
+  const { count } = await prisma.bookingModification.updateMany({
+    where: { id: record.id, status: 'pending_payment' },
+    data: { status: 'pending_approval' }
+  });
+
+  if (count > 0) {
+    await postBookingMessage(
+      booking,
+      `We've received your request to extend your ${booking.vehicle.model} rental until ${format(record.endDate, 'MMM d, yyyy')}. Our team will confirm it shortly.`
+    );
+  }
+
+  return {
+    modification: { ...record, status: count > 0 ? 'pending_approval' : record.status },
+    applied: false
+  };
+}
+
+/**
+ * Turn down a modification waiting for approval and refund what was paid for it.
+ */
+export async function declineBookingModification(modificationId: string, reason?: string): Promise<BookingModification | null> {
+  const modification = await prisma.bookingModification.findUnique({
+    where: { id: modificationId },
+    include: { booking: { include: { vehicle: true } } }
+  });
+
+  if (!modification) {
+    return null;
+  }
+
+  const { booking, ...record } = modification;
+  const { count } = await prisma.bookingModification.updateMany({
+    where: { id: record.id, status: 'pending_approval' },
+    data: { status: 'declined' }
+  });
+
+  if (count === 0) {
+    return null;
+  }
+
+  let refundId: string | undefined;
+  if (record.stripeSessionId && record.priceDifference > 0) {
+    try {
+      refundId = await refundModificationPayment(
+        record.stripeSessionId,
+        record.priceDifference,
+        `booking-modification-declined-${record.id}`
+      ) || undefined;
+    } catch (error) {
+      console.error('Error refunding declined booking modification:', error);
+    }
+  }
+
+  const declined = await prisma.bookingModification.update({
+    where: { id: record.id },
+    data: { stripeRefundId: refundId }
+  });
+
+  const refundNote = record.stripeSessionId && record.priceDifference > 0
+    ? ` The ${formatMoney(record.priceDifference, booking.currency)} you paid ${refundId ? 'has been refunded' : 'will be refunded manually'}.`
+    : '';
+
+  await postBookingMessage(
+    booking,
+    `Sorry, we couldn't approve your ${MODIFICATION_LABELS[record.type].toLowerCase()} to ${formatRange(record.startDate, record.endDate)}.${reason ? ` ${reason}` : ''}${refundNote}`
+  );
+
+  return declined;
+}
+
+// Give up on a modification whose checkout lapsed or whose payment failed
+export async function expireBookingModification(modificationId: string, status: 'expired' | 'failed' = 'expired') {
+  await prisma.bookingModification.updateMany({
+    where: { id: modificationId, status: 'pending_payment' },
+    data: { status }
+  });
+}
+
+/**
+ * Close the booking's open modifications when it is cancelled, so a change
+ * can't be paid for or applied afterwards. Unpaid checkouts are expired;
+ * extensions already paid and waiting for approval are declined and refunded.
+ */
+export async function cancelOpenBookingModifications(bookingId: string) {
+  const open = await prisma.bookingModification.findMany({
+    where: { bookingId, status: { in: ['pending_payment', 'pending_approval'] } }
+  });
+
+  for (const modification of open) {
+    if (modification.status === 'pending_approval') {
+      await declineBookingModification(modification.id, 'The booking was cancelled.');
+      continue;
+    }
+
+    if (modification.stripeSessionId) {
+      const checkoutSession = await stripe.checkout.sessions.retrieve(modification.stripeSessionId);
+
+      // Paid just before the cancellation: its webhook finds the booking cancelled and refunds it
+      if (checkoutSession.status === 'complete') {
+        continue;
+      }
+
+      if (checkoutSession.status === 'open') {
+        await stripe.checkout.sessions.expire(modification.stripeSessionId);
+      }
+    }
+
+    await expireBookingModification(modification.id);
+  }
+}
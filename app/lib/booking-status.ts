@@ -0,0 +1,67 @@
+import type { BookingStatus } from '@prisma/client';
+
+/**
+ * Booking lifecycle
+ *
+ * pending → confirmed → active → completed, with cancelled, no_show and
+ * refunded as side exits. The transition table is the only place that decides
+ * which moves are legal. No database access so admin pages can use it to
+ * offer only the valid next statuses; writes go through app/lib/booking-lifecycle.ts.
+ */
+
+export type { BookingStatus };
+
+export const BOOKING_STATUSES: BookingStatus[] = [
+  'pending',
+  'confirmed',
+  'active',
+  'completed',
+  'cancelled',
+  'no_show',
+  'refunded'
+];
+
+// Human readable status names
+export const BOOKING_STATUS_LABELS: Record<BookingStatus, string> = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  active: 'Active',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  no_show: 'No-show',
+  refunded: 'Refunded'
+};
+
+// Statuses each status may move to
+export const BOOKING_STATUS_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['active', 'cancelled', 'no_show', 'refunded'],
+  active: ['completed'],
+  completed: ['refunded'],
+  cancelled: ['refunded'],
+  no_show: ['refunded'],
+  refunded: []
+};
+
+// Statuses a booking may be created with
+export const INITIAL_BOOKING_STATUSES: BookingStatus[] = ['pending', 'confirmed'];
+
+// Check if a value is a known booking status
+export function isBookingStatus(value: unknown): value is BookingStatus {
+  return typeof value === 'string' && (BOOKING_STATUSES as string[]).includes(value);
+}
+
+// Get the statuses a booking can move to from its current status
+export function getNextBookingStatuses(status: string): BookingStatus[] {
+  return isBookingStatus(status) ? BOOKING_STATUS_TRANSITIONS[status] : [];
+}
+
+// Check if moving from one status to another is allowed
+export function canTransitionBookingStatus(from: string, to: string): boolean {
+  return isBookingStatus(to) && getNextBookingStatuses(from).includes(to);
+}
+
+// Label for a status, falling back to the raw value
+export function formatBookingStatus(status: string): string {
+  return isBookingStatus(status) ? BOOKING_STATUS_LABELS[status] : status;
+}
@@ -0,0 +1,93 @@
+import { Booking } from '@prisma/client';
+import { differenceInHours } from 'date-fns';
+import { canTransitionBookingStatus, formatBookingStatus } from '@/app/lib/booking-status';
+
+/**
+ * Cancellation policy
+ *
+ * Customers get a full refund when they cancel at least fullRefundHours before
+ * pickup, partialRefundPercent of what they paid when cancelling later, and
+ * nothing once the rental has started. Both values can be overridden with the
+ * CANCELLATION_FULL_REFUND_HOURS and CANCELLATION_PARTIAL_REFUND_PERCENT env vars.
+ */
+
+export interface CancellationPolicy {
+  fullRefundHours: number;
+  partialRefundPercent: number;
+}
+
+// What cancelling a booking right now would refund
+export interface CancellationPreview {
+  canCancel: boolean;
+  reason?: string;
+  hoursUntilStart: number;
+  paidAmount: number;
+  refundPercent: number;
+  refundAmount: number;
+  policy: CancellationPolicy;
+}
+
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+  fullRefundHours: 72,
+  partialRefundPercent: 50
+};
+
+// Read a non-negative number from the environment, falling back to a default
+function numberFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export function getCancellationPolicy(): CancellationPolicy {
+  return {
+    fullRefundHours: numberFromEnv('CANCELLATION_FULL_REFUND_HOURS', DEFAULT_CANCELLATION_POLICY.fullRefundHours),
+    partialRefundPercent: Math.min(
+      100,
+      numberFromEnv('CANCELLATION_PARTIAL_REFUND_PERCENT', DEFAULT_CANCELLATION_POLICY.partialRefundPercent)
+    )
+  };
+}
+
+// Share of the payment refunded when cancelling the given number of hours before pickup
+export function getRefundPercent(hoursUntilStart: number, policy: CancellationPolicy): number {
+  if (hoursUntilStart >= policy.fullRefundHours) {
+    return 100;
+  }
+  if (hoursUntilStart > 0) {
+    return policy.partialRefundPercent;
+  }
+  return 0;
+}
+
+/**
+ * Work out what a customer cancellation would refund.
+ * refundableAmount is what is left to refund across the booking's payments
+ * (checkout plus any date change or extension top-ups, less refunds so far).
+ * Only confirmed bookings have anything to refund; unpaid pending bookings can
+ * still be cancelled to release their dates.
+ */
+export function previewCancellation(
+  booking: Pick<Booking, 'status' | 'startDate'>,
+  refundableAmount: number,
+  policy: CancellationPolicy = getCancellationPolicy(),
+  now: Date = new Date()
+): CancellationPreview {
+  const hoursUntilStart = differenceInHours(new Date(booking.startDate), now);
+  const paidAmount = booking.status === 'confirmed' ? refundableAmount : 0;
+  const refundPercent = getRefundPercent(hoursUntilStart, policy);
+
+  const reason = canTransitionBookingStatus(booking.status, 'cancelled')
+    ? undefined
+    : `Bookings that are ${formatBookingStatus(booking.status).toLowerCase()} can't be cancelled`;
+
+  return {
+    canCancel: !reason,
+    reason,
+    hoursUntilStart,
+    paidAmount,
+    refundPercent,
+    // Rounded to the cent
+    refundAmount: Math.round(paidAmount * refundPercent / 100),
+    policy
+  };
+}
@@ -0,0 +1,34 @@
+/**
+ * Currency
+ *
+ * All prices and amounts are stored in minor units (cents) of the
+ * deployment's currency, which NEXT_PUBLIC_CURRENCY sets to an ISO 4217 code
+ * (Canadian dollars by default). Each booking records the currency it was
+ * priced in, so changing the setting later doesn't reprice existing bookings.
+ *
+ * Kept free of server-only imports so pages can format amounts the same way.
+ */
+
+export const DEFAULT_CURRENCY = (process.env.NEXT_PUBLIC_CURRENCY || 'cad').toLowerCase();
+
+const LOCALE = 'en-CA';
+
+// Digits after the decimal point, e.g. 2 for CAD and 0 for JPY
+export function currencyDecimals(currency: string = DEFAULT_CURRENCY): number {
+  return new Intl.NumberFormat(LOCALE, { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+}
+
+// Convert an amount entered in major units (e.g. dollars) to minor units
+export function toMinorUnits(amount: number, currency: string = DEFAULT_CURRENCY): number {
+  return Math.round(amount * 10 ** currencyDecimals(currency));
+}
+
+// Convert a minor-unit amount to major units, e.g. to prefill a form input
+export function fromMinorUnits(amount: number, currency: string = DEFAULT_CURRENCY): number {
+  return amount / 10 ** currencyDecimals(currency);
+}
+
+// Format a minor-unit amount, e.g. 12550 -> "$125.50" and -500 -> "-$5.00"
+export function formatMoney(amount: number, currency: string = DEFAULT_CURRENCY): string {
+  return new Intl.NumberFormat(LOCALE, { style: 'currency', currency }).format(fromMinorUnits(amount, currency));
+}
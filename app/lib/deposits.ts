@@ -0,0 +1,417 @@
+import prisma from '@/app/lib/prisma';
+import Stripe from 'stripe';
+import { Booking } from '@prisma/client';
+import { addHours, subDays } from 'date-fns';
+import stripe from '@/app/lib/stripe';
+import { postBookingMessage } from '@/app/lib/booking-messages';
+import { formatMoney } from '@/app/lib/currency';
+import { DEPOSIT_METADATA_TYPE, stripeId, upsertLedgerEntry } from '@/app/lib/payments';
+
+/**
+ * Security deposits
+ *
+ * Checkout saves the customer's card, and shortly before pickup the vehicle's
+ * deposit is authorized on it with a manual-capture PaymentIntent. After the
+ * return an admin captures some or all of it (one ledger line per item:
+ * damage, tolls, cleaning...) or releases it.
+ *
+ * Card authorizations lapse after about a week, so the cron places holds
+ * DEPOSIT_HOLD_LEAD_HOURS before pickup and re-authorizes any hold that is
+ * DEPOSIT_HOLD_RENEW_DAYS old while the car is still out or waiting for its
+ * return inspection. If Stripe cancels a hold anyway the deposit is marked
+ * released.
+ */
+
+// How long before pickup the deposit is authorized
+export const DEPOSIT_HOLD_LEAD_HOURS = 48;
+
+// Age at which a hold is replaced, safely before the card authorization lapses
+export const DEPOSIT_HOLD_RENEW_DAYS = 6;
+
+// How long after the return a hold is kept alive for the admin to capture it
+export const DEPOSIT_REVIEW_DAYS = 3;
+
+// Thrown when a deposit can't be captured or released in its current state
+export class DepositError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DepositError';
+  }
+}
+
+export interface DepositCaptureItem {
+  description: string;
+  // Minor units
+  amount: number;
+}
+
+export interface DepositSweepResult {
+  placed: string[];
+  renewed: string[];
+  failed: string[];
+}
+
+// Mark the deposit's hold line as no longer holding money
+async function closeDepositHoldEntry(paymentIntentId: string, description: string) {
+  await prisma.ledgerEntry.updateMany({
+    where: { stripeObjectId: paymentIntentId, type: 'deposit_hold' },
+    data: { status: 'cancelled', description }
+  });
+}
+
+// Authorize the deposit off-session on a saved card; throws unless the hold is in place
+async function authorizeDeposit(
+  booking: Booking,
+  card: { customerId: string; paymentMethodId: string },
+  idempotencyKey: string
+) {
+  const hold = await stripe.paymentIntents.create({
+    amount: booking.securityDeposit,
+    currency: booking.currency,
+    customer: card.customerId,
+    payment_method: card.paymentMethodId,
+    capture_method: 'manual',
+    confirm: true,
+    off_session: true,
+    description: `Security deposit for booking ${booking.id.substring(0, 8)}`,
+    metadata: { bookingId: booking.id, type: DEPOSIT_METADATA_TYPE }
+  }, { idempotencyKey });
+
+  if (hold.status !== 'requires_capture') {
+    throw new Error(`Authorization ended as ${hold.status.replace(/_/g, ' ')}`);
+  }
+
+  return hold;
+}
+
+// Add the ledger line for a new hold
+async function recordDepositHoldEntry(booking: Booking, hold: Stripe.PaymentIntent, description: string) {
+  await upsertLedgerEntry({
+    bookingId: booking.id,
+    type: 'deposit_hold',
+    amount: hold.amount,
+    currency: hold.currency,
+    stripePaymentIntentId: hold.id,
+    stripeObjectId: hold.id,
+    description
+  });
+}
+
+/**
+ * Authorize the booking's security deposit on the card used at checkout.
+ * Does nothing if the booking has no deposit, it was already placed, or
+ * pickup is more than DEPOSIT_HOLD_LEAD_HOURS away (the cron places it later).
+ * The checkout session is looked up from the booking unless it is passed in.
+ * A declined authorization is recorded and posted to the booking thread
+ * rather than thrown, so it never blocks confirming the paid booking.
+ * Returns whether the hold was placed.
+ */
+export async function placeDepositHold(
+  bookingId: string,
+  checkoutSession?: Stripe.Checkout.Session,
+  now: Date = new Date()
+): Promise<boolean> {
+  const booking = await prisma.booking.findUnique({ where: { id: bookingId } });
+
+  if (!booking || booking.depositStatus !== 'pending' || booking.securityDeposit <= 0) {
+    return false;
+  }
+
+  if (booking.status !== 'confirmed' && booking.status !== 'active') {
+    return false;
+  }
+
+  // Authorized too early the hold would lapse before the car is returned
+  if (booking.startDate > addHours(now, DEPOSIT_HOLD_LEAD_HOURS)) {
+    return false;
+  }
+
+  const amount = booking.securityDeposit;
+
+  try {
+    const session = checkoutSession
+      ?? (booking.stripeSessionId ? await stripe.checkout.sessions.retrieve(booking.stripeSessionId) : null);
+    const paymentIntentId = stripeId(session?.payment_intent);
+    const paymentIntent = paymentIntentId ? await stripe.paymentIntents.retrieve(paymentIntentId) : null;
+    const customerId = stripeId(paymentIntent?.customer) || stripeId(session?.customer);
+    const paymentMethodId = stripeId(paymentIntent?.payment_method);
+
+    if (!customerId || !paymentMethodId) {
+      throw new Error('No saved card to authorize the deposit on');
+    }
+
+    const hold = await authorizeDeposit(booking, { customerId, paymentMethodId }, `deposit-hold-${booking.id}`);
+
+    await prisma.booking.update({
+      where: { id: booking.id },
+      data: { depositStatus: 'held', depositPaymentIntentId: hold.id, depositAuthorizedAt: now }
+    });
+
+    await recordDepositHoldEntry(booking, hold, 'Security deposit authorized');
+
+    await postBookingMessage(
+      booking,
+      `Payment update: a refundable security deposit of ${formatMoney(amount, booking.currency)} has been authorized on your card. It is only charged for damage, tolls or cleaning after your trip.`
+    );
+
+    return true;
+  } catch (error) {
+    console.error(`Error placing security deposit for booking ${booking.id}:`, error);
+
+    await prisma.booking.update({
+      where: { id: booking.id },
+      data: { depositStatus: 'failed' }
+    });
+
+    const reason = error instanceof Error ? error.message : 'unknown error';
+    await postBookingMessage(
+      booking,
+      `Payment update: we couldn't authorize the ${formatMoney(amount, booking.currency)} security deposit on your card (${reason}). Our team will contact you before pickup.`
+    );
+
+    return false;
+  }
+}
+
+/**
+ * Replace a held deposit with a fresh authorization on the same card before
+ * the old one lapses. The old hold is only cancelled once the new one is in
+ * place; if the new one is declined the old hold is kept and the error thrown.
+ */
+export async function renewDepositHold(bookingId: string, now: Date = new Date()) {
+  const booking = await prisma.booking.findUnique({ where: { id: bookingId } });
+
+  if (!booking || booking.depositStatus !== 'held' || !booking.depositPaymentIntentId) {
+    return;
+  }
+
+  const previousHoldId = booking.depositPaymentIntentId;
+  const previousHold = await stripe.paymentIntents.retrieve(previousHoldId);
+  const customerId = stripeId(previousHold.customer);
+  const paymentMethodId = stripeId(previousHold.payment_method);
+
+  if (!customerId || !paymentMethodId) {
+    throw new Error('No saved card to re-authorize the deposit on');
+  }
+
+  const hold = await authorizeDeposit(booking, { customerId, paymentMethodId }, `deposit-renew-${previousHoldId}`);
+
+  // Swap the hold only if it wasn't captured or released in the meantime
+  const swapped = await prisma.booking.updateMany({
+    where: { id: booking.id, depositStatus: 'held', depositPaymentIntentId: previousHoldId },
+    data: { depositPaymentIntentId: hold.id, depositAuthorizedAt: now }
+  });
+
+  if (swapped.count === 0) {
+    await stripe.paymentIntents.cancel(hold.id);
+    return;
+  }
+
+  await recordDepositHoldEntry(booking, hold, 'Security deposit re-authorized');
+
+  // The booking no longer points at the old hold, so its cancellation webhook is ignored
+  await stripe.paymentIntents.cancel(previousHoldId);
+  await closeDepositHoldEntry(previousHoldId, 'Security deposit hold replaced by a new authorization');
+}
+
+/**
+ * Scheduled deposit upkeep: authorize deposits whose pickup is near and
+ * renew holds before they lapse while the rental is running or its return
+ * is being inspected.
+ */
+export async function sweepDepositHolds(now: Date = new Date()): Promise<DepositSweepResult> {
+  const result: DepositSweepResult = { placed: [], renewed: [], failed: [] };
+
+  const due = await prisma.booking.findMany({
+    where: {
+      status: { in: ['confirmed', 'active'] },
+      depositStatus: 'pending',
+      securityDeposit: { gt: 0 },
+      startDate: { lte: addHours(now, DEPOSIT_HOLD_LEAD_HOURS) }
+    },
+    select: { id: true }
+  });
+
+  for (const booking of due) {
+    try {
+      if (await placeDepositHold(booking.id, undefined, now)) {
+        result.placed.push(booking.id);
+      } else {
+        result.failed.push(booking.id);
+      }
+    } catch (error) {
+      console.error(`Error placing security deposit for booking ${booking.id}:`, error);
+      result.failed.push(booking.id);
+    }
+  }
+
+  const ageing = await prisma.booking.findMany({
+    where: {
+      depositStatus: 'held',
+      depositAuthorizedAt: { lte: subDays(now, DEPOSIT_HOLD_RENEW_DAYS) },
+      OR: [
+        { status: { in: ['confirmed', 'active'] } },
+        { status: 'completed', endDate: { gte: subDays(now, DEPOSIT_REVIEW_DAYS) } }
+      ]
+    },
+    select: { id: true }
+  });
+
+  for (const booking of ageing) {
+    try {
+      await renewDepositHold(booking.id, now);
+      result.renewed.push(booking.id);
+    } catch (error) {
+      console.error(`Error renewing security deposit for booking ${booking.id}:`, error);
+      result.failed.push(booking.id);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Charge part or all of a held deposit.
+ * Stripe captures once per authorization, so all items are captured together
+ * and the rest of the hold is released.
+ */
+export async function captureDeposit(
+  bookingId: string,
+  items: DepositCaptureItem[],
+  options: { capturedById?: string } = {}
+) {
+  const booking = await prisma.booking.findUnique({ where: { id: bookingId } });
+
+  if (!booking) {
+    throw new DepositError('Booking not found');
+  }
+
+  if (booking.depositStatus !== 'held' || !booking.depositPaymentIntentId) {
+    throw new DepositError('There is no security deposit hold to capture');
+  }
+
+  const total = items.reduce((sum, item) => sum + item.amount, 0);
+  const held = booking.securityDeposit;
+
+  if (items.length === 0 || items.some(item => item.amount <= 0) || total > held) {
+    throw new DepositError(`Capture between ${formatMoney(1, booking.currency)} and ${formatMoney(held, booking.currency)} in total`);
+  }
+
+  // Claim the hold so a double submit can't capture it twice
+  const claimed = await prisma.booking.updateMany({
+    where: { id: booking.id, depositStatus: 'held' },
+    data: { depositStatus: 'captured' }
+  });
+
+  if (claimed.count === 0) {
+    throw new DepositError('The security deposit was already captured or released');
+  }
+
+  let paymentIntent: Stripe.PaymentIntent;
+  try {
+    paymentIntent = await stripe.paymentIntents.capture(booking.depositPaymentIntentId, {
+      amount_to_capture: total
+    });
+  } catch (error) {
+    await prisma.booking.update({
+      where: { id: booking.id },
+      data: { depositStatus: 'held' }
+    });
+    throw error;
+  }
+
+  await prisma.ledgerEntry.createMany({
+    data: items.map(item => ({
+      bookingId: booking.id,
+      type: 'deposit_capture' as const,
+      amount: item.amount,
+      currency: paymentIntent.currency,
+      stripePaymentIntentId: paymentIntent.id,
+      description: item.description,
+      createdById: options.capturedById
+    }))
+  });
+
+  await closeDepositHoldEntry(
+    paymentIntent.id,
+    total < held
+      ? `Security deposit: ${formatMoney(total, booking.currency)} captured, ${formatMoney(held - total, booking.currency)} released`
+      : 'Security deposit captured in full'
+  );
+
+  const itemList = items.map(item => `${item.description} (${formatMoney(item.amount, booking.currency)})`).join(', ');
+  await postBookingMessage(
+    booking,
+    `Payment update: ${formatMoney(total, booking.currency)} of your security deposit has been charged for: ${itemList}.` +
+      (total < held ? ` The remaining ${formatMoney(held - total, booking.currency)} hold has been released.` : '')
+  );
+}
+
+// Cancel a held deposit so nothing is charged
+export async function releaseDeposit(bookingId: string) {
+  const booking = await prisma.booking.findUnique({ where: { id: bookingId } });
+
+  if (!booking) {
+    throw new DepositError('Booking not found');
+  }
+
+  if (booking.depositStatus !== 'held' || !booking.depositPaymentIntentId) {
+    throw new DepositError('There is no security deposit hold to release');
+  }
+
+  const claimed = await prisma.booking.updateMany({
+    where: { id: booking.id, depositStatus: 'held' },
+    data: { depositStatus: 'released' }
+  });
+
+  if (claimed.count === 0) {
+    throw new DepositError('The security deposit was already captured or released');
+  }
+
+  try {
+    await stripe.paymentIntents.cancel(booking.depositPaymentIntentId);
+  } catch (error) {
+    await prisma.booking.update({
+      where: { id: booking.id },
+      data: { depositStatus: 'held' }
+    });
+    throw error;
+  }
+
+  await closeDepositHoldEntry(booking.depositPaymentIntentId, 'Security deposit released');
+
+  await postBookingMessage(
+    booking,
+    `Payment update: your ${formatMoney(booking.securityDeposit, booking.currency)} security deposit hold has been released. Nothing was charged.`
+  );
+}
+
+/**
+ * A deposit PaymentIntent was cancelled in Stripe, usually because the
+ * authorization expired. Releases made through releaseDeposit are already
+ * marked and skipped here.
+ */
+export async function handleDepositCanceled(paymentIntent: Stripe.PaymentIntent) {
+  const booking = await prisma.booking.findUnique({
+    where: { depositPaymentIntentId: paymentIntent.id }
+  });
+
+  if (!booking || booking.depositStatus !== 'held') {
+    return;
+  }
+
+  await prisma.booking.update({
+    where: { id: booking.id },
+    data: { depositStatus: 'released' }
+  });
+
+  await closeDepositHoldEntry(
+    paymentIntent.id,
+    `Security deposit released (${(paymentIntent.cancellation_reason || 'cancelled in Stripe').replace(/_/g, ' ')})`
+  );
+
+  await postBookingMessage(
+    booking,
+    `Payment update: the ${formatMoney(paymentIntent.amount, paymentIntent.currency)} security deposit hold on your card has ended and was released.`
+  );
+}
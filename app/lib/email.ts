@@ -0,0 +1,48 @@
+/**
+ * Transactional email
+ *
+ * Sent through the Resend HTTP API when RESEND_API_KEY is set. Without it the
+ * email is only logged, so local development works without an email account.
+ */
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Send an email; returns false if it wasn't sent
+export async function sendEmail(message: EmailMessage): Promise<boolean> {
+  const apiKey = process.env.RESEND_API_KEY;
+
+  if (!apiKey) {
+    console.log(`Email (not sent, RESEND_API_KEY missing) to ${message.to}: ${message.subject}\n${message.text}`);
+    return false;
+  }
+
+  try {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        from: process.env.EMAIL_FROM || 'RideReady <bookings@rideready.app>',
+        to: message.to,
+        subject: message.subject,
+        text: message.text
+      })
+    });
+
+    if (!response.ok) {
+      console.error(`Error sending email to ${message.to}:`, await response.text());
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error(`Error sending email to ${message.to}:`, error);
+    return false;
+  }
+}
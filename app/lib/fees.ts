@@ -0,0 +1,171 @@
+import prisma from '@/app/lib/prisma';
+import { Prisma } from '@prisma/client';
+import {
+  FEE_KINDS,
+  FeeKind,
+  calculateFeeAmount,
+  calculateTaxes,
+  feeApplies
+} from '@/app/lib/pricing';
+import { toMinorUnits } from '@/app/lib/currency';
+
+/**
+ * Fees and taxes
+ *
+ * Active fees are added to a booking when they apply (see feeApplies) and
+ * every active tax rate is charged on the booking's total after discounts,
+ * protection, add-ons and fees. Both are copied onto the booking when it is
+ * created, so changing a fee or rate later doesn't alter existing bookings.
+ */
+
+// Fee priced for a booking, as stored in BookingFee
+export interface SelectedFee {
+  feeId: string;
+  name: string;
+  kind: string;
+  priceType: string;
+  unitPrice: number;
+  amount: number;
+}
+
+// Tax charged on a booking, as stored in BookingTax
+export interface AppliedTax {
+  taxRateId: string;
+  name: string;
+  percentage: number;
+  taxableAmount: number;
+  amount: number;
+}
+
+// Read the optional fee kinds sent by the client, ignoring unknown ones
+export function parseFeeKinds(value: unknown): FeeKind[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return FEE_KINDS.filter(kind => kind !== 'cleaning' && value.includes(kind));
+}
+
+// Active fees that apply to a booking, priced over the stay
+export async function priceFees(chosenKinds: FeeKind[], days: number): Promise<SelectedFee[]> {
+  const fees = await prisma.fee.findMany({
+    where: { active: true },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  return fees
+    .filter(fee => feeApplies(fee.kind, chosenKinds))
+    .map(fee => ({
+      feeId: fee.id,
+      name: fee.name,
+      kind: fee.kind,
+      priceType: fee.priceType,
+      unitPrice: fee.price,
+      amount: calculateFeeAmount(fee, days)
+    }));
+}
+
+// Tax owed on a taxable amount at the active rates
+export async function priceTaxes(taxableAmount: number): Promise<AppliedTax[]> {
+  const rates = await prisma.taxRate.findMany({
+    where: { active: true },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  return calculateTaxes(rates, taxableAmount).map(tax => ({
+    taxRateId: tax.id,
+    name: tax.name,
+    percentage: tax.percentage,
+    taxableAmount: tax.taxableAmount,
+    amount: tax.amount
+  }));
+}
+
+// Charge for a booking's fees over a number of days, at the prices they were booked at
+export function repriceBookingFees<T extends { priceType: string; unitPrice: number }>(
+  fees: T[],
+  days: number
+): (T & { amount: number })[] {
+  return fees.map(fee => ({
+    ...fee,
+    amount: calculateFeeAmount({ priceType: fee.priceType, price: fee.unitPrice }, days)
+  }));
+}
+
+/**
+ * Validate the fields the admin fee form sends.
+ * Only fields present in the body are returned, so it serves both create and update.
+ */
+export function parseFeeInput(body: Record<string, unknown>): { error: string } | { data: Prisma.FeeUpdateInput } {
+  const data: Prisma.FeeUpdateInput = {};
+
+  if (body.name !== undefined) {
+    const name = String(body.name).trim();
+    if (!name) {
+      return { error: 'Name is required' };
+    }
+    data.name = name;
+  }
+
+  if (body.kind !== undefined) {
+    if (!FEE_KINDS.includes(body.kind as FeeKind)) {
+      return { error: 'Invalid fee kind. Must be "cleaning", "delivery", "airport" or "young_driver"' };
+    }
+    data.kind = String(body.kind);
+  }
+
+  if (body.priceType !== undefined) {
+    if (body.priceType !== 'per_day' && body.priceType !== 'flat') {
+      return { error: 'Invalid price type. Must be "per_day" or "flat"' };
+    }
+    data.priceType = body.priceType;
+  }
+
+  if (body.price !== undefined) {
+    // Entered in dollars, stored in cents
+    const price = toMinorUnits(parseFloat(String(body.price)));
+    if (!Number.isFinite(price) || price < 0) {
+      return { error: 'Price must be zero or more' };
+    }
+    data.price = price;
+  }
+
+  if (body.active !== undefined) data.active = Boolean(body.active);
+
+  return { data };
+}
+
+/**
+ * Validate the fields the admin tax rate form sends.
+ * Only fields present in the body are returned, so it serves both create and update.
+ */
+export function parseTaxRateInput(body: Record<string, unknown>): { error: string } | { data: Prisma.TaxRateUpdateInput } {
+  const data: Prisma.TaxRateUpdateInput = {};
+
+  if (body.name !== undefined) {
+    const name = String(body.name).trim();
+    if (!name) {
+      return { error: 'Name is required' };
+    }
+    data.name = name;
+  }
+
+  if (body.jurisdiction !== undefined) {
+    const jurisdiction = String(body.jurisdiction).trim().toUpperCase();
+    if (!jurisdiction) {
+      return { error: 'Jurisdiction is required' };
+    }
+    data.jurisdiction = jurisdiction;
+  }
+
+  if (body.percentage !== undefined) {
+    const percentage = parseFloat(String(body.percentage));
+    if (!Number.isFinite(percentage) || percentage <= 0 || percentage >= 100) {
+      return { error: 'The rate must be between 0 and 100 percent' };
+    }
+    data.percentage = percentage;
+  }
+
+  if (body.active !== undefined) data.active = Boolean(body.active);
+
+  return { data };
+}
@@ -0,0 +1,74 @@
+import prisma from '@/app/lib/prisma';
+import stripe from '@/app/lib/stripe';
+import { transitionBookingStatus } from '@/app/lib/booking-lifecycle';
+import { recordCheckoutPayment } from '@/app/lib/payments';
+import { placeDepositHold } from '@/app/lib/deposits';
+
+/**
+ * Pending booking hold sweeper
+ *
+ * Bookings created by create-checkout hold their dates until holdExpiresAt.
+ * If the customer abandons Stripe and the checkout.session.expired webhook
+ * never arrives, this releases the slot: the Stripe session is expired and the
+ * booking is cancelled. Sessions that were actually paid are confirmed instead.
+ */
+
+export interface HoldSweepResult {
+  released: string[];
+  confirmed: string[];
+  failed: string[];
+}
+
+export async function releaseExpiredHolds(now: Date = new Date()): Promise<HoldSweepResult> {
+  const result: HoldSweepResult = { released: [], confirmed: [], failed: [] };
+
+  const expiredHolds = await prisma.booking.findMany({
+    where: {
+      status: 'pending',
+      holdExpiresAt: { lte: now }
+    },
+    select: {
+      id: true,
+      stripeSessionId: true
+    }
+  });
+
+  for (const booking of expiredHolds) {
+    try {
+      if (booking.stripeSessionId) {
+        const checkoutSession = await stripe.checkout.sessions.retrieve(booking.stripeSessionId);
+
+        // The customer paid but we never heard about it - keep the booking
+        if (checkoutSession.status === 'complete' && checkoutSession.payment_status === 'paid') {
+          await recordCheckoutPayment(checkoutSession, booking.id);
+          await transitionBookingStatus(booking.id, 'confirmed', {
+            fromStatus: 'pending',
+            note: 'Payment found while releasing expired hold'
+          });
+          await placeDepositHold(booking.id, checkoutSession);
+          result.confirmed.push(booking.id);
+          continue;
+        }
+
+        // Make sure the customer can no longer pay for the released slot
+        if (checkoutSession.status === 'open') {
+          await stripe.checkout.sessions.expire(booking.stripeSessionId);
+        }
+      }
+
+      // Only cancel if nothing else changed the booking in the meantime
+      const cancelled = await transitionBookingStatus(booking.id, 'cancelled', {
+        fromStatus: 'pending',
+        note: 'Checkout hold expired'
+      });
+      if (cancelled) {
+        result.released.push(booking.id);
+      }
+    } catch (error) {
+      console.error(`Error releasing hold for booking ${booking.id}:`, error);
+      result.failed.push(booking.id);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,392 @@
+import prisma from '@/app/lib/prisma';
+import { Invoice, Prisma } from '@prisma/client';
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { quoteVehicle } from '@/app/lib/quote';
+import { protectionPlanName } from '@/app/lib/protection-plans';
+import { formatMoney } from '@/app/lib/currency';
+import { LEDGER_ENTRY_TYPE_LABELS, countsTowardBalance, summarizeLedger } from '@/app/lib/ledger';
+import { PdfColor, createPdfLayout, renderPdf } from '@/app/lib/pdf';
+
+/**
+ * Booking invoices
+ *
+ * A booking gets its invoice number the first time its invoice is downloaded.
+ * Numbers come from a database sequence, so they only ever increase and are
+ * never reused, and an invoiced booking can't be deleted.
+ *
+ * An issued invoice doesn't change: the customer, rental, charges and taxes
+ * are snapshotted onto the Invoice when it is numbered and every download
+ * prints that snapshot. If the booking's total changes afterwards (a date
+ * change, an extension) the difference is printed as a separate adjustment
+ * under the issued total. Payments and refunds are listed from the ledger as
+ * of the download, against the adjusted total.
+ */
+
+// Seller details printed on invoices; COMPANY_ADDRESS separates lines with semicolons
+export const COMPANY = {
+  name: process.env.COMPANY_NAME || 'RideReady',
+  address: (process.env.COMPANY_ADDRESS || '').split(';').map(line => line.trim()).filter(Boolean),
+  email: process.env.COMPANY_EMAIL || 'bookings@rideready.app',
+  taxNumber: process.env.COMPANY_TAX_NUMBER || ''
+};
+
+// Everything an invoice prints about a booking
+export const INVOICE_BOOKING_INCLUDE = {
+  user: { select: { name: true, email: true } },
+  vehicle: true,
+  promoCode: { select: { code: true } },
+  addOns: { orderBy: { createdAt: 'asc' } },
+  fees: { orderBy: { createdAt: 'asc' } },
+  taxes: { orderBy: { createdAt: 'asc' } },
+  ledgerEntries: { orderBy: { createdAt: 'asc' } }
+} satisfies Prisma.BookingInclude;
+
+export type InvoiceBooking = Prisma.BookingGetPayload<{ include: typeof INVOICE_BOOKING_INCLUDE }>;
+
+// Line of the invoice table; quantity and unit price are left out for one-off amounts
+export interface InvoiceLine {
+  description: string;
+  detail?: string;
+  quantity?: number;
+  unitPrice?: number;
+  amount: number;
+}
+
+// What the invoice charged when it was issued, stored in Invoice.snapshot
+export interface InvoiceSnapshot {
+  currency: string;
+  customer: string[];
+  vehicleModel: string;
+  // ISO timestamps of the stay's first and last day
+  startDate: string;
+  endDate: string;
+  lines: InvoiceLine[];
+  taxes: { name: string; percentage: number; amount: number }[];
+  totalPrice: number;
+}
+
+// Invoice number as printed, e.g. INV-000042
+export function formatInvoiceNumber(number: number): string {
+  return `INV-${String(number).padStart(6, '0')}`;
+}
+
+/**
+ * The booking's invoice, numbering it and snapshotting its charges if this is
+ * the first time it's issued. Invoices numbered before snapshots were stored
+ * get theirs on their next download.
+ */
+export async function issueInvoice(booking: InvoiceBooking): Promise<Invoice> {
+  const existing = await prisma.invoice.findUnique({ where: { bookingId: booking.id } });
+
+  if (existing?.snapshot) {
+    return existing;
+  }
+
+  const snapshot = await buildInvoiceSnapshot(booking) as unknown as Prisma.InputJsonValue;
+
+  if (existing) {
+    // Only the first download fills it in
+    await prisma.invoice.updateMany({
+      where: { id: existing.id, snapshot: { equals: Prisma.DbNull } },
+      data: { snapshot }
+    });
+    return prisma.invoice.findUniqueOrThrow({ where: { id: existing.id } });
+  }
+
+  try {
+    return await prisma.invoice.create({ data: { bookingId: booking.id, snapshot } });
+  } catch (error) {
+    // A concurrent download numbered it first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return prisma.invoice.findUniqueOrThrow({ where: { bookingId: booking.id } });
+    }
+    throw error;
+  }
+}
+
+// Days of the stay, counting the first and last day
+function stayDays(booking: Pick<InvoiceBooking, 'startDate' | 'endDate'>): number {
+  return differenceInCalendarDays(booking.endDate, booking.startDate) + 1;
+}
+
+// Rental charge on the booking after its length-of-stay discount: the total less everything else on it
+function rentalAmount(booking: InvoiceBooking): number {
+  const sum = (items: { amount: number }[]) => items.reduce((total, item) => total + item.amount, 0);
+  return booking.totalPrice
+    - sum(booking.taxes)
+    - sum(booking.fees)
+    - sum(booking.addOns)
+    - booking.protectionAmount
+    + booking.discountAmount;
+}
+
+/**
+ * Itemize the rental days at their standard and special prices.
+ * Bookings only store their totals, so the stay is quoted again; when that no
+ * longer matches what was charged (prices changed since, or dynamic pricing
+ * moved), the rental is shown as a single line instead.
+ */
+async function buildRentalLines(booking: InvoiceBooking): Promise<InvoiceLine[]> {
+  const charged = rentalAmount(booking);
+  const quote = await quoteVehicle(booking.vehicle, booking.startDate, booking.endDate);
+
+  if (quote.totalPrice !== charged) {
+    return [{
+      description: `Rental, ${quote.days} ${quote.days === 1 ? 'day' : 'days'}`,
+      amount: charged
+    }];
+  }
+
+  const lines: InvoiceLine[] = quote.lines.map(line => ({
+    description: line.description,
+    detail: line.dates.map(date => format(parseISO(date), 'MMM d')).join(', '),
+    quantity: line.quantity,
+    unitPrice: line.unitPrice,
+    amount: line.amount
+  }));
+
+  if (quote.stayDiscount) {
+    lines.push({
+      description: `${quote.stayDiscount.name} (${quote.stayDiscount.percentOff}% off)`,
+      amount: -quote.stayDiscount.amount
+    });
+  }
+
+  return lines;
+}
+
+// Every charge on the booking before tax, in the order the total is built up
+async function buildInvoiceLines(booking: InvoiceBooking): Promise<InvoiceLine[]> {
+  const days = stayDays(booking);
+  const lines = await buildRentalLines(booking);
+
+  if (booking.discountAmount > 0) {
+    lines.push({
+      description: booking.promoCode ? `Promo code ${booking.promoCode.code}` : 'Discount',
+      amount: -booking.discountAmount
+    });
+  }
+
+  if (booking.protectionPlan) {
+    lines.push({
+      description: `${protectionPlanName(booking.protectionPlan)} protection`,
+      detail: booking.deductible !== null ? `Deductible ${formatMoney(booking.deductible, booking.currency)}` : undefined,
+      quantity: days,
+      unitPrice: booking.protectionPerDay,
+      amount: booking.protectionAmount
+    });
+  }
+
+  booking.addOns.forEach(addOn => {
+    lines.push({
+      description: addOn.name,
+      detail: addOn.priceType === 'per_day' ? `${formatMoney(addOn.unitPrice, booking.currency)} per day` : undefined,
+      quantity: addOn.quantity,
+      unitPrice: addOn.priceType === 'per_day' ? addOn.unitPrice * days : addOn.unitPrice,
+      amount: addOn.amount
+    });
+  });
+
+  booking.fees.forEach(fee => {
+    lines.push({
+      description: fee.name,
+      quantity: fee.priceType === 'per_day' ? days : 1,
+      unitPrice: fee.unitPrice,
+      amount: fee.amount
+    });
+  });
+
+  return lines;
+}
+
+// Freeze what the invoice charges as of now
+async function buildInvoiceSnapshot(booking: InvoiceBooking): Promise<InvoiceSnapshot> {
+  return {
+    currency: booking.currency,
+    customer: [booking.user.name, booking.user.email].filter((line): line is string => Boolean(line)),
+    vehicleModel: booking.vehicle.model,
+    startDate: booking.startDate.toISOString(),
+    endDate: booking.endDate.toISOString(),
+    lines: await buildInvoiceLines(booking),
+    taxes: booking.taxes.map(tax => ({ name: tax.name, percentage: tax.percentage, amount: tax.amount })),
+    totalPrice: booking.totalPrice
+  };
+}
+
+const MUTED: PdfColor = [0.42, 0.45, 0.5];
+
+/**
+ * Render the PDF of an issued invoice.
+ * Lists the charges and taxes as issued, any later change to the booking's
+ * total as an adjustment, then every payment and refund that moved money;
+ * deposit holds are left out because they were never charged.
+ */
+export async function renderInvoicePdf(invoice: Invoice, booking: InvoiceBooking): Promise<Buffer> {
+  if (!invoice.snapshot) {
+    throw new Error(`Invoice ${invoice.id} has not been issued`);
+  }
+
+  const issued = invoice.snapshot as unknown as InvoiceSnapshot;
+  const rental = { startDate: parseISO(issued.startDate), endDate: parseISO(issued.endDate) };
+  const money = (amount: number) => formatMoney(amount, issued.currency);
+  const layout = createPdfLayout();
+  const columns = { quantity: 370, unitPrice: 460, amount: layout.right };
+  const descriptionWidth = 290;
+
+  // Header
+  layout.moveDown(18);
+  layout.text(COMPANY.name, layout.left, { size: 18, font: 'bold' });
+  layout.text('INVOICE', layout.right, { size: 18, font: 'bold', align: 'right' });
+
+  const companyLines = [
+    ...COMPANY.address,
+    COMPANY.email,
+    COMPANY.taxNumber ? `Tax registration no. ${COMPANY.taxNumber}` : ''
+  ].filter(Boolean);
+  const invoiceLines = [
+    `Invoice no. ${formatInvoiceNumber(invoice.number)}`,
+    `Issued ${format(invoice.issuedAt, 'MMM d, yyyy')}`,
+    `Booking ${booking.id.substring(0, 8)}`
+  ];
+
+  layout.moveDown(6);
+  for (let i = 0; i < Math.max(companyLines.length, invoiceLines.length); i++) {
+    layout.moveDown(13);
+    if (companyLines[i]) layout.text(companyLines[i], layout.left, { size: 9, color: MUTED });
+    if (invoiceLines[i]) layout.text(invoiceLines[i], layout.right, { size: 9, align: 'right' });
+  }
+
+  // Customer and rental
+  layout.moveDown(32);
+  layout.text('BILL TO', layout.left, { size: 8, font: 'bold', color: MUTED });
+  layout.text('RENTAL', 320, { size: 8, font: 'bold', color: MUTED });
+
+  const days = stayDays(rental);
+  const customerLines = issued.customer;
+  const rentalLines = [
+    `Tesla ${issued.vehicleModel}`,
+    `${format(rental.startDate, 'MMM d, yyyy')} – ${format(rental.endDate, 'MMM d, yyyy')}`,
+    `${days} ${days === 1 ? 'day' : 'days'}`
+  ];
+
+  for (let i = 0; i < Math.max(customerLines.length, rentalLines.length); i++) {
+    layout.moveDown(14);
+    if (customerLines[i]) layout.text(customerLines[i], layout.left);
+    if (rentalLines[i]) layout.text(rentalLines[i], 320);
+  }
+
+  // Charges
+  layout.moveDown(36);
+  layout.text('Description', layout.left, { size: 9, font: 'bold' });
+  layout.text('Qty', columns.quantity, { size: 9, font: 'bold', align: 'right' });
+  layout.text('Unit price', columns.unitPrice, { size: 9, font: 'bold', align: 'right' });
+  layout.text('Amount', columns.amount, { size: 9, font: 'bold', align: 'right' });
+  layout.rule();
+
+  issued.lines.forEach(line => {
+    layout.ensureSpace(40);
+    layout.moveDown(20);
+    layout.text(line.description, layout.left);
+    if (line.quantity !== undefined) layout.text(String(line.quantity), columns.quantity, { align: 'right' });
+    if (line.unitPrice !== undefined) layout.text(money(line.unitPrice), columns.unitPrice, { align: 'right' });
+    layout.text(money(line.amount), columns.amount, { align: 'right' });
+    if (line.detail) {
+      layout.paragraph(line.detail, { size: 8, color: MUTED, width: descriptionWidth, lineHeight: 11 });
+    }
+  });
+
+  const taxTotal = issued.taxes.reduce((sum, tax) => sum + tax.amount, 0);
+  const totals: { label: string; amount: number; bold?: boolean }[] = [
+    { label: 'Subtotal', amount: issued.totalPrice - taxTotal },
+    ...issued.taxes.map(tax => ({ label: `${tax.name} (${tax.percentage}%)`, amount: tax.amount })),
+    { label: `Total (${issued.currency.toUpperCase()})`, amount: issued.totalPrice, bold: true }
+  ];
+
+  layout.rule({ offset: 10 });
+  layout.moveDown(8);
+  totals.forEach(total => {
+    layout.ensureSpace(20);
+    layout.moveDown(16);
+    const options = { align: 'right' as const, font: total.bold ? 'bold' as const : 'regular' as const };
+    layout.text(total.label, columns.unitPrice, options);
+    layout.text(money(total.amount), columns.amount, options);
+  });
+
+  // Changes to the booking's total since the invoice was issued
+  const adjustment = booking.totalPrice - issued.totalPrice;
+
+  if (adjustment !== 0) {
+    layout.ensureSpace(110);
+    layout.moveDown(36);
+    layout.text('ADJUSTMENTS AFTER ISSUE', layout.left, { size: 8, font: 'bold', color: MUTED });
+    layout.rule();
+    layout.moveDown(20);
+    layout.text('Booking changed', layout.left);
+    layout.text(money(adjustment), columns.amount, { align: 'right' });
+    layout.paragraph(
+      `Now ${format(booking.startDate, 'MMM d, yyyy')} – ${format(booking.endDate, 'MMM d, yyyy')}`,
+      { size: 8, color: MUTED, width: descriptionWidth, lineHeight: 11 }
+    );
+    layout.rule({ offset: 10 });
+    layout.moveDown(24);
+    layout.text(`Adjusted total (${issued.currency.toUpperCase()})`, columns.unitPrice, { align: 'right', font: 'bold' });
+    layout.text(money(booking.totalPrice), columns.amount, { align: 'right', font: 'bold' });
+  }
+
+  // Payments and refunds
+  const ledger = summarizeLedger(booking.ledgerEntries, booking.totalPrice);
+  const movements = ledger.lines.filter(countsTowardBalance);
+
+  layout.ensureSpace(90);
+  layout.moveDown(36);
+  layout.text('PAYMENTS AND REFUNDS', layout.left, { size: 8, font: 'bold', color: MUTED });
+  layout.rule();
+
+  if (movements.length === 0) {
+    layout.moveDown(20);
+    layout.text('No payments yet.', layout.left, { color: MUTED });
+  }
+
+  movements.forEach(entry => {
+    layout.ensureSpace(24);
+    layout.moveDown(20);
+    layout.text(format(entry.createdAt, 'MMM d, yyyy'), layout.left);
+    layout.text(LEDGER_ENTRY_TYPE_LABELS[entry.type], 140);
+    layout.text(money(entry.amount), columns.amount, { align: 'right' });
+    if (entry.description) {
+      layout.paragraph(entry.description, { x: 140, size: 8, color: MUTED, width: descriptionWidth, lineHeight: 11 });
+    }
+  });
+
+  layout.rule({ offset: 10 });
+  layout.moveDown(8);
+  [
+    { label: 'Amount paid', amount: ledger.collected, bold: false },
+    { label: 'Balance due', amount: ledger.balanceDue, bold: true }
+  ].forEach(total => {
+    layout.ensureSpace(20);
+    layout.moveDown(16);
+    const font = total.bold ? 'bold' as const : 'regular' as const;
+    layout.text(total.label, columns.unitPrice, { align: 'right', font });
+    layout.text(money(total.amount), columns.amount, { align: 'right', font });
+  });
+
+  // Notes
+  layout.moveDown(24);
+  if (booking.securityDeposit > 0) {
+    layout.paragraph(
+      `The ${money(booking.securityDeposit)} security deposit is a separate hold on the card and only appears above if it was captured.`,
+      { size: 8, color: MUTED, lineHeight: 11 }
+    );
+  }
+  layout.paragraph(`Thank you for renting with ${COMPANY.name}. Questions about this invoice? Contact ${COMPANY.email}.`, {
+    size: 8,
+    color: MUTED,
+    lineHeight: 11
+  });
+
+  return renderPdf(layout.pages, {
+    title: `${COMPANY.name} invoice ${formatInvoiceNumber(invoice.number)}`,
+    author: COMPANY.name
+  });
+}
@@ -0,0 +1,60 @@
+/**
+ * Booking ledger helpers
+ *
+ * Pure functions shared by the admin and customer booking pages, so this file
+ * must not import Prisma or Stripe. Ledger amounts are signed minor units:
+ * money collected is positive, money returned is negative.
+ */
+
+export type LedgerEntryType = 'charge' | 'refund' | 'deposit_hold' | 'deposit_capture' | 'adjustment';
+
+export type LedgerEntryStatus = 'pending' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface LedgerEntryLike {
+  id: string;
+  type: LedgerEntryType;
+  status: LedgerEntryStatus;
+  amount: number;
+  createdAt: string | Date;
+}
+
+export const LEDGER_ENTRY_TYPE_LABELS: Record<LedgerEntryType, string> = {
+  charge: 'Charge',
+  refund: 'Refund',
+  deposit_hold: 'Deposit hold',
+  deposit_capture: 'Deposit capture',
+  adjustment: 'Adjustment'
+};
+
+// Whether an entry moves money; holds only reserve it and failed entries never happened
+export function countsTowardBalance(entry: Pick<LedgerEntryLike, 'type' | 'status'>): boolean {
+  return entry.status === 'succeeded' && entry.type !== 'deposit_hold';
+}
+
+/**
+ * Order the entries by date and add the net amount collected after each one.
+ * `balanceDue` is what's still owed on the rental price; deposit captures are
+ * extra charges on top of it, so they don't pay it down.
+ */
+export function summarizeLedger<T extends LedgerEntryLike>(entries: T[], totalPrice: number) {
+  let collected = 0;
+  let paidTowardRental = 0;
+
+  const lines = [...entries]
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+    .map(entry => {
+      if (countsTowardBalance(entry)) {
+        collected += entry.amount;
+        if (entry.type !== 'deposit_capture') {
+          paidTowardRental += entry.amount;
+        }
+      }
+      return { ...entry, runningBalance: collected };
+    });
+
+  return {
+    lines,
+    collected,
+    balanceDue: Math.max(0, totalPrice - paidTowardRental)
+  };
+}
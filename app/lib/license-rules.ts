@@ -0,0 +1,74 @@
+import { differenceInYears } from 'date-fns';
+import { LicenseStatus } from '@prisma/client';
+import { parseDateParam, toDateKey } from '@/app/lib/pricing';
+
+/**
+ * Driver's license rules
+ *
+ * Renters add their driver's license on /license and an admin approves it
+ * before they can book. Checkout is also refused when the license expires
+ * before the rental ends, or when the renter is younger than the minimum
+ * age on the first day of the rental. NEXT_PUBLIC_MINIMUM_RENTER_AGE sets
+ * that age (21 by default).
+ *
+ * Kept free of server-only imports so /booking can warn before checkout.
+ */
+
+export const DEFAULT_MINIMUM_RENTER_AGE = 21;
+
+// Minimum age from the environment, falling back to the default
+function minimumAgeFromEnv(): number {
+  const value = Number(process.env.NEXT_PUBLIC_MINIMUM_RENTER_AGE);
+  return process.env.NEXT_PUBLIC_MINIMUM_RENTER_AGE && Number.isInteger(value) && value >= 0
+    ? value
+    : DEFAULT_MINIMUM_RENTER_AGE;
+}
+
+export const MINIMUM_RENTER_AGE = minimumAgeFromEnv();
+
+export const LICENSE_STATUS_LABELS: Record<LicenseStatus, string> = {
+  pending: 'Awaiting review',
+  approved: 'Approved',
+  rejected: 'Rejected'
+};
+
+// License fields the booking rules read; dates may still be JSON strings on the client
+export interface LicenseEligibility {
+  licenseStatus: LicenseStatus | null;
+  licenseExpiry: Date | string | null;
+  dateOfBirth: Date | string | null;
+}
+
+// Whole years between a date of birth and a day
+export function ageOn(dateOfBirth: Date | string, day: Date): number {
+  return differenceInYears(parseDateParam(toDateKey(day)), parseDateParam(toDateKey(new Date(dateOfBirth))));
+}
+
+/**
+ * Why the renter can't book from start to end, or null if they can.
+ * The license has to be approved and valid through the last rental day,
+ * and the renter old enough on the first.
+ */
+export function licenseBlockReason(license: LicenseEligibility, start: Date, end: Date): string | null {
+  if (!license.licenseStatus) {
+    return 'Please add your driver\'s license before booking.';
+  }
+
+  if (license.licenseStatus === 'pending') {
+    return 'Your driver\'s license is awaiting review. You can book once it is approved.';
+  }
+
+  if (license.licenseStatus === 'rejected') {
+    return 'Your driver\'s license was not approved. Please update it and submit it again.';
+  }
+
+  if (!license.licenseExpiry || toDateKey(new Date(license.licenseExpiry)) < toDateKey(end)) {
+    return 'Your driver\'s license expires before the rental ends. Please submit your renewed license.';
+  }
+
+  if (!license.dateOfBirth || ageOn(license.dateOfBirth, start) < MINIMUM_RENTER_AGE) {
+    return `Renters must be at least ${MINIMUM_RENTER_AGE} years old on the first day of the rental.`;
+  }
+
+  return null;
+}
@@ -0,0 +1,154 @@
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { Prisma } from '@prisma/client';
+import { LicenseEligibility, licenseBlockReason } from '@/app/lib/license-rules';
+import { parseDateParam, toDateKey } from '@/app/lib/pricing';
+
+/**
+ * Driver's licenses
+ *
+ * Renters submit their license details and photos of both sides; every
+ * submission goes back to 'pending' until an admin approves or rejects it.
+ * The photos are identity documents, so they are stored outside public/ and
+ * only served to their owner and to admins. The booking rules themselves are
+ * in license-rules.ts.
+ */
+
+// Where license photos are saved; not served as static files
+export const LICENSE_UPLOADS_DIR = join(process.cwd(), 'uploads/licenses');
+
+// Image types accepted for license photos, with the extension they are saved under
+export const LICENSE_IMAGE_TYPES: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp'
+};
+
+export type LicenseSide = 'front' | 'back';
+
+// License fields returned to the renter and to the admin review queue
+export const LICENSE_SELECT = {
+  licenseNumber: true,
+  licenseCountry: true,
+  licenseRegion: true,
+  licenseExpiry: true,
+  dateOfBirth: true,
+  licenseFrontImage: true,
+  licenseBackImage: true,
+  licenseStatus: true,
+  licenseSubmittedAt: true,
+  licenseReviewedAt: true,
+  licenseRejectionReason: true
+} satisfies Prisma.UserSelect;
+
+// Thrown when the renter's license doesn't allow them to book the stay
+export class LicenseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LicenseError';
+  }
+}
+
+// Throw a LicenseError if the renter can't book from start to end
+export function assertLicenseCanBook(license: LicenseEligibility, start: Date, end: Date) {
+  const reason = licenseBlockReason(license, start, end);
+
+  if (reason) {
+    throw new LicenseError(reason);
+  }
+}
+
+// Whether a value is the name of a saved license photo, e.g. '<uuid>.jpg'
+export function isLicenseImageName(value: unknown): value is string {
+  const extensions = Object.values(LICENSE_IMAGE_TYPES).join('|');
+  return typeof value === 'string' && new RegExp(`^[0-9a-f-]{36}\\.(${extensions})$`).test(value);
+}
+
+// Read 'front' or 'back' from the side query parameter
+export function parseLicenseSide(value: string | null): LicenseSide | null {
+  return value === 'front' || value === 'back' ? value : null;
+}
+
+// A saved license photo and its content type, or null if it is missing
+export async function readLicenseImage(name: string): Promise<{ data: Buffer; contentType: string } | null> {
+  if (!isLicenseImageName(name)) {
+    return null;
+  }
+
+  const extension = name.split('.').pop();
+  const contentType = Object.keys(LICENSE_IMAGE_TYPES).find(type => LICENSE_IMAGE_TYPES[type] === extension);
+
+  try {
+    return { data: await readFile(join(LICENSE_UPLOADS_DIR, name)), contentType: contentType as string };
+  } catch {
+    return null;
+  }
+}
+
+// Parse a 'yyyy-MM-dd' date field; null when missing or invalid
+function parseDateField(value: unknown): Date | null {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return null;
+  }
+
+  const date = parseDateParam(value);
+  return Number.isNaN(date.getTime()) || toDateKey(date) !== value ? null : date;
+}
+
+/**
+ * Validate the license form the renter submits.
+ * Every field but the province/state is required; the result also resets the
+ * review, so any change puts the license back in the admin queue.
+ */
+export function parseLicenseInput(body: Record<string, unknown>): { error: string } | { data: Prisma.UserUpdateInput } {
+  const licenseNumber = typeof body.licenseNumber === 'string' ? body.licenseNumber.trim().toUpperCase() : '';
+  if (!licenseNumber || licenseNumber.length > 50) {
+    return { error: 'Please enter your license number' };
+  }
+
+  const licenseCountry = typeof body.licenseCountry === 'string' ? body.licenseCountry.trim() : '';
+  if (!licenseCountry || licenseCountry.length > 100) {
+    return { error: 'Please enter the country that issued your license' };
+  }
+
+  const licenseRegion = typeof body.licenseRegion === 'string' ? body.licenseRegion.trim() : '';
+  if (licenseRegion.length > 100) {
+    return { error: 'The province or state is too long' };
+  }
+
+  const today = toDateKey(new Date());
+
+  const licenseExpiry = parseDateField(body.licenseExpiry);
+  if (!licenseExpiry) {
+    return { error: 'Please enter the license expiry date' };
+  }
+  if (toDateKey(licenseExpiry) < today) {
+    return { error: 'This license has expired. Please submit a valid license.' };
+  }
+
+  const dateOfBirth = parseDateField(body.dateOfBirth);
+  if (!dateOfBirth || toDateKey(dateOfBirth) >= today || dateOfBirth.getFullYear() < 1900) {
+    return { error: 'Please enter a valid date of birth' };
+  }
+
+  if (!isLicenseImageName(body.licenseFrontImage) || !isLicenseImageName(body.licenseBackImage)) {
+    return { error: 'Please upload photos of the front and back of your license' };
+  }
+
+  return {
+    data: {
+      licenseNumber,
+      licenseCountry,
+      licenseRegion: licenseRegion || null,
+      licenseExpiry,
+      dateOfBirth,
+      licenseFrontImage: body.licenseFrontImage,
+      licenseBackImage: body.licenseBackImage,
+      licenseStatus: 'pending',
+      licenseSubmittedAt: new Date(),
+      licenseReviewedAt: null,
+      licenseReviewedBy: { disconnect: true },
+      licenseRejectionReason: null
+    }
+  };
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { NextAuthOptions } from 'next-auth';
+import prisma from '@/app/lib/prisma';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+
+/**
+ * Customer booking lookups for the routes under /api/bookings/[id] that let
+ * renters cancel, change or extend their own bookings.
+ */
+
+/**
+ * Load the booking, with its vehicle, if it belongs to the signed-in customer.
+ * Otherwise returns the error response to send; `action` names what the
+ * customer tried to do in the 403 message, e.g. 'cancel'.
+ */
+export async function findOwnBooking(bookingId: string, action: string) {
+  const session = await getServerSession(authOptions as NextAuthOptions);
+
+  if (!session?.user?.email) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { email: session.user.email }
+  });
+
+  if (!user) {
+    return { error: NextResponse.json({ error: 'User not found' }, { status: 404 }) };
+  }
+
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    include: { vehicle: true }
+  });
+
+  if (!booking) {
+    return { error: NextResponse.json({ error: 'Booking not found' }, { status: 404 }) };
+  }
+
+  if (booking.userId !== user.id) {
+    return { error: NextResponse.json({ error: `Unauthorized to ${action} this booking` }, { status: 403 }) };
+  }
+
+  return { booking, user };
+}
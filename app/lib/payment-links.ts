@@ -0,0 +1,146 @@
+import prisma from '@/app/lib/prisma';
+import { addHours, format } from 'date-fns';
+import stripe from '@/app/lib/stripe';
+import { postBookingMessage } from '@/app/lib/booking-messages';
+import { sendEmail } from '@/app/lib/email';
+import { formatMoney } from '@/app/lib/currency';
+import { protectionPlanName } from '@/app/lib/protection-plans';
+
+/**
+ * Payment links for bookings created by admins
+ *
+ * The booking is created as pending and the customer gets a Stripe Checkout
+ * link by email and in the booking thread. Paying it goes through the same
+ * webhook as a normal checkout, which confirms the booking; if the link
+ * expires unpaid the hold sweeper cancels the booking.
+ */
+
+// Stripe Checkout sessions can stay open for at most 24 hours
+export const PAYMENT_LINK_VALID_HOURS = 23;
+
+// When a payment link created now stops working
+export function paymentLinkExpiryFromNow(now: Date = new Date()): Date {
+  return addHours(now, PAYMENT_LINK_VALID_HOURS);
+}
+
+/**
+ * Create a checkout session for a pending booking and send it to the customer.
+ * Returns the checkout URL and whether the email went out.
+ */
+export async function sendBookingPaymentLink(bookingId: string) {
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    include: { vehicle: true, user: true, addOns: true, fees: true, taxes: true }
+  });
+
+  if (!booking) {
+    throw new Error(`Booking ${bookingId} not found`);
+  }
+
+  const expiresAt = paymentLinkExpiryFromNow();
+  const hasDeposit = booking.securityDeposit > 0;
+  const dates = `${format(booking.startDate, 'MMM d, yyyy')} to ${format(booking.endDate, 'MMM d, yyyy')}`;
+
+  // The rental after discounts is whatever the itemized charges and tax leave of the total
+  const itemized = [...booking.addOns, ...booking.fees, ...booking.taxes]
+    .reduce((sum, item) => sum + item.amount, booking.protectionAmount);
+  // Without tax lines the total is an all-in price (e.g. an admin override)
+  const taxBehavior = booking.taxes.length > 0 ? 'exclusive' as const : 'inclusive' as const;
+
+  const checkoutSession = await stripe.checkout.sessions.create({
+    payment_method_types: ['card'],
+    // The rental, then the protection plan, add-ons, fees and taxes stored on the booking
+    line_items: [{
+      price_data: {
+        currency: booking.currency,
+        product_data: {
+          name: `Tesla ${booking.vehicle.model} Rental`,
+          description: dates,
+          images: booking.vehicle.image && booking.vehicle.image.startsWith('http') ? [booking.vehicle.image] : [],
+        },
+        unit_amount: booking.totalPrice - itemized,
+        tax_behavior: taxBehavior,
+      },
+      quantity: 1,
+    }, ...(booking.protectionPlan && booking.protectionAmount > 0 ? [{
+      price_data: {
+        currency: booking.currency,
+        product_data: {
+          name: `${protectionPlanName(booking.protectionPlan)} Protection`,
+        },
+        unit_amount: booking.protectionAmount,
+        tax_behavior: taxBehavior,
+      },
+      quantity: 1,
+    }] : []), ...[...booking.addOns, ...booking.fees].filter(item => item.amount > 0).map(item => ({
+      price_data: {
+        currency: booking.currency,
+        product_data: { name: item.name },
+        unit_amount: item.amount,
+        tax_behavior: taxBehavior,
+      },
+      quantity: 1,
+    })), ...booking.taxes.filter(tax => tax.amount > 0).map(tax => ({
+      price_data: {
+        currency: booking.currency,
+        product_data: { name: `${tax.name} (${tax.percentage}%)` },
+        unit_amount: tax.amount,
+        tax_behavior: taxBehavior,
+      },
+      quantity: 1,
+    }))],
+    mode: 'payment',
+    success_url: `${process.env.NEXTAUTH_URL}/bookings/confirmation?session_id={CHECKOUT_SESSION_ID}`,
+    cancel_url: `${process.env.NEXTAUTH_URL}/bookings/${booking.id}`,
+    metadata: {
+      bookingId: booking.id,
+      vehicleId: booking.vehicleId,
+      userId: booking.userId,
+    },
+    payment_intent_data: {
+      metadata: { bookingId: booking.id },
+      // Keep the card on file for the security deposit authorization
+      ...(hasDeposit ? { setup_future_usage: 'off_session' as const } : {}),
+    },
+    ...(hasDeposit ? { customer_creation: 'always' as const } : {}),
+    customer_email: booking.user.email || undefined,
+    expires_at: Math.floor(expiresAt.getTime() / 1000),
+  });
+
+  // The dates stay held until the link expires
+  await prisma.booking.update({
+    where: { id: booking.id },
+    data: {
+      stripeSessionId: checkoutSession.id,
+      holdExpiresAt: expiresAt
+    }
+  });
+
+  const expiry = format(expiresAt, "MMM d 'at' h:mm a");
+
+  await postBookingMessage(
+    booking,
+    `We've reserved the ${booking.vehicle.model} for you (${dates}). Please complete your payment of ${formatMoney(booking.totalPrice, booking.currency)} here to confirm the booking: ${checkoutSession.url} (this link expires ${expiry}).`
+  );
+
+  const emailed = booking.user.email
+    ? await sendEmail({
+      to: booking.user.email,
+      subject: `Complete your RideReady booking for the ${booking.vehicle.model}`,
+      text: [
+        `Hi${booking.user.name ? ` ${booking.user.name}` : ''},`,
+        '',
+        `We've reserved the ${booking.vehicle.model} for you from ${dates}.`,
+        `To confirm the booking, please pay ${formatMoney(booking.totalPrice, booking.currency)} using this secure link:`,
+        '',
+        checkoutSession.url,
+        '',
+        `The link expires ${expiry}, after which the dates are released.`,
+        '',
+        'Thank you for choosing RideReady!'
+      ].join('\n')
+    })
+    : false;
+
+  return { url: checkoutSession.url, expiresAt, emailed };
+}
@@ -0,0 +1,312 @@
+import prisma from '@/app/lib/prisma';
+import Stripe from 'stripe';
+import { LedgerEntryStatus, Payment, PaymentStatus, Prisma } from '@prisma/client';
+import stripe from '@/app/lib/stripe';
+
+/**
+ * Payment records
+ *
+ * One Payment per Stripe PaymentIntent taken for a booking (initial checkout,
+ * date change or extension top-ups). Amounts are kept in minor units exactly
+ * as Stripe reports them, like Booking.totalPrice.
+ *
+ * Every money movement is also written to the booking ledger (LedgerEntry),
+ * keyed by the Stripe object behind it so webhook redeliveries don't add
+ * duplicate lines.
+ */
+
+// Metadata type on the manual-capture PaymentIntents used for security deposits
+export const DEPOSIT_METADATA_TYPE = 'security_deposit';
+
+// Id of a Stripe field that may or may not be expanded
+export function stripeId(value: string | { id: string } | null | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+  return typeof value === 'string' ? value : value.id;
+}
+
+// Status for a payment after refunds
+export function refundedStatus(amount: number, amountRefunded: number): PaymentStatus {
+  if (amountRefunded <= 0) {
+    return 'succeeded';
+  }
+  return amountRefunded >= amount ? 'refunded' : 'partially_refunded';
+}
+
+// Ledger status for a payment's charge line
+function chargeEntryStatus(status: PaymentStatus): LedgerEntryStatus {
+  switch (status) {
+    case 'pending':
+    case 'processing':
+      return 'pending';
+    case 'failed':
+      return 'failed';
+    default:
+      return 'succeeded';
+  }
+}
+
+// Ledger status for a Stripe refund
+function refundEntryStatus(status: string | null): LedgerEntryStatus {
+  switch (status) {
+    case 'succeeded':
+      return 'succeeded';
+    case 'failed':
+      return 'failed';
+    case 'canceled':
+      return 'cancelled';
+    default:
+      return 'pending';
+  }
+}
+
+/**
+ * Add a ledger line for a Stripe object, or update the existing one.
+ * The description is only replaced when a new one is given.
+ */
+export async function upsertLedgerEntry(data: Prisma.LedgerEntryUncheckedCreateInput & { stripeObjectId: string }) {
+  return prisma.ledgerEntry.upsert({
+    where: { stripeObjectId_type: { stripeObjectId: data.stripeObjectId, type: data.type } },
+    create: data,
+    update: {
+      status: data.status,
+      amount: data.amount,
+      currency: data.currency,
+      paymentId: data.paymentId,
+      ...(data.description ? { description: data.description } : {})
+    }
+  });
+}
+
+// Keep the charge line for a payment in step with the payment record
+export async function syncChargeEntry(payment: Payment, description?: string) {
+  const stripeObjectId = payment.stripePaymentIntentId || payment.stripeCheckoutSessionId;
+
+  if (!stripeObjectId) {
+    return null;
+  }
+
+  return upsertLedgerEntry({
+    bookingId: payment.bookingId,
+    paymentId: payment.id,
+    type: 'charge',
+    status: chargeEntryStatus(payment.status),
+    amount: payment.amount,
+    currency: payment.currency,
+    stripePaymentIntentId: payment.stripePaymentIntentId,
+    stripeObjectId,
+    description: payment.status === 'failed' && payment.failureMessage ? payment.failureMessage : description
+  });
+}
+
+/**
+ * Write a Stripe refund to the ledger.
+ * Refunds for PaymentIntents that don't belong to a booking are ignored.
+ */
+export async function recordRefundEntry(refund: Stripe.Refund, payment?: Payment | null) {
+  const paymentIntentId = stripeId(refund.payment_intent);
+  const refundPayment = payment ?? (paymentIntentId
+    ? await prisma.payment.findUnique({ where: { stripePaymentIntentId: paymentIntentId } })
+    : null);
+
+  if (!refundPayment) {
+    return null;
+  }
+
+  const reason = refund.metadata?.reason || refund.reason;
+
+  return upsertLedgerEntry({
+    bookingId: refundPayment.bookingId,
+    paymentId: refundPayment.id,
+    type: 'refund',
+    status: refundEntryStatus(refund.status),
+    amount: -refund.amount,
+    currency: refund.currency,
+    stripePaymentIntentId: paymentIntentId,
+    stripeObjectId: refund.id,
+    description: reason ? `Refund: ${reason.replace(/_/g, ' ')}` : undefined
+  });
+}
+
+// Bring the ledger up to date with every refund Stripe has for a payment
+export async function syncRefundEntries(payment: Payment) {
+  if (!payment.stripePaymentIntentId) {
+    return;
+  }
+
+  const refunds = await stripe.refunds.list({
+    payment_intent: payment.stripePaymentIntentId,
+    limit: 100
+  });
+
+  for (const refund of refunds.data) {
+    await recordRefundEntry(refund, payment);
+  }
+}
+
+/**
+ * Create or update the payment record for a completed checkout session.
+ * Delayed payment methods complete the session before the money arrives, so
+ * those are recorded as processing until the async payment event.
+ */
+export async function recordCheckoutPayment(checkoutSession: Stripe.Checkout.Session, bookingId: string) {
+  const paymentIntentId = stripeId(checkoutSession.payment_intent);
+  const status: PaymentStatus = checkoutSession.payment_status === 'paid' ? 'succeeded' : 'processing';
+
+  const data = {
+    stripePaymentIntentId: paymentIntentId,
+    amount: checkoutSession.amount_total || 0,
+    currency: checkoutSession.currency || 'usd',
+    status
+  };
+
+  // A payment_intent event may have created the record before the session completed
+  const existing = paymentIntentId
+    ? await prisma.payment.findUnique({ where: { stripePaymentIntentId: paymentIntentId } })
+    : null;
+
+  const payment = existing
+    ? await prisma.payment.update({
+      where: { id: existing.id },
+      data: { ...data, stripeCheckoutSessionId: checkoutSession.id }
+    })
+    : await prisma.payment.upsert({
+      where: { stripeCheckoutSessionId: checkoutSession.id },
+      create: { ...data, bookingId, stripeCheckoutSessionId: checkoutSession.id },
+      update: data
+    });
+
+  await syncChargeEntry(
+    payment,
+    checkoutSession.metadata?.modificationId ? 'Booking change payment' : 'Booking payment'
+  );
+
+  return payment;
+}
+
+/**
+ * Find the payment record for a PaymentIntent, creating it from the
+ * PaymentIntent's booking metadata if we haven't seen it yet.
+ * Returns null for PaymentIntents that don't belong to a booking.
+ */
+export async function findPaymentForIntent(paymentIntentId: string) {
+  const payment = await prisma.payment.findUnique({
+    where: { stripePaymentIntentId: paymentIntentId },
+    include: { booking: { include: { vehicle: true } } }
+  });
+
+  if (payment) {
+    return payment;
+  }
+
+  const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
+  const bookingId = paymentIntent.metadata?.bookingId;
+
+  // Deposit holds are tracked on the booking, not as payments
+  if (paymentIntent.metadata?.type === DEPOSIT_METADATA_TYPE) {
+    return null;
+  }
+
+  if (!bookingId || !(await prisma.booking.findUnique({ where: { id: bookingId } }))) {
+    return null;
+  }
+
+  const created = await prisma.payment.create({
+    data: {
+      bookingId,
+      stripePaymentIntentId: paymentIntent.id,
+      amount: paymentIntent.amount,
+      currency: paymentIntent.currency,
+      status: paymentIntent.status === 'succeeded' ? 'succeeded' : 'pending'
+    },
+    include: { booking: { include: { vehicle: true } } }
+  });
+
+  await syncChargeEntry(created);
+
+  return created;
+}
+
+// Check if every successful payment on a booking has been refunded in full
+export async function isBookingFullyRefunded(bookingId: string): Promise<boolean> {
+  const payments = await prisma.payment.findMany({
+    where: {
+      bookingId,
+      status: { in: ['succeeded', 'partially_refunded', 'refunded', 'disputed', 'dispute_lost'] }
+    }
+  });
+
+  return payments.length > 0 && payments.every(payment =>
+    payment.status === 'dispute_lost' || payment.amountRefunded >= payment.amount
+  );
+}
+
+// A booking's paid payments, newest first, with what is still refundable on each
+async function findRefundablePayments(bookingId: string) {
+  const payments = await prisma.payment.findMany({
+    where: {
+      bookingId,
+      status: { in: ['succeeded', 'partially_refunded'] },
+      stripePaymentIntentId: { not: null }
+    },
+    include: {
+      ledgerEntries: { where: { type: 'refund', status: { in: ['pending', 'succeeded'] } } }
+    },
+    orderBy: { createdAt: 'desc' }
+  });
+
+  return payments
+    .map(({ ledgerEntries, ...payment }) => {
+      // Refunds we issue are in the ledger before the webhook updates amountRefunded
+      const refunded = Math.max(
+        payment.amountRefunded,
+        -ledgerEntries.reduce((sum, entry) => sum + entry.amount, 0)
+      );
+      return { payment, refundable: Math.max(0, payment.amount - refunded) };
+    })
+    .filter(({ refundable }) => refundable > 0);
+}
+
+// What can still be refunded across every payment on a booking
+export async function getRefundableAmount(bookingId: string): Promise<number> {
+  const payments = await findRefundablePayments(bookingId);
+  return payments.reduce((sum, { refundable }) => sum + refundable, 0);
+}
+
+/**
+ * Refund an amount across a booking's payments, newest first, never taking
+ * more from a payment than is left on it. A booking paid at checkout and again
+ * for a date change or extension can owe back more than any one payment.
+ * Returns the Stripe refunds issued and the part of the amount that couldn't
+ * be refunded automatically.
+ */
+export async function refundBookingPayments(
+  bookingId: string,
+  amount: number,
+  options: { idempotencyKey: string; reason?: string }
+): Promise<{ refunds: Stripe.Refund[]; unrefunded: number }> {
+  const refunds: Stripe.Refund[] = [];
+  let remaining = amount;
+
+  for (const { payment, refundable } of await findRefundablePayments(bookingId)) {
+    if (remaining <= 0) {
+      break;
+    }
+
+    const refund = await stripe.refunds.create({
+      payment_intent: payment.stripePaymentIntentId!,
+      amount: Math.min(remaining, refundable),
+      metadata: options.reason ? { bookingId, reason: options.reason } : { bookingId }
+    }, {
+      // One key per payment so a retry can't refund the same money twice
+      idempotencyKey: `${options.idempotencyKey}-${payment.id}`
+    });
+
+    await recordRefundEntry(refund, payment);
+    refunds.push(refund);
+    remaining -= refund.amount;
+  }
+
+  return { refunds, unrefunded: remaining };
+}
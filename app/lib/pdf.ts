@@ -0,0 +1,347 @@
+/**
+ * Minimal PDF writer
+ *
+ * Just enough of PDF 1.4 for text documents such as invoices: US Letter
+ * pages, the built-in Helvetica fonts (so nothing is embedded), straight
+ * lines and freehand strokes such as signatures. Positions are in points from the top-left corner of the page, and a
+ * text's y is its baseline. Text is encoded as WinAnsi, so characters outside
+ * Latin-1 and common punctuation print as "?".
+ */
+
+export const PAGE_WIDTH = 612;
+export const PAGE_HEIGHT = 792;
+
+export type PdfFont = 'regular' | 'bold';
+
+// RGB components from 0 to 1
+export type PdfColor = [number, number, number];
+
+export interface PdfText {
+  kind: 'text';
+  x: number;
+  y: number;
+  text: string;
+  size: number;
+  font: PdfFont;
+  color?: PdfColor;
+}
+
+export interface PdfLine {
+  kind: 'line';
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  width: number;
+  color?: PdfColor;
+}
+
+// Connected line segments, e.g. one stroke of a signature
+export interface PdfPolyline {
+  kind: 'polyline';
+  points: [number, number][];
+  width: number;
+  color?: PdfColor;
+}
+
+export type PdfItem = PdfText | PdfLine | PdfPolyline;
+
+export interface PdfPage {
+  items: PdfItem[];
+}
+
+const FONT_RESOURCES: Record<PdfFont, { name: string; baseFont: string }> = {
+  regular: { name: 'F1', baseFont: 'Helvetica' },
+  bold: { name: 'F2', baseFont: 'Helvetica-Bold' }
+};
+
+// Advance widths of the printable ASCII characters (32-126) in 1/1000 em, from the Adobe font metrics
+const ASCII_WIDTHS: Record<PdfFont, number[]> = {
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+  ],
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+  ]
+};
+
+// Width used for characters outside printable ASCII
+const DEFAULT_WIDTH = 556;
+
+// WinAnsi codes of the non-Latin-1 characters we print
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80,
+  '…': 0x85,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97
+};
+
+// Characters that have a close enough WinAnsi equivalent, e.g. the minus sign and narrow spaces Intl formats with
+const SUBSTITUTES: Record<string, string> = {
+  '\u2212': '-',
+  '\u2011': '-',
+  '\u202f': ' ',
+  '\u2009': ' '
+};
+
+// Encode text as WinAnsi bytes, one character per byte
+function encodeText(text: string): string {
+  return Array.from(text, char => {
+    const substitute = SUBSTITUTES[char] ?? char;
+    const code = WIN_ANSI[substitute] ?? substitute.charCodeAt(0);
+    const printable = (code >= 32 && code <= 126) || (code >= 128 && code <= 255);
+    return printable ? String.fromCharCode(code) : '?';
+  }).join('');
+}
+
+// Width of text in points
+export function textWidth(text: string, size: number, font: PdfFont = 'regular'): number {
+  const widths = ASCII_WIDTHS[font];
+  const units = Array.from(encodeText(text)).reduce((sum, char) => {
+    const code = char.charCodeAt(0);
+    return sum + (code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_WIDTH);
+  }, 0);
+  return units * size / 1000;
+}
+
+// Break text into lines no wider than maxWidth, splitting at spaces (and inside words that don't fit)
+export function wrapText(text: string, maxWidth: number, size: number, font: PdfFont = 'regular'): string[] {
+  const lines: string[] = [];
+
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, size, font) <= maxWidth) {
+        line = candidate;
+        return;
+      }
+
+      if (line) {
+        lines.push(line);
+      }
+      line = word;
+      while (textWidth(line, size, font) > maxWidth && line.length > 1) {
+        let cut = line.length - 1;
+        while (cut > 1 && textWidth(line.slice(0, cut), size, font) > maxWidth) {
+          cut--;
+        }
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    });
+
+    lines.push(line);
+  });
+
+  return lines;
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+function escapeString(value: string): string {
+  return value.replace(/[\\()]/g, match => `\\${match}`);
+}
+
+function colorOperands(color: PdfColor): string {
+  return color.map(formatNumber).join(' ');
+}
+
+// Content stream drawing a page's items
+function renderContent(page: PdfPage): string {
+  return page.items.map(item => {
+    if (item.kind === 'polyline') {
+      return [
+        `${formatNumber(item.width)} w 1 J 1 j`,
+        `${colorOperands(item.color ?? [0, 0, 0])} RG`,
+        ...item.points.map(([x, y], index) => `${formatNumber(x)} ${formatNumber(PAGE_HEIGHT - y)} ${index === 0 ? 'm' : 'l'}`),
+        'S'
+      ].join('\n');
+    }
+
+    if (item.kind === 'line') {
+      return [
+        `${formatNumber(item.width)} w`,
+        `${colorOperands(item.color ?? [0, 0, 0])} RG`,
+        `${formatNumber(item.x1)} ${formatNumber(PAGE_HEIGHT - item.y1)} m`,
+        `${formatNumber(item.x2)} ${formatNumber(PAGE_HEIGHT - item.y2)} l S`
+      ].join('\n');
+    }
+
+    return [
+      'BT',
+      `/${FONT_RESOURCES[item.font].name} ${formatNumber(item.size)} Tf`,
+      `${colorOperands(item.color ?? [0, 0, 0])} rg`,
+      `${formatNumber(item.x)} ${formatNumber(PAGE_HEIGHT - item.y)} Td`,
+      `(${escapeString(encodeText(item.text))}) Tj`,
+      'ET'
+    ].join('\n');
+  }).join('\n');
+}
+
+// PDF date string, e.g. D:20250617120000Z
+function formatPdfDate(date: Date): string {
+  return `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+}
+
+/**
+ * Serialize pages into a PDF file.
+ * Object numbers: 1 catalog, 2 page tree, 3-4 fonts, 5 document info, then
+ * each page followed by its content stream.
+ */
+export function renderPdf(pages: PdfPage[], info: { title: string; author?: string }): Buffer {
+  const pageObjectNumber = (index: number) => 6 + index * 2;
+  const fontEntries = Object.values(FONT_RESOURCES)
+    .map((font, index) => `/${font.name} ${3 + index} 0 R`)
+    .join(' ');
+
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, index) => `${pageObjectNumber(index)} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    ...Object.values(FONT_RESOURCES).map(font =>
+      `<< /Type /Font /Subtype /Type1 /BaseFont /${font.baseFont} /Encoding /WinAnsiEncoding >>`
+    ),
+    [
+      '<<',
+      `/Title (${escapeString(encodeText(info.title))})`,
+      info.author ? `/Author (${escapeString(encodeText(info.author))})` : '',
+      `/CreationDate (${formatPdfDate(new Date())})`,
+      '>>'
+    ].filter(Boolean).join(' ')
+  ];
+
+  pages.forEach((page, index) => {
+    const content = renderContent(page);
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << ${fontEntries} >> >> /Contents ${pageObjectNumber(index) + 1} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+  });
+
+  // Everything is Latin-1, so string offsets are byte offsets
+  let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+  const offsets = objects.map((object, index) => {
+    const offset = output.length;
+    output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+}
+
+export interface PdfTextOptions {
+  size?: number;
+  font?: PdfFont;
+  color?: PdfColor;
+  // x is the left edge for 'left' and the right edge for 'right'
+  align?: 'left' | 'right';
+}
+
+/**
+ * Lay out a document top to bottom, starting new pages as it fills up.
+ * Text is drawn on the current line; moveDown advances to the next one.
+ */
+export function createPdfLayout(margin = 54) {
+  const pages: PdfPage[] = [];
+  let y = margin;
+
+  const currentPage = () => {
+    if (pages.length === 0) {
+      pages.push({ items: [] });
+    }
+    return pages[pages.length - 1];
+  };
+
+  const layout = {
+    pages,
+    left: margin,
+    right: PAGE_WIDTH - margin,
+    width: PAGE_WIDTH - margin * 2,
+
+    get y() {
+      return y;
+    },
+
+    newPage() {
+      pages.push({ items: [] });
+      y = margin;
+    },
+
+    // Start a new page unless `height` more points fit on this one
+    ensureSpace(height: number) {
+      if (pages.length > 0 && y + height > PAGE_HEIGHT - margin) {
+        layout.newPage();
+      }
+    },
+
+    moveDown(height: number) {
+      y += height;
+    },
+
+    text(text: string, x: number, options: PdfTextOptions = {}) {
+      const size = options.size ?? 10;
+      const font = options.font ?? 'regular';
+      currentPage().items.push({
+        kind: 'text',
+        x: options.align === 'right' ? x - textWidth(text, size, font) : x,
+        y,
+        text,
+        size,
+        font,
+        color: options.color
+      });
+    },
+
+    // Wrapped text from the left margin (or x), moving down a line at a time
+    paragraph(text: string, options: PdfTextOptions & { x?: number; width?: number; lineHeight?: number } = {}) {
+      const size = options.size ?? 10;
+      const x = options.x ?? margin;
+      const lineHeight = options.lineHeight ?? size * 1.4;
+      wrapText(text, options.width ?? PAGE_WIDTH - margin - x, size, options.font).forEach(line => {
+        layout.ensureSpace(lineHeight);
+        layout.moveDown(lineHeight);
+        layout.text(line, x, options);
+      });
+    },
+
+    line(x1: number, y1: number, x2: number, y2: number, options: { width?: number; color?: PdfColor } = {}) {
+      currentPage().items.push({ kind: 'line', x1, y1, x2, y2, width: options.width ?? 0.5, color: options.color });
+    },
+
+    polyline(points: [number, number][], options: { width?: number; color?: PdfColor } = {}) {
+      currentPage().items.push({ kind: 'polyline', points, width: options.width ?? 1, color: options.color });
+    },
+
+    // Horizontal line across the page just below the current line
+    rule(options: { width?: number; color?: PdfColor; offset?: number } = {}) {
+      const lineY = y + (options.offset ?? 6);
+      layout.line(margin, lineY, PAGE_WIDTH - margin, lineY, options);
+    }
+  };
+
+  return layout;
+}
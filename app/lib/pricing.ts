@@ -0,0 +1,694 @@
+import { format, eachDayOfInterval, getDay, addYears, differenceInCalendarDays, startOfDay } from 'date-fns';
+import { Vehicle } from '@prisma/client';
+
+/**
+ * Pricing Engine
+ *
+ * Single source of truth for rental prices. Every route that shows or charges
+ * a price (availability, bookings, admin bookings, checkout) builds its quote
+ * here so the customer pays exactly what /booking displayed.
+ *
+ * A stay is priced per calendar day, inclusive of both the start and end date,
+ * then the best length-of-stay discount the stay qualifies for comes off the
+ * sum of the days.
+ * Vehicles with dynamic pricing move each day's price up or down with fleet
+ * utilization and lead time, bounded by the vehicle's floor and ceiling.
+ * This module has no database access so client components (e.g. the admin
+ * calendar) can price with the same rules; loaders live in app/lib/quote.ts.
+ */
+
+// Special pricing rule with the vehicles it is attached to
+export interface PricingRule {
+  id: string;
+  name: string;
+  startDate: Date | string;
+  endDate: Date | string;
+  priceType: string;
+  priceValue: number;
+  applyToAll: boolean;
+  recurrence: string;
+  daysOfWeek: number[];
+  priority: number;
+  createdAt: Date | string;
+  vehicles: { id: string }[];
+}
+
+// How a special pricing rule repeats
+export type PricingRecurrence = 'none' | 'weekly' | 'yearly';
+
+export const PRICING_RECURRENCES: PricingRecurrence[] = ['none', 'weekly', 'yearly'];
+
+// Short day names indexed like Date.getDay() (0 = Sunday)
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Length-of-stay discount tier with the vehicles it is attached to
+export interface StayDiscountRule {
+  id: string;
+  name: string;
+  minDays: number;
+  percentOff: number;
+  applyToAll: boolean;
+  vehicles: { id: string }[];
+}
+
+// Length-of-stay discount taken off a quote
+export interface AppliedStayDiscount {
+  id: string;
+  name: string;
+  minDays: number;
+  percentOff: number;
+  amount: number;
+}
+
+// Price of a single rental day
+export interface DailyPrice {
+  date: string;
+  price: number;
+  isSpecialPrice: boolean;
+  ruleId?: string;
+  ruleName?: string;
+  // Set when dynamic pricing changed the day's price
+  adjustment?: DemandAdjustment;
+}
+
+// Fleet demand used by dynamic pricing
+export interface DemandContext {
+  // Share of the fleet booked on each 'yyyy-MM-dd' day, from 0 to 1
+  utilization: Record<string, number>;
+  // Day the price is quoted on, for the lead time
+  today: Date;
+}
+
+// Why dynamic pricing changed a day's price
+export interface DemandAdjustment {
+  utilization: number;
+  leadDays: number;
+  // Total change before the floor and ceiling, e.g. 20 for +20%
+  percent: number;
+  reasons: string[];
+  // Set when the vehicle's floor or ceiling capped the change
+  limitedBy?: 'floor' | 'ceiling';
+}
+
+// Dynamic pricing steps; one utilization step and one lead time step can apply per day
+export const DYNAMIC_PRICING = {
+  highUtilization: { threshold: 0.8, percent: 20 },
+  busyUtilization: { threshold: 0.6, percent: 10 },
+  lowUtilization: { threshold: 0.2, percent: -10 },
+  lastMinute: { days: 3, percent: 10 },
+  earlyBooking: { days: 60, percent: -5 }
+};
+
+// Days sharing the same price and rule, collapsed into one line item
+export interface QuoteLine {
+  description: string;
+  unitPrice: number;
+  quantity: number;
+  amount: number;
+  ruleName?: string;
+  dates: string[];
+}
+
+// Itemized quote for a vehicle and date range
+export interface Quote {
+  vehicleId: string;
+  startDate: string;
+  endDate: string;
+  days: number;
+  basePricePerDay: number;
+  adjustedPricePerDay: number;
+  hasSpecialPricing: boolean;
+  dailyPrices: DailyPrice[];
+  lines: QuoteLine[];
+  // Sum of the daily prices, before the length-of-stay discount
+  subtotal: number;
+  stayDiscount: AppliedStayDiscount | null;
+  totalPrice: number;
+}
+
+// Vehicle fields pricing reads; without the dynamic pricing fields it is never adjusted
+export type PricedVehicle = Pick<Vehicle, 'id' | 'pricePerDay'> &
+  Partial<Pick<Vehicle, 'dynamicPricing' | 'priceFloor' | 'priceCeiling'>>;
+
+// Rental length limits of a vehicle
+export type RentalLengthLimits = Pick<Vehicle, 'minRentalDays' | 'maxRentalDays'>;
+
+// Discount settings of a promo code
+export interface PromoDiscount {
+  discountType: string;
+  discountValue: number;
+}
+
+/**
+ * Parse a date parameter coming from the client.
+ * Plain 'yyyy-MM-dd' strings are interpreted as local midnight to avoid
+ * timezone drift; anything else is handed to the Date constructor.
+ */
+export function parseDateParam(value: string): Date {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return new Date(value + 'T00:00:00');
+  }
+  return new Date(value);
+}
+
+// Format a date as the 'yyyy-MM-dd' key used throughout the pricing data
+export function toDateKey(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+// Check if a rule applies to the given vehicle
+export function ruleAppliesToVehicle(rule: PricingRule, vehicleId: string): boolean {
+  return rule.applyToAll || rule.vehicles.some(v => v.id === vehicleId);
+}
+
+/**
+ * Check if a rule covers the given day.
+ * Weekly rules cover their days of the week between the start and end date;
+ * yearly rules cover the same month/day span every year from the start date
+ * on, including spans that wrap over New Year.
+ */
+export function ruleCoversDay(rule: PricingRule, day: Date): boolean {
+  const dayKey = toDateKey(day);
+  const startKey = toDateKey(new Date(rule.startDate));
+  const endKey = toDateKey(new Date(rule.endDate));
+
+  if (rule.recurrence === 'weekly') {
+    return dayKey >= startKey && dayKey <= endKey && rule.daysOfWeek.includes(getDay(day));
+  }
+
+  if (rule.recurrence === 'yearly') {
+    if (dayKey < startKey) {
+      return false;
+    }
+    // Compare 'MM-dd' so the year doesn't matter
+    const monthDay = dayKey.slice(5);
+    const startMonthDay = startKey.slice(5);
+    const endMonthDay = endKey.slice(5);
+    return startMonthDay <= endMonthDay
+      ? monthDay >= startMonthDay && monthDay <= endMonthDay
+      : monthDay >= startMonthDay || monthDay <= endMonthDay;
+  }
+
+  return dayKey >= startKey && dayKey <= endKey;
+}
+
+/**
+ * Date ranges a rule covers between two dates, as inclusive 'yyyy-MM-dd'
+ * pairs. Used to draw recurring rules as one block per occurrence.
+ */
+export function ruleCoveredRanges(rule: PricingRule, from: Date, to: Date): { start: string; end: string }[] {
+  const ranges: { start: string; end: string }[] = [];
+  let current: { start: string; end: string } | null = null;
+
+  eachDayOfInterval({ start: from, end: to }).forEach(day => {
+    if (!ruleCoversDay(rule, day)) {
+      current = null;
+      return;
+    }
+    if (current) {
+      current.end = toDateKey(day);
+      return;
+    }
+    current = { start: toDateKey(day), end: toDateKey(day) };
+    ranges.push(current);
+  });
+
+  return ranges;
+}
+
+// Describe when a recurring rule applies, e.g. "Every Sat, Sun" or "Every year, Dec 24 - Jan 2"
+export function describeRecurrence(rule: Pick<PricingRule, 'recurrence' | 'daysOfWeek' | 'startDate' | 'endDate'>): string | null {
+  if (rule.recurrence === 'weekly') {
+    return `Every ${[...rule.daysOfWeek].sort((a, b) => a - b).map(day => WEEKDAY_LABELS[day]).join(', ')}`;
+  }
+  if (rule.recurrence === 'yearly') {
+    return `Every year, ${format(new Date(rule.startDate), 'MMM d')} - ${format(new Date(rule.endDate), 'MMM d')}`;
+  }
+  return null;
+}
+
+// Check the repeat settings of a rule from the admin form; returns an error message or null
+export function recurrenceError(recurrence: string, daysOfWeek: number[], start: Date, end: Date): string | null {
+  if (!PRICING_RECURRENCES.includes(recurrence as PricingRecurrence)) {
+    return 'Invalid recurrence. Must be "none", "weekly" or "yearly"';
+  }
+  if (daysOfWeek.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+    return 'Days of the week must be between 0 (Sunday) and 6 (Saturday)';
+  }
+  if (recurrence === 'weekly' && daysOfWeek.length === 0) {
+    return 'Weekly rules need at least one day of the week';
+  }
+  if (end < start) {
+    return 'The start date must be before the end date';
+  }
+  if (recurrence === 'yearly' && addYears(start, 1) <= end) {
+    return 'Yearly rules must span less than a year';
+  }
+  return null;
+}
+
+// Apply a rule to the vehicle's base price
+export function applyRule(rule: PricingRule, basePrice: number): number {
+  if (rule.priceType === 'multiplier') {
+    return Math.round(basePrice * rule.priceValue);
+  }
+  if (rule.priceType === 'fixed') {
+    return Math.round(rule.priceValue);
+  }
+  return basePrice;
+}
+
+/**
+ * Order rules by precedence: the highest priority first and, among equal
+ * priorities, the most recently created one.
+ */
+export function compareRulePrecedence(a: PricingRule, b: PricingRule): number {
+  return (b.priority - a.priority) || (new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+}
+
+// Every rule covering a vehicle on a day, the winning one first
+export function findMatchingRules(rules: PricingRule[], vehicleId: string, day: Date): PricingRule[] {
+  return rules
+    .filter(rule => ruleCoversDay(rule, day) && ruleAppliesToVehicle(rule, vehicleId))
+    .sort(compareRulePrecedence);
+}
+
+// Pick the rule that wins for a vehicle on a day
+export function findWinningRule(rules: PricingRule[], vehicleId: string, day: Date): PricingRule | null {
+  return findMatchingRules(rules, vehicleId, day)[0] || null;
+}
+
+// One day of the admin pricing simulator
+export interface DayPricingExplanation {
+  date: string;
+  basePrice: number;
+  price: number;
+  // Matching rules in order of precedence with the price each would give
+  matchingRules: { id: string; name: string; priority: number; price: number }[];
+  winningRuleId: string | null;
+  // Dynamic pricing applied on top of the winning rule's price
+  adjustment: DemandAdjustment | null;
+}
+
+// Show for each day which rules match a vehicle, which one wins and how demand moved the price
+export function explainDailyPricing(
+  vehicle: PricedVehicle,
+  start: Date,
+  end: Date,
+  rules: PricingRule[],
+  demand?: DemandContext
+): DayPricingExplanation[] {
+  return eachDayOfInterval({ start, end }).map(day => {
+    const matching = findMatchingRules(rules, vehicle.id, day);
+    const price = matching[0] ? applyRule(matching[0], vehicle.pricePerDay) : vehicle.pricePerDay;
+    const dynamic = vehicle.dynamicPricing && demand
+      ? applyDemandPricing(vehicle, day, price, demand)
+      : null;
+
+    return {
+      date: toDateKey(day),
+      basePrice: vehicle.pricePerDay,
+      price: dynamic ? dynamic.price : price,
+      matchingRules: matching.map(rule => ({
+        id: rule.id,
+        name: rule.name,
+        priority: rule.priority,
+        price: applyRule(rule, vehicle.pricePerDay)
+      })),
+      winningRuleId: matching[0]?.id || null,
+      adjustment: dynamic?.adjustment || null
+    };
+  });
+}
+
+/**
+ * How a rule relates to another rule it overlaps:
+ * 'shadowed' - the other rule wins on every day and vehicle, so the rule never applies
+ * 'shadows' - the rule wins on every day and vehicle of the other rule, which never applies
+ * 'overlaps' - both apply on some days
+ */
+export type RuleConflictKind = 'shadowed' | 'shadows' | 'overlaps';
+
+export interface RuleConflict {
+  ruleId: string;
+  ruleName: string;
+  kind: RuleConflictKind;
+  overlapDays: number;
+  message: string;
+}
+
+// Days a rule covers, from its first occurrence
+function ruleDays(rule: PricingRule): Date[] {
+  return eachDayOfInterval({ start: new Date(rule.startDate), end: new Date(rule.endDate) })
+    .filter(day => ruleCoversDay(rule, day));
+}
+
+function rulesShareVehicle(a: PricingRule, b: PricingRule): boolean {
+  return a.applyToAll || b.applyToAll || a.vehicles.some(vehicle => ruleAppliesToVehicle(b, vehicle.id));
+}
+
+// Whether rule covers every vehicle the other rule applies to
+function ruleCoversVehiclesOf(rule: PricingRule, other: PricingRule): boolean {
+  return rule.applyToAll || (!other.applyToAll && other.vehicles.every(vehicle => ruleAppliesToVehicle(rule, vehicle.id)));
+}
+
+// Whether rule covers and wins every day of the other rule's first occurrence
+function ruleWinsEveryDayOf(rule: PricingRule, other: PricingRule): boolean {
+  return ruleDays(other).every(day => ruleCoversDay(rule, day) && compareRulePrecedence(rule, other) < 0);
+}
+
+/**
+ * Compare a rule with the other special pricing rules and describe every
+ * overlap, so admins can see which rule wins before customers do.
+ */
+export function findRuleConflicts(rule: PricingRule, others: PricingRule[]): RuleConflict[] {
+  const days = ruleDays(rule);
+
+  return others.flatMap((other): RuleConflict[] => {
+    if (other.id === rule.id || !rulesShareVehicle(rule, other)) {
+      return [];
+    }
+
+    const overlapDays = days.filter(day => ruleCoversDay(other, day)).length;
+    if (overlapDays === 0) {
+      return [];
+    }
+
+    const ruleWins = compareRulePrecedence(rule, other) < 0;
+    const base = { ruleId: other.id, ruleName: other.name, overlapDays };
+
+    if (!ruleWins && overlapDays === days.length && ruleCoversVehiclesOf(other, rule)) {
+      return [{
+        ...base,
+        kind: 'shadowed',
+        message: `"${rule.name}" never applies: "${other.name}" takes precedence on all of its days`
+      }];
+    }
+
+    if (ruleWins && ruleCoversVehiclesOf(rule, other) && ruleWinsEveryDayOf(rule, other)) {
+      return [{
+        ...base,
+        kind: 'shadows',
+        message: `"${other.name}" no longer applies: "${rule.name}" takes precedence on all of its days`
+      }];
+    }
+
+    return [{
+      ...base,
+      kind: 'overlaps',
+      message: `"${rule.name}" overlaps "${other.name}" on ${overlapDays} day${overlapDays !== 1 ? 's' : ''}; "${ruleWins ? rule.name : other.name}" takes precedence there`
+    }];
+  });
+}
+
+const formatPercent = (percent: number) => `${percent > 0 ? '+' : ''}${percent}%`;
+
+/**
+ * Adjust a day's price for demand.
+ * Utilization and lead time each add or take off a percentage; the floor
+ * and ceiling only bound that change, so a special price below the floor
+ * isn't raised by it. Returns null when the price doesn't change.
+ */
+export function applyDemandPricing(
+  vehicle: PricedVehicle,
+  day: Date,
+  price: number,
+  demand: DemandContext
+): { price: number; adjustment: DemandAdjustment } | null {
+  const utilization = demand.utilization[toDateKey(day)] || 0;
+  const leadDays = differenceInCalendarDays(day, startOfDay(demand.today));
+  const booked = `${Math.round(utilization * 100)}% of the fleet booked`;
+  const steps: { percent: number; reason: string }[] = [];
+
+  if (utilization >= DYNAMIC_PRICING.highUtilization.threshold) {
+    steps.push({ percent: DYNAMIC_PRICING.highUtilization.percent, reason: booked });
+  } else if (utilization >= DYNAMIC_PRICING.busyUtilization.threshold) {
+    steps.push({ percent: DYNAMIC_PRICING.busyUtilization.percent, reason: booked });
+  } else if (utilization <= DYNAMIC_PRICING.lowUtilization.threshold) {
+    steps.push({ percent: DYNAMIC_PRICING.lowUtilization.percent, reason: booked });
+  }
+
+  if (leadDays <= DYNAMIC_PRICING.lastMinute.days) {
+    steps.push({ percent: DYNAMIC_PRICING.lastMinute.percent, reason: `Booked ${leadDays} day${leadDays !== 1 ? 's' : ''} ahead` });
+  } else if (leadDays >= DYNAMIC_PRICING.earlyBooking.days) {
+    steps.push({ percent: DYNAMIC_PRICING.earlyBooking.percent, reason: `Booked ${leadDays} days ahead` });
+  }
+
+  const percent = steps.reduce((sum, step) => sum + step.percent, 0);
+  if (percent === 0) {
+    return null;
+  }
+
+  let adjusted = Math.round(price * (100 + percent) / 100);
+  let limitedBy: DemandAdjustment['limitedBy'];
+
+  if (percent < 0 && vehicle.priceFloor != null && adjusted < vehicle.priceFloor) {
+    adjusted = Math.min(price, vehicle.priceFloor);
+    limitedBy = 'floor';
+  }
+  if (percent > 0 && vehicle.priceCeiling != null && adjusted > vehicle.priceCeiling) {
+    adjusted = Math.max(price, vehicle.priceCeiling);
+    limitedBy = 'ceiling';
+  }
+
+  if (adjusted === price) {
+    return null;
+  }
+
+  return {
+    price: adjusted,
+    adjustment: {
+      utilization,
+      leadDays,
+      percent,
+      reasons: steps.map(step => `${step.reason}: ${formatPercent(step.percent)}`),
+      ...(limitedBy ? { limitedBy } : {})
+    }
+  };
+}
+
+// Describe a dynamic pricing adjustment for admins, e.g. "85% of the fleet booked: +20%; capped at the ceiling"
+export function describeDemandAdjustment(adjustment: DemandAdjustment): string {
+  const limit = adjustment.limitedBy ? `; capped at the ${adjustment.limitedBy}` : '';
+  return `${adjustment.reasons.join(', ')}${limit}`;
+}
+
+/**
+ * Price every day of the stay.
+ * Demand is only needed for vehicles with dynamic pricing turned on.
+ */
+export function priceDays(
+  vehicle: PricedVehicle,
+  start: Date,
+  end: Date,
+  rules: PricingRule[],
+  demand?: DemandContext
+): DailyPrice[] {
+  return eachDayOfInterval({ start, end }).map(day => {
+    const rule = findWinningRule(rules, vehicle.id, day);
+    const price = rule ? applyRule(rule, vehicle.pricePerDay) : vehicle.pricePerDay;
+    const dynamic = vehicle.dynamicPricing && demand
+      ? applyDemandPricing(vehicle, day, price, demand)
+      : null;
+
+    if (!rule && !dynamic) {
+      return {
+        date: toDateKey(day),
+        price,
+        isSpecialPrice: false
+      };
+    }
+
+    return {
+      date: toDateKey(day),
+      price: dynamic ? dynamic.price : price,
+      isSpecialPrice: true,
+      ...(rule ? { ruleId: rule.id, ruleName: rule.name } : { ruleName: 'Demand' }),
+      ...(dynamic ? { adjustment: dynamic.adjustment } : {})
+    };
+  });
+}
+
+// Collapse daily prices into one line per distinct price/rule pair
+export function buildQuoteLines(dailyPrices: DailyPrice[]): QuoteLine[] {
+  const lines = new Map<string, QuoteLine>();
+
+  dailyPrices.forEach(day => {
+    const key = `${day.price}_${day.ruleId || 'base'}`;
+    const existing = lines.get(key);
+
+    if (existing) {
+      existing.quantity += 1;
+      existing.amount += day.price;
+      existing.dates.push(day.date);
+      return;
+    }
+
+    lines.set(key, {
+      description: day.ruleName ? `${day.ruleName} rate` : 'Standard rate',
+      unitPrice: day.price,
+      quantity: 1,
+      amount: day.price,
+      ruleName: day.ruleName,
+      dates: [day.date]
+    });
+  });
+
+  return Array.from(lines.values());
+}
+
+/**
+ * Pick the length-of-stay discount for a vehicle and stay length.
+ * The largest discount among the tiers the stay qualifies for wins.
+ */
+export function findStayDiscount(discounts: StayDiscountRule[], vehicleId: string, days: number): StayDiscountRule | null {
+  const matching = discounts
+    .filter(discount => days >= discount.minDays && (discount.applyToAll || discount.vehicles.some(v => v.id === vehicleId)))
+    .sort((a, b) => b.percentOff - a.percentOff);
+
+  return matching[0] || null;
+}
+
+// Why a stay of this many days can't be booked for the vehicle, or null if it can
+export function rentalLengthError(limits: RentalLengthLimits, days: number): string | null {
+  if (days < limits.minRentalDays) {
+    return `This vehicle must be rented for at least ${limits.minRentalDays} days`;
+  }
+  if (limits.maxRentalDays && days > limits.maxRentalDays) {
+    return `This vehicle can be rented for at most ${limits.maxRentalDays} days`;
+  }
+  return null;
+}
+
+/**
+ * Build an itemized quote from already-loaded rules.
+ * Pure function so callers pricing many vehicles can share one rule query.
+ * stayLength overrides the number of days used to pick the length-of-stay
+ * discount, e.g. when quoting only the days added by an extension.
+ * demand is the fleet utilization used for vehicles with dynamic pricing.
+ */
+export function calculateQuote(
+  vehicle: PricedVehicle,
+  start: Date,
+  end: Date,
+  rules: PricingRule[],
+  stayDiscounts: StayDiscountRule[] = [],
+  options: { stayLength?: number; demand?: DemandContext } = {}
+): Quote {
+  const dailyPrices = priceDays(vehicle, start, end, rules, options.demand);
+  const subtotal = dailyPrices.reduce((sum, day) => sum + day.price, 0);
+  const hasSpecialPricing = dailyPrices.some(day => day.isSpecialPrice);
+
+  const discount = findStayDiscount(stayDiscounts, vehicle.id, options.stayLength ?? dailyPrices.length);
+  const stayDiscount = discount
+    ? {
+      id: discount.id,
+      name: discount.name,
+      minDays: discount.minDays,
+      percentOff: discount.percentOff,
+      amount: Math.round(subtotal * discount.percentOff / 100)
+    }
+    : null;
+
+  return {
+    vehicleId: vehicle.id,
+    startDate: toDateKey(start),
+    endDate: toDateKey(end),
+    days: dailyPrices.length,
+    basePricePerDay: vehicle.pricePerDay,
+    // Average price per day (for backward compatibility)
+    adjustedPricePerDay: hasSpecialPricing && dailyPrices.length > 0
+      ? Math.round(subtotal / dailyPrices.length)
+      : vehicle.pricePerDay,
+    hasSpecialPricing,
+    dailyPrices,
+    lines: buildQuoteLines(dailyPrices),
+    subtotal,
+    stayDiscount,
+    totalPrice: subtotal - (stayDiscount?.amount || 0)
+  };
+}
+
+// Price settings of an add-on
+export interface AddOnPrice {
+  priceType: string;
+  price: number;
+}
+
+// Charge for an add-on over a booking: 'per_day' add-ons are charged for every day, 'flat' ones once
+export function calculateAddOnAmount(addOn: AddOnPrice, quantity: number, days: number): number {
+  return addOn.priceType === 'flat'
+    ? addOn.price * quantity
+    : addOn.price * quantity * days;
+}
+
+/**
+ * Booking fees. Cleaning fees are charged on every booking; the other kinds
+ * only when the customer asks for delivery, picks up at the airport or has a
+ * driver under 25.
+ */
+export type FeeKind = 'cleaning' | 'delivery' | 'airport' | 'young_driver';
+
+export const FEE_KINDS: FeeKind[] = ['cleaning', 'delivery', 'airport', 'young_driver'];
+
+export const FEE_KIND_LABELS: Record<FeeKind, string> = {
+  cleaning: 'Cleaning',
+  delivery: 'Delivery',
+  airport: 'Airport surcharge',
+  young_driver: 'Young driver'
+};
+
+// What the customer ticks on /booking to add each optional kind of fee
+export const OPTIONAL_FEE_QUESTIONS: Record<Exclude<FeeKind, 'cleaning'>, string> = {
+  delivery: 'Deliver the car to my address',
+  airport: 'Pick up and return at the airport',
+  young_driver: 'A driver is under 25'
+};
+
+// Whether a fee of this kind is charged, given the optional kinds the customer picked
+export function feeApplies(kind: string, chosenKinds: string[]): boolean {
+  return kind === 'cleaning' || chosenKinds.includes(kind);
+}
+
+// Charge for a fee over a booking, 'per_day' or 'flat' like add-ons
+export function calculateFeeAmount(fee: AddOnPrice, days: number): number {
+  return calculateAddOnAmount(fee, 1, days);
+}
+
+// Tax rate as a percentage, e.g. 13 for Ontario HST
+export interface TaxRatePercentage {
+  name: string;
+  percentage: number;
+}
+
+export interface TaxLine {
+  name: string;
+  percentage: number;
+  taxableAmount: number;
+  amount: number;
+}
+
+/**
+ * Tax owed on an amount, one line per rate. Every rate applies to the same
+ * taxable amount (no tax on tax) and is rounded to the cent.
+ */
+export function calculateTaxes<T extends TaxRatePercentage>(rates: T[], taxableAmount: number): (T & TaxLine)[] {
+  return rates.map(rate => ({
+    ...rate,
+    taxableAmount,
+    amount: Math.round(Math.max(taxableAmount, 0) * rate.percentage / 100)
+  }));
+}
+
+/**
+ * Discount a promo code takes off a subtotal.
+ * 'percent' codes take a percentage, 'fixed' codes an amount in cents; either
+ * way the result is whole cents and never more than the subtotal.
+ */
+export function calculatePromoDiscount(promo: PromoDiscount, subtotal: number): number {
+  const discount = promo.discountType === 'percent'
+    ? Math.round(subtotal * promo.discountValue / 100)
+    : Math.round(promo.discountValue);
+
+  return Math.min(Math.max(discount, 0), subtotal);
+}
@@ -0,0 +1,204 @@
+import prisma from '@/app/lib/prisma';
+import { BookingStatus, Prisma, PromoCode } from '@prisma/client';
+import { calculatePromoDiscount, parseDateParam, toDateKey } from '@/app/lib/pricing';
+import { toMinorUnits } from '@/app/lib/currency';
+
+/**
+ * Promo codes
+ *
+ * A code is redeemable while it is active, inside its valid dates and under
+ * its usage limits, for stays of at least minDays on an eligible vehicle.
+ * Every booking that isn't cancelled or refunded counts as a use.
+ */
+
+// Thrown when a promo code can't be used for the quoted booking
+export class PromoCodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromoCodeError';
+  }
+}
+
+// Bookings that count toward a code's usage limits
+const REDEEMED_STATUSES: BookingStatus[] = ['pending', 'confirmed', 'active', 'completed', 'no_show'];
+
+// Codes are stored and compared upper case without surrounding whitespace
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+export interface PromoRedemption {
+  vehicleId: string;
+  days: number;
+  subtotal: number;
+  // Signed-in customer; per-user limits are only checked when known
+  userId?: string;
+  now?: Date;
+}
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+// Throw a PromoCodeError if the code has reached its overall or per-customer usage limit
+async function assertUsesAvailable(
+  promoCode: Pick<PromoCode, 'id' | 'maxUses' | 'maxUsesPerUser'>,
+  userId: string | undefined,
+  db: DbClient
+) {
+  if (promoCode.maxUses !== null) {
+    const uses = await db.booking.count({
+      where: { promoCodeId: promoCode.id, status: { in: REDEEMED_STATUSES } }
+    });
+
+    if (uses >= promoCode.maxUses) {
+      throw new PromoCodeError('This promo code has reached its usage limit');
+    }
+  }
+
+  if (promoCode.maxUsesPerUser !== null && userId) {
+    const userUses = await db.booking.count({
+      where: { promoCodeId: promoCode.id, userId, status: { in: REDEEMED_STATUSES } }
+    });
+
+    if (userUses >= promoCode.maxUsesPerUser) {
+      throw new PromoCodeError('You have already used this promo code');
+    }
+  }
+}
+
+/**
+ * Re-check a quoted code's usage limits inside the booking transaction, so
+ * two checkouts can't both take a code's last use.
+ */
+export async function assertPromoCodeUsesAvailable(promoCodeId: string, userId: string | undefined, db: DbClient) {
+  const promoCode = await db.promoCode.findUnique({ where: { id: promoCodeId } });
+
+  if (!promoCode || !promoCode.active) {
+    throw new PromoCodeError('This promo code is not valid');
+  }
+
+  await assertUsesAvailable(promoCode, userId, db);
+}
+
+/**
+ * Look up a code and check it can be used for this booking.
+ * Returns the code and the discount in cents; throws PromoCodeError
+ * with a customer-facing message otherwise.
+ */
+export async function redeemPromoCode(code: string, redemption: PromoRedemption) {
+  const now = redemption.now ?? new Date();
+  const promoCode = await prisma.promoCode.findUnique({
+    where: { code: normalizePromoCode(code) },
+    include: { vehicles: { select: { id: true } } }
+  });
+
+  if (!promoCode || !promoCode.active) {
+    throw new PromoCodeError('This promo code is not valid');
+  }
+
+  // Valid from the first day through the whole of the last one
+  const today = toDateKey(now);
+  if ((promoCode.validFrom && today < toDateKey(promoCode.validFrom)) ||
+    (promoCode.validUntil && today > toDateKey(promoCode.validUntil))) {
+    throw new PromoCodeError('This promo code has expired or is not active yet');
+  }
+
+  if (!promoCode.applyToAll && !promoCode.vehicles.some(vehicle => vehicle.id === redemption.vehicleId)) {
+    throw new PromoCodeError('This promo code can\'t be used for this vehicle');
+  }
+
+  if (promoCode.minDays && redemption.days < promoCode.minDays) {
+    throw new PromoCodeError(`This promo code requires a rental of at least ${promoCode.minDays} days`);
+  }
+
+  await assertUsesAvailable(promoCode, redemption.userId, prisma);
+
+  return {
+    promoCode,
+    discount: calculatePromoDiscount(promoCode, redemption.subtotal)
+  };
+}
+
+// Number of bookings that used each code
+export async function countPromoCodeUses(promoCodeIds: string[]): Promise<Record<string, number>> {
+  const counts = await prisma.booking.groupBy({
+    by: ['promoCodeId'],
+    where: { promoCodeId: { in: promoCodeIds }, status: { in: REDEEMED_STATUSES } },
+    _count: { _all: true }
+  });
+
+  return Object.fromEntries(counts.map(count => [count.promoCodeId as string, count._count._all]));
+}
+
+// Optional whole-number limit from an admin form; blank means no limit
+function parseLimit(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  const limit = parseInt(String(value), 10);
+  return Number.isFinite(limit) && limit > 0 ? limit : null;
+}
+
+// Optional 'yyyy-MM-dd' date from an admin form, as local midnight like the date pickers
+function parseOptionalDate(value: unknown): Date | null {
+  return value ? parseDateParam(String(value)) : null;
+}
+
+/**
+ * Validate the fields the admin promo code form sends.
+ * Only fields present in the body are returned, so it serves both create and update.
+ */
+export function parsePromoCodeInput(body: Record<string, unknown>): { error: string } | { data: Prisma.PromoCodeUpdateInput } {
+  const data: Prisma.PromoCodeUpdateInput = {};
+
+  if (body.code !== undefined) {
+    const code = normalizePromoCode(String(body.code));
+    if (!/^[A-Z0-9_-]{3,32}$/.test(code)) {
+      return { error: 'Codes must be 3-32 letters, numbers, dashes or underscores' };
+    }
+    data.code = code;
+  }
+
+  if (body.description !== undefined) data.description = body.description ? String(body.description) : null;
+
+  if (body.discountType !== undefined) {
+    if (body.discountType !== 'percent' && body.discountType !== 'fixed') {
+      return { error: 'Invalid discount type. Must be "percent" or "fixed"' };
+    }
+    data.discountType = body.discountType;
+  }
+
+  if (body.discountValue !== undefined) {
+    const value = parseFloat(String(body.discountValue));
+    if (!Number.isFinite(value) || value <= 0) {
+      return { error: 'Discount must be greater than zero' };
+    }
+    if ((body.discountType ?? 'percent') === 'percent' && value > 100) {
+      return { error: 'Percent discounts can be at most 100' };
+    }
+    // Fixed discounts are entered in dollars and stored in cents
+    data.discountValue = body.discountType === 'fixed' ? toMinorUnits(value) : value;
+  }
+
+  if (body.validFrom !== undefined) data.validFrom = parseOptionalDate(body.validFrom);
+  if (body.validUntil !== undefined) data.validUntil = parseOptionalDate(body.validUntil);
+  if ([data.validFrom, data.validUntil].some(date => date instanceof Date && Number.isNaN(date.getTime()))) {
+    return { error: 'Invalid date' };
+  }
+  if (data.validFrom instanceof Date && data.validUntil instanceof Date && data.validFrom > data.validUntil) {
+    return { error: 'The start date must be before the end date' };
+  }
+
+  if (body.maxUses !== undefined) data.maxUses = parseLimit(body.maxUses);
+  if (body.maxUsesPerUser !== undefined) data.maxUsesPerUser = parseLimit(body.maxUsesPerUser);
+  if (body.minDays !== undefined) data.minDays = parseLimit(body.minDays);
+  if (body.active !== undefined) data.active = Boolean(body.active);
+
+  if (body.applyToAll !== undefined || body.vehicleIds !== undefined) {
+    const applyToAll = body.applyToAll !== false;
+    const vehicleIds = Array.isArray(body.vehicleIds) ? body.vehicleIds.map(String) : [];
+    data.applyToAll = applyToAll;
+    data.vehicles = { set: applyToAll ? [] : vehicleIds.map(id => ({ id })) };
+  }
+
+  return { data };
+}
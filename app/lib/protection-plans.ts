@@ -0,0 +1,73 @@
+/**
+ * Protection plans
+ *
+ * Every booking carries one protection plan. Better plans cost more per day
+ * and lower the deductible, the most the customer pays towards damage. The
+ * deductible is also the security deposit held on the card, unless the
+ * vehicle sets its own deposit. The plan's price and deductible are copied
+ * onto the booking, so changing the plans here doesn't alter past bookings.
+ *
+ * Kept free of server-only imports so /booking can show the same plans.
+ */
+
+export type ProtectionPlanId = 'basic' | 'standard' | 'premium';
+
+export interface ProtectionPlan {
+  id: ProtectionPlanId;
+  name: string;
+  description: string;
+  // Minor units (cents)
+  pricePerDay: number;
+  deductible: number;
+}
+
+export const PROTECTION_PLANS: ProtectionPlan[] = [
+  {
+    id: 'basic',
+    name: 'Basic',
+    description: 'Third-party liability as required by law. You are responsible for damage to the vehicle up to the deductible.',
+    pricePerDay: 0,
+    deductible: 250000
+  },
+  {
+    id: 'standard',
+    name: 'Standard',
+    description: 'Adds collision and theft cover with a reduced deductible.',
+    pricePerDay: 1900,
+    deductible: 100000
+  },
+  {
+    id: 'premium',
+    name: 'Premium',
+    description: 'Full collision, theft, glass and tire cover with the lowest deductible.',
+    pricePerDay: 3500,
+    deductible: 25000
+  }
+];
+
+export const DEFAULT_PROTECTION_PLAN: ProtectionPlanId = 'basic';
+
+// Plan with the given id, if there is one
+export function findProtectionPlan(id: unknown): ProtectionPlan | undefined {
+  return PROTECTION_PLANS.find(plan => plan.id === id);
+}
+
+// Plan used when the customer doesn't choose one
+export function getDefaultProtectionPlan(): ProtectionPlan {
+  return findProtectionPlan(DEFAULT_PROTECTION_PLAN) as ProtectionPlan;
+}
+
+// Name to show for a booked plan
+export function protectionPlanName(id: string): string {
+  return findProtectionPlan(id)?.name ?? id;
+}
+
+// Charge for a plan over the stay
+export function calculateProtectionAmount(plan: Pick<ProtectionPlan, 'pricePerDay'>, days: number): number {
+  return plan.pricePerDay * days;
+}
+
+// Security deposit held for a booking: the vehicle's own deposit when set, otherwise the plan's deductible
+export function securityDepositFor(plan: Pick<ProtectionPlan, 'deductible'>, vehicle: { securityDeposit: number }): number {
+  return vehicle.securityDeposit > 0 ? vehicle.securityDeposit : plan.deductible;
+}
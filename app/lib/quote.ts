@@ -0,0 +1,241 @@
+import prisma from '@/app/lib/prisma';
+import { eachDayOfInterval, max as maxDate, min as minDate } from 'date-fns';
+import {
+  DemandContext,
+  PricedVehicle,
+  PricingRule,
+  Quote,
+  RentalLengthLimits,
+  FeeKind,
+  RuleConflict,
+  StayDiscountRule,
+  calculateQuote,
+  findRuleConflicts,
+  rentalLengthError,
+  toDateKey
+} from '@/app/lib/pricing';
+import { activeBookingWhere, overlapsRange } from '@/app/lib/availability';
+import { redeemPromoCode } from '@/app/lib/promotions';
+import { AddOnSelection, SelectedAddOn, priceAddOns } from '@/app/lib/add-ons';
+import { ProtectionPlan, calculateProtectionAmount, getDefaultProtectionPlan } from '@/app/lib/protection-plans';
+import { AppliedTax, SelectedFee, priceFees, priceTaxes } from '@/app/lib/fees';
+
+/**
+ * Load the special pricing rules that may cover a date range.
+ * Yearly rules repeat after their end date, so they are loaded once started.
+ * When a vehicleId is given only rules for that vehicle (or all vehicles) are returned.
+ */
+export async function findPricingRules(start: Date, end: Date, vehicleId?: string): Promise<PricingRule[]> {
+  return prisma.specialPricing.findMany({
+    where: {
+      AND: [
+        { startDate: { lte: end } },
+        { OR: [{ endDate: { gte: start } }, { recurrence: 'yearly' }] },
+        ...(vehicleId
+          ? [{ OR: [{ applyToAll: true }, { vehicles: { some: { id: vehicleId } } }] }]
+          : [])
+      ]
+    },
+    include: {
+      vehicles: {
+        select: {
+          id: true
+        }
+      }
+    }
+  });
+}
+
+// Check a saved special pricing rule against all the other rules
+export async function findPricingConflicts(rule: PricingRule): Promise<RuleConflict[]> {
+  const others = await prisma.specialPricing.findMany({
+    where: { id: { not: rule.id } },
+    include: {
+      vehicles: {
+        select: {
+          id: true
+        }
+      }
+    }
+  });
+
+  return findRuleConflicts(rule, others);
+}
+
+/**
+ * Load the length-of-stay discount tiers.
+ * When a vehicleId is given only tiers for that vehicle (or all vehicles) are returned.
+ */
+export async function findStayDiscounts(vehicleId?: string): Promise<StayDiscountRule[]> {
+  return prisma.stayDiscount.findMany({
+    where: vehicleId
+      ? { OR: [{ applyToAll: true }, { vehicles: { some: { id: vehicleId } } }] }
+      : {},
+    include: {
+      vehicles: {
+        select: {
+          id: true
+        }
+      }
+    },
+    orderBy: { minDays: 'asc' }
+  });
+}
+
+/**
+ * Share of the fleet booked on each day of a range, for dynamic pricing.
+ * Counts bookings that currently hold their dates, the same ones that make a
+ * vehicle unavailable.
+ */
+export async function findFleetDemand(start: Date, end: Date): Promise<DemandContext> {
+  const [fleetSize, bookings] = await Promise.all([
+    prisma.vehicle.count(),
+    prisma.booking.findMany({
+      where: { AND: [activeBookingWhere(), overlapsRange(start, end)] },
+      select: { vehicleId: true, startDate: true, endDate: true }
+    })
+  ]);
+
+  const bookedVehicles = new Map<string, Set<string>>();
+  bookings.forEach(booking => {
+    eachDayOfInterval({ start: maxDate([booking.startDate, start]), end: minDate([booking.endDate, end]) })
+      .forEach(day => {
+        const key = toDateKey(day);
+        bookedVehicles.set(key, (bookedVehicles.get(key) || new Set()).add(booking.vehicleId));
+      });
+  });
+
+  return {
+    utilization: Object.fromEntries(
+      Array.from(bookedVehicles, ([day, vehicleIds]) => [day, fleetSize ? vehicleIds.size / fleetSize : 0])
+    ),
+    today: new Date()
+  };
+}
+
+// Load the rules (and the fleet demand for dynamic pricing) and quote a single vehicle
+export async function quoteVehicle(
+  vehicle: PricedVehicle,
+  start: Date,
+  end: Date,
+  options: { stayLength?: number } = {}
+): Promise<Quote> {
+  const [rules, stayDiscounts, demand] = await Promise.all([
+    findPricingRules(start, end, vehicle.id),
+    findStayDiscounts(vehicle.id),
+    vehicle.dynamicPricing ? findFleetDemand(start, end) : undefined
+  ]);
+  return calculateQuote(vehicle, start, end, rules, stayDiscounts, { ...options, demand });
+}
+
+// Thrown when a stay is shorter or longer than the vehicle allows
+export class RentalLengthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RentalLengthError';
+  }
+}
+
+// Throw a RentalLengthError if the vehicle can't be rented for this many days
+export function assertRentalLength(vehicle: RentalLengthLimits, days: number) {
+  const error = rentalLengthError(vehicle, days);
+
+  if (error) {
+    throw new RentalLengthError(error);
+  }
+}
+
+// Promo code applied to a booking quote
+export interface AppliedPromoCode {
+  id: string;
+  code: string;
+  description: string | null;
+}
+
+// What the customer pays for a stay: the rental quote less any promo discount, plus add-ons, fees and tax
+export interface BookingQuote {
+  quote: Quote;
+  // Promo code discount, taken off quote.totalPrice (add-ons aren't discounted)
+  discount: number;
+  promoCode: AppliedPromoCode | null;
+  addOns: SelectedAddOn[];
+  addOnsTotal: number;
+  // Protection plan and its charge for the stay (not discounted either)
+  protection: { plan: ProtectionPlan; amount: number };
+  fees: SelectedFee[];
+  feesTotal: number;
+  // Tax on everything above, after discounts
+  taxes: AppliedTax[];
+  taxTotal: number;
+  totalPrice: number;
+}
+
+/**
+ * Quote a booking the way checkout charges it.
+ * Throws RentalLengthError when the vehicle can't be rented for the stay,
+ * PromoCodeError when the promo code can't be used and AddOnError when the
+ * selected add-ons can't be booked.
+ */
+export async function quoteBooking(
+  vehicle: PricedVehicle & RentalLengthLimits,
+  start: Date,
+  end: Date,
+  options: {
+    promoCode?: string | null;
+    userId?: string;
+    addOns?: AddOnSelection[];
+    protectionPlan?: ProtectionPlan;
+    // Optional fee kinds the customer picked (delivery, airport, young driver)
+    fees?: FeeKind[];
+  } = {}
+): Promise<BookingQuote> {
+  const quote = await quoteVehicle(vehicle, start, end);
+  const subtotal = quote.totalPrice;
+
+  assertRentalLength(vehicle, quote.days);
+
+  const addOns = await priceAddOns(options.addOns || [], vehicle.id, start, end, quote.days);
+  const addOnsTotal = addOns.reduce((sum, addOn) => sum + addOn.amount, 0);
+
+  const plan = options.protectionPlan || getDefaultProtectionPlan();
+  const protection = { plan, amount: calculateProtectionAmount(plan, quote.days) };
+
+  const fees = await priceFees(options.fees || [], quote.days);
+  const feesTotal = fees.reduce((sum, fee) => sum + fee.amount, 0);
+
+  let discount = 0;
+  let appliedPromoCode: AppliedPromoCode | null = null;
+
+  if (options.promoCode?.trim()) {
+    const redemption = await redeemPromoCode(options.promoCode, {
+      vehicleId: vehicle.id,
+      days: quote.days,
+      subtotal,
+      userId: options.userId
+    });
+    discount = redemption.discount;
+    appliedPromoCode = {
+      id: redemption.promoCode.id,
+      code: redemption.promoCode.code,
+      description: redemption.promoCode.description
+    };
+  }
+
+  const taxableAmount = subtotal - discount + addOnsTotal + protection.amount + feesTotal;
+  const taxes = await priceTaxes(taxableAmount);
+  const taxTotal = taxes.reduce((sum, tax) => sum + tax.amount, 0);
+
+  return {
+    quote,
+    discount,
+    promoCode: appliedPromoCode,
+    addOns,
+    addOnsTotal,
+    protection,
+    fees,
+    feesTotal,
+    taxes,
+    taxTotal,
+    totalPrice: taxableAmount + taxTotal
+  };
+}
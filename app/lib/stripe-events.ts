@@ -0,0 +1,409 @@
+import prisma from '@/app/lib/prisma';
+import Stripe from 'stripe';
+import { Booking, BookingStatus } from '@prisma/client';
+import stripe from '@/app/lib/stripe';
+import { transitionBookingStatus } from '@/app/lib/booking-lifecycle';
+import { canTransitionBookingStatus } from '@/app/lib/booking-status';
+import { completeModificationPayment, expireBookingModification } from '@/app/lib/booking-modifications';
+import { postBookingMessage } from '@/app/lib/booking-messages';
+import { handleDepositCanceled, placeDepositHold } from '@/app/lib/deposits';
+import { formatMoney } from '@/app/lib/currency';
+import {
+  DEPOSIT_METADATA_TYPE,
+  findPaymentForIntent,
+  isBookingFullyRefunded,
+  recordCheckoutPayment,
+  recordRefundEntry,
+  refundedStatus,
+  stripeId,
+  syncChargeEntry,
+  syncRefundEntries,
+  upsertLedgerEntry
+} from '@/app/lib/payments';
+
+/**
+ * Stripe webhook event handlers
+ *
+ * The webhook route verifies the signature and hands the event over here.
+ * Payment problems (failures, refunds, disputes) are written to the booking's
+ * payment record and ledger, and posted to the booking thread so admins see them.
+ */
+
+// Statuses a paid booking can already be in when its checkout event is redelivered
+const PAID_BOOKING_STATUSES: BookingStatus[] = ['confirmed', 'active', 'completed'];
+
+/**
+ * Give back a checkout payment that arrived after its booking was cancelled,
+ * e.g. a payment link paid after an admin cancelled the booking, and tell the
+ * admins in the booking thread.
+ */
+async function refundLatePayment(booking: Booking, checkoutSession: Stripe.Checkout.Session) {
+  const paymentIntentId = stripeId(checkoutSession.payment_intent);
+  const amount = checkoutSession.amount_total || 0;
+  let refunded = false;
+
+  if (paymentIntentId) {
+    try {
+      const refund = await stripe.refunds.create({
+        payment_intent: paymentIntentId,
+        metadata: { bookingId: booking.id, reason: 'booking_no_longer_payable' }
+      }, {
+        idempotencyKey: `booking-late-payment-${checkoutSession.id}`
+      });
+      await recordRefundEntry(refund);
+      refunded = true;
+    } catch (error) {
+      console.error(`Webhook: Error refunding late payment for booking ${booking.id}:`, error);
+    }
+  }
+
+  await postBookingMessage(
+    booking,
+    `Payment update: a payment of ${formatMoney(amount, checkoutSession.currency || booking.currency)} was received after this booking was ${booking.status.replace(/_/g, ' ')}. ${refunded ? 'It has been refunded in full to the original payment method.' : 'It could not be refunded automatically and needs to be refunded manually.'}`
+  );
+}
+
+// Confirm a paid booking and send the welcome message
+async function confirmPaidBooking(
+  bookingId: string,
+  userId: string | undefined,
+  checkoutSession: Stripe.Checkout.Session
+) {
+  console.log(`Webhook: Processing booking ${bookingId} for user ${userId}`);
+
+  // First, get the booking with vehicle details
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    include: { vehicle: true }
+  });
+
+  if (!booking) {
+    console.log(`Webhook: No booking found for ID ${bookingId}`);
+    return;
+  }
+
+  console.log(`Webhook: Found booking for ${booking.vehicle.model}`);
+
+  // Update booking status; only unpaid bookings can be confirmed by payment
+  const confirmed = await transitionBookingStatus(bookingId, 'confirmed', {
+    fromStatus: 'pending',
+    note: 'Payment received via Stripe checkout'
+  });
+
+  if (!confirmed) {
+    const current = await prisma.booking.findUniqueOrThrow({ where: { id: bookingId } });
+    console.log(`Webhook: Booking ${bookingId} is ${current.status}, not confirming`);
+
+    // Paid for a booking that was cancelled (or otherwise closed) in the meantime
+    if (!PAID_BOOKING_STATUSES.includes(current.status)) {
+      await refundLatePayment(current, checkoutSession);
+    }
+    return;
+  }
+  console.log(`Webhook: Updated booking status to confirmed`);
+
+  // Calculate number of days for the booking
+  const startDate = new Date(booking.startDate);
+  const endDate = new Date(booking.endDate);
+  const days = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
+
+  // Create welcome message from admin
+  const message = await prisma.message.create({
+    data: {
+      content: `Thank you for choosing RideReady! We're thrilled you'll be experiencing our ${booking.vehicle.model}. Your reservation for ${days} days has been confirmed. If you have any questions before your trip, feel free to message us here. We look forward to getting you on the road in style!`,
+      bookingId: bookingId,
+      userId: booking.userId,
+      isAdminMessage: true
+    }
+  });
+  console.log(`Webhook: Created welcome message ${message.id}`);
+}
+
+// Money for a checkout session has arrived: confirm the booking or apply the modification
+async function handleCheckoutPaid(checkoutSession: Stripe.Checkout.Session) {
+  const bookingId = checkoutSession.metadata?.bookingId;
+
+  if (!bookingId) {
+    console.log('Webhook: No booking metadata found in session');
+    return;
+  }
+
+  await recordCheckoutPayment(checkoutSession, bookingId);
+
+  // Payments for date changes and extensions update an existing booking instead
+  if (checkoutSession.metadata?.modificationId) {
+    console.log(`Webhook: Applying booking modification ${checkoutSession.metadata.modificationId}`);
+    await completeModificationPayment(checkoutSession.metadata.modificationId);
+    return;
+  }
+
+  await confirmPaidBooking(bookingId, checkoutSession.metadata?.userId, checkoutSession);
+
+  // Authorize the security deposit on the card that was just saved if pickup is close; the cron does it otherwise
+  await placeDepositHold(bookingId, checkoutSession);
+}
+
+async function handleCheckoutCompleted(checkoutSession: Stripe.Checkout.Session) {
+  if (checkoutSession.payment_status !== 'unpaid') {
+    await handleCheckoutPaid(checkoutSession);
+    return;
+  }
+
+  // Delayed payment methods (e.g. bank debits) complete the session before the
+  // money arrives. Keep holding the dates until the async payment event.
+  const bookingId = checkoutSession.metadata?.bookingId;
+  if (!bookingId) {
+    return;
+  }
+
+  await recordCheckoutPayment(checkoutSession, bookingId);
+
+  if (!checkoutSession.metadata?.modificationId) {
+    await prisma.booking.updateMany({
+      where: { id: bookingId, status: 'pending' },
+      data: { holdExpiresAt: null }
+    });
+  }
+
+  console.log(`Webhook: Checkout for booking ${bookingId} completed, payment still processing`);
+}
+
+async function handleCheckoutExpired(checkoutSession: Stripe.Checkout.Session) {
+  if (checkoutSession.metadata?.modificationId) {
+    await expireBookingModification(checkoutSession.metadata.modificationId);
+  } else if (checkoutSession.metadata?.bookingId) {
+    await transitionBookingStatus(checkoutSession.metadata.bookingId, 'cancelled', {
+      fromStatus: 'pending',
+      note: 'Stripe checkout session expired'
+    });
+  }
+}
+
+async function handleAsyncPaymentFailed(checkoutSession: Stripe.Checkout.Session) {
+  const bookingId = checkoutSession.metadata?.bookingId;
+
+  if (!bookingId) {
+    return;
+  }
+
+  const failedPayment = await prisma.payment.findUnique({
+    where: { stripeCheckoutSessionId: checkoutSession.id }
+  });
+
+  if (failedPayment) {
+    await syncChargeEntry(await prisma.payment.update({
+      where: { id: failedPayment.id },
+      data: { status: 'failed', failureMessage: 'Delayed payment failed' }
+    }));
+  }
+
+  const booking = await prisma.booking.findUnique({ where: { id: bookingId } });
+  if (!booking) {
+    return;
+  }
+
+  if (checkoutSession.metadata?.modificationId) {
+    await expireBookingModification(checkoutSession.metadata.modificationId, 'failed');
+    await postBookingMessage(booking, 'Payment update: the payment for your requested booking change failed, so your booking keeps its current dates.');
+    return;
+  }
+
+  await transitionBookingStatus(bookingId, 'cancelled', {
+    fromStatus: 'pending',
+    note: 'Delayed payment failed'
+  });
+  await postBookingMessage(booking, 'Payment update: your payment could not be completed, so this booking has been cancelled and the dates released. Please book again with a different payment method.');
+}
+
+async function handlePaymentFailed(paymentIntent: Stripe.PaymentIntent) {
+  const payment = await findPaymentForIntent(paymentIntent.id);
+
+  if (!payment) {
+    return;
+  }
+
+  const reason = paymentIntent.last_payment_error?.message || 'Payment failed';
+
+  await syncChargeEntry(await prisma.payment.update({
+    where: { id: payment.id },
+    data: { status: 'failed', failureMessage: reason }
+  }));
+
+  // The customer can usually retry in checkout, so the booking itself is left alone
+  await postBookingMessage(
+    payment.booking,
+    `Payment update: a payment attempt of ${formatMoney(paymentIntent.amount, paymentIntent.currency)} failed (${reason}).`
+  );
+}
+
+async function handleChargeRefunded(charge: Stripe.Charge) {
+  const paymentIntentId = stripeId(charge.payment_intent);
+  const payment = paymentIntentId ? await findPaymentForIntent(paymentIntentId) : null;
+
+  if (!payment) {
+    console.log(`Webhook: No booking payment found for refunded charge ${charge.id}`);
+    return;
+  }
+
+  const newlyRefunded = charge.amount_refunded - payment.amountRefunded;
+
+  const updatedPayment = await prisma.payment.update({
+    where: { id: payment.id },
+    data: {
+      stripeChargeId: charge.id,
+      amountRefunded: charge.amount_refunded,
+      status: payment.status === 'disputed' ? 'disputed' : refundedStatus(charge.amount, charge.amount_refunded)
+    }
+  });
+
+  // One ledger line per refund, whichever part of the app (or the Stripe dashboard) issued it
+  await syncRefundEntries(updatedPayment);
+
+  // Once everything paid for the booking has gone back, mark it refunded
+  const booking = payment.booking;
+  if (await isBookingFullyRefunded(booking.id) && canTransitionBookingStatus(booking.status, 'refunded')) {
+    await transitionBookingStatus(booking.id, 'refunded', {
+      note: 'All payments refunded in Stripe'
+    });
+  }
+
+  if (newlyRefunded > 0) {
+    await postBookingMessage(
+      booking,
+      `Payment update: ${formatMoney(newlyRefunded, charge.currency)} has been refunded (${formatMoney(charge.amount_refunded, charge.currency)} of ${formatMoney(charge.amount, charge.currency)} refunded in total).`
+    );
+  }
+}
+
+async function handlePaymentIntentCanceled(paymentIntent: Stripe.PaymentIntent) {
+  if (paymentIntent.metadata?.type === DEPOSIT_METADATA_TYPE) {
+    await handleDepositCanceled(paymentIntent);
+  }
+}
+
+async function handleRefundUpdated(refund: Stripe.Refund) {
+  // Keeps the ledger line right when a refund later fails or is cancelled
+  await recordRefundEntry(refund);
+}
+
+async function handleDisputeCreated(dispute: Stripe.Dispute) {
+  const paymentIntentId = stripeId(dispute.payment_intent);
+  const payment = paymentIntentId ? await findPaymentForIntent(paymentIntentId) : null;
+
+  if (!payment) {
+    console.log(`Webhook: No booking payment found for dispute ${dispute.id}`);
+    return;
+  }
+
+  await prisma.payment.update({
+    where: { id: payment.id },
+    data: {
+      stripeChargeId: stripeId(dispute.charge),
+      status: 'disputed',
+      disputeStatus: dispute.status
+    }
+  });
+
+  await postBookingMessage(
+    payment.booking,
+    `Payment update: a dispute for ${formatMoney(dispute.amount, dispute.currency)} was opened with the card issuer (reason: ${dispute.reason.replace(/_/g, ' ')}). Our team will respond to it.`
+  );
+}
+
+async function handleDisputeClosed(dispute: Stripe.Dispute) {
+  const paymentIntentId = stripeId(dispute.payment_intent);
+  const payment = paymentIntentId ? await findPaymentForIntent(paymentIntentId) : null;
+
+  if (!payment) {
+    console.log(`Webhook: No booking payment found for dispute ${dispute.id}`);
+    return;
+  }
+
+  const lost = dispute.status === 'lost';
+
+  await prisma.payment.update({
+    where: { id: payment.id },
+    data: {
+      status: lost ? 'dispute_lost' : refundedStatus(payment.amount, payment.amountRefunded),
+      disputeStatus: dispute.status
+    }
+  });
+
+  // A lost dispute returns the money to the customer
+  if (lost) {
+    await upsertLedgerEntry({
+      bookingId: payment.bookingId,
+      paymentId: payment.id,
+      type: 'adjustment',
+      amount: -dispute.amount,
+      currency: dispute.currency,
+      stripePaymentIntentId: paymentIntentId,
+      stripeObjectId: dispute.id,
+      description: 'Chargeback: dispute lost'
+    });
+  }
+
+  const booking = payment.booking;
+  if (lost && await isBookingFullyRefunded(booking.id) && canTransitionBookingStatus(booking.status, 'refunded')) {
+    await transitionBookingStatus(booking.id, 'refunded', {
+      note: 'Payment dispute lost'
+    });
+  }
+
+  await postBookingMessage(
+    booking,
+    `Payment update: the dispute for ${formatMoney(dispute.amount, dispute.currency)} has been closed (${dispute.status.replace(/_/g, ' ')}).`
+  );
+}
+
+/**
+ * Apply a verified Stripe event.
+ * Throws if handling fails so the caller can report it to Stripe for a retry.
+ */
+export async function handleStripeEvent(event: Stripe.Event) {
+  switch (event.type) {
+    case 'checkout.session.completed':
+      console.log('Webhook: checkout.session.completed event received');
+      await handleCheckoutCompleted(event.data.object);
+      break;
+
+    case 'checkout.session.async_payment_succeeded':
+      await handleCheckoutPaid(event.data.object);
+      break;
+
+    case 'checkout.session.async_payment_failed':
+      await handleAsyncPaymentFailed(event.data.object);
+      break;
+
+    case 'checkout.session.expired':
+      await handleCheckoutExpired(event.data.object);
+      break;
+
+    case 'payment_intent.payment_failed':
+      await handlePaymentFailed(event.data.object);
+      break;
+
+    case 'payment_intent.canceled':
+      await handlePaymentIntentCanceled(event.data.object);
+      break;
+
+    case 'charge.refunded':
+      await handleChargeRefunded(event.data.object);
+      break;
+
+    case 'charge.refund.updated':
+      await handleRefundUpdated(event.data.object);
+      break;
+
+    case 'charge.dispute.created':
+      await handleDisputeCreated(event.data.object);
+      break;
+
+    case 'charge.dispute.closed':
+      await handleDisputeClosed(event.data.object);
+      break;
+
+    default:
+      console.log(`Unhandled event type ${event.type}`);
+  }
+}
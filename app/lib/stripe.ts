@@ -0,0 +1,23 @@
+import Stripe from 'stripe';
+
+/**
+ * Shared Stripe client for server-side helpers in app/lib
+ */
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+  apiVersion: '2025-04-30.basil',
+});
+
+export default stripe;
+
+// Get the PaymentIntent id behind a checkout session, if the customer paid
+export async function getCheckoutPaymentIntentId(sessionId: string): Promise<string | null> {
+  const checkoutSession = await stripe.checkout.sessions.retrieve(sessionId);
+
+  if (!checkoutSession.payment_intent) {
+    return null;
+  }
+
+  return typeof checkoutSession.payment_intent === 'string'
+    ? checkoutSession.payment_intent
+    : checkoutSession.payment_intent.id;
+}
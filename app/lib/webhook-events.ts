@@ -0,0 +1,94 @@
+import prisma from '@/app/lib/prisma';
+import Stripe from 'stripe';
+import { Prisma, WebhookEvent } from '@prisma/client';
+import { handleStripeEvent } from '@/app/lib/stripe-events';
+
+/**
+ * Stripe webhook event log
+ *
+ * Every verified event is stored by its Stripe event id before it is handled.
+ * Stripe delivers events at least once, so an id that was already processed is
+ * skipped. Failed events keep their error and can be replayed from the admin.
+ */
+
+// A processing claim older than this is assumed to belong to a crashed request
+export const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+export type WebhookProcessResult = 'processed' | 'duplicate' | 'in_progress' | 'failed';
+
+// Store the event if we haven't seen it yet; returns the stored record
+export async function recordWebhookEvent(event: Stripe.Event) {
+  const existing = await prisma.webhookEvent.findUnique({ where: { id: event.id } });
+
+  if (existing) {
+    return existing;
+  }
+
+  try {
+    return await prisma.webhookEvent.create({
+      data: {
+        id: event.id,
+        type: event.type,
+        payload: event as unknown as Prisma.InputJsonValue
+      }
+    });
+  } catch (error) {
+    // A concurrent delivery of the same event stored it first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return prisma.webhookEvent.findUniqueOrThrow({ where: { id: event.id } });
+    }
+    throw error;
+  }
+}
+
+// Whether an admin can replay the event: it failed, or its processing claim went stale
+export function isReplayable(webhookEvent: Pick<WebhookEvent, 'status' | 'updatedAt'>, now: Date = new Date()): boolean {
+  return webhookEvent.status === 'failed' ||
+    (webhookEvent.status === 'processing' && webhookEvent.updatedAt.getTime() < now.getTime() - STALE_PROCESSING_MS);
+}
+
+/**
+ * Run the handler for a stored event.
+ * The event is claimed first so two deliveries (or a delivery and an admin
+ * replay) never apply it at the same time.
+ */
+export async function processWebhookEvent(eventId: string): Promise<WebhookProcessResult> {
+  const claimed = await prisma.webhookEvent.updateMany({
+    where: {
+      id: eventId,
+      OR: [
+        { status: { in: ['received', 'failed'] } },
+        { status: 'processing', updatedAt: { lt: new Date(Date.now() - STALE_PROCESSING_MS) } }
+      ]
+    },
+    data: { status: 'processing', attempts: { increment: 1 } }
+  });
+
+  if (claimed.count === 0) {
+    const current = await prisma.webhookEvent.findUnique({ where: { id: eventId } });
+    return current?.status === 'processed' ? 'duplicate' : 'in_progress';
+  }
+
+  const webhookEvent = await prisma.webhookEvent.findUniqueOrThrow({ where: { id: eventId } });
+
+  try {
+    await handleStripeEvent(webhookEvent.payload as unknown as Stripe.Event);
+  } catch (error) {
+    console.error(`Webhook: Error handling ${webhookEvent.type} event ${eventId}:`, error);
+
+    await prisma.webhookEvent.update({
+      where: { id: eventId },
+      data: {
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error)
+      }
+    });
+    return 'failed';
+  }
+
+  await prisma.webhookEvent.update({
+    where: { id: eventId },
+    data: { status: 'processed', error: null, processedAt: new Date() }
+  });
+  return 'processed';
+}
@@ -0,0 +1,332 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Image from 'next/image';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { IdCardIcon, UploadIcon } from 'lucide-react';
+import { Button } from '@/app/components/ui/button';
+import { Input } from '@/app/components/ui/input';
+import { Label } from '@/app/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/app/components/ui/card';
+import { Skeleton } from '@/app/components/ui/skeleton';
+import { LICENSE_STATUS_LABELS, MINIMUM_RENTER_AGE } from '@/app/lib/license-rules';
+
+type LicenseStatus = keyof typeof LICENSE_STATUS_LABELS;
+type LicenseSide = 'front' | 'back';
+
+// The user's license as /api/user/license returns it
+interface License {
+  licenseNumber: string | null;
+  licenseCountry: string | null;
+  licenseRegion: string | null;
+  licenseExpiry: string | null;
+  dateOfBirth: string | null;
+  licenseFrontImage: string | null;
+  licenseBackImage: string | null;
+  licenseStatus: LicenseStatus | null;
+  licenseSubmittedAt: string | null;
+  licenseReviewedAt: string | null;
+  licenseRejectionReason: string | null;
+}
+
+// Values of the license form, as the inputs hold them
+interface LicenseForm {
+  licenseNumber: string;
+  licenseCountry: string;
+  licenseRegion: string;
+  licenseExpiry: string;
+  dateOfBirth: string;
+  licenseFrontImage: string;
+  licenseBackImage: string;
+}
+
+const STATUS_STYLES: Record<LicenseStatus, string> = {
+  pending: 'bg-yellow-50 border-yellow-200 text-yellow-800',
+  approved: 'bg-green-50 border-green-200 text-green-800',
+  rejected: 'bg-red-50 border-red-200 text-red-700'
+};
+
+// Date inputs hold 'yyyy-MM-dd'
+const toDateInput = (value: string | null) => (value ? format(new Date(value), 'yyyy-MM-dd') : '');
+
+function formFrom(license: License | null): LicenseForm {
+  return {
+    licenseNumber: license?.licenseNumber || '',
+    licenseCountry: license?.licenseCountry || '',
+    licenseRegion: license?.licenseRegion || '',
+    licenseExpiry: toDateInput(license?.licenseExpiry ?? null),
+    dateOfBirth: toDateInput(license?.dateOfBirth ?? null),
+    licenseFrontImage: license?.licenseFrontImage || '',
+    licenseBackImage: license?.licenseBackImage || ''
+  };
+}
+
+export default function LicensePage() {
+  const { status } = useSession();
+  const router = useRouter();
+  const [license, setLicense] = useState<License | null>(null);
+  const [form, setForm] = useState<LicenseForm>(formFrom(null));
+  // Previews of photos picked on this visit; saved ones load from the API
+  const [previews, setPreviews] = useState<Partial<Record<LicenseSide, string>>>({});
+  const [uploading, setUploading] = useState<LicenseSide | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login?callbackUrl=/license');
+      return;
+    }
+
+    if (status === 'authenticated') {
+      fetchLicense();
+    }
+  }, [status, router]);
+
+  const fetchLicense = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/user/license');
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch driver\'s license');
+      }
+
+      const data = await response.json();
+      setLicense(data.license);
+      setForm(formFrom(data.license));
+    } catch (err) {
+      console.error('Error fetching driver\'s license:', err);
+      setError('Failed to load your driver\'s license. Please try again later.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateForm = (changes: Partial<LicenseForm>) => {
+    setForm(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleUpload = async (side: LicenseSide, file: File | undefined) => {
+    if (!file) return;
+
+    setUploading(side);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('purpose', 'license');
+
+      const response = await fetch('/api/upload', { method: 'POST', body: formData });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to upload photo');
+      }
+
+      updateForm(side === 'front' ? { licenseFrontImage: data.fileName } : { licenseBackImage: data.fileName });
+      setPreviews(prev => ({ ...prev, [side]: URL.createObjectURL(file) }));
+    } catch (err) {
+      console.error('Error uploading license photo:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to upload photo');
+    } finally {
+      setUploading(null);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/user/license', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form)
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to submit driver\'s license');
+      }
+
+      setLicense(data.license);
+      setForm(formFrom(data.license));
+      setPreviews({});
+      toast.success('Driver\'s license submitted for review');
+    } catch (err) {
+      console.error('Error submitting driver\'s license:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to submit driver\'s license');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Photo picked on this visit, else the saved one
+  const imageSrc = (side: LicenseSide) => {
+    if (previews[side]) return previews[side];
+    const saved = side === 'front' ? license?.licenseFrontImage : license?.licenseBackImage;
+    return saved ? `/api/user/license/image?side=${side}&v=${saved}` : null;
+  };
+
+  if (status === 'loading' || isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-3xl">
+        <h1 className="text-2xl font-bold mb-6">My Driver&apos;s License</h1>
+        <Skeleton className="h-16 w-full mb-6" />
+        <Skeleton className="h-96 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-3xl">
+      <h1 className="text-2xl font-bold mb-6">My Driver&apos;s License</h1>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-6">
+          {error}
+        </div>
+      )}
+
+      {license?.licenseStatus ? (
+        <div className={`border px-4 py-3 rounded mb-6 ${STATUS_STYLES[license.licenseStatus]}`}>
+          <p className="font-medium">{LICENSE_STATUS_LABELS[license.licenseStatus]}</p>
+          {license.licenseStatus === 'pending' && (
+            <p className="text-sm">
+              Submitted {license.licenseSubmittedAt && format(new Date(license.licenseSubmittedAt), 'MMM d, yyyy')}.
+              We&apos;ll email you once it has been reviewed; you can book as soon as it is approved.
+            </p>
+          )}
+          {license.licenseStatus === 'approved' && (
+            <p className="text-sm">
+              You&apos;re verified to rent until your license expires
+              {license.licenseExpiry && ` on ${format(new Date(license.licenseExpiry), 'MMM d, yyyy')}`}.
+              Changing your details below sends them for review again.
+            </p>
+          )}
+          {license.licenseStatus === 'rejected' && (
+            <p className="text-sm">
+              {license.licenseRejectionReason} Please correct your details and submit them again.
+            </p>
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-600 mb-6">
+          Add your driver&apos;s license to start booking. Renters must be at least {MINIMUM_RENTER_AGE} years
+          old and hold a license that is valid for the whole rental.
+        </p>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <IdCardIcon className="h-5 w-5 mr-2" />
+            License Details
+          </CardTitle>
+          <CardDescription>Enter the details exactly as they appear on your license.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="licenseNumber">License number</Label>
+                <Input
+                  id="licenseNumber"
+                  value={form.licenseNumber}
+                  onChange={(e) => updateForm({ licenseNumber: e.target.value })}
+                  maxLength={50}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="dateOfBirth">Date of birth</Label>
+                <Input
+                  id="dateOfBirth"
+                  type="date"
+                  value={form.dateOfBirth}
+                  onChange={(e) => updateForm({ dateOfBirth: e.target.value })}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="licenseCountry">Issuing country</Label>
+                <Input
+                  id="licenseCountry"
+                  value={form.licenseCountry}
+                  onChange={(e) => updateForm({ licenseCountry: e.target.value })}
+                  placeholder="e.g., Canada"
+                  maxLength={100}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="licenseRegion">Province / state</Label>
+                <Input
+                  id="licenseRegion"
+                  value={form.licenseRegion}
+                  onChange={(e) => updateForm({ licenseRegion: e.target.value })}
+                  placeholder="e.g., Ontario"
+                  maxLength={100}
+                />
+              </div>
+              <div>
+                <Label htmlFor="licenseExpiry">Expiry date</Label>
+                <Input
+                  id="licenseExpiry"
+                  type="date"
+                  value={form.licenseExpiry}
+                  onChange={(e) => updateForm({ licenseExpiry: e.target.value })}
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {(['front', 'back'] as LicenseSide[]).map(side => {
+                const src = imageSrc(side);
+                return (
+                  <div key={side}>
+                    <Label>{side === 'front' ? 'Front of license' : 'Back of license'}</Label>
+                    <div className="mt-1 border rounded-md h-40 relative flex items-center justify-center bg-gray-50 overflow-hidden">
+                      {src ? (
+                        // Served only with the user's session cookie, which the image optimizer doesn't send
+                        <Image src={src} alt={`${side} of driver's license`} fill unoptimized className="object-contain" />
+                      ) : (
+                        <span className="text-sm text-gray-400">No photo yet</span>
+                      )}
+                    </div>
+                    <label className="mt-2 inline-flex items-center text-sm text-red-600 hover:text-red-800 cursor-pointer">
+                      <UploadIcon className="h-4 w-4 mr-1" />
+                      {uploading === side ? 'Uploading...' : src ? 'Replace photo' : 'Upload photo'}
+                      <input
+                        type="file"
+                        accept="image/jpeg,image/png,image/webp"
+                        className="hidden"
+                        disabled={uploading !== null}
+                        onChange={(e) => handleUpload(side, e.target.files?.[0])}
+                      />
+                    </label>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="flex justify-end">
+              <Button
+                type="submit"
+                className="bg-red-600 hover:bg-red-700"
+                disabled={isSaving || uploading !== null || !form.licenseFrontImage || !form.licenseBackImage}
+              >
+                {isSaving ? 'Submitting...' : 'Submit for Review'}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
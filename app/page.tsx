@@ -9,7 +9,7 @@ const mockVehicles = [
     model: "Model X Long Range",
     image: "/model_x.png",
     description: "Spacious SUV with 348mi range, falcon wing doors, and 0-60 in 3.8s.",
-    pricePerDay: 5,
+    pricePerDay: 500,
     seats: 7,
     range: "348 miles",
     acceleration: "0-60 in 3.8s",
@@ -20,7 +20,7 @@ const mockVehicles = [
     model: "Model S Plaid",
     image: "/model_s.png",
     description: "Luxury sedan with 390mi range, 200mph top speed, and 0-60 in 1.99s.",
-    pricePerDay: 5,
+    pricePerDay: 500,
     seats: 5,
     range: "390 miles",
     acceleration: "0-60 in 1.99s",
@@ -31,7 +31,7 @@ const mockVehicles = [
     model: "Model 3 Performance",
     image: "/model_3.png",
     description: "Sporty sedan with 315mi range, 162mph top speed, and 0-60 in 3.1s.",
-    pricePerDay: 5,
+    pricePerDay: 500,
     seats: 5,
     range: "315 miles",
     acceleration: "0-60 in 3.1s",
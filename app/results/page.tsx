@@ -24,26 +24,25 @@ import { useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import Image from 'next/image';
 import { toast } from "sonner";
-import VehicleAvailabilityCalendar from '../components/vehicles/VehicleAvailabilityCalendar';
+import VehicleAvailabilityCalendar, { type CalendarBooking } from '../components/vehicles/VehicleAvailabilityCalendar';
+import { formatMoney } from '../lib/currency';
 
 interface Vehicle {
   id: string;
   model: string;
   description: string;
   pricePerDay: number;
+  // Quote for the searched dates, before add-ons, fees and tax
+  totalPrice: number;
   image: string;
+  minRentalDays: number;
+  maxRentalDays: number | null;
 }
 
-interface Booking {
+interface TimeOffPeriod {
   id: string;
-  vehicleId: string;
   startDate: Date;
   endDate: Date;
-  status: string;
-  totalPrice: number;
-  createdAt: Date;
-  updatedAt: Date;
-  userId: string;
 }
 
 function ResultsContent() {
@@ -54,7 +53,8 @@ function ResultsContent() {
   const [loading, setLoading] = useState(true);
   const [isBooking, setIsBooking] = useState<string | null>(null);
   // Using navigation to handle bookings elsewhere
-  const [vehicleBookings, setVehicleBookings] = useState<{[key: string]: Booking[]}>({});
+  const [vehicleBookings, setVehicleBookings] = useState<{[key: string]: CalendarBooking[]}>({});
+  const [vehicleTimeOffs, setVehicleTimeOffs] = useState<{[key: string]: TimeOffPeriod[]}>({});
   const [expandedVehicle, setExpandedVehicle] = useState<string | null>(null);
 
   useEffect(() => {
@@ -74,18 +74,23 @@ function ResultsContent() {
             const bookingsResponse = await fetch(`/api/vehicle-bookings/${vehicle.id}`);
             if (bookingsResponse.ok) {
               const bookingsData = await bookingsResponse.json();
-              return { vehicleId: vehicle.id, bookings: bookingsData.bookings };
+              return { vehicleId: vehicle.id, bookings: bookingsData.bookings, timeOffs: bookingsData.timeOffs || [] };
             }
-            return { vehicleId: vehicle.id, bookings: [] };
+            return { vehicleId: vehicle.id, bookings: [], timeOffs: [] };
           });
           
           const bookingsResults = await Promise.all(bookingsPromises);
           const bookingsMap = bookingsResults.reduce((acc, result) => {
             acc[result.vehicleId] = result.bookings;
             return acc;
-          }, {} as {[key: string]: Booking[]});
+          }, {} as {[key: string]: CalendarBooking[]});
+          const timeOffsMap = bookingsResults.reduce((acc, result) => {
+            acc[result.vehicleId] = result.timeOffs;
+            return acc;
+          }, {} as {[key: string]: TimeOffPeriod[]});
           
           setVehicleBookings(bookingsMap);
+          setVehicleTimeOffs(timeOffsMap);
         }
       } catch (error) {
         console.error(error);
@@ -119,6 +124,24 @@ function ResultsContent() {
         }),
       });
       
+      if (response.status === 409) {
+        // Someone else booked these dates first
+        const conflict = await response.json();
+        toast.error(conflict.error || 'These dates are no longer available');
+        setIsBooking(null);
+        return;
+      }
+      
+      if (response.status === 403) {
+        // The renter's driver's license isn't verified, has expired or they are too young
+        const blocked = await response.json();
+        toast.error(blocked.error || 'Please verify your driver\'s license before booking', {
+          action: { label: 'My License', onClick: () => { window.location.href = '/license'; } }
+        });
+        setIsBooking(null);
+        return;
+      }
+      
       if (!response.ok) {
         throw new Error('Failed to create checkout session');
       }
@@ -170,7 +193,10 @@ function ResultsContent() {
                     <h3 className="text-xl font-bold mb-2 text-gray-900">Tesla {vehicle.model}</h3>
                     <p className="text-gray-700 mb-4">{vehicle.description}</p>
                     <div className="flex justify-between items-center mb-4">
-                      <span className="text-lg font-bold text-gray-900"></span>
+                      <span className="text-lg font-bold text-gray-900">
+                        {formatMoney(vehicle.totalPrice)}
+                        <span className="ml-1 text-sm font-normal text-gray-500">for these dates</span>
+                      </span>
                       <div className="flex space-x-3">
                         <button 
                           onClick={() => toggleVehicleCalendar(vehicle.id)}
@@ -195,7 +221,10 @@ function ResultsContent() {
                           <VehicleAvailabilityCalendar 
                             vehicleId={vehicle.id} 
                             bookings={vehicleBookings[vehicle.id] || []}
+                            timeOffs={vehicleTimeOffs[vehicle.id] || []}
                             vehicleModel={vehicle.model}
+                            minRentalDays={vehicle.minRentalDays}
+                            maxRentalDays={vehicle.maxRentalDays}
                           />
                         </div>
                       </div>
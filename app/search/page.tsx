@@ -5,6 +5,7 @@ import { useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import Image from 'next/image';
 import { toast } from "sonner";
+import { formatMoney } from '@/app/lib/currency';
 
 interface Vehicle {
   id: string;
@@ -104,7 +105,7 @@ function SearchContent() {
                   <h3 className="text-xl font-bold mb-2 text-gray-900">Tesla {vehicle.model}</h3>
                   <p className="text-gray-800 mb-4">{vehicle.description}</p>
                   <div className="flex justify-between items-center">
-                    <span className="text-lg font-bold text-gray-900">${vehicle.pricePerDay}/day</span>
+                    <span className="text-lg font-bold text-gray-900">{formatMoney(vehicle.pricePerDay)}/day</span>
                     <Link href={`/booking?vehicleId=${vehicle.id}&startDate=${startDate}&endDate=${endDate}`}>
                       <span className="bg-red-600 hover:bg-red-700 text-white py-2 px-4 rounded-md">
                         Book Now
@@ -12,36 +12,45 @@ const mockVehicles = {
     model: "Model X Long Range",
     image: "/model_x.png",
     description: "Spacious SUV with 348mi range, falcon wing doors, and 0-60 in 3.8s.",
-    pricePerDay: 5,
+    pricePerDay: 500,
     seats: 7,
     range: "348 miles",
     acceleration: "0-60 in 3.8s",
+    minRentalDays: 1,
+    maxRentalDays: null,
     features: ["Autopilot", "Falcon Wing Doors", "Premium Sound", "Wireless Charging"],
-    bookings: []
+    bookings: [],
+    timeOffs: []
   },
   "2": {
     id: "2",
     model: "Model S Plaid",
     image: "/model_s.png",
     description: "Luxury sedan with 390mi range, 200mph top speed, and 0-60 in 1.99s.",
-    pricePerDay: 5,
+    pricePerDay: 500,
     seats: 5,
     range: "390 miles",
     acceleration: "0-60 in 1.99s",
+    minRentalDays: 1,
+    maxRentalDays: null,
     features: ["Autopilot", "Premium Interior", "Tri-Motor AWD", "1,020 hp"],
-    bookings: []
+    bookings: [],
+    timeOffs: []
   },
   "3": {
     id: "3",
     model: "Model 3 Performance",
     image: "/model_3.png",
     description: "Sporty sedan with 315mi range, 162mph top speed, and 0-60 in 3.1s.",
-    pricePerDay: 5,
+    pricePerDay: 500,
     seats: 5,
     range: "315 miles",
     acceleration: "0-60 in 3.1s",
+    minRentalDays: 1,
+    maxRentalDays: null,
     features: ["Autopilot", "Glass Roof", "Dual Motor AWD", "Performance Brakes"],
-    bookings: []
+    bookings: [],
+    timeOffs: []
   }
 };
 
@@ -64,6 +73,9 @@ export default async function VehicleDetailPage({ params }: VehicleDetailPagePro
       where: { id },
       include: {
         bookings: true, // Include bookings to display availability
+        timeOffs: {
+          select: { id: true, startDate: true, endDate: true }, // Block out-of-service periods
+        },
       },
     });
 
@@ -153,8 +165,11 @@ export default async function VehicleDetailPage({ params }: VehicleDetailPagePro
                 <VehicleAvailabilityCalendar 
                   vehicleId={vehicle.id} 
                   bookings={vehicle.bookings}
+                  timeOffs={vehicle.timeOffs}
                   vehicleModel={vehicle.model}
                   pricePerDay={vehicle.pricePerDay} 
+                  minRentalDays={vehicle.minRentalDays}
+                  maxRentalDays={vehicle.maxRentalDays}
                 />
               </div>
             </div>
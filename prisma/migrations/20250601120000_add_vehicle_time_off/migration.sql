@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "VehicleTimeOff" (
+    "id" TEXT NOT NULL,
+    "vehicleId" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "VehicleTimeOff_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "VehicleTimeOff_vehicleId_idx" ON "VehicleTimeOff"("vehicleId");
+
+-- AddForeignKey
+ALTER TABLE "VehicleTimeOff" ADD CONSTRAINT "VehicleTimeOff_vehicleId_fkey" FOREIGN KEY ("vehicleId") REFERENCES "Vehicle"("id") ON DELETE CASCADE ON UPDATE CASCADE;
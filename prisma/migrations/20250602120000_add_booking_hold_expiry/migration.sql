@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN     "holdExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "stripeSessionId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Booking_status_holdExpiresAt_idx" ON "Booking"("status", "holdExpiresAt");
+
+-- Give existing unpaid checkouts a hold so the sweeper can release them
+UPDATE "Booking" SET "holdExpiresAt" = "createdAt" + INTERVAL '30 minutes' WHERE "status" = 'pending';
@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "BookingStatus" AS ENUM ('pending', 'confirmed', 'active', 'completed', 'cancelled', 'no_show', 'refunded');
+
+-- Normalize legacy free-text statuses before the cast
+UPDATE "Booking" SET "status" = lower(trim("status"));
+UPDATE "Booking" SET "status" = 'no_show' WHERE "status" IN ('no-show', 'noshow');
+UPDATE "Booking" SET "status" = 'cancelled' WHERE "status" NOT IN ('pending', 'confirmed', 'active', 'completed', 'cancelled', 'no_show', 'refunded');
+
+-- AlterTable
+ALTER TABLE "Booking" ALTER COLUMN "status" DROP DEFAULT,
+ALTER COLUMN "status" TYPE "BookingStatus" USING ("status"::"BookingStatus"),
+ALTER COLUMN "status" SET DEFAULT 'pending';
+
+-- CreateTable
+CREATE TABLE "BookingStatusChange" (
+    "id" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "fromStatus" "BookingStatus",
+    "toStatus" "BookingStatus" NOT NULL,
+    "note" TEXT,
+    "changedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BookingStatusChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BookingStatusChange_bookingId_createdAt_idx" ON "BookingStatusChange"("bookingId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "BookingStatusChange" ADD CONSTRAINT "BookingStatusChange_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "Booking"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BookingStatusChange" ADD CONSTRAINT "BookingStatusChange_changedById_fkey" FOREIGN KEY ("changedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
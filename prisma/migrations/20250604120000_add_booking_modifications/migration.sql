@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "BookingModificationType" AS ENUM ('date_change', 'extension');
+
+-- CreateEnum
+CREATE TYPE "BookingModificationStatus" AS ENUM ('pending_payment', 'pending_approval', 'applied', 'declined', 'failed', 'expired');
+
+-- CreateTable
+CREATE TABLE "BookingModification" (
+    "id" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "type" "BookingModificationType" NOT NULL,
+    "status" "BookingModificationStatus" NOT NULL DEFAULT 'pending_payment',
+    "previousStartDate" TIMESTAMP(3) NOT NULL,
+    "previousEndDate" TIMESTAMP(3) NOT NULL,
+    "previousTotalPrice" INTEGER NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "totalPrice" INTEGER NOT NULL,
+    "priceDifference" INTEGER NOT NULL,
+    "stripeSessionId" TEXT,
+    "stripeRefundId" TEXT,
+    "requestedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BookingModification_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BookingModification_bookingId_idx" ON "BookingModification"("bookingId");
+
+-- AddForeignKey
+ALTER TABLE "BookingModification" ADD CONSTRAINT "BookingModification_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "Booking"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BookingModification" ADD CONSTRAINT "BookingModification_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
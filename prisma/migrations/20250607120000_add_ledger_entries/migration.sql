@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "LedgerEntryType" AS ENUM ('charge', 'refund', 'deposit_hold', 'deposit_capture', 'adjustment');
+
+-- CreateEnum
+CREATE TYPE "LedgerEntryStatus" AS ENUM ('pending', 'succeeded', 'failed', 'cancelled');
+
+-- CreateTable
+CREATE TABLE "LedgerEntry" (
+    "id" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "paymentId" TEXT,
+    "type" "LedgerEntryType" NOT NULL,
+    "status" "LedgerEntryStatus" NOT NULL DEFAULT 'succeeded',
+    "amount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'usd',
+    "stripePaymentIntentId" TEXT,
+    "stripeObjectId" TEXT,
+    "description" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LedgerEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_bookingId_createdAt_idx" ON "LedgerEntry"("bookingId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LedgerEntry_stripeObjectId_type_key" ON "LedgerEntry"("stripeObjectId", "type");
+
+-- AddForeignKey
+ALTER TABLE "LedgerEntry" ADD CONSTRAINT "LedgerEntry_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "Booking"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LedgerEntry" ADD CONSTRAINT "LedgerEntry_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "Payment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LedgerEntry" ADD CONSTRAINT "LedgerEntry_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,13 @@
+-- CreateEnum
+CREATE TYPE "DepositStatus" AS ENUM ('pending', 'held', 'failed', 'captured', 'released');
+
+-- AlterTable
+ALTER TABLE "Vehicle" ADD COLUMN     "securityDeposit" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN     "depositPaymentIntentId" TEXT,
+ADD COLUMN     "depositStatus" "DepositStatus",
+ADD COLUMN     "securityDeposit" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Booking_depositPaymentIntentId_key" ON "Booking"("depositPaymentIntentId");
@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "Vehicle" ADD COLUMN     "maxRentalDays" INTEGER,
+ADD COLUMN     "minRentalDays" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "StayDiscount" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "minDays" INTEGER NOT NULL,
+    "percentOff" DOUBLE PRECISION NOT NULL,
+    "applyToAll" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "StayDiscount_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_StayDiscountToVehicle" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_StayDiscountToVehicle_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE INDEX "_StayDiscountToVehicle_B_index" ON "_StayDiscountToVehicle"("B");
+
+-- AddForeignKey
+ALTER TABLE "_StayDiscountToVehicle" ADD CONSTRAINT "_StayDiscountToVehicle_A_fkey" FOREIGN KEY ("A") REFERENCES "StayDiscount"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_StayDiscountToVehicle" ADD CONSTRAINT "_StayDiscountToVehicle_B_fkey" FOREIGN KEY ("B") REFERENCES "Vehicle"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "SpecialPricing" ADD COLUMN     "daysOfWeek" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+ADD COLUMN     "priority" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "recurrence" TEXT NOT NULL DEFAULT 'none';
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Vehicle" ADD COLUMN     "dynamicPricing" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "priceCeiling" INTEGER,
+ADD COLUMN     "priceFloor" INTEGER;
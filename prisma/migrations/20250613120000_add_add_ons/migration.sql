@@ -0,0 +1,60 @@
+-- CreateTable
+CREATE TABLE "AddOn" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "priceType" TEXT NOT NULL DEFAULT 'per_day',
+    "price" INTEGER NOT NULL,
+    "inventory" INTEGER,
+    "maxQuantity" INTEGER NOT NULL DEFAULT 1,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "applyToAll" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AddOn_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BookingAddOn" (
+    "id" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "addOnId" TEXT,
+    "name" TEXT NOT NULL,
+    "priceType" TEXT NOT NULL,
+    "unitPrice" INTEGER NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BookingAddOn_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_AddOnToVehicle" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_AddOnToVehicle_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE INDEX "BookingAddOn_bookingId_idx" ON "BookingAddOn"("bookingId");
+
+-- CreateIndex
+CREATE INDEX "BookingAddOn_addOnId_idx" ON "BookingAddOn"("addOnId");
+
+-- CreateIndex
+CREATE INDEX "_AddOnToVehicle_B_index" ON "_AddOnToVehicle"("B");
+
+-- AddForeignKey
+ALTER TABLE "BookingAddOn" ADD CONSTRAINT "BookingAddOn_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "Booking"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BookingAddOn" ADD CONSTRAINT "BookingAddOn_addOnId_fkey" FOREIGN KEY ("addOnId") REFERENCES "AddOn"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_AddOnToVehicle" ADD CONSTRAINT "_AddOnToVehicle_A_fkey" FOREIGN KEY ("A") REFERENCES "AddOn"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_AddOnToVehicle" ADD CONSTRAINT "_AddOnToVehicle_B_fkey" FOREIGN KEY ("B") REFERENCES "Vehicle"("id") ON DELETE CASCADE ON UPDATE CASCADE;
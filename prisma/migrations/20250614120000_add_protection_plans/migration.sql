@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN     "deductible" INTEGER,
+ADD COLUMN     "protectionAmount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "protectionPerDay" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "protectionPlan" TEXT;
@@ -0,0 +1,82 @@
+-- AlterTable
+ALTER TABLE "BookingModification" ADD COLUMN     "taxAmount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "Fee" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "priceType" TEXT NOT NULL DEFAULT 'flat',
+    "price" INTEGER NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Fee_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BookingFee" (
+    "id" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "feeId" TEXT,
+    "name" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "priceType" TEXT NOT NULL,
+    "unitPrice" INTEGER NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BookingFee_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TaxRate" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "jurisdiction" TEXT NOT NULL,
+    "percentage" DOUBLE PRECISION NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TaxRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BookingTax" (
+    "id" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "taxRateId" TEXT,
+    "name" TEXT NOT NULL,
+    "percentage" DOUBLE PRECISION NOT NULL,
+    "taxableAmount" INTEGER NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BookingTax_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BookingFee_bookingId_idx" ON "BookingFee"("bookingId");
+
+-- CreateIndex
+CREATE INDEX "BookingFee_feeId_idx" ON "BookingFee"("feeId");
+
+-- CreateIndex
+CREATE INDEX "BookingTax_bookingId_idx" ON "BookingTax"("bookingId");
+
+-- CreateIndex
+CREATE INDEX "BookingTax_taxRateId_idx" ON "BookingTax"("taxRateId");
+
+-- AddForeignKey
+ALTER TABLE "BookingFee" ADD CONSTRAINT "BookingFee_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "Booking"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BookingFee" ADD CONSTRAINT "BookingFee_feeId_fkey" FOREIGN KEY ("feeId") REFERENCES "Fee"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BookingTax" ADD CONSTRAINT "BookingTax_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "Booking"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BookingTax" ADD CONSTRAINT "BookingTax_taxRateId_fkey" FOREIGN KEY ("taxRateId") REFERENCES "TaxRate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'usd';
+
+-- Convert whole-dollar amounts to minor units (cents)
+UPDATE "Vehicle" SET "pricePerDay" = "pricePerDay" * 100, "securityDeposit" = "securityDeposit" * 100, "priceFloor" = "priceFloor" * 100, "priceCeiling" = "priceCeiling" * 100;
+
+UPDATE "SpecialPricing" SET "priceValue" = "priceValue" * 100 WHERE "priceType" = 'fixed';
+
+UPDATE "PromoCode" SET "discountValue" = "discountValue" * 100 WHERE "discountType" = 'fixed';
+
+UPDATE "Booking" SET "totalPrice" = "totalPrice" * 100, "securityDeposit" = "securityDeposit" * 100, "discountAmount" = "discountAmount" * 100, "protectionPerDay" = "protectionPerDay" * 100, "protectionAmount" = "protectionAmount" * 100, "deductible" = "deductible" * 100;
+
+UPDATE "BookingModification" SET "previousTotalPrice" = "previousTotalPrice" * 100, "totalPrice" = "totalPrice" * 100, "discountAmount" = "discountAmount" * 100, "taxAmount" = "taxAmount" * 100, "priceDifference" = "priceDifference" * 100;
+
+UPDATE "AddOn" SET "price" = "price" * 100;
+
+UPDATE "BookingAddOn" SET "unitPrice" = "unitPrice" * 100, "amount" = "amount" * 100;
+
+UPDATE "Fee" SET "price" = "price" * 100;
+
+UPDATE "BookingFee" SET "unitPrice" = "unitPrice" * 100, "amount" = "amount" * 100;
+
+UPDATE "BookingTax" SET "taxableAmount" = "taxableAmount" * 100, "amount" = "amount" * 100;
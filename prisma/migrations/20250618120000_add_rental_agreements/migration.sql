@@ -0,0 +1,40 @@
+-- CreateTable
+CREATE TABLE "AgreementTemplate" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AgreementTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RentalAgreement" (
+    "id" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "templateId" TEXT,
+    "content" TEXT NOT NULL,
+    "signerName" TEXT,
+    "signature" JSONB,
+    "signedPdf" BYTEA,
+    "signedAt" TIMESTAMP(3),
+    "signedIp" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RentalAgreement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RentalAgreement_bookingId_key" ON "RentalAgreement"("bookingId");
+
+-- CreateIndex
+CREATE INDEX "RentalAgreement_templateId_idx" ON "RentalAgreement"("templateId");
+
+-- AddForeignKey
+ALTER TABLE "RentalAgreement" ADD CONSTRAINT "RentalAgreement_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "Booking"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RentalAgreement" ADD CONSTRAINT "RentalAgreement_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "AgreementTemplate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "LicenseStatus" AS ENUM ('pending', 'approved', 'rejected');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "dateOfBirth" TIMESTAMP(3),
+ADD COLUMN     "licenseBackImage" TEXT,
+ADD COLUMN     "licenseCountry" TEXT,
+ADD COLUMN     "licenseExpiry" TIMESTAMP(3),
+ADD COLUMN     "licenseFrontImage" TEXT,
+ADD COLUMN     "licenseNumber" TEXT,
+ADD COLUMN     "licenseRegion" TEXT,
+ADD COLUMN     "licenseRejectionReason" TEXT,
+ADD COLUMN     "licenseReviewedAt" TIMESTAMP(3),
+ADD COLUMN     "licenseReviewedById" TEXT,
+ADD COLUMN     "licenseStatus" "LicenseStatus",
+ADD COLUMN     "licenseSubmittedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "User_licenseStatus_licenseSubmittedAt_idx" ON "User"("licenseStatus", "licenseSubmittedAt");
+
+-- AddForeignKey
+ALTER TABLE "User" ADD CONSTRAINT "User_licenseReviewedById_fkey" FOREIGN KEY ("licenseReviewedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
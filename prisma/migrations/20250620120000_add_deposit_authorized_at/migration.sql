@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN     "depositAuthorizedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Booking_depositStatus_depositAuthorizedAt_idx" ON "Booking"("depositStatus", "depositAuthorizedAt");
+
+-- Backfill holds placed before this column existed from their ledger line
+UPDATE "Booking" b
+SET "depositAuthorizedAt" = l."createdAt"
+FROM "LedgerEntry" l
+WHERE b."depositStatus" = 'held'
+  AND l."type" = 'deposit_hold'
+  AND l."stripeObjectId" = b."depositPaymentIntentId";
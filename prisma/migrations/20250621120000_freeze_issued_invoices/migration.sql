@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "snapshot" JSONB;
+
+-- DropForeignKey
+ALTER TABLE "Invoice" DROP CONSTRAINT "Invoice_bookingId_fkey";
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "Booking"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
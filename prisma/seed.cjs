@@ -8,7 +8,7 @@ async function main() {
         model: "Model S Plaid",
         image: "/tesla-model-s.jpg",
         description: "Luxury sedan with 390mi range, 200mph top speed, and 0-60 in 1.99s.",
-        pricePerDay: 180,
+        pricePerDay: 18000,
         seats: 5,
         range: "390 miles",
         acceleration: "1.99 seconds 0-60 mph",
@@ -23,7 +23,7 @@ async function main() {
         model: "Model 3 Performance",
         image: "/tesla-model-3.jpg",
         description: "Sporty sedan with 315mi range, 162mph top speed, and 0-60 in 3.1s.",
-        pricePerDay: 140,
+        pricePerDay: 14000,
         seats: 5,
         range: "315 miles",
         acceleration: "3.1 seconds 0-60 mph",
@@ -38,7 +38,7 @@ async function main() {
         model: "Model X Long Range",
         image: "/tesla-model-x.jpg",
         description: "Spacious SUV with 348mi range, falcon wing doors, and 0-60 in 3.8s.",
-        pricePerDay: 200,
+        pricePerDay: 20000,
         seats: 7,
         range: "348 miles",
         acceleration: "3.8 seconds 0-60 mph",
@@ -52,6 +52,39 @@ async function main() {
     ]
   });
   console.log('Seeded vehicles!');
+
+  await prisma.stayDiscount.createMany({
+    data: [
+      { name: "Weekly", minDays: 7, percentOff: 10 },
+      { name: "Monthly", minDays: 28, percentOff: 25 }
+    ]
+  });
+  console.log('Seeded stay discounts!');
+
+  await prisma.addOn.createMany({
+    data: [
+      { name: "Child seat", description: "Forward or rear facing, installed before pickup", priceType: "per_day", price: 1500, inventory: 4, maxQuantity: 2 },
+      { name: "Extra driver", description: "Add a second licensed driver to the rental", priceType: "per_day", price: 1000 },
+      { name: "Full Self-Driving", priceType: "per_day", price: 2500 },
+      { name: "Unlimited Supercharging", description: "Return at any charge level", priceType: "flat", price: 6000 }
+    ]
+  });
+  console.log('Seeded add-ons!');
+
+  await prisma.fee.createMany({
+    data: [
+      { name: "Cleaning fee", kind: "cleaning", priceType: "flat", price: 4000 },
+      { name: "Delivery", kind: "delivery", priceType: "flat", price: 7500 },
+      { name: "Airport surcharge", kind: "airport", priceType: "flat", price: 3000 },
+      { name: "Young driver fee", kind: "young_driver", priceType: "per_day", price: 2500 }
+    ]
+  });
+  console.log('Seeded fees!');
+
+  await prisma.taxRate.create({
+    data: { name: "HST", jurisdiction: "ON", percentage: 13 }
+  });
+  console.log('Seeded tax rates!');
 }
 
 main()
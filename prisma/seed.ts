@@ -13,7 +13,7 @@ async function main() {
       model: 'Model X Long Range',
       image: '/tesla-model-x.jpg',
       description: 'Spacious SUV with 348mi range, falcon wing doors, and 0-60 in 3.8s.',
-      pricePerDay: 5,
+      pricePerDay: 500,
       seats: 7,
       range: '348 miles',
       acceleration: '0-60 in 3.8s',
@@ -23,7 +23,7 @@ async function main() {
       model: 'Model S Plaid',
       image: '/tesla-model-s.jpg',
       description: 'Luxury sedan with 390mi range, 200mph top speed, and 0-60 in 1.99s.',
-      pricePerDay: 5,
+      pricePerDay: 500,
       seats: 5,
       range: '390 miles',
       acceleration: '0-60 in 1.99s',
@@ -33,7 +33,7 @@ async function main() {
       model: 'Model 3 Performance',
       image: '/tesla-model-3.jpg',
       description: 'Sporty sedan with 315mi range, 162mph top speed, and 0-60 in 3.1s.',
-      pricePerDay: 5,
+      pricePerDay: 500,
       seats: 5,
       range: '315 miles',
       acceleration: '0-60 in 3.1s',
@@ -43,7 +43,7 @@ async function main() {
       model: 'Model Y Performance',
       image: '/tesla-model-y.jpg',
       description: 'Compact SUV with 303mi range, versatile seating, and 0-60 in 3.5s.',
-      pricePerDay: 5,
+      pricePerDay: 500,
       seats: 5,
       range: '303 miles',
       acceleration: '0-60 in 3.5s',
@@ -53,7 +53,7 @@ async function main() {
       model: 'Cybertruck',
       image: '/tesla-cybertruck.jpg',
       description: 'Futuristic pickup with 500+ mile range, bulletproof exterior, and 0-60 in 2.9s.',
-      pricePerDay: 7,
+      pricePerDay: 700,
       seats: 6,
       range: '500+ miles',
       acceleration: '0-60 in 2.9s',